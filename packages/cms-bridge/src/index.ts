@@ -2,7 +2,8 @@
  * @pageel/cms — Astro Integration
  *
  * Adds /cms admin route to your Astro site.
- * Auto-detects content collections and generates .pageelrc.json.
+ * Auto-detects content collections and generates .pageelrc.json,
+ * including frontmatter templates built from the collections' Zod schemas.
  *
  * Usage:
  *   // astro.config.mjs
@@ -12,9 +13,10 @@
  *   });
  */
 
-import type { AstroIntegration } from 'astro';
+import type { AstroIntegration, AstroIntegrationLogger } from 'astro';
 import { existsSync, readFileSync, writeFileSync, readdirSync, statSync } from 'node:fs';
 import { join, resolve } from 'node:path';
+import { readCollectionSchemas, schemaToTemplateFields, mergeTemplateFields } from './schema';
 
 export interface PageelCmsOptions {
   /** CMS backend URL (default: 'https://cms.pageel.app') */
@@ -58,16 +60,24 @@ function detectCollections(rootDir: string, contentDir: string): DetectedCollect
 }
 
 /**
- * Generate or sync .pageelrc.json
+ * Generate or sync .pageelrc.json. Collections with a generated schema get
+ * their `template` fields from it, merged into any hand-made template.
+ * Returns false when the file was already up to date (and left untouched).
  */
-function syncPageelConfig(rootDir: string, collections: DetectedCollection[]): void {
+function syncPageelConfig(
+  rootDir: string,
+  collections: DetectedCollection[],
+  schemas: Record<string, Record<string, any>> = {}
+): boolean {
   const configPath = join(rootDir, '.pageelrc.json');
   let config: Record<string, any> = { version: 2, collections: [], settings: {} };
+  let previous = '';
 
   // Merge with existing config
   if (existsSync(configPath)) {
     try {
-      config = JSON.parse(readFileSync(configPath, 'utf-8'));
+      previous = readFileSync(configPath, 'utf-8');
+      config = JSON.parse(previous);
     } catch {
       // Invalid JSON — overwrite
     }
@@ -82,6 +92,7 @@ function syncPageelConfig(rootDir: string, collections: DetectedCollection[]): v
     if (!existingNames.has(coll.name)) {
       config.collections = config.collections || [];
       config.collections.push({
+        id: coll.name,
         name: coll.name,
         postsPath: coll.path,
         imagesPath: `public/images/${coll.name}`,
@@ -90,8 +101,21 @@ function syncPageelConfig(rootDir: string, collections: DetectedCollection[]): v
     }
   }
 
+  const collectionNames = (config.collections || []).map((c: any) => c.id || c.name);
+  for (const entry of config.collections || []) {
+    const schema = schemas[entry.id] || schemas[entry.name];
+    if (!schema) continue;
+    entry.template = {
+      ...entry.template,
+      fields: mergeTemplateFields(entry.template?.fields, schemaToTemplateFields(schema, collectionNames)),
+    };
+  }
+
   config.version = 2;
-  writeFileSync(configPath, JSON.stringify(config, null, 2) + '\n', 'utf-8');
+  const next = JSON.stringify(config, null, 2) + '\n';
+  if (next === previous) return false;
+  writeFileSync(configPath, next, 'utf-8');
+  return true;
 }
 
 export default function pageelCms(options: PageelCmsOptions = {}): AstroIntegration {
@@ -102,6 +126,17 @@ export default function pageelCms(options: PageelCmsOptions = {}): AstroIntegrat
     contentDir = 'src/content',
   } = options;
 
+  let rootDir = process.cwd();
+
+  // Schemas are regenerated by `astro sync` after config setup, so the
+  // templates are refreshed again once the dev server or build starts.
+  const refreshSchemaTemplates = (logger: AstroIntegrationLogger) => {
+    const collections = detectCollections(rootDir, contentDir);
+    if (collections.length > 0 && syncPageelConfig(rootDir, collections, readCollectionSchemas(rootDir))) {
+      logger.info('Updated collection templates from content.config schemas');
+    }
+  };
+
   return {
     name: '@pageel/cms',
     hooks: {
@@ -117,17 +152,30 @@ export default function pageelCms(options: PageelCmsOptions = {}): AstroIntegrat
 
         // 4.3 + 4.4: Auto-detect and sync config
         if (autoConfig) {
-          const rootDir = config.root?.pathname || process.cwd();
+          rootDir = config.root?.pathname || process.cwd();
           const collections = detectCollections(rootDir, contentDir);
+          const schemas = readCollectionSchemas(rootDir);
           if (collections.length > 0) {
-            syncPageelConfig(rootDir, collections);
+            syncPageelConfig(rootDir, collections, schemas);
             logger.info(`Detected ${collections.length} collection(s): ${collections.map(c => c.name).join(', ')}`);
+            const withSchema = Object.keys(schemas).filter(name => collections.some(c => c.name === name));
+            if (withSchema.length > 0) {
+              logger.info(`Imported template fields from content.config schemas: ${withSchema.join(', ')}`);
+            }
           }
         }
       },
+      'astro:server:start': ({ logger }) => {
+        if (autoConfig) refreshSchemaTemplates(logger);
+      },
+      'astro:build:start': ({ logger }) => {
+        if (autoConfig) refreshSchemaTemplates(logger);
+      },
     },
   };
 }
 
 // Re-export for convenience
 export type { DetectedCollection };
+export type { SchemaTemplateField } from './schema';
+export { schemaToTemplateFields, mergeTemplateFields } from './schema';
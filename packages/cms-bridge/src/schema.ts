@@ -0,0 +1,198 @@
+/**
+ * Collection schema → CMS template
+ *
+ * `astro sync` (run by `astro dev` / `astro build`) writes the JSON Schema of
+ * every collection in `src/content.config.ts` to
+ * `.astro/collections/<name>.schema.json`. These helpers turn those schemas
+ * into the `template.fields` the CMS stores in `.pageelrc.json`, and merge
+ * them with templates edited by hand in the CMS.
+ */
+
+import { existsSync, readFileSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+
+/** Mirrors `TemplateField` in the CMS (`src/features/collections/types.ts`) */
+export interface SchemaTemplateField {
+  name: string;
+  type: string;
+  options?: string[];
+  collection?: string;
+  multiple?: boolean;
+  fields?: SchemaTemplateField[];
+  required?: boolean;
+  validation?: Record<string, unknown>;
+  defaultValue?: unknown;
+  description?: string;
+}
+
+type JsonSchema = Record<string, any>;
+
+const SCHEMA_DIR = '.astro/collections';
+const SCHEMA_SUFFIX = '.schema.json';
+
+/** Keys Astro adds for editor tooling, not frontmatter */
+const IGNORED_PROPERTIES = new Set(['$schema']);
+
+/**
+ * Read the JSON Schemas Astro generated for the project's collections,
+ * keyed by collection name. Empty until `astro sync` has run once.
+ */
+export function readCollectionSchemas(rootDir: string): Record<string, JsonSchema> {
+  const dir = join(rootDir, SCHEMA_DIR);
+  if (!existsSync(dir)) return {};
+
+  const schemas: Record<string, JsonSchema> = {};
+  for (const file of readdirSync(dir)) {
+    if (!file.endsWith(SCHEMA_SUFFIX)) continue;
+    try {
+      schemas[file.slice(0, -SCHEMA_SUFFIX.length)] = JSON.parse(readFileSync(join(dir, file), 'utf-8'));
+    } catch {
+      // Unreadable schema — the collection keeps its hand-made template
+    }
+  }
+  return schemas;
+}
+
+/** Follow a local `$ref` (`#/$defs/x` or `#/definitions/x`) */
+function resolveRef(schema: JsonSchema, root: JsonSchema): JsonSchema {
+  let current = schema;
+  for (let depth = 0; current?.$ref && depth < 10; depth++) {
+    const path = String(current.$ref).replace(/^#\//, '').split('/');
+    current = path.reduce<any>((node, key) => node?.[key], root) ?? {};
+  }
+  return current || {};
+}
+
+/** Variants of a union, minus `null` (nullable fields) */
+function unionVariants(schema: JsonSchema, root: JsonSchema): JsonSchema[] | null {
+  const variants = schema.anyOf || schema.oneOf;
+  if (!Array.isArray(variants)) return null;
+  return variants.map((v: JsonSchema) => resolveRef(v, root)).filter((v: JsonSchema) => v.type !== 'null');
+}
+
+/** Astro's `reference()` accepts an id or an `{ id | slug, collection }` object */
+function isReferenceUnion(variants: JsonSchema[]): boolean {
+  const objects = variants.filter((v) => v.type === 'object' && v.properties?.collection);
+  return objects.length > 0 && variants.some((v) => v.type === 'string') &&
+    objects.every((v) => v.properties.id || v.properties.slug);
+}
+
+/** `.nullable()` fields accept an empty value even when listed as required */
+function isNullable(schema: JsonSchema): boolean {
+  const variants = schema.anyOf || schema.oneOf;
+  return (Array.isArray(schema.type) && schema.type.includes('null')) ||
+    (Array.isArray(variants) && variants.some((v: JsonSchema) => v.type === 'null'));
+}
+
+function primaryType(schema: JsonSchema): string | undefined {
+  return Array.isArray(schema.type) ? schema.type.find((t: string) => t !== 'null') : schema.type;
+}
+
+/** Keep only the rules that are set */
+function compact(rules: Record<string, unknown>): Record<string, unknown> | undefined {
+  const entries = Object.entries(rules).filter(([, value]) => value !== undefined);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+type FieldShape = Omit<SchemaTemplateField, 'name' | 'required' | 'defaultValue' | 'description'>;
+
+function describeSchema(schema: JsonSchema, root: JsonSchema, name: string, collectionNames: string[]): FieldShape {
+  const resolved = resolveRef(schema, root);
+
+  const variants = unionVariants(resolved, root);
+  if (variants) {
+    if (isReferenceUnion(variants)) return { type: 'reference', collection: guessReferenceTarget(name, collectionNames) };
+    if (variants.length === 1) return describeSchema(variants[0], root, name, collectionNames);
+    // `z.coerce.date()` and friends: every variant is a date representation
+    if (variants.every((v) => v.format === 'date-time' || v.format === 'date' || v.format === 'unix-time')) return { type: 'date' };
+    return { type: 'string' };
+  }
+
+  switch (primaryType(resolved)) {
+    case 'string': {
+      if (Array.isArray(resolved.enum)) return { type: 'select', options: resolved.enum.map(String) };
+      if (resolved.format === 'date-time' || resolved.format === 'date') return { type: 'date' };
+      // Zod's own email/URL regexes are left out: the CMS checks those formats itself
+      const lengths = { minLength: resolved.minLength, maxLength: resolved.maxLength };
+      if (resolved.format === 'email') return { type: 'email', validation: compact(lengths) };
+      if (resolved.format === 'uri' || resolved.format === 'url') return { type: 'url', validation: compact(lengths) };
+      return { type: 'string', validation: compact({ ...lengths, pattern: resolved.pattern }) };
+    }
+    case 'number':
+    case 'integer':
+      return { type: 'number', validation: compact({ min: resolved.minimum, max: resolved.maximum }) };
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'array': {
+      const validation = compact({ minItems: resolved.minItems, maxItems: resolved.maxItems, uniqueItems: resolved.uniqueItems || undefined });
+      const items = describeSchema(resolved.items || {}, root, name, collectionNames);
+      if (items.type === 'select') return { type: 'multiselect', options: items.options, validation };
+      if (items.type === 'reference') return { type: 'reference', collection: items.collection, multiple: true, validation };
+      if (items.type === 'object' && items.fields) return { type: 'array', fields: items.fields, validation };
+      return { type: 'array', validation };
+    }
+    case 'object':
+      return resolved.properties
+        ? { type: 'object', fields: schemaToTemplateFields(resolved, collectionNames, root) }
+        : { type: 'object' };
+    default:
+      return { type: 'string' };
+  }
+}
+
+/**
+ * The JSON Schema of `reference('authors')` doesn't name its collection, so
+ * the target is guessed from the field name (`author` → `authors`). Left
+ * empty when nothing matches; the CMS then asks for it in the template editor.
+ */
+function guessReferenceTarget(name: string, collectionNames: string[]): string | undefined {
+  const candidates = [name, `${name}s`, name.replace(/s$/, '')];
+  return collectionNames.find((c) => candidates.includes(c));
+}
+
+/** Template fields for the properties of an object schema */
+export function schemaToTemplateFields(
+  schema: JsonSchema,
+  collectionNames: string[] = [],
+  root: JsonSchema = schema
+): SchemaTemplateField[] {
+  const objectSchema = resolveRef(schema, root);
+  const required = new Set<string>(objectSchema.required || []);
+
+  return Object.entries<JsonSchema>(objectSchema.properties || {})
+    .filter(([name]) => !IGNORED_PROPERTIES.has(name))
+    .map(([name, property]) => {
+      const resolved = resolveRef(property, root);
+      const field: SchemaTemplateField = { name, ...describeSchema(property, root, name, collectionNames) };
+      if (required.has(name) && resolved.default === undefined && !isNullable(resolved)) field.required = true;
+      if (resolved.default !== undefined) field.defaultValue = resolved.default;
+      if (resolved.description) field.description = resolved.description;
+      return JSON.parse(JSON.stringify(field)) as SchemaTemplateField; // drop undefined keys
+    });
+}
+
+/**
+ * Merge schema fields into a template edited in the CMS. Hand-made settings
+ * win (e.g. a schema `string` the editor turned into `image` or `markdown`);
+ * the schema fills in what they leave out, and new schema fields are appended.
+ * Fields that only exist in the hand-made template are kept.
+ */
+export function mergeTemplateFields(
+  handMade: SchemaTemplateField[] | undefined,
+  fromSchema: SchemaTemplateField[]
+): SchemaTemplateField[] {
+  if (!handMade?.length) return fromSchema;
+
+  const schemaByName = new Map(fromSchema.map((field) => [field.name, field]));
+  const merged = handMade.map((field) => {
+    const schemaField = schemaByName.get(field.name);
+    if (!schemaField) return field;
+    const result: SchemaTemplateField = { ...schemaField, ...field };
+    if (schemaField.validation || field.validation) result.validation = { ...schemaField.validation, ...field.validation };
+    if (schemaField.fields && result.type === schemaField.type) result.fields = mergeTemplateFields(field.fields, schemaField.fields);
+    return result;
+  });
+
+  const handMadeNames = new Set(handMade.map((field) => field.name));
+  return [...merged, ...fromSchema.filter((field) => !handMadeNames.has(field.name))];
+}
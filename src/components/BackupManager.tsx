@@ -9,6 +9,7 @@ import { ImageIcon } from './icons/ImageIcon';
 import { useI18n } from '../i18n/I18nContext';
 import { ExclamationTriangleIcon } from './icons/ExclamationTriangleIcon';
 import { SettingsIcon } from './icons/SettingsIcon';
+import { isDataFile } from '../utils/dataFiles';
 
 
 
@@ -54,11 +55,16 @@ const BackupManager: React.FC<BackupManagerProps> = ({ gitService, repo, postsPa
         const fetchFileCounts = async () => {
             setIsFetchingCounts(true);
             try {
+                // A data collection may point at a single file holding all its entries
+                const isSingleFile = isDataFile(postsPath);
+                const postsDir = isSingleFile ? postsPath.split('/').slice(0, -1).join('/') : postsPath;
                 const [postContents, imageContents] = await Promise.all([
-                    gitService.getRepoContents(postsPath).catch(() => []),
+                    gitService.getRepoContents(postsDir).catch(() => []),
                     gitService.getRepoContents(imagesPath).catch(() => [])
                 ]);
-                setPostFiles(postContents.filter(item => item.type === 'file' && (item.name.endsWith('.md') || item.name.endsWith('.mdx'))));
+                setPostFiles(postContents.filter(item => item.type === 'file' && (isSingleFile
+                    ? item.path === postsPath
+                    : item.name.endsWith('.md') || item.name.endsWith('.mdx') || isDataFile(item.name))));
                 setImageFiles(imageContents.filter(item => item.type === 'file'));
             } catch (error) {
                 console.error("Failed to fetch file lists", error);
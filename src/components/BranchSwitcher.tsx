@@ -0,0 +1,130 @@
+/**
+ * BranchSwitcher Component
+ *
+ * Sidebar dropdown for choosing the branch the workspace reads and writes.
+ * The choice is stored server-side in the session, so switching reloads
+ * the dashboard to re-read .pageelrc.json and content from the new branch.
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { IGitService, BranchInfo } from '../types';
+import { useI18n } from '../i18n/I18nContext';
+import { useAppStore } from '../features';
+import { BranchIcon } from './icons/BranchIcon';
+import { ChevronDownIcon } from './icons/ChevronDownIcon';
+import { CheckIcon } from './icons/CheckIcon';
+import { SpinnerIcon } from './icons/SpinnerIcon';
+
+interface BranchSwitcherProps {
+  gitService: IGitService;
+}
+
+export const BranchSwitcher: React.FC<BranchSwitcherProps> = ({ gitService }) => {
+  const { t } = useI18n();
+  const { isSyncing } = useAppStore();
+  const [info, setInfo] = useState<BranchInfo | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [switchingTo, setSwitchingTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    gitService.getBranchInfo()
+      .then((data) => { if (!cancelled) setInfo(data); })
+      .catch((e) => console.error('Failed to load branches', e));
+    return () => { cancelled = true; };
+  }, [gitService]);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  // An empty branch clears the session choice: back to CMS_BRANCH / .pageelrc.json / repo default
+  const switchTo = async (branch: string, label: string) => {
+    setIsOpen(false);
+    setError(null);
+    setSwitchingTo(label);
+    try {
+      await gitService.switchBranch(branch);
+      window.location.reload();
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      setError(t('dashboard.branch.switchFailed', { message }));
+      setSwitchingTo(null);
+    }
+  };
+
+  const handleSelect = (branch: string) => {
+    if (!info || branch === info.branch) {
+      setIsOpen(false);
+      return;
+    }
+    // Always explicit: the default branch must win over CMS_BRANCH and the workspace branch too
+    switchTo(branch, branch);
+  };
+
+  if (!info) {
+    return (
+      <div className="flex items-center px-3 py-1 text-xs text-notion-muted">
+        <BranchIcon className="w-3.5 h-3.5 mr-2" />
+        {t('dashboard.branch.loading')}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={isSyncing || !!switchingTo}
+        title={t('dashboard.branch.label')}
+        className="flex items-center w-full text-left px-3 py-1 text-xs text-notion-muted hover:bg-notion-hover hover:text-notion-text rounded-sm transition-colors disabled:opacity-50"
+      >
+        {switchingTo
+          ? <SpinnerIcon className="w-3.5 h-3.5 mr-2 animate-spin" />
+          : <BranchIcon className="w-3.5 h-3.5 mr-2 flex-shrink-0" />}
+        <span className="flex-grow truncate font-mono">
+          {switchingTo ? t('dashboard.branch.switching', { branch: switchingTo }) : info.branch}
+        </span>
+        <ChevronDownIcon className="w-3 h-3 flex-shrink-0" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-1 w-full max-h-64 overflow-y-auto bg-white rounded-md shadow-lg border border-notion-border py-1 z-50 animate-fade-in">
+          {info.branches.map((branch) => (
+            <button
+              key={branch}
+              onClick={() => handleSelect(branch)}
+              className="w-full text-left flex items-center px-3 py-1.5 text-xs text-notion-text hover:bg-notion-hover"
+            >
+              <span className="w-4 mr-1 flex-shrink-0">
+                {branch === info.branch && <CheckIcon className="w-3.5 h-3.5" />}
+              </span>
+              <span className="flex-grow truncate font-mono">{branch}</span>
+              {branch === info.defaultBranch && (
+                <span className="ml-2 text-[10px] text-notion-muted">{t('dashboard.branch.default')}</span>
+              )}
+            </button>
+          ))}
+          {info.source === 'session' && (
+            <button
+              onClick={() => switchTo('', t('dashboard.branch.configured'))}
+              className="w-full text-left px-3 py-1.5 mt-1 border-t border-notion-border text-xs text-notion-muted hover:bg-notion-hover hover:text-notion-text"
+            >
+              {t('dashboard.branch.resetToConfigured')}
+            </button>
+          )}
+        </div>
+      )}
+
+      {error && <p className="px-3 pt-1 text-[11px] text-red-600">{error}</p>}
+    </div>
+  );
+};
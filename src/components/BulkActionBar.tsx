@@ -0,0 +1,64 @@
+/**
+ * BulkActionBar Component
+ *
+ * Toolbar shown above PostList while posts are selected: selection summary
+ * and the bulk actions, each of which opens BulkActionModal.
+ */
+
+import React from 'react';
+import { useI18n } from '../i18n/I18nContext';
+import type { BulkActionKind } from './BulkActionModal';
+import { TrashIcon } from './icons/TrashIcon';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  /** Posts matching the current search and filters */
+  filteredCount: number;
+  hasStatusField: boolean;
+  onSelectAllFiltered: () => void;
+  onClearSelection: () => void;
+  onAction: (kind: BulkActionKind) => void;
+}
+
+const buttonClassName = 'px-2.5 py-1 border border-notion-border bg-white text-xs text-notion-text rounded-sm hover:bg-notion-hover transition-colors';
+
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedCount,
+  filteredCount,
+  hasStatusField,
+  onSelectAllFiltered,
+  onClearSelection,
+  onAction,
+}) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap px-3 py-2 bg-blue-50 border border-blue-200 rounded-sm text-sm">
+      <span className="font-medium text-notion-text">{t('bulk.selected', { count: selectedCount })}</span>
+      {selectedCount < filteredCount && (
+        <button onClick={onSelectAllFiltered} className="text-xs text-notion-blue hover:underline">
+          {t('bulk.selectAllFiltered', { count: filteredCount })}
+        </button>
+      )}
+      <button onClick={onClearSelection} className="text-xs text-notion-muted hover:underline">
+        {t('bulk.clearSelection')}
+      </button>
+
+      <div className="flex items-center gap-1.5 ml-auto flex-wrap">
+        <button onClick={() => onAction('field')} className={buttonClassName}>{t('bulk.actions.field')}</button>
+        <button onClick={() => onAction('tags')} className={buttonClassName}>{t('bulk.actions.tags')}</button>
+        {hasStatusField && (
+          <button onClick={() => onAction('status')} className={buttonClassName}>{t('bulk.actions.status')}</button>
+        )}
+        <button onClick={() => onAction('move')} className={buttonClassName}>{t('bulk.actions.move')}</button>
+        <button
+          onClick={() => onAction('delete')}
+          className="flex items-center gap-1 px-2.5 py-1 border border-red-200 bg-white text-xs text-red-600 rounded-sm hover:bg-red-50 transition-colors"
+        >
+          <TrashIcon className="w-3.5 h-3.5" />
+          {t('bulk.actions.delete')}
+        </button>
+      </div>
+    </div>
+  );
+};
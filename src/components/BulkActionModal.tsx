@@ -0,0 +1,303 @@
+/**
+ * BulkActionModal Component
+ *
+ * Options of one bulk action on the posts selected in PostList, a preview of
+ * every file it touches, and the single commit that applies it. Posts are
+ * read fresh when the modal opens so edits made since listing are kept.
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { IGitService } from '../types';
+import type { Collection } from '../features/collections/types';
+import type { PostData } from '../hooks/usePostActions';
+import { useI18n } from '../i18n/I18nContext';
+import { useCollectionStore } from '../features/collections/store';
+import { withSyncLock } from '../features';
+import { getTemplateField } from '../utils/fieldTypes';
+import { statusFieldOf } from '../utils/statusBoard';
+import { isInCollectionFolder } from '../utils/filenamePattern';
+import { MAX_COMMIT_FILES } from '../lib/encoding';
+import {
+  BulkAction,
+  BulkItemStatus,
+  planBulkAction,
+  bulkFileChanges,
+  bulkCommitMessage,
+  parseFieldInput,
+} from '../utils/bulkActions';
+import { SpinnerIcon } from './icons/SpinnerIcon';
+
+export type BulkActionKind = 'field' | 'tags' | 'status' | 'move' | 'delete';
+
+interface BulkActionModalProps {
+  kind: BulkActionKind;
+  posts: PostData[];
+  collection: Collection;
+  gitService: IGitService;
+  onClose: () => void;
+  /** Called after the commit, with the number of files changed */
+  onDone: (count: number) => void;
+}
+
+const statusClassName: Record<BulkItemStatus, string> = {
+  update: 'bg-blue-50 text-blue-700 border-blue-200',
+  move: 'bg-blue-50 text-blue-700 border-blue-200',
+  delete: 'bg-red-50 text-red-700 border-red-200',
+  unchanged: 'bg-gray-50 text-notion-muted border-notion-border',
+  conflict: 'bg-amber-50 text-amber-700 border-amber-200',
+};
+
+const inputClassName = 'w-full px-2 py-1.5 border border-notion-border rounded-sm text-sm focus:outline-none focus:ring-1 focus:ring-notion-blue';
+
+export const BulkActionModal: React.FC<BulkActionModalProps> = ({ kind, posts, collection, gitService, onClose, onDone }) => {
+  const { t } = useI18n();
+  const collections = useCollectionStore((state) => state.workspace?.collections || []);
+  const template = collection.template;
+  const statusField = statusFieldOf(collection);
+
+  const [contents, setContents] = useState<Record<string, string> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  // Options of each kind
+  const [mode, setMode] = useState<'set' | 'clear' | 'add' | 'remove'>(kind === 'tags' ? 'add' : 'set');
+  const [field, setField] = useState(kind === 'tags' ? 'tags' : '');
+  const [value, setValue] = useState('');
+  const [status, setStatus] = useState(statusField?.options[0] || '');
+  const [targetId, setTargetId] = useState('');
+  const [existingPaths, setExistingPaths] = useState<Set<string> | null>(null);
+
+  const moveTargets = collections.filter((c) => c.id !== collection.id && c.kind !== 'data' && c.postsPath);
+  const target = moveTargets.find((c) => c.id === targetId);
+  const templateField = getTemplateField(template, field);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(posts.map(async (post) => [post.path, await gitService.getFileContent(post.path)] as const))
+      .then((pairs) => { if (!cancelled) setContents(Object.fromEntries(pairs)); })
+      .catch((e) => { if (!cancelled) setError(t('bulk.loadFailed', { message: e instanceof Error ? e.message : String(e) })); });
+    return () => { cancelled = true; };
+  }, [posts, gitService, t]);
+
+  // Files already in the destination folder: a move never overwrites them
+  useEffect(() => {
+    setExistingPaths(null);
+    if (!target) return;
+    let cancelled = false;
+    gitService.listFiles(target.postsPath)
+      .then((files) => {
+        if (cancelled) return;
+        setExistingPaths(new Set(files.filter((f) => f.type === 'file' && isInCollectionFolder(f.path, target.postsPath)).map((f) => f.path)));
+      })
+      .catch(() => { if (!cancelled) setExistingPaths(new Set()); });
+    return () => { cancelled = true; };
+  }, [target, gitService]);
+
+  const action = useMemo((): BulkAction | null => {
+    const tags = value.split(',').map((tag) => tag.trim()).filter(Boolean);
+    switch (kind) {
+      case 'field':
+        if (!field.trim()) return null;
+        return mode === 'clear'
+          ? { kind: 'clear-field', field: field.trim() }
+          : { kind: 'set-field', field: field.trim(), value: parseFieldInput(templateField, value) };
+      case 'tags':
+        if (!field.trim() || tags.length === 0) return null;
+        return { kind: mode === 'remove' ? 'remove-tags' : 'add-tags', field: field.trim(), tags };
+      case 'status':
+        return statusField && status ? { kind: 'set-field', field: statusField.name, value: status } : null;
+      case 'move':
+        return target ? { kind: 'move', fromPath: collection.postsPath, toPath: target.postsPath } : null;
+      case 'delete':
+        return { kind: 'delete' };
+    }
+  }, [kind, mode, field, value, templateField, statusField, status, target, collection.postsPath]);
+
+  const plan = useMemo(() => {
+    if (!contents || !action) return null;
+    if (action.kind === 'move' && !existingPaths) return null;
+    return planBulkAction(
+      posts.map((post) => ({ path: post.path, rawContent: contents[post.path] ?? post.rawContent })),
+      action,
+      existingPaths || undefined,
+    );
+  }, [contents, action, posts, existingPaths]);
+
+  const changedCount = plan ? plan.filter((item) => item.status !== 'unchanged' && item.status !== 'conflict').length : 0;
+  const changes = useMemo(() => (plan ? bulkFileChanges(plan) : []), [plan]);
+  // One commit can't hold more files than the proxy accepts (a move is two changes per post)
+  const isTooLarge = changes.length > MAX_COMMIT_FILES;
+
+  const handleRun = async () => {
+    if (!plan || !action || changedCount === 0 || isTooLarge) return;
+    setIsRunning(true);
+    setError(null);
+    try {
+      await withSyncLock(() => gitService.commitFiles(changes, bulkCommitMessage(action, changedCount)), t('bulk.running'));
+      onDone(changedCount);
+    } catch (e) {
+      setError(t('bulk.failed', { message: e instanceof Error ? e.message : String(e) }));
+      setIsRunning(false);
+    }
+  };
+
+  const fieldNames = template?.fields.map((f) => f.name) || [];
+  const listFieldNames = template?.fields.filter((f) => f.type === 'multiselect' || f.type === 'array').map((f) => f.name) || [];
+
+  const renderValueInput = () => {
+    if (templateField?.type === 'select' && templateField.options?.length) {
+      return (
+        <select value={value} onChange={(e) => setValue(e.target.value)} className={inputClassName}>
+          <option value="">—</option>
+          {templateField.options.map((option) => <option key={option} value={option}>{option}</option>)}
+        </select>
+      );
+    }
+    if (templateField?.type === 'boolean') {
+      return (
+        <select value={value} onChange={(e) => setValue(e.target.value)} className={inputClassName}>
+          <option value="false">false</option>
+          <option value="true">true</option>
+        </select>
+      );
+    }
+    return (
+      <input
+        type={templateField?.type === 'number' ? 'number' : templateField?.type === 'date' ? 'date' : 'text'}
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        placeholder={templateField?.type === 'multiselect' || templateField?.type === 'array' ? t('bulk.listPlaceholder') : ''}
+        className={inputClassName}
+      />
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={(e) => e.stopPropagation()}>
+      <div className="bg-white rounded-lg shadow-xl border border-notion-border w-full max-w-lg overflow-hidden animate-fade-in flex flex-col max-h-[85vh]">
+        <div className="px-5 py-3 border-b border-notion-border">
+          <h3 className="text-sm font-semibold text-notion-text">{t(`bulk.titles.${kind}`, { count: posts.length })}</h3>
+        </div>
+
+        <div className="p-5 space-y-3 overflow-y-auto">
+          {kind === 'field' && (
+            <>
+              <div className="flex gap-4 text-xs text-notion-text">
+                <label className="flex items-center gap-1.5">
+                  <input type="radio" checked={mode === 'set'} onChange={() => setMode('set')} /> {t('bulk.setField')}
+                </label>
+                <label className="flex items-center gap-1.5">
+                  <input type="radio" checked={mode === 'clear'} onChange={() => setMode('clear')} /> {t('bulk.clearField')}
+                </label>
+              </div>
+              <input
+                list="bulk-field-names"
+                value={field}
+                onChange={(e) => { setField(e.target.value); setValue(''); }}
+                placeholder={t('bulk.fieldPlaceholder')}
+                className={inputClassName}
+              />
+              <datalist id="bulk-field-names">
+                {fieldNames.map((name) => <option key={name} value={name} />)}
+              </datalist>
+              {mode === 'set' && renderValueInput()}
+            </>
+          )}
+
+          {kind === 'tags' && (
+            <>
+              <div className="flex gap-4 text-xs text-notion-text">
+                <label className="flex items-center gap-1.5">
+                  <input type="radio" checked={mode === 'add'} onChange={() => setMode('add')} /> {t('bulk.addTags')}
+                </label>
+                <label className="flex items-center gap-1.5">
+                  <input type="radio" checked={mode === 'remove'} onChange={() => setMode('remove')} /> {t('bulk.removeTags')}
+                </label>
+              </div>
+              <input list="bulk-list-fields" value={field} onChange={(e) => setField(e.target.value)} className={inputClassName} />
+              <datalist id="bulk-list-fields">
+                {listFieldNames.map((name) => <option key={name} value={name} />)}
+              </datalist>
+              <input value={value} onChange={(e) => setValue(e.target.value)} placeholder={t('bulk.listPlaceholder')} className={inputClassName} />
+            </>
+          )}
+
+          {kind === 'status' && (
+            statusField ? (
+              <select value={status} onChange={(e) => setStatus(e.target.value)} className={inputClassName}>
+                {statusField.options.map((option) => <option key={option} value={option}>{option}</option>)}
+              </select>
+            ) : (
+              <p className="text-xs text-notion-muted">{t('workflows.board.noStatusField')}</p>
+            )
+          )}
+
+          {kind === 'move' && (
+            moveTargets.length > 0 ? (
+              <select value={targetId} onChange={(e) => setTargetId(e.target.value)} className={inputClassName}>
+                <option value="">{t('bulk.chooseCollection')}</option>
+                {moveTargets.map((c) => <option key={c.id} value={c.id}>{c.name} ({c.postsPath})</option>)}
+              </select>
+            ) : (
+              <p className="text-xs text-notion-muted">{t('bulk.noMoveTargets')}</p>
+            )
+          )}
+
+          {kind === 'delete' && <p className="text-xs text-red-700">{t('bulk.deleteWarning')}</p>}
+
+          <div>
+            <p className="text-[10px] uppercase font-bold text-notion-muted mb-2 tracking-wider">
+              {t('bulk.preview', { count: changedCount })}
+            </p>
+            {!contents && !error && (
+              <div className="flex items-center text-xs text-notion-muted">
+                <SpinnerIcon className="w-3.5 h-3.5 mr-2 animate-spin" />
+                {t('bulk.loading')}
+              </div>
+            )}
+            {contents && !plan && <p className="text-xs text-notion-muted">{t('bulk.chooseOptions')}</p>}
+            {plan && (
+              <ul className="border border-notion-border rounded-sm divide-y divide-notion-border max-h-60 overflow-y-auto">
+                {plan.map((item) => (
+                  <li key={item.path} className="flex items-center gap-2 px-2 py-1 text-xs">
+                    <span className={`px-1.5 py-0.5 text-[10px] border rounded-sm flex-shrink-0 ${statusClassName[item.status]}`}>
+                      {t(`bulk.status.${item.status}`)}
+                    </span>
+                    <span className="font-mono text-notion-text truncate" title={item.newPath || item.path}>
+                      {item.path}{item.newPath ? ` → ${item.newPath}` : ''}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {isTooLarge && <p className="text-xs text-red-600">{t('bulk.tooManyFiles', { count: changes.length, max: MAX_COMMIT_FILES })}</p>}
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+
+        <div className="bg-notion-sidebar px-4 py-3 flex flex-row-reverse gap-2 border-t border-notion-border">
+          <button
+            type="button"
+            onClick={handleRun}
+            disabled={isRunning || changedCount === 0 || isTooLarge}
+            className={`inline-flex justify-center items-center rounded-sm border border-transparent px-3 py-1.5 text-xs font-medium text-white shadow-sm transition-colors disabled:opacity-50 ${
+              kind === 'delete' ? 'bg-red-600 hover:bg-red-700' : 'bg-notion-blue hover:bg-blue-600'
+            }`}
+          >
+            {isRunning && <SpinnerIcon className="w-3 h-3 mr-1.5 animate-spin" />}
+            {t('bulk.apply', { count: changedCount })}
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isRunning}
+            className="inline-flex justify-center items-center rounded-sm border border-notion-border bg-white px-3 py-1.5 text-xs font-medium text-notion-text shadow-sm hover:bg-notion-hover transition-colors disabled:opacity-50"
+          >
+            {t('collectionModal.cancel')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -13,6 +13,8 @@ interface ConfirmationModalProps {
     cancelLabel?: string;
     isProcessing: boolean;
     variant?: 'danger' | 'warning';
+    /** Extra content under the description */
+    children?: React.ReactNode;
 }
 
 export const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
@@ -24,7 +26,8 @@ export const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
     confirmLabel,
     cancelLabel = 'Cancel',
     isProcessing,
-    variant = 'danger'
+    variant = 'danger',
+    children
 }) => {
     if (!isOpen) return null;
 
@@ -41,6 +44,7 @@ export const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
                             <div className="mt-1">
                                 <p className="text-xs text-notion-muted leading-relaxed">{description}</p>
                             </div>
+                            {children}
                         </div>
                     </div>
                 </div>
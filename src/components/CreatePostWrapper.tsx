@@ -1,11 +1,13 @@
 
 import React, { useState } from 'react';
 import PostWorkflow from './PostWorkflow';
+import { StatusBoard } from './StatusBoard';
 import { IGitService, GithubRepo } from '../types';
 import { useI18n } from '../i18n/I18nContext';
 import { ArrowUturnLeftIcon } from './icons/ArrowUturnLeftIcon';
 import { CheckCircleIcon } from './icons/CheckCircleIcon';
 import { DocumentIcon } from './icons/DocumentIcon';
+import { BoardIcon } from './icons/BoardIcon';
 
 interface CreatePostWrapperProps {
     gitService: IGitService;
@@ -18,7 +20,7 @@ interface CreatePostWrapperProps {
     onAction: () => void;
 }
 
-type Mode = 'library' | 'post-wizard';
+type Mode = 'library' | 'post-wizard' | 'status-board';
 
 const CreatePostWrapper: React.FC<CreatePostWrapperProps> = ({ 
     gitService, 
@@ -75,6 +77,29 @@ const CreatePostWrapper: React.FC<CreatePostWrapperProps> = ({
                         </div>
                     </button>
 
+                    {/* Workflow Card: Status Board */}
+                    <button 
+                        onClick={() => setMode('status-board')}
+                        className="group relative flex flex-col bg-white border border-notion-border rounded-lg overflow-hidden transition-all duration-200 hover:shadow-lg hover:-translate-y-1 hover:border-notion-blue/50 text-left h-full"
+                    >
+                        {/* Card Cover */}
+                        <div className="h-32 bg-gradient-to-br from-amber-50 to-orange-50 w-full flex items-center justify-center border-b border-notion-border group-hover:from-amber-100 group-hover:to-orange-100 transition-colors">
+                             <div className="bg-white p-3 rounded-xl shadow-sm border border-amber-100">
+                                <BoardIcon className="w-8 h-8 text-amber-500" />
+                             </div>
+                        </div>
+                        
+                        {/* Card Body */}
+                        <div className="p-5 flex-grow flex flex-col">
+                            <h3 className="text-base font-bold text-notion-text mb-2 group-hover:text-blue-600 transition-colors">
+                                {t('workflows.board.title')}
+                            </h3>
+                            <p className="text-sm text-notion-muted leading-relaxed">
+                                {t('workflows.board.desc')}
+                            </p>
+                        </div>
+                    </button>
+
                     {/* Placeholder: AI Writer (Example of Premium/Future) */}
                     <div className="group relative flex flex-col bg-gray-50/50 border border-notion-border border-dashed rounded-lg overflow-hidden h-full transition-opacity cursor-not-allowed">
                         <div className="h-32 bg-gray-100/50 w-full flex items-center justify-center border-b border-notion-border border-dashed">
@@ -97,6 +122,16 @@ const CreatePostWrapper: React.FC<CreatePostWrapperProps> = ({
 
     return (
         <div className="space-y-4 animate-fade-in">
+            {mode === 'status-board' && (
+                <StatusBoard
+                    gitService={gitService}
+                    repo={repo}
+                    projectType={settings.projectType}
+                    domainUrl={settings.domainUrl}
+                    onBack={() => setMode('library')}
+                    onAction={onAction}
+                />
+            )}
             {mode === 'post-wizard' && (
                 <PostWorkflow 
                     gitService={gitService}
@@ -22,6 +22,7 @@ import {
   useCollectionStore,
   saveCollectionsToPageelrc,
   Collection,
+  Singleton,
   withSyncLock,
 } from "../features";
 import { useDashboardInit } from "../hooks/useDashboardInit";
@@ -41,6 +42,7 @@ import { MenuIcon } from "./icons/MenuIcon";
 import DirectoryPicker from "./DirectoryPicker";
 import { DatabaseIcon } from "./icons/DatabaseIcon";
 import { BoardIcon } from "./icons/BoardIcon";
+import { TagIcon } from "./icons/TagIcon";
 import { TemplateIcon } from "./icons/TemplateIcon";
 import { Sidebar } from "./Sidebar";
 import { SetupWizard } from "./SetupWizard";
@@ -51,6 +53,13 @@ import { SyncStatusBadge } from "./SyncStatusBadge";
 import { ExclamationTriangleIcon } from "./icons/ExclamationTriangleIcon";
 import { NewCollectionModal } from "./NewCollectionModal";
 import { EditCollectionModal } from "./EditCollectionModal";
+import { EditorialDrafts } from "./EditorialDrafts";
+import { UpcomingPublications } from "./UpcomingPublications";
+import { LocalDrafts } from "./LocalDrafts";
+import { TaxonomyManager } from "./TaxonomyManager";
+import type { LocalDraft } from "../utils/localDrafts";
+import { SingletonEditor } from "./SingletonEditor";
+import { SingletonModal } from "./SingletonModal";
 import { PluginConfigProvider } from "../plugins";
 
 // --- MAIN DASHBOARD ---
@@ -83,6 +92,18 @@ const Dashboard: React.FC<DashboardProps> = ({
   const { isSaving, saveSuccess, isSetupComplete } = useSettingsStore();
   const { workspace, getActiveCollection } = useCollectionStore();
   const activeCollection = getActiveCollection();
+  const hasEditorialCollections = !!workspace?.collections.some((c) => c.editorialMode);
+  // Bumped after a draft is published so PostList re-reads the content branch
+  const [postListVersion, setPostListVersion] = useState(0);
+  // Post to open once PostList has loaded (a local draft picked on the dashboard)
+  const [pathToOpen, setPathToOpen] = useState<string | null>(null);
+
+  const handleOpenLocalDraft = (draft: LocalDraft) => {
+    if (draft.collectionId) useCollectionStore.getState().setActiveCollection(draft.collectionId);
+    setPathToOpen(draft.path);
+    // Remount the list so it loads the draft's collection before opening
+    setPostListVersion((v) => v + 1);
+  };
 
   // TD-07: Extracted hooks
   const {
@@ -122,6 +143,9 @@ const Dashboard: React.FC<DashboardProps> = ({
     callback: (path: string) => void;
   } | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [activeSingletonId, setActiveSingletonId] = useState<string | null>(null);
+  const [singletonModal, setSingletonModal] = useState<{ singleton: Singleton | null } | null>(null);
+  const activeSingleton = workspace?.singletons?.find((s) => s.id === activeSingletonId) || null;
 
   const { t, language } = useI18n();
 
@@ -174,6 +198,31 @@ const Dashboard: React.FC<DashboardProps> = ({
     }
   };
 
+  const handleSingletonsChanged = async () => {
+    const latestWorkspace = useCollectionStore.getState().workspace;
+    if (latestWorkspace) {
+      await withSyncLock(
+        () => saveCollectionsToPageelrc(gitService, latestWorkspace),
+        "Saving singletons...",
+      );
+      setSuccessMessage(t("singletons.configSaved"));
+    }
+  };
+
+  const handleSingletonRemoved = async (singleton: Singleton) => {
+    if (activeSingletonId === singleton.id) {
+      setActiveSingletonId(null);
+      setView("dashboard");
+    }
+    await handleSingletonsChanged();
+  };
+
+  const handleSingletonClick = (singleton: Singleton) => {
+    setActiveSingletonId(singleton.id);
+    setView("singleton");
+    setSidebarOpen(false);
+  };
+
   const handleMobileNavClick = (view: string) => {
     setView(view as ViewType);
     setSidebarOpen(false);
@@ -209,6 +258,7 @@ const Dashboard: React.FC<DashboardProps> = ({
     { id: "images", label: t("dashboard.nav.manageImages"), icon: ImageIcon },
     { id: "template", label: t("dashboard.nav.template"), icon: TemplateIcon },
     { id: "workflows", label: t("dashboard.nav.workflows"), icon: BoardIcon },
+    { id: "taxonomy", label: t("dashboard.nav.taxonomy"), icon: TagIcon },
     ...(pluginConfig?.plugins?.enabled ? [{ id: "plugins", label: "Plugins", icon: PuzzleIcon }] : []),
     { id: "backup", label: t("dashboard.nav.backup"), icon: DownloadIcon },
     { id: "settings", label: t("dashboard.nav.settings"), icon: SettingsIcon },
@@ -220,6 +270,7 @@ const Dashboard: React.FC<DashboardProps> = ({
       images: <ImageIcon className="w-8 h-8 text-notion-text mr-3" />,
       template: <TemplateIcon className="w-8 h-8 text-notion-text mr-3" />,
       workflows: <BoardIcon className="w-8 h-8 text-notion-text mr-3" />,
+      taxonomy: <TagIcon className="w-8 h-8 text-notion-text mr-3" />,
       plugins: <PuzzleIcon className="w-8 h-8 text-notion-text mr-3" />,
       backup: <DownloadIcon className="w-8 h-8 text-notion-text mr-3" />,
       settings: <SettingsIcon className="w-8 h-8 text-notion-text mr-3" />,
@@ -233,9 +284,11 @@ const Dashboard: React.FC<DashboardProps> = ({
       images: t("dashboard.nav.manageImages"),
       template: t("dashboard.nav.template"),
       workflows: t("dashboard.nav.workflows"),
+      taxonomy: t("dashboard.nav.taxonomy"),
       plugins: "Plugins",
       backup: t("dashboard.nav.backup"),
       settings: t("dashboard.nav.settings"),
+      singleton: activeSingleton?.name || "",
     };
     return titles[activeView] || "";
   };
@@ -244,13 +297,41 @@ const Dashboard: React.FC<DashboardProps> = ({
     switch (activeView) {
       case "dashboard":
         return (
-          <PostList
+          <>
+            {hasEditorialCollections && (
+              <EditorialDrafts
+                gitService={gitService}
+                onAction={handleAction}
+                onPublished={() => {
+                  setPostListVersion((v) => v + 1);
+                  fetchStats();
+                }}
+              />
+            )}
+            <LocalDrafts gitService={gitService} repo={currentRepo} onOpen={handleOpenLocalDraft} />
+            <UpcomingPublications gitService={gitService} />
+            <PostList
+              key={postListVersion}
+              gitService={gitService}
+              repo={currentRepo}
+              onPostUpdate={fetchStats}
+              onAction={handleAction}
+              openPath={pathToOpen}
+              onPathOpened={() => setPathToOpen(null)}
+            />
+          </>
+        );
+      case "singleton":
+        return activeSingleton ? (
+          <SingletonEditor
+            key={activeSingleton.id}
+            singleton={activeSingleton}
             gitService={gitService}
-            repo={currentRepo}
-            onPostUpdate={fetchStats}
+            defaultImagesPath={effectiveImagesPath}
+            imageFileTypes={settings.imageFileTypes}
             onAction={handleAction}
           />
-        );
+        ) : null;
       case "workflows":
         return (
           <CreatePostWrapper
@@ -299,6 +380,8 @@ const Dashboard: React.FC<DashboardProps> = ({
             }}
           />
         );
+      case "taxonomy":
+        return <TaxonomyManager gitService={gitService} onAction={handleAction} />;
       case "backup":
         return (
           <BackupManager
@@ -372,6 +455,7 @@ const Dashboard: React.FC<DashboardProps> = ({
           navLinks={navLinks}
           user={user}
           serviceType={serviceType}
+          gitService={gitService}
           repoName={currentRepo.name}
           repoUrl={currentRepo.html_url}
           onLogout={onLogout}
@@ -381,6 +465,11 @@ const Dashboard: React.FC<DashboardProps> = ({
           onNewCollection={() => setIsNewCollectionModalOpen(true)}
           onEditCollection={handleEditCollection}
           onDeleteCollection={handleDeleteCollection}
+          singletons={workspace?.singletons}
+          activeSingletonId={activeSingletonId}
+          onSingletonClick={handleSingletonClick}
+          onNewSingleton={() => setSingletonModal({ singleton: null })}
+          onEditSingleton={(singleton) => setSingletonModal({ singleton })}
         />
       </div>
 
@@ -469,6 +558,14 @@ const Dashboard: React.FC<DashboardProps> = ({
         onSelectPath={(type, callback) => setCollectionPathPicker({ type, callback })}
       />
 
+      <SingletonModal
+        isOpen={!!singletonModal}
+        onClose={() => setSingletonModal(null)}
+        singleton={singletonModal?.singleton || null}
+        onSaved={handleSingletonsChanged}
+        onRemoved={handleSingletonRemoved}
+      />
+
       {collectionToEdit && (
         <EditCollectionModal
           isOpen={isEditCollectionModalOpen}
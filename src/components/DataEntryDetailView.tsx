@@ -0,0 +1,235 @@
+/**
+ * DataEntryDetailView Component
+ *
+ * Form editor for entries of a `data` collection (JSON / YAML / TOML), built
+ * from the collection template like post frontmatter.
+ *
+ * An entry is either a whole file in the collection folder, or one item of
+ * a multi-entry file (`post.entryId`). Saving rewrites the file in its own
+ * format; for a multi-entry file only that item changes, so a save racing
+ * another edit of the same file is re-applied on the newer version.
+ */
+
+import React, { useState } from 'react';
+import { useI18n } from '../i18n/I18nContext';
+import type { Collection } from '../features/collections/types';
+import { IGitService } from '../types';
+import type { PostData } from '../hooks/usePostActions';
+import { slugify } from '../utils/parsing';
+import { getDataFormat, serializeDataFile, writeDataEntry, DataFormat } from '../utils/dataFiles';
+import { validateFrontmatter, groupValidationIssues } from '../utils/validation';
+import { isShaConflictError } from '../utils/merge';
+import { TemplateFieldsForm } from './TemplateFieldsForm';
+import { ArrowUturnLeftIcon } from './icons/ArrowUturnLeftIcon';
+import { CheckCircleIcon } from './icons/CheckCircleIcon';
+import { SpinnerIcon } from './icons/SpinnerIcon';
+import { TrashIcon } from './icons/TrashIcon';
+
+interface DataEntryDetailViewProps {
+  post: PostData;
+  collection: Collection;
+  gitService: IGitService;
+  imagesPath: string;
+  imageFileTypes: string;
+  onBack: () => void;
+  onDelete: (post: PostData) => void;
+  /** Called after a successful save (refresh list + sync) */
+  onSaved: () => void;
+}
+
+const DEFAULT_FORMAT: DataFormat = 'json';
+
+const DataEntryDetailView: React.FC<DataEntryDetailViewProps> = ({
+  post,
+  collection,
+  gitService,
+  imagesPath,
+  imageFileTypes,
+  onBack,
+  onDelete,
+  onSaved,
+}) => {
+  const { t } = useI18n();
+  const isNew = post.sha === '';
+  // The collection path is a data file: entries are items inside it
+  const singleFileFormat = getDataFormat(collection.postsPath);
+
+  const [data, setData] = useState<Record<string, any>>(post.frontmatter);
+  const [newName, setNewName] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string[]>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+
+  const template = collection.template || null;
+
+  const handleChange = (key: string, value: any) => {
+    setData((prev) => ({ ...prev, [key]: value }));
+    setFieldErrors((prev) => {
+      if (!prev[key]) return prev;
+      const { [key]: _cleared, ...rest } = prev;
+      return rest;
+    });
+    setIsDirty(true);
+  };
+
+  /** Write one item of a multi-entry file, re-reading the file once if it changed meanwhile */
+  const saveIntoFile = async (format: DataFormat, entryId: string | null, newId: string | undefined) => {
+    const path = collection.postsPath;
+    const message = entryId === null
+      ? `feat(content): add entry "${newId}" to "${path.split('/').pop()}"`
+      : `fix(content): update entry "${entryId}" in "${path.split('/').pop()}"`;
+
+    let content = isNew ? await gitService.getFileContent(path).catch(() => '') : post.rawContent;
+    let sha = isNew ? await gitService.getFileSha(path) : post.sha;
+    try {
+      if (!sha) {
+        await gitService.createFileFromString(path, writeDataEntry('[]', format, null, data, newId), message);
+        return;
+      }
+      await gitService.updateFileContent(path, writeDataEntry(content, format, entryId, data, newId), message, sha);
+    } catch (e) {
+      if (!isShaConflictError(e)) throw e;
+      content = await gitService.getFileContent(path);
+      sha = await gitService.getFileSha(path);
+      await gitService.updateFileContent(path, writeDataEntry(content, format, entryId, data, newId), message, sha || '');
+    }
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    const issues = validateFrontmatter(data, template);
+    if (issues.length > 0) {
+      setFieldErrors(groupValidationIssues(issues, t));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (singleFileFormat) {
+        let newId: string | undefined;
+        if (isNew) {
+          newId = slugify(newName.trim() || String(data.id ?? data.slug ?? data.name ?? data.title ?? ''));
+          if (!newId) {
+            setError(t('dataEntry.error.idRequired'));
+            return;
+          }
+        }
+        await saveIntoFile(singleFileFormat, isNew ? null : post.entryId ?? null, newId);
+      } else if (isNew) {
+        const baseName = newName.trim() || slugify(String(data.id ?? data.slug ?? data.name ?? data.title ?? ''));
+        if (!baseName) {
+          setError(t('dataEntry.error.nameRequired'));
+          return;
+        }
+        const fileName = getDataFormat(baseName) ? baseName : `${slugify(baseName)}.${DEFAULT_FORMAT}`;
+        const path = `${collection.postsPath}/${fileName}`;
+        if (await gitService.getFileSha(path)) {
+          setError(t('dataEntry.error.exists', { name: fileName }));
+          return;
+        }
+        await gitService.createFileFromString(path, serializeDataFile(data, getDataFormat(fileName)!), `feat(content): create entry "${fileName}"`);
+      } else {
+        const content = serializeDataFile(data, getDataFormat(post.path)!, post.rawContent);
+        await gitService.updateFileContent(post.path, content, `fix(content): update entry "${post.name}"`, post.sha);
+      }
+      setIsDirty(false);
+      onSaved();
+      onBack();
+    } catch (e) {
+      setError(isShaConflictError(e) ? t('dataEntry.error.conflict') : e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const title = isNew ? t('dataEntry.newTitle') : String(data.title ?? data.name ?? post.entryId ?? post.name);
+
+  return (
+    <div className="flex flex-col h-full bg-white">
+      <header className="h-12 border-b border-notion-border bg-white sticky top-0 z-30 flex-shrink-0 backdrop-blur-md bg-white/85">
+        <div className="px-6 h-full flex justify-between items-center w-full">
+          <div className="flex items-center gap-2 overflow-hidden">
+            <button
+              onClick={onBack}
+              className="flex items-center text-sm text-notion-text hover:bg-notion-hover px-2 py-1 rounded-sm transition-colors"
+            >
+              <ArrowUturnLeftIcon className="w-4 h-4 mr-1.5 text-notion-muted" />
+              <span className="font-medium">{t('dataEntry.back')}</span>
+            </button>
+            <span className="text-notion-border text-lg font-light">|</span>
+            <span className="truncate font-medium text-notion-text text-sm max-w-[240px]">{title}</span>
+            {!isNew && (
+              <span className="text-[11px] font-mono text-notion-muted truncate" title={post.path}>
+                {post.path.split('/').pop()}
+              </span>
+            )}
+          </div>
+
+          <div className="flex items-center space-x-2">
+            {(isDirty || isNew) && (
+              <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="flex items-center px-3 py-1 bg-notion-blue text-white text-xs font-medium rounded-sm shadow-sm hover:bg-blue-600 transition-colors disabled:opacity-50"
+              >
+                {isSaving ? <SpinnerIcon className="w-3 h-3 animate-spin mr-1.5" /> : <CheckCircleIcon className="w-3.5 h-3.5 mr-1.5" />}
+                {isSaving ? t('dataEntry.saving') : t('dataEntry.save')}
+              </button>
+            )}
+            {!isNew && (
+              <button
+                onClick={() => onDelete(post)}
+                className="p-1.5 text-notion-muted hover:text-red-600 hover:bg-notion-hover rounded-sm transition-colors flex items-center text-xs font-medium"
+                title={t('postPreview.delete')}
+              >
+                <TrashIcon className="w-4 h-4 mr-1" />
+                <span className="hidden sm:inline">{t('postPreview.delete')}</span>
+              </button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <div className="flex-grow overflow-y-auto custom-scrollbar">
+        <div className="max-w-3xl mx-auto px-6 py-8 space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-sm text-red-700 text-sm">{error}</div>
+          )}
+
+          {isNew && (
+            <div>
+              <label className="block text-xs font-semibold text-notion-muted uppercase tracking-wider mb-1">
+                {singleFileFormat ? t('dataEntry.idLabel') : t('dataEntry.fileNameLabel')}
+              </label>
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder={singleFileFormat ? 'jane-doe' : 'jane-doe.json'}
+                className="w-full px-3 py-1.5 border border-notion-border rounded-sm text-sm font-mono focus:outline-none focus:ring-1 focus:ring-notion-blue"
+              />
+              <p className="mt-1 text-[11px] text-notion-muted">
+                {singleFileFormat ? t('dataEntry.idHelp') : t('dataEntry.fileNameHelp')}
+              </p>
+            </div>
+          )}
+
+          <TemplateFieldsForm
+            template={template}
+            values={data}
+            initialValues={post.frontmatter}
+            errors={fieldErrors}
+            onChange={handleChange}
+            gitService={gitService}
+            imagesPath={imagesPath}
+            imageFileTypes={imageFileTypes}
+            onError={setError}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DataEntryDetailView;
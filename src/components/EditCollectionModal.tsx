@@ -5,10 +5,22 @@
  */
 
 import React, { useState, useEffect } from 'react';
-import { useCollectionStore, Collection } from '../features/collections';
+import { useCollectionStore, Collection, CollectionI18n, CollectionKind } from '../features/collections';
 import { CloseIcon } from './icons/CloseIcon';
 import { FolderIcon } from './icons/FolderIcon';
+import { ToggleSwitch } from './ToggleSwitch';
 import { useI18n } from '../i18n/I18nContext';
+import { resolveFilenamePattern } from '../utils/filenamePattern';
+import { defaultUrlPrefix } from '../utils/renamePost';
+
+/** Shown under the pattern input */
+const previewFilename = (pattern: string): string | null => {
+  try {
+    return resolveFilenamePattern(pattern, { slug: 'hello-world', frontmatter: { lang: 'en' }, now: new Date() });
+  } catch {
+    return null;
+  }
+};
 
 interface EditCollectionModalProps {
   isOpen: boolean;
@@ -26,8 +38,17 @@ export const EditCollectionModal: React.FC<EditCollectionModalProps> = ({
   onUpdated,
 }) => {
   const [name, setName] = useState('');
+  const [kind, setKind] = useState<CollectionKind>('posts');
   const [postsPath, setPostsPath] = useState('');
   const [imagesPath, setImagesPath] = useState('');
+  const [filenamePattern, setFilenamePattern] = useState('');
+  const [urlPrefix, setUrlPrefix] = useState('');
+  const [locales, setLocales] = useState('');
+  const [statusField, setStatusField] = useState('');
+  const [scheduleEnabled, setScheduleEnabled] = useState(false);
+  const [scheduleField, setScheduleField] = useState('');
+  const [localeStrategy, setLocaleStrategy] = useState<CollectionI18n['strategy']>('folder');
+  const [editorialMode, setEditorialMode] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const { updateCollection, workspace } = useCollectionStore();
@@ -37,8 +58,17 @@ export const EditCollectionModal: React.FC<EditCollectionModalProps> = ({
   useEffect(() => {
     if (collection) {
       setName(collection.name);
+      setKind(collection.kind || 'posts');
       setPostsPath(collection.postsPath);
       setImagesPath(collection.imagesPath);
+      setFilenamePattern(collection.filenamePattern || '');
+      setUrlPrefix(collection.urlPrefix || '');
+      setLocales(collection.i18n?.locales.join(', ') || '');
+      setStatusField(collection.statusField || '');
+      setScheduleEnabled(!!collection.schedule);
+      setScheduleField(collection.schedule?.field || '');
+      setLocaleStrategy(collection.i18n?.strategy || 'folder');
+      setEditorialMode(!!collection.editorialMode);
       setError(null);
     }
   }, [collection]);
@@ -62,6 +92,11 @@ export const EditCollectionModal: React.FC<EditCollectionModalProps> = ({
       return;
     }
 
+    if (filenamePattern.trim() && !previewFilename(filenamePattern)) {
+      setError(t('collectionModal.error.filenamePatternInvalid'));
+      return;
+    }
+
     // Check for duplicate name (excluding self)
     const newId = name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
     if (newId !== collection.id && workspace?.collections.some(c => c.id === newId)) {
@@ -69,11 +104,20 @@ export const EditCollectionModal: React.FC<EditCollectionModalProps> = ({
       return;
     }
 
+    const localeList = locales.split(',').map(l => l.trim()).filter(Boolean);
+
     // Update collection
     const updates: Partial<Collection> = {
       name: name.trim(),
+      kind: kind === 'data' ? 'data' : undefined,
       postsPath: postsPath.trim(),
       imagesPath: imagesPath.trim(),
+      filenamePattern: filenamePattern.trim() || undefined,
+      urlPrefix: kind === 'posts' ? urlPrefix.trim() || undefined : undefined,
+      i18n: kind === 'posts' && localeList.length > 0 ? { locales: localeList, strategy: localeStrategy } : undefined,
+      statusField: statusField || undefined,
+      schedule: kind === 'posts' && scheduleEnabled ? (scheduleField.trim() ? { field: scheduleField.trim() } : {}) : undefined,
+      editorialMode: editorialMode || undefined,
     };
     
     updateCollection(collection.id, updates);
@@ -86,6 +130,8 @@ export const EditCollectionModal: React.FC<EditCollectionModalProps> = ({
 
   if (!isOpen || !collection) return null;
 
+  const selectFields = (collection.template?.fields || []).filter(f => f.type === 'select' && f.options?.length);
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4 animate-fade-in">
@@ -123,17 +169,33 @@ export const EditCollectionModal: React.FC<EditCollectionModalProps> = ({
             />
           </div>
 
+          {/* Kind */}
+          <div>
+            <label className="block text-sm font-medium text-notion-text mb-1">
+              {t('collectionModal.kindLabel')}
+            </label>
+            <select
+              value={kind}
+              onChange={(e) => setKind(e.target.value as CollectionKind)}
+              className="w-full px-3 py-2 border border-notion-border rounded-sm text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="posts">{t('collectionModal.kindPosts')}</option>
+              <option value="data">{t('collectionModal.kindData')}</option>
+            </select>
+            {kind === 'data' && <p className="text-xs text-notion-muted mt-1">{t('collectionModal.kindDataHelp')}</p>}
+          </div>
+
           {/* Posts Path */}
           <div>
             <label className="block text-sm font-medium text-notion-text mb-1">
-              {t('collectionModal.postsPathLabel')}
+              {kind === 'data' ? t('collectionModal.dataPathLabel') : t('collectionModal.postsPathLabel')}
             </label>
             <div className="flex gap-2">
               <input
                 type="text"
                 value={postsPath}
                 onChange={(e) => setPostsPath(e.target.value)}
-                placeholder={t('collectionModal.postsPathPlaceholder')}
+                placeholder={kind === 'data' ? t('collectionModal.dataPathPlaceholder') : t('collectionModal.postsPathPlaceholder')}
                 className="flex-grow px-3 py-2 border border-notion-border rounded-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               />
               <button
@@ -169,6 +231,133 @@ export const EditCollectionModal: React.FC<EditCollectionModalProps> = ({
             </div>
           </div>
 
+          {/* Filename Pattern */}
+          {kind === 'posts' && (
+            <div>
+              <label className="block text-sm font-medium text-notion-text mb-1">
+                {t('collectionModal.filenamePatternLabel')}
+              </label>
+              <input
+                type="text"
+                value={filenamePattern}
+                onChange={(e) => setFilenamePattern(e.target.value)}
+                placeholder="{slug}"
+                className="w-full px-3 py-2 border border-notion-border rounded-sm text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <p className="text-xs text-notion-muted mt-1">{t('collectionModal.filenamePatternHelp')}</p>
+              <p className="text-xs font-mono text-notion-muted mt-0.5">
+                {previewFilename(filenamePattern) ?? t('collectionModal.error.filenamePatternInvalid')}
+              </p>
+            </div>
+          )}
+
+          {/* URL Prefix */}
+          {kind === 'posts' && (
+            <div>
+              <label className="block text-sm font-medium text-notion-text mb-1">
+                {t('collectionModal.urlPrefixLabel')}
+              </label>
+              <input
+                type="text"
+                value={urlPrefix}
+                onChange={(e) => setUrlPrefix(e.target.value)}
+                placeholder={defaultUrlPrefix(postsPath)}
+                className="w-full px-3 py-2 border border-notion-border rounded-sm text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <p className="text-xs text-notion-muted mt-1">{t('collectionModal.urlPrefixHelp')}</p>
+            </div>
+          )}
+
+          {/* Locales */}
+          {kind === 'posts' && (
+            <div>
+              <label className="block text-sm font-medium text-notion-text mb-1">
+                {t('collectionModal.localesLabel')}
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={locales}
+                  onChange={(e) => setLocales(e.target.value)}
+                  placeholder="en, vi"
+                  className="flex-1 px-3 py-2 border border-notion-border rounded-sm text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <select
+                  value={localeStrategy}
+                  onChange={(e) => setLocaleStrategy(e.target.value as CollectionI18n['strategy'])}
+                  className="px-3 py-2 border border-notion-border rounded-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="folder">{t('collectionModal.localeStrategyFolder')}</option>
+                  <option value="suffix">{t('collectionModal.localeStrategySuffix')}</option>
+                </select>
+              </div>
+              <p className="text-xs text-notion-muted mt-1">{t('collectionModal.localesHelp')}</p>
+            </div>
+          )}
+
+          {/* Status Field (board columns) */}
+          {kind === 'posts' && selectFields.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-notion-text mb-1">
+                {t('collectionModal.statusFieldLabel')}
+              </label>
+              <select
+                value={statusField}
+                onChange={(e) => setStatusField(e.target.value)}
+                className="w-full px-3 py-2 border border-notion-border rounded-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">{t('collectionModal.statusFieldDefault')}</option>
+                {selectFields.map((field) => (
+                  <option key={field.name} value={field.name}>{field.name}</option>
+                ))}
+              </select>
+              <p className="text-xs text-notion-muted mt-1">{t('collectionModal.statusFieldHelp')}</p>
+            </div>
+          )}
+
+          {/* Scheduled Publishing */}
+          {kind === 'posts' && (
+            <div>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-notion-text">
+                    {t('collectionModal.scheduleLabel')}
+                  </label>
+                  <p className="text-xs text-notion-muted mt-0.5">{t('collectionModal.scheduleHelp')}</p>
+                </div>
+                <ToggleSwitch
+                  checked={scheduleEnabled}
+                  onChange={setScheduleEnabled}
+                  label={t('collectionModal.scheduleLabel')}
+                />
+              </div>
+              {scheduleEnabled && (
+                <input
+                  type="text"
+                  value={scheduleField}
+                  onChange={(e) => setScheduleField(e.target.value)}
+                  placeholder={t('collectionModal.scheduleFieldPlaceholder')}
+                  className="w-full mt-2 px-3 py-2 border border-notion-border rounded-sm text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              )}
+            </div>
+          )}
+
+          {/* Editorial Mode */}
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <label className="block text-sm font-medium text-notion-text">
+                {t('collectionModal.editorialModeLabel')}
+              </label>
+              <p className="text-xs text-notion-muted mt-0.5">{t('collectionModal.editorialModeHelp')}</p>
+            </div>
+            <ToggleSwitch
+              checked={editorialMode}
+              onChange={setEditorialMode}
+              label={t('collectionModal.editorialModeLabel')}
+            />
+          </div>
+
           {/* Actions */}
           <div className="flex gap-3 pt-4">
             <button
@@ -0,0 +1,158 @@
+/**
+ * EditorialDrafts Component
+ *
+ * Dashboard panel listing open CMS pull requests (`cms/<collection>/<slug>`
+ * branches created by editorial mode). "Publish" squash-merges the PR,
+ * "Discard" closes it and deletes the draft branch.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { IGitService, PullRequestInfo } from '../types';
+import { useI18n } from '../i18n/I18nContext';
+import { useAppStore, withSyncLock } from '../features';
+import { ConfirmationModal } from './ConfirmationModal';
+import { BranchIcon } from './icons/BranchIcon';
+import { SpinnerIcon } from './icons/SpinnerIcon';
+
+interface EditorialDraftsProps {
+  gitService: IGitService;
+  onAction: () => void;
+  onPublished?: () => void;
+}
+
+const statusClassName = (pr: PullRequestInfo): string => {
+  if (pr.mergeable === false) return 'bg-red-50 text-red-700 border-red-200';
+  if (pr.mergeable === null) return 'bg-gray-50 text-notion-muted border-notion-border';
+  return 'bg-green-50 text-green-700 border-green-200';
+};
+
+export const EditorialDrafts: React.FC<EditorialDraftsProps> = ({ gitService, onAction, onPublished }) => {
+  const { t } = useI18n();
+  const { isSyncing } = useAppStore();
+  const [drafts, setDrafts] = useState<PullRequestInfo[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busyNumber, setBusyNumber] = useState<number | null>(null);
+  const [draftToDiscard, setDraftToDiscard] = useState<PullRequestInfo | null>(null);
+
+  const loadDrafts = useCallback(async () => {
+    try {
+      setDrafts(await gitService.listDrafts());
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      setDrafts([]);
+    }
+  }, [gitService]);
+
+  useEffect(() => {
+    loadDrafts();
+  }, [loadDrafts]);
+
+  const handlePublish = async (pr: PullRequestInfo) => {
+    setBusyNumber(pr.number);
+    setError(null);
+    try {
+      await withSyncLock(() => gitService.publishDraft(pr.number), t('editorial.publishing'));
+      onAction();
+      onPublished?.();
+      await loadDrafts();
+    } catch (e) {
+      setError(t('editorial.actionFailed', { message: e instanceof Error ? e.message : String(e) }));
+    } finally {
+      setBusyNumber(null);
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!draftToDiscard) return;
+    const pr = draftToDiscard;
+    setBusyNumber(pr.number);
+    setError(null);
+    try {
+      await withSyncLock(() => gitService.discardDraft(pr.number), t('editorial.discarding'));
+      onAction();
+      await loadDrafts();
+    } catch (e) {
+      setError(t('editorial.actionFailed', { message: e instanceof Error ? e.message : String(e) }));
+    } finally {
+      setBusyNumber(null);
+      setDraftToDiscard(null);
+    }
+  };
+
+  if (drafts === null) {
+    return (
+      <div className="flex items-center text-xs text-notion-muted mb-4">
+        <SpinnerIcon className="w-3.5 h-3.5 mr-2 animate-spin" />
+        {t('editorial.loading')}
+      </div>
+    );
+  }
+
+  if (drafts.length === 0 && !error) return null;
+
+  return (
+    <div className="mb-6 border border-notion-border rounded-md bg-white">
+      <div className="flex items-center px-4 py-2 border-b border-notion-border">
+        <BranchIcon className="w-4 h-4 mr-2 text-notion-muted" />
+        <h3 className="text-sm font-semibold text-notion-text">{t('editorial.title', { count: drafts.length })}</h3>
+      </div>
+
+      {error && <p className="px-4 py-2 text-xs text-red-600">{error}</p>}
+
+      <ul className="divide-y divide-notion-border">
+        {drafts.map((pr) => (
+          <li key={pr.number} className="flex items-center gap-3 px-4 py-2 text-sm">
+            <div className="flex-grow min-w-0">
+              <a
+                href={pr.url || undefined}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="font-medium text-notion-text hover:underline truncate block"
+              >
+                #{pr.number} {pr.title}
+              </a>
+              <p className="text-[11px] text-notion-muted font-mono truncate">
+                {pr.head} → {pr.base}{pr.author ? ` · ${pr.author}` : ''}
+              </p>
+            </div>
+            <span className={`px-2 py-0.5 text-[11px] border rounded-sm flex-shrink-0 ${statusClassName(pr)}`}>
+              {pr.mergeable === false
+                ? t('editorial.status.conflict')
+                : pr.mergeable === null
+                  ? t('editorial.status.checking')
+                  : t('editorial.status.ready')}
+            </span>
+            <button
+              onClick={() => handlePublish(pr)}
+              disabled={isSyncing || busyNumber !== null || pr.mergeable === false}
+              className="px-3 py-1 bg-notion-blue text-white text-xs font-medium rounded-sm hover:bg-blue-600 transition-colors disabled:opacity-50 flex-shrink-0"
+            >
+              {busyNumber === pr.number && !draftToDiscard
+                ? <SpinnerIcon className="w-3 h-3 animate-spin" />
+                : t('editorial.publish')}
+            </button>
+            <button
+              onClick={() => setDraftToDiscard(pr)}
+              disabled={isSyncing || busyNumber !== null}
+              className="px-3 py-1 border border-notion-border text-xs text-notion-text rounded-sm hover:bg-notion-hover transition-colors disabled:opacity-50 flex-shrink-0"
+            >
+              {t('editorial.discard')}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <ConfirmationModal
+        isOpen={!!draftToDiscard}
+        onClose={() => setDraftToDiscard(null)}
+        onConfirm={handleDiscard}
+        title={t('editorial.discardConfirm.title')}
+        description={t('editorial.discardConfirm.description', { branch: draftToDiscard?.head || '' })}
+        confirmLabel={t('editorial.discard')}
+        cancelLabel={t('collectionModal.cancel')}
+        isProcessing={busyNumber !== null}
+      />
+    </div>
+  );
+};
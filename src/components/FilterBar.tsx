@@ -2,6 +2,7 @@
 import React, { useMemo } from 'react';
 import { CollectionTemplate, TemplateField } from '../features/collections';
 import { useI18n } from '../i18n/I18nContext';
+import { termCounts } from '../utils/taxonomy';
 
 interface PostData {
   frontmatter: Record<string, any>;
@@ -22,20 +23,8 @@ interface FilterBarProps {
 }
 
 // Extract unique values for a field from all posts
-const getUniqueValues = (posts: PostData[], field: string): string[] => {
-  const values = new Set<string>();
-  posts.forEach(post => {
-    const val = post.frontmatter[field];
-    if (val !== undefined && val !== null && val !== '') {
-      if (Array.isArray(val)) {
-        val.forEach(v => values.add(String(v)));
-      } else if (typeof val !== 'object') {
-        values.add(String(val));
-      }
-    }
-  });
-  return Array.from(values).sort();
-};
+const getUniqueValues = (posts: PostData[], field: string): string[] =>
+  Array.from(termCounts(posts, field).keys()).sort();
 
 // Get min/max for numeric fields
 const getNumberRange = (posts: PostData[], field: string): { min: number; max: number } => {
@@ -76,8 +65,16 @@ const TYPE_COLORS: Record<string, string> = {
   'array': 'border-purple-200 bg-purple-50 text-purple-700',
   'boolean': 'border-green-200 bg-green-50 text-green-700',
   'number': 'border-teal-200 bg-teal-50 text-teal-700',
+  'datetime': 'border-orange-200 bg-orange-50 text-orange-700',
+  'select': 'border-indigo-200 bg-indigo-50 text-indigo-700',
+  'multiselect': 'border-purple-200 bg-purple-50 text-purple-700',
+  'reference': 'border-blue-200 bg-blue-50 text-blue-700',
+  'color': 'border-pink-200 bg-pink-50 text-pink-700',
 };
 
+// Types filtered by a case-insensitive "contains" search
+const TEXT_SEARCH_TYPES = new Set(['text', 'markdown', 'slug', 'url', 'email']);
+
 /**
  * FilterBar: Renders type-aware filter controls based on collection template
  */
@@ -106,9 +103,34 @@ const FilterBar: React.FC<FilterBarProps> = ({
     const currentFilter = activeFilters[field.name];
     const colorClass = TYPE_COLORS[field.type] || 'border-gray-200 bg-gray-50 text-gray-700';
 
+    if (TEXT_SEARCH_TYPES.has(field.type)) {
+      return (
+        <div key={field.name} className="flex flex-col gap-1">
+          <label className="text-[10px] font-semibold text-notion-muted uppercase tracking-wider">{field.name}</label>
+          <input
+            type="text"
+            placeholder="Contains…"
+            value={currentFilter?.value || ''}
+            onChange={(e) => {
+              const val = e.target.value;
+              if (val === '') {
+                onFilterChange(field.name, null);
+              } else {
+                onFilterChange(field.name, { type: field.type, value: val });
+              }
+            }}
+            className="text-xs px-2 py-1.5 rounded-sm border focus:outline-none focus:ring-1 focus:ring-notion-blue bg-white border-notion-border text-notion-text w-36"
+          />
+        </div>
+      );
+    }
+
     switch (field.type) {
-      case 'string': {
-        const uniqueValues = getUniqueValues(posts, field.name);
+      case 'string':
+      case 'select':
+      case 'color': {
+        // Declared options keep their order; free-form values are collected from posts
+        const uniqueValues = field.options?.length ? field.options : getUniqueValues(posts, field.name);
         if (uniqueValues.length === 0) return null;
         return (
           <div key={field.name} className="flex flex-col gap-1">
@@ -120,7 +142,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
                 if (val === '') {
                   onFilterChange(field.name, null);
                 } else {
-                  onFilterChange(field.name, { type: 'string', value: val });
+                  onFilterChange(field.name, { type: field.type, value: val });
                 }
               }}
               className={`text-xs px-2 py-1.5 rounded-sm border focus:outline-none focus:ring-1 focus:ring-notion-blue cursor-pointer ${
@@ -136,7 +158,8 @@ const FilterBar: React.FC<FilterBarProps> = ({
         );
       }
 
-      case 'date': {
+      case 'date':
+      case 'datetime': {
         const range = getDateRange(posts, field.name);
         return (
           <div key={field.name} className="flex flex-col gap-1">
@@ -184,8 +207,10 @@ const FilterBar: React.FC<FilterBarProps> = ({
         );
       }
 
-      case 'array': {
-        const allTags = getUniqueValues(posts, field.name);
+      case 'array':
+      case 'multiselect':
+      case 'reference': {
+        const allTags = field.options?.length ? field.options : getUniqueValues(posts, field.name);
         if (allTags.length === 0) return null;
         const selectedTags: string[] = currentFilter?.value || [];
         return (
@@ -207,7 +232,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
                       if (newTags.length === 0) {
                         onFilterChange(field.name, null);
                       } else {
-                        onFilterChange(field.name, { type: 'array', value: newTags });
+                        onFilterChange(field.name, { type: field.type, value: newTags });
                       }
                     }}
                     className={`
@@ -230,7 +255,9 @@ const FilterBar: React.FC<FilterBarProps> = ({
         );
       }
 
-      case 'boolean': {
+      case 'boolean':
+      case 'image': {
+        // image: true = has an image, false = no image
         const currentVal = currentFilter?.value; // true | false | undefined (all)
         return (
           <div key={field.name} className="flex flex-col gap-1">
@@ -238,8 +265,8 @@ const FilterBar: React.FC<FilterBarProps> = ({
             <div className="flex bg-gray-100 p-0.5 rounded-sm border border-notion-border">
               {[
                 { label: 'All', val: undefined },
-                { label: 'True', val: true },
-                { label: 'False', val: false },
+                { label: field.type === 'image' ? 'Set' : 'True', val: true },
+                { label: field.type === 'image' ? 'Empty' : 'False', val: false },
               ].map(opt => (
                 <button
                   key={String(opt.val)}
@@ -247,7 +274,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
                     if (opt.val === undefined) {
                       onFilterChange(field.name, null);
                     } else {
-                      onFilterChange(field.name, { type: 'boolean', value: opt.val });
+                      onFilterChange(field.name, { type: field.type, value: opt.val });
                     }
                   }}
                   className={`
@@ -355,9 +382,23 @@ export const matchesFilter = (
 ): boolean => {
   switch (filter.type) {
     case 'string':
+    case 'select':
+    case 'color':
       return String(fieldValue) === filter.value;
 
-    case 'date': {
+    case 'text':
+    case 'markdown':
+    case 'slug':
+    case 'url':
+    case 'email':
+      return fieldValue !== undefined && fieldValue !== null &&
+        String(fieldValue).toLowerCase().includes(String(filter.value).toLowerCase());
+
+    case 'image':
+      return Boolean(fieldValue) === filter.value;
+
+    case 'date':
+    case 'datetime': {
       if (!fieldValue) return false;
       const d = fieldValue instanceof Date ? fieldValue : new Date(fieldValue);
       if (isNaN(d.getTime())) return false;
@@ -368,10 +409,14 @@ export const matchesFilter = (
       return true;
     }
 
-    case 'array': {
-      if (!Array.isArray(fieldValue)) return false;
+    case 'array':
+    case 'multiselect':
+    case 'reference': {
+      // multiselect values may be a single string in hand-written YAML; a single reference always is
+      const values = Array.isArray(fieldValue) ? fieldValue.map(String) : filter.type !== 'array' && fieldValue ? [String(fieldValue)] : null;
+      if (!values) return false;
       const selectedTags: string[] = filter.value;
-      return selectedTags.some(tag => fieldValue.map(String).includes(tag));
+      return selectedTags.some(tag => values.includes(tag));
     }
 
     case 'boolean':
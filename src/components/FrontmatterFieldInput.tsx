@@ -0,0 +1,236 @@
+/**
+ * FrontmatterFieldInput Component
+ *
+ * Editor widgets for the template field types that need more than a plain
+ * text box (select, image, datetime, markdown…). PostDetailView keeps its
+ * value-based inputs for untyped keys and the basic types.
+ */
+
+import React, { useState } from 'react';
+import { marked } from 'marked';
+import DOMPurify from 'dompurify';
+import { useI18n } from '../i18n/I18nContext';
+import type { TemplateField, TemplateFieldType } from '../features/collections/types';
+import { slugify } from '../utils/parsing';
+import {
+  isValidUrl,
+  isValidEmail,
+  isHexColor,
+  toStringArray,
+  toDateTimeInput,
+  fromDateTimeInput,
+} from '../utils/fieldTypes';
+import { ImageIcon } from './icons/ImageIcon';
+
+/** Types rendered by this component */
+export const RICH_FIELD_TYPES: ReadonlySet<TemplateFieldType> = new Set<TemplateFieldType>([
+  'select',
+  'multiselect',
+  'image',
+  'slug',
+  'url',
+  'email',
+  'color',
+  'datetime',
+  'text',
+  'markdown',
+]);
+
+interface FrontmatterFieldInputProps {
+  field: TemplateField;
+  value: any;
+  onChange: (value: any) => void;
+  /** Opens the image picker for `image` fields */
+  onPickImage: () => void;
+  /** Text a `slug` field can be generated from (the post title) */
+  slugSource?: string;
+}
+
+const inputClass = 'flex-grow bg-transparent border-b border-transparent focus:border-notion-blue focus:ring-0 text-sm py-0.5 px-1 hover:bg-notion-hover/50 rounded-sm transition-colors min-w-0';
+const invalidClass = '!border-red-400 text-red-700';
+const actionClass = 'px-1.5 py-0.5 text-[10px] font-medium text-notion-muted border border-notion-border rounded-sm hover:bg-notion-hover hover:text-notion-text transition-colors flex-shrink-0';
+
+export const FrontmatterFieldInput: React.FC<FrontmatterFieldInputProps> = ({ field, value, onChange, onPickImage, slugSource }) => {
+  const { t } = useI18n();
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const text = value === undefined || value === null ? '' : String(value);
+
+  switch (field.type) {
+    case 'select': {
+      const options = field.options || [];
+      return (
+        <select
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          className={`${inputClass} w-full cursor-pointer`}
+        >
+          <option value="">{t('fieldInput.none')}</option>
+          {/* Keep a value that is not (or no longer) one of the options */}
+          {text && !options.includes(text) && <option value={text}>{text}</option>}
+          {options.map((option) => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+    }
+
+    case 'multiselect': {
+      const selected = toStringArray(value);
+      const options = [...(field.options || []), ...selected.filter((item) => !(field.options || []).includes(item))];
+      return (
+        <div className="flex flex-wrap gap-1 py-0.5 px-1">
+          {options.map((option) => {
+            const isSelected = selected.includes(option);
+            return (
+              <button
+                key={option}
+                type="button"
+                onClick={() => onChange(isSelected ? selected.filter((item) => item !== option) : [...selected, option])}
+                className={`px-1.5 py-0.5 rounded-sm text-[11px] font-medium transition-all border ${
+                  isSelected
+                    ? 'bg-purple-100 text-purple-800 border-purple-300'
+                    : 'bg-white text-notion-muted border-notion-border hover:bg-gray-50 hover:text-notion-text'
+                }`}
+              >
+                {option}
+              </button>
+            );
+          })}
+        </div>
+      );
+    }
+
+    case 'image':
+      return (
+        <div className="flex items-center w-full gap-1">
+          <input
+            type="text"
+            className={inputClass}
+            value={text}
+            onChange={(e) => onChange(e.target.value)}
+          />
+          <button type="button" onClick={onPickImage} className={`${actionClass} inline-flex items-center gap-1`}>
+            <ImageIcon className="w-3 h-3" />
+            {t('fieldInput.chooseImage')}
+          </button>
+        </div>
+      );
+
+    case 'slug':
+      return (
+        <div className="flex items-center w-full gap-1">
+          <input
+            type="text"
+            className={`${inputClass} font-mono`}
+            value={text}
+            onChange={(e) => onChange(e.target.value.toLowerCase().replace(/\s+/g, '-'))}
+            onBlur={(e) => onChange(slugify(e.target.value))}
+          />
+          {slugSource && (
+            <button type="button" onClick={() => onChange(slugify(slugSource))} className={actionClass}>
+              {t('fieldInput.generateSlug')}
+            </button>
+          )}
+        </div>
+      );
+
+    case 'url': {
+      const isInvalid = text !== '' && !isValidUrl(text);
+      return (
+        <div className="flex items-center w-full gap-1">
+          <input
+            type="url"
+            className={`${inputClass} ${isInvalid ? invalidClass : ''}`}
+            value={text}
+            title={isInvalid ? t('fieldInput.invalidUrl') : undefined}
+            onChange={(e) => onChange(e.target.value)}
+          />
+          {text && !isInvalid && !text.startsWith('/') && (
+            <a href={text} target="_blank" rel="noopener noreferrer" className="text-notion-muted hover:text-notion-blue text-xs flex-shrink-0" title={text}>
+              ↗
+            </a>
+          )}
+        </div>
+      );
+    }
+
+    case 'email': {
+      const isInvalid = text !== '' && !isValidEmail(text);
+      return (
+        <input
+          type="email"
+          className={`${inputClass} w-full ${isInvalid ? invalidClass : ''}`}
+          value={text}
+          title={isInvalid ? t('fieldInput.invalidEmail') : undefined}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+    }
+
+    case 'color':
+      return (
+        <div className="flex items-center w-full gap-1.5">
+          <input
+            type="color"
+            className="w-6 h-6 p-0 border border-notion-border rounded-sm cursor-pointer flex-shrink-0"
+            value={isHexColor(text) && text.length === 7 ? text : '#000000'}
+            onChange={(e) => onChange(e.target.value)}
+          />
+          <input
+            type="text"
+            className={`${inputClass} font-mono ${text !== '' && !isHexColor(text) ? invalidClass : ''}`}
+            value={text}
+            placeholder="#000000"
+            onChange={(e) => onChange(e.target.value)}
+          />
+        </div>
+      );
+
+    case 'datetime':
+      return (
+        <input
+          type="datetime-local"
+          className={`${inputClass} w-full cursor-pointer`}
+          value={toDateTimeInput(value)}
+          onChange={(e) => onChange(fromDateTimeInput(e.target.value))}
+        />
+      );
+
+    case 'text':
+      return (
+        <textarea
+          rows={3}
+          className={`${inputClass} w-full resize-y border border-transparent focus:border-notion-blue`}
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+
+    case 'markdown':
+      return (
+        <div className="w-full">
+          <div className="flex justify-end mb-0.5">
+            <button type="button" onClick={() => setIsPreviewing((v) => !v)} className={actionClass}>
+              {isPreviewing ? t('fieldInput.edit') : t('fieldInput.preview')}
+            </button>
+          </div>
+          {isPreviewing ? (
+            <div
+              className="prose prose-sm max-w-none text-sm px-1 py-0.5"
+              dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(marked.parse(text) as string) }}
+            />
+          ) : (
+            <textarea
+              rows={5}
+              className={`${inputClass} w-full resize-y font-mono text-xs border border-transparent focus:border-notion-blue`}
+              value={text}
+              onChange={(e) => onChange(e.target.value)}
+            />
+          )}
+        </div>
+      );
+
+    default:
+      return null;
+  }
+};
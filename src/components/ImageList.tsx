@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { GithubRepo, IGitService, GithubContent } from '../types';
+import { GithubRepo, IGitService, GithubContent, FileChange } from '../types';
 import { SpinnerIcon } from './icons/SpinnerIcon';
 import { UploadIcon } from './icons/UploadIcon';
 import { SearchIcon } from './icons/SearchIcon';
@@ -15,7 +15,7 @@ import { DownloadIcon } from './icons/DownloadIcon';
 import { useI18n } from '../i18n/I18nContext';
 import ImageUploadModal from './ImageUploadModal';
 import { ConfirmationModal } from './ConfirmationModal';
-import { isImageFile, compressImage } from '../utils/image';
+import { isImageFile, compressImage, fileToBase64 } from '../utils/image';
 import { getRawGithubUrl, resolveImageSource } from '../utils/github';
 
 interface ImageListProps {
@@ -230,22 +230,30 @@ const ImageList: React.FC<ImageListProps> = ({
 
     const handleUploadConfirm = async (filesToUpload: File[]) => {
         try {
-            await Promise.all(filesToUpload.map(async (file) => {
-                const processedFile = imageCompressionEnabled 
-                    ? await compressImage(file, maxImageSize, imageResizeMaxWidth)
-                    : file;
-                
-                const commitMsg = commitTemplate.replace('{filename}', processedFile.name);
-                const fullPath = path ? `${path}/${processedFile.name}` : processedFile.name;
-                await gitService.uploadFile(fullPath, processedFile, commitMsg);
-            }));
+            const processedFiles = await Promise.all(filesToUpload.map((file) => (
+                imageCompressionEnabled
+                    ? compressImage(file, maxImageSize, imageResizeMaxWidth)
+                    : Promise.resolve(file)
+            )));
+
+            // All selected images land in a single commit
+            const changes: FileChange[] = await Promise.all(processedFiles.map(async (file) => ({
+                path: path ? `${path}/${file.name}` : file.name,
+                content: await fileToBase64(file),
+                encoding: 'base64' as const,
+            })));
+            const commitMsg = commitTemplate.replace(
+                '{filename}',
+                processedFiles.length === 1 ? processedFiles[0].name : `${processedFiles.length} images`,
+            );
+            await gitService.commitFiles(changes, commitMsg);
             
             onAction();
             fetchImages();
             setIsUploadModalOpen(false);
         } catch (e) {
             console.error(e);
-            alert("Upload failed partially or completely. Check console.");
+            alert("Upload failed. Check console.");
         }
     };
 
@@ -0,0 +1,92 @@
+/**
+ * LocalDraftBanner Component
+ *
+ * "Restore unsaved changes" prompt shown when an editor opens with a local
+ * draft left by an earlier session. The diff compares the draft with the
+ * current remote version of the file.
+ */
+
+import React, { useState } from 'react';
+import { useI18n } from '../i18n/I18nContext';
+import { LocalDraft } from '../utils/localDrafts';
+import { diffPost, PostDiff } from '../utils/diff';
+import { PostDiffView } from './PostDiffView';
+import { SpinnerIcon } from './icons/SpinnerIcon';
+
+interface LocalDraftBannerProps {
+  draft: LocalDraft;
+  /** Current remote content, '' for a post that has no file yet */
+  loadRemoteContent: () => Promise<string>;
+  /** True when the remote file moved on since the draft's edits started */
+  isStale?: boolean;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+export const LocalDraftBanner: React.FC<LocalDraftBannerProps> = ({ draft, loadRemoteContent, isStale, onRestore, onDiscard }) => {
+  const { t } = useI18n();
+  const [diff, setDiff] = useState<PostDiff | null>(null);
+  const [isDiffOpen, setIsDiffOpen] = useState(false);
+  const [isLoadingDiff, setIsLoadingDiff] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleDiff = async () => {
+    if (isDiffOpen) {
+      setIsDiffOpen(false);
+      return;
+    }
+    setIsDiffOpen(true);
+    if (diff) return;
+    setIsLoadingDiff(true);
+    setError(null);
+    try {
+      setDiff(diffPost(await loadRemoteContent(), draft.content));
+    } catch (e) {
+      setError(t('localDrafts.diffFailed', { message: e instanceof Error ? e.message : String(e) }));
+    } finally {
+      setIsLoadingDiff(false);
+    }
+  };
+
+  return (
+    <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-sm text-sm text-amber-900 space-y-2">
+      <div className="flex items-center gap-3 flex-wrap">
+        <span className="flex-grow min-w-0">
+          {t('localDrafts.found', { date: new Date(draft.updatedAt).toLocaleString() })}
+          {isStale && <span className="block text-xs text-amber-700">{t('localDrafts.remoteChanged')}</span>}
+        </span>
+        <button
+          onClick={toggleDiff}
+          className="px-3 py-1 border border-amber-300 text-xs rounded-sm hover:bg-amber-100 transition-colors flex-shrink-0"
+        >
+          {isDiffOpen ? t('localDrafts.hideChanges') : t('localDrafts.showChanges')}
+        </button>
+        <button
+          onClick={onDiscard}
+          className="px-3 py-1 border border-amber-300 text-xs rounded-sm hover:bg-amber-100 transition-colors flex-shrink-0"
+        >
+          {t('localDrafts.discard')}
+        </button>
+        <button
+          onClick={onRestore}
+          className="px-3 py-1 bg-notion-blue text-white text-xs font-medium rounded-sm hover:bg-blue-600 transition-colors flex-shrink-0"
+        >
+          {t('localDrafts.restore')}
+        </button>
+      </div>
+
+      {isDiffOpen && (
+        <div className="p-3 bg-white border border-amber-200 rounded-sm text-notion-text">
+          {isLoadingDiff && (
+            <div className="flex items-center text-xs text-notion-muted">
+              <SpinnerIcon className="w-3.5 h-3.5 mr-2 animate-spin" />
+              {t('localDrafts.loadingDiff')}
+            </div>
+          )}
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          {diff && !isLoadingDiff && <PostDiffView diff={diff} />}
+        </div>
+      )}
+    </div>
+  );
+};
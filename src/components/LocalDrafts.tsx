@@ -0,0 +1,93 @@
+/**
+ * LocalDrafts Component
+ *
+ * Dashboard panel listing unsaved edits kept in this browser for the current
+ * repo and branch (see hooks/useLocalDraft). "Open" takes the user to the
+ * post, where the editor offers to restore them.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { IGitService, GithubRepo } from '../types';
+import { useI18n } from '../i18n/I18nContext';
+import { useCollectionStore } from '../features/collections/store';
+import { useDraftBranch, AUTOSAVE_INTERVAL_MS } from '../hooks/useLocalDraft';
+import { LocalDraft, getLocalDraftStore, listLocalDrafts, localDraftKey, isNewDraftPath } from '../utils/localDrafts';
+import { DocumentIcon } from './icons/DocumentIcon';
+
+interface LocalDraftsProps {
+  gitService: IGitService;
+  repo: GithubRepo;
+  onOpen: (draft: LocalDraft) => void;
+}
+
+export const LocalDrafts: React.FC<LocalDraftsProps> = ({ gitService, repo, onOpen }) => {
+  const { t } = useI18n();
+  const collections = useCollectionStore((state) => state.workspace?.collections);
+  const branch = useDraftBranch(gitService, repo);
+  const [drafts, setDrafts] = useState<LocalDraft[]>([]);
+
+  const loadDrafts = useCallback(async () => {
+    if (!branch) return;
+    try {
+      setDrafts(await listLocalDrafts(getLocalDraftStore(), repo.full_name, branch));
+    } catch (e) {
+      console.warn('[local-drafts] Failed to list local drafts', e);
+    }
+  }, [branch, repo.full_name]);
+
+  // Editors autosave while this panel is on screen: keep the list current
+  useEffect(() => {
+    loadDrafts();
+    const timer = setInterval(loadDrafts, AUTOSAVE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [loadDrafts]);
+
+  const handleDiscard = async (draft: LocalDraft) => {
+    if (!window.confirm(t('localDrafts.discardConfirm', { title: draft.title }))) return;
+    await getLocalDraftStore().delete(localDraftKey(draft.repo, draft.branch, draft.path));
+    await loadDrafts();
+  };
+
+  if (drafts.length === 0) return null;
+
+  return (
+    <div className="mb-6 border border-notion-border rounded-md bg-white">
+      <div className="flex items-center px-4 py-2 border-b border-notion-border">
+        <DocumentIcon className="w-4 h-4 mr-2 text-notion-muted" />
+        <h3 className="text-sm font-semibold text-notion-text">{t('localDrafts.title', { count: drafts.length })}</h3>
+      </div>
+
+      <ul className="divide-y divide-notion-border">
+        {drafts.map((draft) => {
+          const collection = collections?.find((c) => c.id === draft.collectionId);
+          return (
+            <li key={draft.path} className="flex items-center gap-3 px-4 py-2 text-sm">
+              <div className="flex-grow min-w-0">
+                <p className="font-medium text-notion-text truncate">{draft.title || t('localDrafts.untitled')}</p>
+                <p className="text-[11px] text-notion-muted font-mono truncate">
+                  {collection ? `${collection.name} · ` : ''}
+                  {isNewDraftPath(draft.path) ? t('localDrafts.newPost') : draft.path}
+                  {' · '}
+                  {t('localDrafts.savedAt', { date: new Date(draft.updatedAt).toLocaleString() })}
+                </p>
+              </div>
+              <button
+                onClick={() => onOpen(draft)}
+                disabled={!collection}
+                className="px-3 py-1 bg-notion-blue text-white text-xs font-medium rounded-sm hover:bg-blue-600 transition-colors disabled:opacity-50 flex-shrink-0"
+              >
+                {t('localDrafts.open')}
+              </button>
+              <button
+                onClick={() => handleDiscard(draft)}
+                className="px-3 py-1 border border-notion-border text-xs text-notion-text rounded-sm hover:bg-notion-hover transition-colors flex-shrink-0"
+              >
+                {t('localDrafts.discard')}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,176 @@
+/**
+ * MergeConflictModal Component
+ *
+ * Side-by-side resolver for a three-way merge (utils/merge.ts) that could not
+ * be completed automatically: one choice per conflicting frontmatter key and
+ * per conflicting body region. Merged regions are shown folded.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useI18n } from '../i18n/I18nContext';
+import { PostMerge, MergeResolution, ConflictSide, applyMergeResolution } from '../utils/merge';
+import { SpinnerIcon } from './icons/SpinnerIcon';
+import { ExclamationTriangleIcon } from './icons/ExclamationTriangleIcon';
+
+interface MergeConflictModalProps {
+  isOpen: boolean;
+  fileName: string;
+  merge: PostMerge | null;
+  isSaving: boolean;
+  onCancel: () => void;
+  /** Receives the merged file content */
+  onResolve: (content: string) => void;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value instanceof Date) return value.toISOString().split('T')[0];
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+export const MergeConflictModal: React.FC<MergeConflictModalProps> = ({ isOpen, fileName, merge, isSaving, onCancel, onResolve }) => {
+  const { t } = useI18n();
+  const [resolution, setResolution] = useState<MergeResolution>({ frontmatter: {}, body: {} });
+
+  useEffect(() => {
+    setResolution({ frontmatter: {}, body: {} });
+  }, [merge]);
+
+  if (!isOpen || !merge) return null;
+
+  const bodyConflicts = merge.body.filter((chunk) => chunk.type === 'conflict').length;
+  const resolvedCount = Object.keys(resolution.frontmatter).length + Object.keys(resolution.body).length;
+  const remaining = merge.frontmatterConflicts.length + bodyConflicts - resolvedCount;
+
+  const chooseField = (key: string, side: 'ours' | 'theirs') =>
+    setResolution((prev) => ({ ...prev, frontmatter: { ...prev.frontmatter, [key]: side } }));
+  const chooseChunk = (index: number, side: ConflictSide) =>
+    setResolution((prev) => ({ ...prev, body: { ...prev.body, [index]: side } }));
+
+  const sideButton = (active: boolean, label: string, onClick: () => void) => (
+    <button
+      type="button"
+      onClick={onClick}
+      className={`px-2 py-0.5 rounded-sm text-[11px] font-medium border transition-colors ${
+        active ? 'bg-notion-blue text-white border-notion-blue' : 'bg-white text-notion-text border-notion-border hover:bg-notion-hover'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  const renderLines = (lines: string[]) => (
+    <pre className="text-xs font-mono whitespace-pre-wrap break-words p-2 min-h-[2rem]">
+      {lines.length ? lines.join('\n') : <span className="text-notion-muted italic">{t('mergeConflict.empty')}</span>}
+    </pre>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={(e) => e.stopPropagation()}>
+      <div className="bg-white rounded-lg shadow-xl border border-notion-border w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden animate-fade-in">
+        <div className="p-5 border-b border-notion-border flex items-start">
+          <ExclamationTriangleIcon className="h-5 w-5 text-yellow-600 mr-3 mt-0.5 flex-shrink-0" />
+          <div>
+            <h3 className="text-sm font-semibold text-notion-text">{t('mergeConflict.title')}</h3>
+            <p className="mt-1 text-xs text-notion-muted leading-relaxed">{t('mergeConflict.description', { name: fileName })}</p>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-6">
+          {merge.frontmatterConflicts.length > 0 && (
+            <div>
+              <p className="text-[10px] uppercase font-bold text-notion-muted mb-2 tracking-wider">{t('mergeConflict.frontmatter')}</p>
+              <table className="w-full text-xs border border-notion-border">
+                <thead className="bg-notion-sidebar text-notion-muted">
+                  <tr>
+                    <th className="px-2 py-1.5 text-left w-32">{t('mergeConflict.field')}</th>
+                    <th className="px-2 py-1.5 text-left">{t('mergeConflict.yours')}</th>
+                    <th className="px-2 py-1.5 text-left">{t('mergeConflict.theirs')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-notion-border">
+                  {merge.frontmatterConflicts.map((conflict) => {
+                    const choice = resolution.frontmatter[conflict.key];
+                    return (
+                      <tr key={conflict.key}>
+                        <td className="px-2 py-2 font-mono align-top">{conflict.key}</td>
+                        {(['ours', 'theirs'] as const).map((side) => (
+                          <td key={side} className={`px-2 py-2 align-top break-all ${choice === side ? 'bg-blue-50' : ''}`}>
+                            <div className="mb-1">
+                              {conflict[side] === undefined
+                                ? <span className="text-notion-muted italic">{t('mergeConflict.empty')}</span>
+                                : formatValue(conflict[side])}
+                            </div>
+                            {sideButton(choice === side, side === 'ours' ? t('mergeConflict.yours') : t('mergeConflict.theirs'), () => chooseField(conflict.key, side))}
+                          </td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {bodyConflicts > 0 && (
+            <div className="space-y-3">
+              <p className="text-[10px] uppercase font-bold text-notion-muted tracking-wider">{t('mergeConflict.body')}</p>
+              {merge.body.map((chunk, index) => {
+                if (chunk.type === 'ok') {
+                  return (
+                    <div key={index} className="px-2 py-0.5 bg-notion-sidebar text-[11px] text-notion-muted rounded-sm">
+                      {t('mergeConflict.unchangedLines', { count: chunk.lines.length })}
+                    </div>
+                  );
+                }
+                const choice = resolution.body[index];
+                return (
+                  <div key={index} className="border border-yellow-300 rounded-sm overflow-hidden">
+                    <div className="grid grid-cols-2 divide-x divide-notion-border">
+                      {(['ours', 'theirs'] as const).map((side) => (
+                        <div key={side} className={choice === side || choice === 'both' ? 'bg-blue-50' : ''}>
+                          <div className="px-2 py-1 border-b border-notion-border flex items-center justify-between bg-notion-sidebar">
+                            <span className="text-[11px] font-medium text-notion-muted">
+                              {side === 'ours' ? t('mergeConflict.yours') : t('mergeConflict.theirs')}
+                            </span>
+                            {sideButton(choice === side, side === 'ours' ? t('mergeConflict.yours') : t('mergeConflict.theirs'), () => chooseChunk(index, side))}
+                          </div>
+                          {renderLines(chunk[side])}
+                        </div>
+                      ))}
+                    </div>
+                    <div className="px-2 py-1 border-t border-notion-border bg-notion-sidebar text-right">
+                      {sideButton(choice === 'both', t('mergeConflict.keepBoth'), () => chooseChunk(index, 'both'))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-notion-sidebar px-4 py-3 flex items-center gap-2 border-t border-notion-border">
+          <span className="text-xs text-notion-muted mr-auto">
+            {remaining > 0 ? t('mergeConflict.remaining', { count: remaining }) : ''}
+          </span>
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isSaving}
+            className="inline-flex justify-center items-center rounded-sm border border-notion-border bg-white px-3 py-1.5 text-xs font-medium text-notion-text shadow-sm hover:bg-notion-hover transition-colors disabled:opacity-50"
+          >
+            {t('mergeConflict.cancel')}
+          </button>
+          <button
+            type="button"
+            onClick={() => onResolve(applyMergeResolution(merge, resolution))}
+            disabled={isSaving || remaining > 0}
+            className="inline-flex justify-center items-center rounded-sm border border-transparent px-3 py-1.5 text-xs font-medium text-white shadow-sm bg-notion-blue hover:opacity-90 transition-colors disabled:opacity-50"
+          >
+            {isSaving && <SpinnerIcon className="w-3 h-3 mr-1.5 animate-spin" />}
+            {t('mergeConflict.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,209 @@
+/**
+ * NestedFieldInput Component
+ *
+ * Forms for template fields that declare a sub-schema (`fields`):
+ * - `object`: one nested form, e.g. `seo: { title, description, image }`
+ * - `array`: a repeatable group with add / remove / drag-reorder,
+ *   e.g. `authors: [{ name, url, avatar }]`
+ *
+ * Sub-fields render recursively; keys a value has but the schema does not
+ * declare are kept untouched.
+ */
+
+import React, { useState } from 'react';
+import { useI18n } from '../i18n/I18nContext';
+import type { TemplateField } from '../features/collections/types';
+import { defaultValueForField, hasSubFields } from '../utils/fieldTypes';
+import { FrontmatterFieldInput, RICH_FIELD_TYPES } from './FrontmatterFieldInput';
+import { PlusIcon } from './icons/PlusIcon';
+import { TrashIcon } from './icons/TrashIcon';
+
+interface NestedFieldInputProps {
+  field: TemplateField & { fields: TemplateField[] };
+  value: any;
+  onChange: (value: any) => void;
+  /** Opens the image picker; the chosen URL is passed to `apply` */
+  onPickImage: (apply: (url: string) => void) => void;
+}
+
+interface SubFieldInputProps {
+  field: TemplateField;
+  value: any;
+  onChange: (value: any) => void;
+  onPickImage: (apply: (url: string) => void) => void;
+}
+
+const inputClass = 'w-full bg-transparent border-b border-notion-border/60 focus:border-notion-blue focus:ring-0 text-sm py-0.5 px-1 hover:bg-notion-hover/50 rounded-sm transition-colors min-w-0';
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+/**
+ * Input for one field: nested schema, rich widget or a basic input. Also used
+ * for the top-level fields of data collection entries.
+ */
+export const SubFieldInput: React.FC<SubFieldInputProps> = ({ field, value, onChange, onPickImage }) => {
+  if (hasSubFields(field)) {
+    return <NestedFieldInput field={field} value={value} onChange={onChange} onPickImage={onPickImage} />;
+  }
+  if (RICH_FIELD_TYPES.has(field.type)) {
+    return <FrontmatterFieldInput field={field} value={value} onChange={onChange} onPickImage={() => onPickImage(onChange)} />;
+  }
+
+  switch (field.type) {
+    case 'boolean':
+      return (
+        <input
+          type="checkbox"
+          checked={Boolean(value)}
+          onChange={(e) => onChange(e.target.checked)}
+          className="h-3.5 w-3.5 rounded-sm border-notion-border text-notion-blue focus:ring-notion-blue"
+        />
+      );
+    case 'number':
+      return (
+        <input
+          type="number"
+          className={inputClass}
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+        />
+      );
+    case 'date':
+      return (
+        <input
+          type="date"
+          className={inputClass}
+          value={value instanceof Date ? value.toISOString().split('T')[0] : String(value || '')}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+    case 'array':
+      return (
+        <input
+          type="text"
+          className={inputClass}
+          value={Array.isArray(value) ? value.join(', ') : String(value || '')}
+          onChange={(e) => onChange(e.target.value.split(',').map((s) => s.trim()).filter((s) => s))}
+        />
+      );
+    default:
+      return (
+        <input
+          type="text"
+          className={inputClass}
+          value={value === undefined || value === null ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+  }
+};
+
+/** Label + input rows for every declared sub-field of an object value */
+const ObjectForm: React.FC<SubFieldInputProps & { field: TemplateField & { fields: TemplateField[] } }> = ({ field, value, onChange, onPickImage }) => {
+  const record = isRecord(value) ? value : {};
+  return (
+    <div className="space-y-1.5">
+      {field.fields.map((sub) => (
+        <div key={sub.name} className="flex items-start gap-2">
+          <label className="w-20 flex-shrink-0 pt-1 text-[11px] font-medium text-notion-muted capitalize truncate" title={sub.description || sub.name}>
+            {sub.name}
+          </label>
+          <div className="flex-grow min-w-0 flex items-center">
+            <SubFieldInput
+              field={sub}
+              value={record[sub.name]}
+              onChange={(subValue) => onChange({ ...record, [sub.name]: subValue })}
+              onPickImage={onPickImage}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/** First non-empty string of an item, used as its collapsed title */
+const itemSummary = (item: unknown): string => {
+  if (!isRecord(item)) return '';
+  const first = Object.values(item).find((v) => typeof v === 'string' && v.trim() !== '');
+  return typeof first === 'string' ? first : '';
+};
+
+export const NestedFieldInput: React.FC<NestedFieldInputProps> = ({ field, value, onChange, onPickImage }) => {
+  const { t } = useI18n();
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  if (field.type === 'object') {
+    return (
+      <div className="w-full pl-2 border-l-2 border-notion-border">
+        <ObjectForm field={field} value={value} onChange={onChange} onPickImage={onPickImage} />
+      </div>
+    );
+  }
+
+  const items: any[] = Array.isArray(value) ? value : [];
+  const itemSchema = { ...field, type: 'object' as const };
+
+  const updateItem = (index: number, item: any) => onChange(items.map((current, i) => (i === index ? item : current)));
+  const removeItem = (index: number) => onChange(items.filter((_, i) => i !== index));
+  const addItem = () => onChange([...items, defaultValueForField({ name: field.name, type: 'object', fields: field.fields })]);
+
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (dragIndex === null || dragIndex === index) return;
+    const reordered = [...items];
+    const [dragged] = reordered.splice(dragIndex, 1);
+    reordered.splice(index, 0, dragged);
+    onChange(reordered);
+    setDragIndex(index);
+  };
+
+  return (
+    <div className="w-full space-y-2">
+      {items.map((item, index) => (
+        <div
+          key={index}
+          onDragOver={(e) => handleDragOver(e, index)}
+          className={`rounded-sm border bg-white transition-all ${
+            dragIndex === index ? 'border-notion-blue ring-2 ring-blue-200' : 'border-notion-border'
+          }`}
+        >
+          <div className="flex items-center gap-1.5 px-2 py-1 bg-notion-sidebar border-b border-notion-border">
+            <span
+              draggable
+              onDragStart={() => setDragIndex(index)}
+              onDragEnd={() => setDragIndex(null)}
+              className="cursor-grab active:cursor-grabbing text-notion-muted select-none text-xs leading-none"
+              title={t('fieldInput.dragToReorder')}
+            >
+              ⋮⋮
+            </span>
+            <span className="flex-grow text-[11px] font-medium text-notion-muted truncate">
+              {itemSummary(item) || t('fieldInput.item', { index: index + 1 })}
+            </span>
+            <button
+              type="button"
+              onClick={() => removeItem(index)}
+              className="p-0.5 text-notion-muted hover:text-red-600 hover:bg-red-50 rounded-sm transition-colors"
+              title={t('fieldInput.removeItem')}
+            >
+              <TrashIcon className="w-3 h-3" />
+            </button>
+          </div>
+          <div className="p-2">
+            <ObjectForm field={itemSchema} value={item} onChange={(updated) => updateItem(index, updated)} onPickImage={onPickImage} />
+          </div>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={addItem}
+        className="inline-flex items-center gap-1 px-2 py-0.5 text-[11px] font-medium text-notion-muted border border-dashed border-notion-border rounded-sm hover:text-notion-blue hover:border-notion-blue/50 transition-colors"
+      >
+        <PlusIcon className="w-3 h-3" />
+        {t('fieldInput.addItem')}
+      </button>
+    </div>
+  );
+};
@@ -5,7 +5,7 @@
  */
 
 import React, { useState } from 'react';
-import { createCollection, useCollectionStore, Collection } from '../features/collections';
+import { createCollection, useCollectionStore, Collection, CollectionKind } from '../features/collections';
 import { CloseIcon } from './icons/CloseIcon';
 import { FolderIcon } from './icons/FolderIcon';
 import { useI18n } from '../i18n/I18nContext';
@@ -24,6 +24,7 @@ export const NewCollectionModal: React.FC<NewCollectionModalProps> = ({
   onCreated,
 }) => {
   const [name, setName] = useState('');
+  const [kind, setKind] = useState<CollectionKind>('posts');
   const [postsPath, setPostsPath] = useState('');
   const [imagesPath, setImagesPath] = useState('');
   const [error, setError] = useState<string | null>(null);
@@ -59,6 +60,7 @@ export const NewCollectionModal: React.FC<NewCollectionModalProps> = ({
 
     // Create collection
     const collection = createCollection(id, name.trim(), postsPath.trim(), imagesPath.trim());
+    if (kind === 'data') collection.kind = 'data';
     addCollection(collection);
 
     // Notify parent to sync
@@ -66,6 +68,7 @@ export const NewCollectionModal: React.FC<NewCollectionModalProps> = ({
 
     // Reset and close
     setName('');
+    setKind('posts');
     setPostsPath('');
     setImagesPath('');
     onClose();
@@ -73,6 +76,7 @@ export const NewCollectionModal: React.FC<NewCollectionModalProps> = ({
 
   const handleReset = () => {
     setName('');
+    setKind('posts');
     setPostsPath('');
     setImagesPath('');
     setError(null);
@@ -118,17 +122,33 @@ export const NewCollectionModal: React.FC<NewCollectionModalProps> = ({
             />
           </div>
 
+          {/* Kind */}
+          <div>
+            <label className="block text-sm font-medium text-notion-text mb-1">
+              {t('collectionModal.kindLabel')}
+            </label>
+            <select
+              value={kind}
+              onChange={(e) => setKind(e.target.value as CollectionKind)}
+              className="w-full px-3 py-2 border border-notion-border rounded-sm text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="posts">{t('collectionModal.kindPosts')}</option>
+              <option value="data">{t('collectionModal.kindData')}</option>
+            </select>
+            {kind === 'data' && <p className="text-xs text-notion-muted mt-1">{t('collectionModal.kindDataHelp')}</p>}
+          </div>
+
           {/* Posts Path */}
           <div>
             <label className="block text-sm font-medium text-notion-text mb-1">
-              {t('collectionModal.postsPathLabel')}
+              {kind === 'data' ? t('collectionModal.dataPathLabel') : t('collectionModal.postsPathLabel')}
             </label>
             <div className="flex gap-2">
               <input
                 type="text"
                 value={postsPath}
                 onChange={(e) => setPostsPath(e.target.value)}
-                placeholder={t('collectionModal.postsPathPlaceholder')}
+                placeholder={kind === 'data' ? t('collectionModal.dataPathPlaceholder') : t('collectionModal.postsPathPlaceholder')}
                 className="flex-grow px-3 py-2 border border-notion-border rounded-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               />
               <button
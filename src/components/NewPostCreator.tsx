@@ -5,9 +5,16 @@
 
 
 import React, { useState, useEffect, useCallback } from 'react';
-import { GithubRepo, IGitService } from '../types';
+import { GithubRepo, IGitService, FileChange } from '../types';
 import { slugify, parseMarkdown, updateFrontmatter, escapeRegExp } from '../utils/parsing';
-import { compressImage } from '../utils/image';
+import { compressImage, fileToBase64 } from '../utils/image';
+import { validateFrontmatter, formatValidationIssue } from '../utils/validation';
+import { useCollectionStore } from '../features/collections/store';
+import { resolveFilenamePattern } from '../utils/filenamePattern';
+import { missingDefaults } from '../utils/dynamicDefaults';
+import { useAuthStore } from '../features/auth/store';
+import { useLocalDraft } from '../hooks/useLocalDraft';
+import { LocalDraftBanner } from './LocalDraftBanner';
 import { UploadIcon } from './icons/UploadIcon';
 import { SpinnerIcon } from './icons/SpinnerIcon';
 import { PhotoIcon } from './icons/PhotoIcon';
@@ -65,7 +72,7 @@ const TimelineItem: React.FC<{
 };
 
 const NewPostCreator: React.FC<NewPostCreatorProps> = ({
-  gitService, repo, postsPath, imagesPath, newPostCommitTemplate, newImageCommitTemplate, imageFileTypes, publishDateSource, imageCompressionEnabled, maxImageSize, imageResizeMaxWidth
+  gitService, repo, postsPath, imagesPath, newPostCommitTemplate, imageFileTypes, publishDateSource, imageCompressionEnabled, maxImageSize, imageResizeMaxWidth
 }) => {
   const [imageFiles, setImageFiles] = useState<File[]>([]);
   const [imagePreviews, setImagePreviews] = useState<string[]>([]);
@@ -84,6 +91,17 @@ const NewPostCreator: React.FC<NewPostCreatorProps> = ({
   const [validationTemplate, setValidationTemplate] = useState<Record<string, string> | null>(null);
   const { t } = useI18n();
 
+  // The validated post is kept locally until it is published
+  const { pendingDraft, restorePendingDraft, discardPendingDraft, clearLocalDraft } = useLocalDraft(gitService, repo, {
+    path: '',
+    collectionId: useCollectionStore.getState().getActiveCollection()?.id,
+    openedContent: '',
+    baseSha: '',
+    getContent: () => markdownContent && markdownFile && !success
+      ? { content: markdownContent, title: String(validatedFrontmatter?.title || markdownFile.name), fileName: markdownFile.name }
+      : null,
+  });
+
   useEffect(() => {
     const templateJson = localStorage.getItem(`postTemplate_${repo.full_name}`);
     if (templateJson) {
@@ -185,20 +203,7 @@ const NewPostCreator: React.FC<NewPostCreatorProps> = ({
   }
 
 
-  const handleMarkdownFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    setIsProcessingFile(true);
-    setValidationStatus({});
-    setMarkdownFile(null);
-    setMarkdownContent(null);
-    setValidatedFrontmatter(null);
-
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const content = e.target?.result as string;
-      
+  const processMarkdown = (content: string, file: File) => {
       try {
         let finalContent = content;
         // Override publishDate if setting is 'system'
@@ -206,6 +211,15 @@ const NewPostCreator: React.FC<NewPostCreatorProps> = ({
             const today = new Date().toISOString().split('T')[0];
             finalContent = updateFrontmatter(content, { publishDate: today });
         }
+
+        // Template fields the file leaves empty get their (expression) defaults
+        const activeCollection = useCollectionStore.getState().getActiveCollection();
+        const user = useAuthStore.getState().user;
+        const defaults = missingDefaults(activeCollection?.template, parseMarkdown(finalContent).frontmatter, {
+            user: user?.name || user?.login,
+            collection: activeCollection?.id,
+        });
+        if (Object.keys(defaults).length > 0) finalContent = updateFrontmatter(finalContent, defaults);
         
         const { frontmatter } = parseMarkdown(finalContent);
         
@@ -213,6 +227,10 @@ const NewPostCreator: React.FC<NewPostCreatorProps> = ({
             ? validateWithTemplate(frontmatter, validationTemplate)
             : validateWithDefaults(frontmatter);
 
+        // Rules declared on the active collection's template fields
+        validateFrontmatter(frontmatter, activeCollection?.template, activeCollection?.vocabularies)
+            .forEach(issue => errors.push(`- ${formatValidationIssue(issue, t)}`));
+
         if (errors.length > 0) {
             throw new Error(t('newPost.validationErrors.validationFailIntro') + '\n' + errors.join('\n'));
         }
@@ -228,7 +246,29 @@ const NewPostCreator: React.FC<NewPostCreatorProps> = ({
       } finally {
           setIsProcessingFile(false);
       }
-    };
+  };
+
+  const handleRestoreLocalDraft = () => {
+    const draft = restorePendingDraft();
+    if (!draft) return;
+    const fileName = draft.fileName || 'post.md';
+    setIsProcessingFile(true);
+    setValidationStatus({});
+    processMarkdown(draft.content, new File([draft.content], fileName, { type: 'text/markdown' }));
+  };
+
+  const handleMarkdownFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setIsProcessingFile(true);
+    setValidationStatus({});
+    setMarkdownFile(null);
+    setMarkdownContent(null);
+    setValidatedFrontmatter(null);
+
+    const reader = new FileReader();
+    reader.onload = (e) => processMarkdown(e.target?.result as string, file);
     reader.onerror = () => {
         setIsProcessingFile(false);
         setValidationStatus({ error: t('newPost.validationErrors.fileReadError') });
@@ -277,12 +317,12 @@ const NewPostCreator: React.FC<NewPostCreatorProps> = ({
     setSuccess(null);
 
     try {
-        // First, upload all the (processed) image files
-        await Promise.all(imageFiles.map(file => {
-            const commitMessage = newImageCommitTemplate.replace('{filename}', file.name);
-            const fullPath = imagesPath ? `${imagesPath}/${file.name}` : file.name;
-            return gitService.uploadFile(fullPath, file, commitMessage);
-        }));
+        // First, encode all the (processed) image files — they go into the post's commit
+        const imageChanges: FileChange[] = await Promise.all(imageFiles.map(async (file) => ({
+            path: imagesPath ? `${imagesPath}/${file.name}` : file.name,
+            content: await fileToBase64(file),
+            encoding: 'base64' as const,
+        })));
 
         // Now, prepare the markdown file, updating any changed image names
         let finalMarkdownContent = markdownContent;
@@ -295,13 +335,18 @@ const NewPostCreator: React.FC<NewPostCreatorProps> = ({
         // Ensure slugify receives a string, even if title is undefined or unknown type
         const slug = slugify(String(frontmatter.title || ''));
         const fileExtension = markdownFile.name.split('.').pop() || 'md';
-        const filename = `${slug}.${fileExtension}`;
+        const filenamePattern = useCollectionStore.getState().getActiveCollection()?.filenamePattern;
+        const filename = resolveFilenamePattern(filenamePattern, { slug, frontmatter, extension: fileExtension });
         const postPath = postsPath ? `${postsPath}/${filename}` : filename;
         
         const commitMessage = newPostCommitTemplate.replace('{filename}', filename);
-        await gitService.createFileFromString(postPath, finalMarkdownContent, commitMessage);
+        await gitService.commitFiles(
+            [...imageChanges, { path: postPath, content: finalMarkdownContent }],
+            commitMessage,
+        );
 
         setSuccess(t('newPost.publishSuccess', { filename }));
+        clearLocalDraft();
         setTimeout(resetState, 3000);
 
     } catch(err) {
@@ -318,6 +363,15 @@ const NewPostCreator: React.FC<NewPostCreatorProps> = ({
   return (
     <div className="flex flex-col lg:flex-row gap-8 lg:gap-12">
       <div className="flex-grow space-y-8">
+        {pendingDraft && (
+          <LocalDraftBanner
+            draft={pendingDraft}
+            loadRemoteContent={() => Promise.resolve('')}
+            onRestore={handleRestoreLocalDraft}
+            onDiscard={discardPendingDraft}
+          />
+        )}
+
         <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
           <h2 className="text-xl font-bold text-gray-800 mb-1 flex items-center">
             <PhotoIcon className="w-6 h-6 mr-3 text-purple-500" />
@@ -8,10 +8,10 @@ import { useCollectionStore } from '../features/collections/store';
 import { DocumentIcon } from './icons/DocumentIcon';
 import { ArrowUturnLeftIcon } from './icons/ArrowUturnLeftIcon';
 import { ClockIcon } from './icons/ClockIcon';
-import { GithubRepo, IGitService } from '../types';
+import { GithubRepo, IGitService, PullRequestInfo, FileRevision } from '../types';
 import { SpinnerIcon } from './icons/SpinnerIcon';
 import { ImageIcon } from './icons/ImageIcon';
-import { updateFrontmatter, slugify } from '../utils/parsing';
+import { updateFrontmatter, slugify, parseMarkdown } from '../utils/parsing';
 import { CheckCircleIcon } from './icons/CheckCircleIcon';
 import { resolveImageSource } from '../utils/github';
 import { PlusIcon } from './icons/PlusIcon';
@@ -23,6 +23,28 @@ import PostImageSelectionModal from './PostImageSelectionModal';
 import { SlotRenderer, createEditorGitService, usePluginConfig, isPluginFallback } from '../plugins';
 import type { EditorProps } from '@pageel/plugin-types';
 import { NativePlainEditor } from './editors/NativePlainEditor';
+import { PostHistory } from './PostHistory';
+import { MergeConflictModal } from './MergeConflictModal';
+import { FrontmatterFieldInput, RICH_FIELD_TYPES } from './FrontmatterFieldInput';
+import { NestedFieldInput } from './NestedFieldInput';
+import { ReferenceFieldInput } from './ReferenceFieldInput';
+import { useReferenceEntries } from '../hooks/useReferenceEntries';
+import { useLocalDraft } from '../hooks/useLocalDraft';
+import { LocalDraftBanner } from './LocalDraftBanner';
+import { RenamePostModal } from './RenamePostModal';
+import { VocabularyInput } from './VocabularyInput';
+import type { RenamePlan } from '../utils/renamePost';
+import type { Collection } from '../features/collections/types';
+import { getTemplateField, defaultValueForField, hasSubFields } from '../utils/fieldTypes';
+import { validateFrontmatter, groupValidationIssues } from '../utils/validation';
+import { saveWithMerge, PostMerge } from '../utils/merge';
+import { resolveFilenamePattern, entryRelativePath } from '../utils/filenamePattern';
+import { entrySlug } from '../utils/references';
+import type { TranslationLink } from '../utils/contentLocales';
+import { scheduledAt, scheduleUpdates } from '../utils/schedule';
+import { TranslationBadges } from './TranslationBadges';
+import { resolveDefaultValue, syncDerivedFields, DefaultContext } from '../utils/dynamicDefaults';
+import { useAuthStore } from '../features/auth/store';
 
 
 
@@ -49,6 +71,10 @@ interface PostDetailViewProps {
   imagesPath: string;
   imageFileTypes: string;
   onAction: () => void;
+  /** Locales of a multilingual entry; opening one replaces this post */
+  translations?: TranslationLink[];
+  currentLocale?: string | null;
+  onOpenTranslation?: (link: TranslationLink) => void;
 }
 
 // --- Diagnostic structured loggers ---
@@ -234,9 +260,9 @@ const GalleryThumbnail: React.FC<{
     );
 };
 
-const PostDetailView: React.FC<PostDetailViewProps> = ({ post, onBack, onDelete, gitService, repo, projectType, domainUrl, onUpdate, imagesPath, imageFileTypes, onAction }) => {
+const PostDetailView: React.FC<PostDetailViewProps> = ({ post, onBack, onDelete, gitService, repo, projectType, domainUrl, onUpdate, imagesPath, imageFileTypes, onAction, translations, currentLocale, onOpenTranslation }) => {
   // @para-doc [#csa-new-post-editor-mode]
-  const [activeTab, setActiveTab] = useState<'edit' | 'code' | 'preview'>('edit');
+  const [activeTab, setActiveTab] = useState<'edit' | 'code' | 'preview' | 'history'>('edit');
   const { t, language } = useI18n();
   const pluginConfig = usePluginConfig();
   const hasWysiwygPlugin = !isPluginFallback(pluginConfig.plugins?.editor);
@@ -250,7 +276,7 @@ const PostDetailView: React.FC<PostDetailViewProps> = ({ post, onBack, onDelete,
   const [externalMarkdownVersion, setExternalMarkdownVersion] = useState(0);
   const editorRef = useRef<any>(null);
 
-  const handleTabChange = (newTab: 'edit' | 'code' | 'preview') => {
+  const handleTabChange = (newTab: 'edit' | 'code' | 'preview' | 'history') => {
       if (activeTab === 'edit' && newTab !== 'edit') {
           const latestMd = editorRef.current?.getMarkdown();
           if (latestMd !== undefined) setEditableBody(latestMd);
@@ -265,16 +291,76 @@ const PostDetailView: React.FC<PostDetailViewProps> = ({ post, onBack, onDelete,
   const [editableFrontmatter, setEditableFrontmatter] = useState<Record<string, any>>(post.frontmatter);
   const [editableBody, setEditableBody] = useState<string>(post.body);
   const [missingFields, setMissingFields] = useState<string[]>([]);
+  // Template rule violations by frontmatter key, shown under each property
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string[]>>({});
   const [isSaving, setIsSaving] = useState(false);
   const [isDirty, setIsDirty] = useState(false);
+  // Save rejected by a newer upstream SHA that could not be merged automatically
+  const [mergeConflict, setMergeConflict] = useState<{ merge: PostMerge; theirsSha: string; commitMessage: string } | null>(null);
+
+  // Editorial mode: saves go to cms/<collection>/<slug> + a pull request
+  const editorialCollection = useMemo(() => {
+      const collection = useCollectionStore.getState().getActiveCollection();
+      return collection?.editorialMode ? collection : null;
+  }, []);
+  // Draft branches are keyed by entry slug, so `{slug}/index.md` posts don't all share `index`
+  const draftSlugOf = (path: string, frontmatter: Record<string, any>) =>
+      entrySlug(entryRelativePath(path, editorialCollection?.postsPath || ''), frontmatter);
+  const [draftPullRequest, setDraftPullRequest] = useState<PullRequestInfo | null>(null);
+  // Field types of the active collection (rich editor widgets)
+  const activeTemplate = useMemo(() => useCollectionStore.getState().getActiveCollection()?.template || null, []);
+  const { entriesByCollection, isLoading: isLoadingReferences } = useReferenceEntries(gitService, activeTemplate);
+  // Path of a new post whose draft branch already exists (create mode re-saves)
+  const draftPathRef = useRef<string | null>(null);
+  // Scheduled publishing: the cron publishes the post once its time passes
+  const schedule = useMemo(() => useCollectionStore.getState().getActiveCollection()?.schedule || null, []);
+  const [isSchedulerOpen, setIsSchedulerOpen] = useState(false);
+  const [scheduleInput, setScheduleInput] = useState('');
+  // Fields typed in by the user: their derived default (`{{slugify(title)}}`) stops following
+  const editedFieldsRef = useRef<Set<string>>(new Set());
+  const defaultContext = useMemo((): DefaultContext => {
+      const user = useAuthStore.getState().user;
+      return { user: user?.name || user?.login, collection: useCollectionStore.getState().getActiveCollection()?.id };
+  }, []);
   
   // Updates specific to Detail View
   const updatePostFileInputRef = useRef<HTMLInputElement>(null);
   const titleTextareaRef = useRef<HTMLTextAreaElement>(null);
   const [isImageModalOpen, setIsImageModalOpen] = useState(false);
   const [isEditorImageModalOpen, setIsEditorImageModalOpen] = useState(false);
+  // Receives the URL picked for an `image` field (top-level or nested)
+  const [imageFieldTarget, setImageFieldTarget] = useState<{ apply: (url: string) => void } | null>(null);
   const [editorImageResolver, setEditorImageResolver] = useState<((url: string | null) => void) | null>(null);
   const [isUploading, setIsUploading] = useState(false);
+  // Collection the post is in: rename / move, controlled vocabularies
+  const postCollection = useMemo(() => useCollectionStore.getState().getActiveCollection() || null, []);
+  const [isRenameOpen, setIsRenameOpen] = useState(false);
+
+  // Unsaved edits are autosaved locally and offered back after a crash or expired session
+  const openedContent = useMemo(() => post.rawContent || updateFrontmatter(post.body, post.frontmatter), []);
+  const { pendingDraft, restorePendingDraft, discardPendingDraft, clearLocalDraft } = useLocalDraft(gitService, repo, {
+      path: post.path,
+      collectionId: useCollectionStore.getState().getActiveCollection()?.id,
+      openedContent,
+      baseSha: post.sha,
+      getContent: () => isDirty
+          ? { content: updateFrontmatter(editableBody, editableFrontmatter), title: String(editableFrontmatter.title || post.name) }
+          : null,
+  });
+
+  useEffect(() => {
+      if (!isDirty) clearLocalDraft();
+  }, [isDirty, clearLocalDraft]);
+
+  const handleRestoreLocalDraft = () => {
+      const draft = restorePendingDraft();
+      if (!draft) return;
+      const parsed = parseMarkdown(draft.content);
+      setEditableFrontmatter(parsed.frontmatter);
+      setEditableBody(parsed.body);
+      setExternalMarkdownVersion(v => v + 1);
+      setIsDirty(true);
+  };
 
   // Memoize the editor git service to prevent infinite editor re-renders
   const editorGitService = useMemo(() => createEditorGitService(gitService, imagesPath), [gitService, imagesPath]);
@@ -300,6 +386,26 @@ const PostDetailView: React.FC<PostDetailViewProps> = ({ post, onBack, onDelete,
       }
   }, [editableFrontmatter]); // Re-calc if frontmatter changes (e.g. adding a field)
 
+  // Editorial mode: open the draft branch version of the post if there is one
+  useEffect(() => {
+      if (!editorialCollection || post.sha === "") return;
+      let cancelled = false;
+      const slug = entrySlug(entryRelativePath(post.path, editorialCollection.postsPath), post.frontmatter);
+      gitService.getDraft(editorialCollection.id, slug, post.path)
+          .then((draft) => {
+              if (cancelled || !draft) return;
+              setDraftPullRequest(draft.pullRequest);
+              if (draft.content !== null && draft.content !== post.rawContent) {
+                  const parsed = parseMarkdown(draft.content);
+                  setEditableFrontmatter(parsed.frontmatter);
+                  setEditableBody(parsed.body);
+                  setExternalMarkdownVersion(v => v + 1);
+              }
+          })
+          .catch((e) => logDiagnosticWarn('EDITORIAL_DRAFT_LOAD_FAIL', 'Failed to load draft branch.', { error: e instanceof Error ? e.message : String(e) }));
+      return () => { cancelled = true; };
+  }, [editorialCollection, post.sha, post.path, post.frontmatter, post.rawContent, gitService]);
+
   // Scroll to top when component mounts
   useEffect(() => {
       const container = document.getElementById('post-detail-container');
@@ -308,13 +414,36 @@ const PostDetailView: React.FC<PostDetailViewProps> = ({ post, onBack, onDelete,
 
   // Handle Input Changes
   const handleFrontmatterChange = (key: string, value: any) => {
-      setEditableFrontmatter(prev => ({
-          ...prev,
-          [key]: value
-      }));
+      editedFieldsRef.current.add(key);
+      // Derived defaults follow their source fields until the new post is first saved
+      const isUnsaved = post.sha === "" && !draftPathRef.current;
+      setEditableFrontmatter(prev => {
+          const next = { ...prev, [key]: value };
+          return isUnsaved ? { ...next, ...syncDerivedFields(activeTemplate, next, editedFieldsRef.current, defaultContext) } : next;
+      });
+      setFieldErrors(prev => {
+          if (!prev[key]) return prev;
+          const { [key]: _cleared, ...rest } = prev;
+          return rest;
+      });
       setIsDirty(true);
   };
 
+  const publishAt = schedule ? scheduledAt(editableFrontmatter, schedule) : null;
+  const isScheduled = !!publishAt && publishAt.getTime() > Date.now();
+
+  const handleApplySchedule = () => {
+      const at = new Date(scheduleInput);
+      if (!schedule || isNaN(at.getTime())) return;
+      Object.entries(scheduleUpdates(editableFrontmatter, schedule, at)).forEach(([key, value]) => handleFrontmatterChange(key, value));
+      setIsSchedulerOpen(false);
+  };
+
+  const handleOpenTranslation = (link: TranslationLink) => {
+      if (isDirty && !window.confirm(t('translations.discardConfirm'))) return;
+      onOpenTranslation?.(link);
+  };
+
   const handleBodyChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
       setEditableBody(e.target.value);
       setIsDirty(true);
@@ -326,7 +455,7 @@ const PostDetailView: React.FC<PostDetailViewProps> = ({ post, onBack, onDelete,
   }, []);
 
   const handleAddMissingField = (key: string) => {
-      let defaultValue: any = "";
+      let defaultValue: any = resolveDefaultValue(defaultValueForField(getTemplateField(activeTemplate, key)), editableFrontmatter, defaultContext);
       if (key === 'date' || key === 'publishDate') defaultValue = new Date().toISOString().split('T')[0];
       if (key === 'tags') defaultValue = [];
       
@@ -334,6 +463,22 @@ const PostDetailView: React.FC<PostDetailViewProps> = ({ post, onBack, onDelete,
       setMissingFields(prev => prev.filter(k => k !== key));
   };
 
+  // After a successful edit-mode write: the saved content is the new merge base
+  const applySavedContent = useCallback(async (content: string, reloadEditor: boolean) => {
+      post.rawContent = content;
+      const newSha = await gitService.getFileSha(post.path);
+      if (newSha) post.sha = newSha;
+      if (reloadEditor) {
+          const parsed = parseMarkdown(content);
+          setEditableFrontmatter(parsed.frontmatter);
+          setEditableBody(parsed.body);
+          setExternalMarkdownVersion(v => v + 1);
+      }
+      onAction(); // Trigger sync
+      onUpdate(); // Refresh parent list logic
+      setIsDirty(false);
+  }, [post, gitService, onAction, onUpdate]);
+
   const handleSave = useCallback(async () => {
       if (!isDirty && post.sha !== "") return;
       setIsSaving(true);
@@ -347,6 +492,17 @@ const PostDetailView: React.FC<PostDetailViewProps> = ({ post, onBack, onDelete,
           return;
       }
 
+      // 1b. Template validation rules (required, length, pattern, ranges…)
+      const issues = validateFrontmatter(editableFrontmatter, activeTemplate, postCollection?.vocabularies);
+      if (issues.length > 0) {
+          logDiagnosticWarn('POST_SAVE_VALIDATION_FAILED', 'Frontmatter violates template rules.', { issues: issues.map(i => `${i.path}:${i.rule}`) });
+          setFieldErrors(groupValidationIssues(issues, t));
+          alert(t('validation.saveBlocked'));
+          setIsSaving(false);
+          return;
+      }
+      setFieldErrors({});
+
       try {
           let currentBody = editableBody;
           // Get latest content from markdown editor if edit tab is active
@@ -360,17 +516,37 @@ const PostDetailView: React.FC<PostDetailViewProps> = ({ post, onBack, onDelete,
           
           const finalContent = updateFrontmatter(currentBody, editableFrontmatter);
 
-          // 2. Create Mode
+          // 2. Editorial Mode — commit to the draft branch, never the content branch
+          if (editorialCollection && (post.sha !== "" || draftPathRef.current)) {
+              const draftPath = draftPathRef.current || post.path;
+              const filename = draftPath.split('/').pop() || draftPath;
+              const pr = await gitService.saveDraft({
+                  collectionId: editorialCollection.id,
+                  slug: draftSlugOf(draftPath, draftPathRef.current ? editableFrontmatter : post.frontmatter),
+                  path: draftPath,
+                  content: finalContent,
+                  commitMessage: `fix(content): update draft "${filename}" from editor`,
+                  title: String(editableFrontmatter.title),
+              });
+              logDiagnostic('EDITORIAL_DRAFT_SAVED', 'Saved post to draft branch.', { path: draftPath, branch: pr.head, pr: pr.number });
+              setDraftPullRequest(pr);
+              onAction();
+              setIsDirty(false);
+              return;
+          }
+
+          // 3. Create Mode
           if (post.sha === "") {
               // 2a. Generate slug and filename (csa-filename-slugify)
               // @para-doc [#csa-filename-slugify]
               const slug = slugify(String(editableFrontmatter.title));
-              const fileExtension = 'md'; // AC-5 default
-              const filename = `${slug}.${fileExtension}`;
               
+              // A new translation arrives with its path already set by the list
+              const presetPath = post.path;
+
               // 2b. Sanitize path to prevent Path Traversal (csa-path-safety)
               // @para-doc [#csa-path-safety]
-              if (!/^[a-z0-9-]+$/.test(slug)) {
+              if (!presetPath && !/^[a-z0-9-]+$/.test(slug)) {
                   logDiagnosticWarn('POST_CREATION_INVALID_SLUG', 'Invalid characters in title for filename generation.', { title: editableFrontmatter.title, slug });
                   alert(t('postList.error.invalidSlug'));
                   setIsSaving(false);
@@ -380,6 +556,17 @@ const PostDetailView: React.FC<PostDetailViewProps> = ({ post, onBack, onDelete,
               const { getActiveCollection } = useCollectionStore.getState();
               const activeCollection = getActiveCollection();
               const postsPath = activeCollection?.postsPath || '';
+
+              // File name (and sub-folders) from the collection's pattern, `<slug>.md` by default
+              let filename: string;
+              try {
+                  filename = presetPath ? entryRelativePath(presetPath, postsPath) : resolveFilenamePattern(activeCollection?.filenamePattern, { slug, frontmatter: editableFrontmatter, extension: 'md' });
+              } catch (patternError) {
+                  logDiagnosticWarn('POST_CREATION_INVALID_PATTERN', 'Filename pattern did not produce a valid path.', { pattern: activeCollection?.filenamePattern, error: String(patternError) });
+                  alert(t('postList.error.invalidFilenamePattern', { message: patternError instanceof Error ? patternError.message : String(patternError) }));
+                  setIsSaving(false);
+                  return;
+              }
               const newPath = postsPath ? `${postsPath}/${filename}` : filename;
               
               logDiagnostic('POST_CREATION_START', 'Attempting to create a new post.', { filename, newPath });
@@ -398,6 +585,23 @@ const PostDetailView: React.FC<PostDetailViewProps> = ({ post, onBack, onDelete,
               // 2d. Create file on Git (csa-create-file-git)
               // @para-doc [#csa-create-file-git]
               const commitMsg = `feat(content): create post "${filename}"`;
+              if (editorialCollection) {
+                  const pr = await gitService.saveDraft({
+                      collectionId: editorialCollection.id,
+                      slug: draftSlugOf(newPath, editableFrontmatter),
+                      path: newPath,
+                      content: finalContent,
+                      commitMessage: commitMsg,
+                      title: String(editableFrontmatter.title),
+                  });
+                  logDiagnostic('EDITORIAL_DRAFT_CREATED', 'Created new post on draft branch.', { newPath, branch: pr.head, pr: pr.number });
+                  draftPathRef.current = newPath;
+                  setDraftPullRequest(pr);
+                  onAction();
+                  setIsDirty(false);
+                  return;
+              }
+
               await gitService.createFileFromString(newPath, finalContent, commitMsg);
               logDiagnostic('POST_CREATION_WRITE_SUCCESS', 'Successfully wrote post to Git.', { newPath });
 
@@ -420,19 +624,81 @@ const PostDetailView: React.FC<PostDetailViewProps> = ({ post, onBack, onDelete,
               return;
           }
 
-          // 3. Edit Mode (normal updates)
+          // 4. Edit Mode (normal updates, three-way merge on a stale SHA)
           const commitMessage = `fix(content): update post "${post.name}" from editor`;
-          await gitService.updateFileContent(post.path, finalContent, commitMessage, post.sha);
-          onAction(); // Trigger sync
-          onUpdate(); // Refresh parent list logic
-          setIsDirty(false);
+          const result = await saveWithMerge(gitService, {
+              path: post.path,
+              base: post.rawContent,
+              ours: finalContent,
+              sha: post.sha,
+              commitMessage,
+          });
+          if (result.status === 'conflict') {
+              logDiagnosticWarn('POST_SAVE_MERGE_CONFLICT', 'File changed upstream, manual merge required.', { path: post.path, theirsSha: result.theirsSha });
+              setMergeConflict({ merge: result.merge, theirsSha: result.theirsSha, commitMessage });
+              return;
+          }
+          await applySavedContent(result.content, result.status === 'merged');
+          if (result.status === 'merged') {
+              logDiagnostic('POST_SAVE_AUTO_MERGED', 'File changed upstream, merged automatically.', { path: post.path });
+              alert(t('mergeConflict.autoMerged'));
+          }
       } catch (e) {
           logDiagnosticError('POST_CREATION_GIT_FAIL', 'Failed to save post.', { error: e instanceof Error ? e.message : String(e) });
           alert(`Failed to save: ${e instanceof Error ? e.message : String(e)}`);
       } finally {
           setIsSaving(false);
       }
-  }, [isDirty, post, editableFrontmatter, editableBody, activeTab, gitService, onAction, onUpdate, t]);
+  }, [isDirty, post, editableFrontmatter, editableBody, activeTab, gitService, onAction, onUpdate, t, editorialCollection, applySavedContent, activeTemplate]);
+
+  const handleResolveMerge = useCallback(async (content: string) => {
+      if (!mergeConflict) return;
+      setIsSaving(true);
+      try {
+          await gitService.updateFileContent(post.path, content, mergeConflict.commitMessage, mergeConflict.theirsSha);
+          logDiagnostic('POST_SAVE_MERGE_RESOLVED', 'Saved manually merged post.', { path: post.path });
+          setMergeConflict(null);
+          await applySavedContent(content, true);
+      } catch (e) {
+          logDiagnosticError('POST_SAVE_MERGE_FAIL', 'Failed to save merged post.', { error: e instanceof Error ? e.message : String(e) });
+          alert(`Failed to save: ${e instanceof Error ? e.message : String(e)}`);
+      } finally {
+          setIsSaving(false);
+      }
+  }, [mergeConflict, post, gitService, applySavedContent]);
+
+  // Restore an old revision as a new commit on top of the current file SHA
+  const handleRestoreRevision = useCallback(async (content: string, revision: FileRevision) => {
+      const shortSha = revision.sha.slice(0, 7);
+      const commitMessage = `revert(content): restore "${post.name}" to ${shortSha}`;
+
+      if (editorialCollection) {
+          const pr = await gitService.saveDraft({
+              collectionId: editorialCollection.id,
+              slug: draftSlugOf(post.path, post.frontmatter),
+              path: post.path,
+              content,
+              commitMessage,
+              title: String(editableFrontmatter.title || post.name),
+          });
+          setDraftPullRequest(pr);
+      } else {
+          const currentSha = await gitService.getFileSha(post.path);
+          if (!currentSha) throw new Error(`File not found: ${post.path}`);
+          await gitService.updateFileContent(post.path, content, commitMessage, currentSha);
+          const newSha = await gitService.getFileSha(post.path);
+          if (newSha) post.sha = newSha;
+      }
+      logDiagnostic('POST_REVISION_RESTORED', 'Restored post revision.', { path: post.path, revision: revision.sha });
+
+      const parsed = parseMarkdown(content);
+      setEditableFrontmatter(parsed.frontmatter);
+      setEditableBody(parsed.body);
+      setExternalMarkdownVersion(v => v + 1);
+      setIsDirty(false);
+      onAction();
+      onUpdate();
+  }, [post, gitService, editorialCollection, editableFrontmatter.title, onAction, onUpdate]);
 
   // --- External Actions (Update File / Image) ---
   
@@ -473,6 +739,20 @@ const PostDetailView: React.FC<PostDetailViewProps> = ({ post, onBack, onDelete,
       setIsImageModalOpen(true);
   }
 
+  // After a rename or move: keep editing at the new path, or leave a post moved elsewhere
+  const handleRenamed = async (plan: RenamePlan, target: Collection) => {
+      setIsRenameOpen(false);
+      if (target.id !== postCollection?.id) {
+          onAction(); // Trigger sync
+          onUpdate();
+          onBack();
+          return;
+      }
+      post.path = plan.newPath;
+      post.name = plan.newPath.split('/').pop() || plan.newPath;
+      await applySavedContent(plan.content, true);
+  };
+
   const handleImageConfirm = async (result: { type: 'new' | 'existing', file?: File, path?: string }) => {
       setIsUploading(true);
       try {
@@ -510,6 +790,14 @@ const PostDetailView: React.FC<PostDetailViewProps> = ({ post, onBack, onDelete,
 
               // Update local state
               const updatedFM = { ...fm, [targetField]: finalUrl };
+
+              // Editorial mode: keep the change local, the next save goes to the draft branch
+              if (editorialCollection) {
+                  setEditableFrontmatter(updatedFM);
+                  setIsDirty(true);
+                  return;
+              }
+
               const newContent = updateFrontmatter(editableBody, updatedFM);
               const commitMsg = `fix(content): update image for "${post.name}"`;
               
@@ -573,6 +861,40 @@ const PostDetailView: React.FC<PostDetailViewProps> = ({ post, onBack, onDelete,
       }
   };
 
+  const handleImageFieldConfirm = async (result: { type: 'new' | 'existing', file?: File, path?: string }) => {
+      const target = imageFieldTarget;
+      setImageFieldTarget(null);
+      if (!target) return;
+
+      setIsUploading(true);
+      try {
+          let imageUrl = '';
+          if (result.type === 'new' && result.file) {
+              const commitMsg = `feat(assets): add image "${result.file.name}"`;
+              const fullPath = imagesPath ? `${imagesPath}/${result.file.name}` : result.file.name;
+              await gitService.uploadFile(fullPath, result.file, commitMsg);
+              imageUrl = fullPath;
+              onAction(); // Trigger sync
+          } else if (result.type === 'existing' && result.path) {
+              imageUrl = result.path;
+          }
+
+          if (imageUrl) {
+              if (imageUrl.startsWith('public/')) {
+                  imageUrl = imageUrl.replace('public/', '/');
+              } else if (!imageUrl.startsWith('http') && !imageUrl.startsWith('/')) {
+                  imageUrl = '/' + imageUrl;
+              }
+              target.apply(imageUrl);
+          }
+      } catch (e) {
+          alert("Failed to update image");
+          console.error(e);
+      } finally {
+          setIsUploading(false);
+      }
+  };
+
   const handleEditorImageClose = () => {
       setIsEditorImageModalOpen(false);
       if (editorImageResolver) {
@@ -743,6 +1065,51 @@ const PostDetailView: React.FC<PostDetailViewProps> = ({ post, onBack, onDelete,
   };
 
   const renderInput = (key: string, value: any) => {
+      const templateField = getTemplateField(activeTemplate, key);
+      if (templateField?.type === 'reference') {
+          return (
+              <ReferenceFieldInput
+                field={templateField}
+                value={value}
+                onChange={(newValue) => handleFrontmatterChange(key, newValue)}
+                entries={templateField.collection ? entriesByCollection[templateField.collection] : undefined}
+                isLoading={isLoadingReferences}
+              />
+          );
+      }
+      const vocabulary = postCollection?.vocabularies?.[key];
+      if (vocabulary) {
+          return (
+              <VocabularyInput
+                name={key}
+                vocabulary={vocabulary}
+                value={value}
+                onChange={(newValue) => handleFrontmatterChange(key, newValue)}
+              />
+          );
+      }
+      if (hasSubFields(templateField)) {
+          return (
+              <NestedFieldInput
+                field={templateField}
+                value={value}
+                onChange={(newValue) => handleFrontmatterChange(key, newValue)}
+                onPickImage={(apply) => setImageFieldTarget({ apply })}
+              />
+          );
+      }
+      if (templateField && RICH_FIELD_TYPES.has(templateField.type)) {
+          return (
+              <FrontmatterFieldInput
+                field={templateField}
+                value={value}
+                onChange={(newValue) => handleFrontmatterChange(key, newValue)}
+                onPickImage={() => setImageFieldTarget({ apply: (url) => handleFrontmatterChange(key, url) })}
+                slugSource={editableFrontmatter.title ? String(editableFrontmatter.title) : undefined}
+              />
+          );
+      }
+
       const isDate = value instanceof Date || (typeof value === 'string' && !isNaN(Date.parse(value)) && value.includes('-') && value.length === 10);
       const isArray = Array.isArray(value);
       const isComplex = typeof value === 'object' && value !== null && !isArray;
@@ -837,6 +1204,15 @@ const PostDetailView: React.FC<PostDetailViewProps> = ({ post, onBack, onDelete,
   return (
     <div className="h-full flex flex-col bg-white animate-fade-in relative -mx-4 sm:-mx-6 -my-8">
       <input type="file" ref={updatePostFileInputRef} className="hidden" accept=".md,.mdx" onChange={confirmUpdateFile} />
+
+      <MergeConflictModal
+        isOpen={!!mergeConflict}
+        fileName={post.name}
+        merge={mergeConflict?.merge || null}
+        isSaving={isSaving}
+        onCancel={() => setMergeConflict(null)}
+        onResolve={handleResolveMerge}
+      />
       
       {isImageModalOpen && (
           <PostImageSelectionModal
@@ -848,6 +1224,17 @@ const PostDetailView: React.FC<PostDetailViewProps> = ({ post, onBack, onDelete,
           />
       )}
 
+      {isRenameOpen && postCollection && (
+          <RenamePostModal
+            post={post}
+            collection={postCollection}
+            gitService={gitService}
+            domainUrl={domainUrl}
+            onClose={() => setIsRenameOpen(false)}
+            onDone={handleRenamed}
+          />
+      )}
+
       {isEditorImageModalOpen && (
           <PostImageSelectionModal
             gitService={gitService}
@@ -858,6 +1245,16 @@ const PostDetailView: React.FC<PostDetailViewProps> = ({ post, onBack, onDelete,
           />
       )}
 
+      {imageFieldTarget && (
+          <PostImageSelectionModal
+            gitService={gitService}
+            imagesPath={imagesPath}
+            imageFileTypes={imageFileTypes}
+            onClose={() => setImageFieldTarget(null)}
+            onConfirm={handleImageFieldConfirm}
+          />
+      )}
+
       {/* Gallery Image Picker (reuse PostImageSelectionModal) */}
       {isGalleryPickerOpen && (
           <PostImageSelectionModal
@@ -1021,11 +1418,31 @@ const PostDetailView: React.FC<PostDetailViewProps> = ({ post, onBack, onDelete,
                 <div className="flex items-center text-sm text-notion-muted truncate">
                         <span className="truncate font-medium text-notion-text text-sm max-w-[200px]">{post.sha === "" ? t('postList.createButton') : (editableFrontmatter.title || post.name)}</span>
                 </div>
+                {translations && onOpenTranslation && (
+                    <TranslationBadges
+                        links={translations}
+                        current={currentLocale}
+                        onOpen={handleOpenTranslation}
+                        onCreate={handleOpenTranslation}
+                    />
+                )}
             </div>
             
             <div className="flex items-center space-x-2">
-                {/* Quick Actions */}
-                {post.sha !== "" && (
+                {draftPullRequest && (
+                    <a
+                        href={draftPullRequest.url || undefined}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center px-2 py-0.5 text-[11px] font-medium text-amber-800 bg-amber-50 border border-amber-200 rounded-sm mr-1"
+                        title={draftPullRequest.head}
+                    >
+                        {t('editorial.draftBadge', { number: draftPullRequest.number })}
+                    </a>
+                )}
+
+                {/* Quick Actions — direct commits, unavailable in editorial mode */}
+                {post.sha !== "" && !editorialCollection && (
                     <>
                         <button
                             onClick={handleUpdateFile}
@@ -1045,11 +1462,59 @@ const PostDetailView: React.FC<PostDetailViewProps> = ({ post, onBack, onDelete,
                             <ImageIcon className="w-3.5 h-3.5 mr-1" />
                             <span className="hidden sm:inline">Update Image</span>
                         </button>
+                        {postCollection && (
+                            <button
+                                onClick={() => setIsRenameOpen(true)}
+                                disabled={isDirty || isUploading}
+                                className="flex items-center px-2 py-1 text-notion-muted hover:text-notion-text hover:bg-notion-hover rounded-sm text-xs font-medium transition-colors disabled:opacity-50"
+                                title={isDirty ? t('rename.saveFirst') : t('rename.button')}
+                            >
+                                <EditIcon className="w-3.5 h-3.5 mr-1" />
+                                <span className="hidden sm:inline">{t('rename.button')}</span>
+                            </button>
+                        )}
 
                         <div className="w-[1px] h-4 bg-notion-border mx-1"></div>
                     </>
                 )}
 
+                {schedule && (
+                    <div className="relative">
+                        <button
+                            onClick={() => {
+                                // datetime-local wants local time without seconds
+                                const base = publishAt || new Date(Date.now() + 24 * 60 * 60 * 1000);
+                                setScheduleInput(new Date(base.getTime() - base.getTimezoneOffset() * 60000).toISOString().slice(0, 16));
+                                setIsSchedulerOpen(open => !open);
+                            }}
+                            className={`flex items-center px-2 py-1 rounded-sm text-xs font-medium transition-colors ${isScheduled ? 'text-amber-800 bg-amber-50 border border-amber-200' : 'text-notion-muted hover:text-notion-text hover:bg-notion-hover'}`}
+                        >
+                            <ClockIcon className="w-3.5 h-3.5 mr-1" />
+                            {isScheduled ? t('schedule.scheduledFor', { date: publishAt!.toLocaleString() }) : t('schedule.button')}
+                        </button>
+                        {isSchedulerOpen && (
+                            <div className="absolute right-0 top-full mt-1 w-64 bg-white border border-notion-border rounded-md shadow-lg p-3 z-40 space-y-2">
+                                <label className="block text-xs font-medium text-notion-text">{t('schedule.title')}</label>
+                                <input
+                                    type="datetime-local"
+                                    value={scheduleInput}
+                                    onChange={(e) => setScheduleInput(e.target.value)}
+                                    className="w-full px-2 py-1 border border-notion-border rounded-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                                <p className="text-[11px] text-notion-muted">{t('schedule.help')}</p>
+                                <div className="flex justify-end gap-2">
+                                    <button onClick={() => setIsSchedulerOpen(false)} className="px-2 py-1 text-xs text-notion-muted hover:bg-notion-hover rounded-sm">
+                                        {t('collectionModal.cancel')}
+                                    </button>
+                                    <button onClick={handleApplySchedule} disabled={!scheduleInput} className="px-2 py-1 text-xs bg-notion-blue text-white rounded-sm hover:bg-blue-600 disabled:opacity-50">
+                                        {t('schedule.apply')}
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                )}
+
                 {isDirty && (
                     <button
                         onClick={handleSave}
@@ -1081,6 +1546,16 @@ const PostDetailView: React.FC<PostDetailViewProps> = ({ post, onBack, onDelete,
 
               {/* LEFT COLUMN — Content Editor */}
               <div className="flex-1 min-w-0 px-6 py-8 overflow-y-auto">
+                {pendingDraft && (
+                    <LocalDraftBanner
+                        draft={pendingDraft}
+                        loadRemoteContent={() => post.sha ? gitService.getFileContent(post.path) : Promise.resolve('')}
+                        isStale={!!pendingDraft.baseSha && pendingDraft.baseSha !== post.sha}
+                        onRestore={handleRestoreLocalDraft}
+                        onDiscard={discardPendingDraft}
+                    />
+                )}
+
                 {/* Title - Auto Resizing Textarea */}
                 <textarea 
                     ref={titleTextareaRef}
@@ -1146,6 +1621,18 @@ const PostDetailView: React.FC<PostDetailViewProps> = ({ post, onBack, onDelete,
                     >
                         <EyeIcon className="w-4 h-4" /> {t('postPreview.tabPreview')}
                     </button>
+                    {post.sha !== "" && (
+                        <button
+                            onClick={() => handleTabChange('history')}
+                            className={`flex items-center gap-1.5 pb-1 text-sm font-medium transition-all ${
+                                activeTab === 'history'
+                                ? 'text-notion-text border-b-2 border-notion-text'
+                                : 'text-notion-muted hover:text-notion-text border-b-2 border-transparent'
+                            }`}
+                        >
+                            <ClockIcon className="w-4 h-4" /> {t('postHistory.tab')}
+                        </button>
+                    )}
                 </div>
 
                 {/* Content Area */}
@@ -1181,6 +1668,13 @@ const PostDetailView: React.FC<PostDetailViewProps> = ({ post, onBack, onDelete,
                         value={editableBody}
                         onChange={handleEditorChange}
                     />
+                ) : activeTab === 'history' ? (
+                    <PostHistory
+                        gitService={gitService}
+                        path={post.path}
+                        onRestore={handleRestoreRevision}
+                        disabled={isDirty || isSaving}
+                    />
                 ) : (
                     <div
                         className="prose prose-slate prose-sm sm:prose-base max-w-none text-notion-text
@@ -1258,8 +1752,13 @@ const PostDetailView: React.FC<PostDetailViewProps> = ({ post, onBack, onDelete,
                                       <span className="capitalize truncate text-[11px] font-medium">{key}</span>
                                   </div>
                               </div>
-                              <div className="flex-grow min-w-0 flex items-center">
-                                  {renderInput(key, value)}
+                              <div className="flex-grow min-w-0">
+                                  <div className="flex items-center">
+                                      {renderInput(key, value)}
+                                  </div>
+                                  {fieldErrors[key]?.map((message, i) => (
+                                      <p key={i} className="text-[11px] text-red-600 px-1 mt-0.5">{message}</p>
+                                  ))}
                               </div>
                           </div>
                       ))}
@@ -1288,6 +1787,9 @@ const PostDetailView: React.FC<PostDetailViewProps> = ({ post, onBack, onDelete,
                                           <PlusIcon className="w-3 h-3 mr-1" />
                                           Add
                                       </button>
+                                      {fieldErrors[field]?.map((message, i) => (
+                                          <p key={i} className="text-[11px] text-red-600 mt-0.5">{message}</p>
+                                      ))}
                                   </div>
                               </div>
                           ))}
@@ -0,0 +1,102 @@
+/**
+ * PostDiffView Component
+ *
+ * Renders a frontmatter-aware post diff (utils/diff): changed frontmatter
+ * keys side by side, then the body with unchanged runs folded.
+ */
+
+import React from 'react';
+import { useI18n } from '../i18n/I18nContext';
+import { PostDiff, DiffLine } from '../utils/diff';
+
+interface PostDiffViewProps {
+  diff: PostDiff;
+}
+
+// Unchanged lines kept around each change; longer equal runs are folded
+const DIFF_CONTEXT = 3;
+
+type DiffRow = DiffLine | { op: 'fold'; count: number };
+
+const foldUnchanged = (lines: DiffLine[]): DiffRow[] => {
+  const keep = lines.map(() => false);
+  lines.forEach((line, index) => {
+    if (line.op === 'equal') return;
+    for (let k = Math.max(0, index - DIFF_CONTEXT); k <= Math.min(lines.length - 1, index + DIFF_CONTEXT); k++) {
+      keep[k] = true;
+    }
+  });
+
+  const rows: DiffRow[] = [];
+  let folded = 0;
+  lines.forEach((line, index) => {
+    if (keep[index]) {
+      if (folded) rows.push({ op: 'fold', count: folded });
+      folded = 0;
+      rows.push(line);
+    } else {
+      folded++;
+    }
+  });
+  if (folded) rows.push({ op: 'fold', count: folded });
+  return rows;
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().split('T')[0];
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+export const PostDiffView: React.FC<PostDiffViewProps> = ({ diff }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="text-[10px] uppercase font-bold text-notion-muted mb-2 tracking-wider">{t('postHistory.frontmatter')}</p>
+        {diff.frontmatter.length === 0 ? (
+          <p className="text-xs text-notion-muted">{t('postHistory.noChanges')}</p>
+        ) : (
+          <table className="w-full text-xs border border-notion-border">
+            <tbody className="divide-y divide-notion-border">
+              {diff.frontmatter.map((change) => (
+                <tr key={change.key}>
+                  <td className="px-2 py-1 font-mono text-notion-text w-32 align-top">{change.key}</td>
+                  <td className="px-2 py-1 bg-red-50 text-red-800 line-through break-all align-top">{formatValue(change.before)}</td>
+                  <td className="px-2 py-1 bg-green-50 text-green-800 break-all align-top">{formatValue(change.after)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div>
+        <p className="text-[10px] uppercase font-bold text-notion-muted mb-2 tracking-wider">{t('postHistory.body')}</p>
+        {diff.body.every((line) => line.op === 'equal') ? (
+          <p className="text-xs text-notion-muted">{t('postHistory.noChanges')}</p>
+        ) : (
+          <pre className="text-xs font-mono border border-notion-border rounded-sm overflow-x-auto">
+            {foldUnchanged(diff.body).map((row, index) =>
+              row.op === 'fold' ? (
+                <div key={index} className="px-2 py-0.5 bg-notion-sidebar text-notion-muted">
+                  {t('postHistory.unchangedLines', { count: row.count })}
+                </div>
+              ) : (
+                <div
+                  key={index}
+                  className={`px-2 whitespace-pre-wrap ${
+                    row.op === 'add' ? 'bg-green-50 text-green-800' : row.op === 'remove' ? 'bg-red-50 text-red-800' : 'text-notion-text'
+                  }`}
+                >
+                  {row.op === 'add' ? '+ ' : row.op === 'remove' ? '- ' : '  '}{row.text}
+                </div>
+              )
+            )}
+          </pre>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,206 @@
+/**
+ * PostHistory Component
+ *
+ * "History" tab of PostDetailView: commits that touched the post, a
+ * frontmatter-aware diff between any two revisions and restoring an old
+ * revision (the parent commits it on top of the current file SHA).
+ */
+
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { IGitService, FileRevision } from '../types';
+import { useI18n } from '../i18n/I18nContext';
+import { diffPost } from '../utils/diff';
+import { PostDiffView } from './PostDiffView';
+import { ConfirmationModal } from './ConfirmationModal';
+import { SpinnerIcon } from './icons/SpinnerIcon';
+import { ArrowUturnLeftIcon } from './icons/ArrowUturnLeftIcon';
+
+interface PostHistoryProps {
+  gitService: IGitService;
+  path: string;
+  /** Restore `content` from `revision` as a new commit */
+  onRestore: (content: string, revision: FileRevision) => Promise<void>;
+  disabled?: boolean;
+}
+
+const shortSha = (sha: string) => sha.slice(0, 7);
+
+export const PostHistory: React.FC<PostHistoryProps> = ({ gitService, path, onRestore, disabled }) => {
+  const { t } = useI18n();
+  const [revisions, setRevisions] = useState<FileRevision[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [fromSha, setFromSha] = useState<string | null>(null);
+  const [toSha, setToSha] = useState<string | null>(null);
+  const [contents, setContents] = useState<Record<string, string>>({});
+  const [isLoadingDiff, setIsLoadingDiff] = useState(false);
+  const [revisionToRestore, setRevisionToRestore] = useState<FileRevision | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const contentCache = useRef<Record<string, string>>({});
+
+  const loadHistory = async () => {
+    setError(null);
+    try {
+      const list = await gitService.getFileHistory(path);
+      setRevisions(list);
+      setToSha(list[0]?.sha || null);
+      setFromSha(list[1]?.sha || null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      setRevisions([]);
+    }
+  };
+
+  useEffect(() => {
+    contentCache.current = {};
+    setContents({});
+    loadHistory();
+  }, [gitService, path]);
+
+  const getContentAt = async (sha: string): Promise<string> => {
+    if (!(sha in contentCache.current)) {
+      contentCache.current[sha] = await gitService.getFileContentAt(path, sha);
+    }
+    return contentCache.current[sha];
+  };
+
+  useEffect(() => {
+    const shas = [fromSha, toSha].filter((sha): sha is string => !!sha);
+    if (shas.length === 0) return;
+    let cancelled = false;
+    setIsLoadingDiff(true);
+    Promise.all(shas.map(async (sha) => [sha, await getContentAt(sha)] as const))
+      .then((entries) => {
+        if (!cancelled) setContents((prev) => ({ ...prev, ...Object.fromEntries(entries) }));
+      })
+      .catch((e) => { if (!cancelled) setError(e instanceof Error ? e.message : String(e)); })
+      .finally(() => { if (!cancelled) setIsLoadingDiff(false); });
+    return () => { cancelled = true; };
+  }, [fromSha, toSha]);
+
+  const diff = useMemo(() => {
+    if (!toSha || !(toSha in contents)) return null;
+    // The oldest revision has nothing to compare against: diff from empty
+    const before = fromSha ? contents[fromSha] : '';
+    if (before === undefined) return null;
+    return diffPost(before, contents[toSha]);
+  }, [fromSha, toSha, contents]);
+
+  const handleRestore = async () => {
+    if (!revisionToRestore) return;
+    setIsRestoring(true);
+    setError(null);
+    try {
+      const content = await getContentAt(revisionToRestore.sha);
+      await onRestore(content, revisionToRestore);
+      setRevisionToRestore(null);
+      contentCache.current = {};
+      setContents({});
+      await loadHistory();
+    } catch (e) {
+      setError(t('postHistory.restoreFailed', { message: e instanceof Error ? e.message : String(e) }));
+      setRevisionToRestore(null);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (revisions === null) {
+    return (
+      <div className="flex items-center text-sm text-notion-muted py-6">
+        <SpinnerIcon className="w-4 h-4 mr-2 animate-spin" />
+        {t('postHistory.loading')}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && <div className="p-3 bg-red-50 border border-red-200 rounded-sm text-red-700 text-sm">{error}</div>}
+
+      {revisions.length === 0 && !error && (
+        <p className="text-sm text-notion-muted">{t('postHistory.empty')}</p>
+      )}
+
+      {revisions.length > 0 && (
+        <div className="border border-notion-border rounded-md overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-notion-sidebar text-[11px] uppercase text-notion-muted">
+              <tr>
+                <th className="px-2 py-1.5 w-10 text-center">{t('postHistory.from')}</th>
+                <th className="px-2 py-1.5 w-10 text-center">{t('postHistory.to')}</th>
+                <th className="px-3 py-1.5 text-left">{t('postHistory.commit')}</th>
+                <th className="px-3 py-1.5 w-24"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-notion-border">
+              {revisions.map((revision, index) => (
+                <tr key={revision.sha} className={toSha === revision.sha ? 'bg-blue-50/50' : ''}>
+                  <td className="px-2 py-2 text-center">
+                    <input
+                      type="radio"
+                      name="history-from"
+                      checked={fromSha === revision.sha}
+                      onChange={() => setFromSha(revision.sha)}
+                    />
+                  </td>
+                  <td className="px-2 py-2 text-center">
+                    <input
+                      type="radio"
+                      name="history-to"
+                      checked={toSha === revision.sha}
+                      onChange={() => setToSha(revision.sha)}
+                    />
+                  </td>
+                  <td className="px-3 py-2 min-w-0">
+                    <p className="text-notion-text truncate">{revision.message.split('\n')[0]}</p>
+                    <p className="text-[11px] text-notion-muted">
+                      <a href={revision.url || undefined} target="_blank" rel="noopener noreferrer" className="font-mono hover:underline">
+                        {shortSha(revision.sha)}
+                      </a>
+                      {' · '}{revision.author}{' · '}{revision.date ? new Date(revision.date).toLocaleString() : ''}
+                    </p>
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {index > 0 && (
+                      <button
+                        onClick={() => setRevisionToRestore(revision)}
+                        disabled={disabled || isRestoring}
+                        className="inline-flex items-center text-xs text-notion-muted hover:text-notion-text hover:bg-notion-hover px-2 py-1 rounded-sm disabled:opacity-50"
+                      >
+                        <ArrowUturnLeftIcon className="w-3.5 h-3.5 mr-1" />
+                        {t('postHistory.restore')}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {isLoadingDiff && (
+        <div className="flex items-center text-xs text-notion-muted">
+          <SpinnerIcon className="w-3.5 h-3.5 mr-2 animate-spin" />
+          {t('postHistory.loadingDiff')}
+        </div>
+      )}
+
+      {diff && !isLoadingDiff && (
+        <PostDiffView diff={diff} />
+      )}
+
+      <ConfirmationModal
+        isOpen={!!revisionToRestore}
+        onClose={() => setRevisionToRestore(null)}
+        onConfirm={handleRestore}
+        title={t('postHistory.restoreConfirm.title')}
+        description={t('postHistory.restoreConfirm.description', { sha: revisionToRestore ? shortSha(revisionToRestore.sha) : '' })}
+        confirmLabel={t('postHistory.restore')}
+        cancelLabel={t('collectionModal.cancel')}
+        isProcessing={isRestoring}
+        variant="warning"
+      />
+    </div>
+  );
+};
@@ -2,6 +2,7 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { IGitService, GithubRepo, ProjectType } from '../types';
 import { parseMarkdown } from '../utils/parsing';
+import { getDataFormat, isDataFile, parseDataFile, readDataEntries } from '../utils/dataFiles';
 import { useI18n } from '../i18n/I18nContext';
 import { SpinnerIcon } from './icons/SpinnerIcon';
 import { SearchIcon } from './icons/SearchIcon';
@@ -12,15 +13,31 @@ import { PlusIcon } from './icons/PlusIcon';
 import { TrashIcon } from './icons/TrashIcon';
 import { DocumentIcon } from './icons/DocumentIcon';
 import { ImageIcon } from './icons/ImageIcon';
+import { EditIcon } from './icons/EditIcon';
 import PostDetailView from './PostDetailView';
+import DataEntryDetailView from './DataEntryDetailView';
 import PostUploadValidationModal from './PostUploadValidationModal';
 import PostImageSelectionModal from './PostImageSelectionModal';
 import { ConfirmationModal } from './ConfirmationModal';
+import { MergeConflictModal } from './MergeConflictModal';
 import { useCollectionStore } from '../features/collections/store';
 import { DEFAULT_SETTINGS } from '../features/settings/types';
 import { resolveImageSource } from '../utils/github';
+import { getTemplateField, hasSubFields, toStringArray, isHexColor, markdownToPlainText } from '../utils/fieldTypes';
 import FilterBar, { matchesFilter, FilterValue } from './FilterBar';
 import { usePostActions, PostData } from '../hooks/usePostActions';
+import { useReferenceEntries } from '../hooks/useReferenceEntries';
+import { isNewDraftPath } from '../utils/localDrafts';
+import { statusFieldOf } from '../utils/statusBoard';
+import { BulkActionBar } from './BulkActionBar';
+import { BulkActionModal, BulkActionKind } from './BulkActionModal';
+import { RenamePostModal } from './RenamePostModal';
+import { entryRelativePath, isInCollectionFolder } from '../utils/filenamePattern';
+import { resolveTemplateDefaults } from '../utils/dynamicDefaults';
+import { entryLocale, findTranslations, translationFrontmatter, TranslationLink } from '../utils/contentLocales';
+import { TranslationBadges } from './TranslationBadges';
+import { useAuthStore } from '../features/auth/store';
+import { entrySlug, toReferenceSlugs, findEntryTitle, findIncomingReferences, IncomingReference } from '../utils/references';
 
 // TD-09: Simplified props — PostList reads settings from CollectionStore (SSoT)
 interface PostListProps {
@@ -28,6 +45,9 @@ interface PostListProps {
   repo: GithubRepo;
   onPostUpdate: () => void;
   onAction: () => void;
+  /** Post to open once the list has loaded; a `new:` draft path opens a new post */
+  openPath?: string | null;
+  onPathOpened?: () => void;
 }
 
 type SortOption = string;
@@ -89,11 +109,66 @@ const ThumbnailWithAuth: React.FC<{ gitService: IGitService, imagePath: string,
     return <img src={imageUrl} alt="Thumbnail" className={className} />;
 };
 
+const DATA_THUMBNAIL_KEYS = ['image', 'cover', 'thumbnail', 'avatar', 'logo'];
+
+const dataThumbnail = (data: Record<string, any>): string | null => {
+    const key = DATA_THUMBNAIL_KEYS.find(k => typeof data[k] === 'string' && data[k]);
+    return key ? data[key] : null;
+};
+
+// Entries of one data file share its path and sha
+const postKey = (post: PostData): string => post.entryId !== undefined ? `${post.path}#${post.entryId}` : post.sha;
+
+// Data collections: one entry per data file in `path`, or every item of `path` when it is a data file
+const loadDataEntries = async (gitService: IGitService, path: string): Promise<PostData[]> => {
+    const format = getDataFormat(path);
+    if (format) {
+        const [content, sha] = await Promise.all([gitService.getFileContent(path), gitService.getFileSha(path)]);
+        const fileName = path.split('/').pop() || path;
+        return readDataEntries(content, format).map(entry => ({
+            frontmatter: entry.data,
+            body: '',
+            rawContent: content,
+            name: `${fileName} › ${entry.id}`,
+            sha: sha || '',
+            path,
+            html_url: '',
+            thumbnailUrl: dataThumbnail(entry.data),
+            entryId: entry.id,
+        }));
+    }
+
+    const files = await gitService.listFiles(path);
+    const entries = await Promise.all(files.filter(f => f.type === 'file' && isInCollectionFolder(f.path, path) && isDataFile(f.name)).map(async (file) => {
+        try {
+            const content = await gitService.getFileContent(file.path);
+            const data = parseDataFile(content, getDataFormat(file.name)!);
+            if (typeof data !== 'object' || data === null || Array.isArray(data)) return null;
+            return {
+                frontmatter: data as Record<string, any>,
+                body: '',
+                rawContent: content,
+                name: entryRelativePath(file.path, path),
+                sha: file.sha || '',
+                path: file.path,
+                html_url: file.url || '',
+                thumbnailUrl: dataThumbnail(data as Record<string, any>),
+            } as PostData;
+        } catch (e) {
+            console.error(`Failed to parse ${file.name}`, e);
+            return null;
+        }
+    }));
+    return entries.filter((p): p is PostData => p !== null);
+};
+
 const PostList: React.FC<PostListProps> = ({
   gitService,
   repo,
   onPostUpdate,
-  onAction
+  onAction,
+  openPath,
+  onPathOpened
 }) => {
   // TD-09: Read settings from CollectionStore (SSoT) instead of props
   const { workspace, getActiveCollection } = useCollectionStore();
@@ -101,6 +176,7 @@ const PostList: React.FC<PostListProps> = ({
   const wsSettings = workspace?.settings || {};
   
   const path = activeCollection?.postsPath || '';
+  const isDataCollection = activeCollection?.kind === 'data';
   const imagesPath = activeCollection?.imagesPath || '';
   const domainUrl = (wsSettings as any).domainUrl || '';
   const projectType: ProjectType = (wsSettings as any).projectType || DEFAULT_SETTINGS.projectType;
@@ -122,6 +198,12 @@ const PostList: React.FC<PostListProps> = ({
   const [isFilterOpen, setIsFilterOpen] = useState(false);
 
   const [selectedPost, setSelectedPost] = useState<PostData | null>(null);
+  const [detailVersion, setDetailVersion] = useState(0);
+
+  // Bulk selection (markdown collections; editorial mode edits one draft at a time)
+  const canBulkEdit = !isDataCollection && !activeCollection?.editorialMode;
+  const [selectedPaths, setSelectedPaths] = useState<Set<string>>(new Set());
+  const [bulkAction, setBulkAction] = useState<{ kind: BulkActionKind; posts: PostData[] } | null>(null);
 
   // TD-10: Post actions extracted to hook
   const {
@@ -145,6 +227,13 @@ const PostList: React.FC<PostListProps> = ({
     setPostToDelete,
     confirmDelete,
     isDeleting,
+    postToRename,
+    setPostToRename,
+    handleRenamed,
+    mergeConflict,
+    resolveMergeConflict,
+    cancelMergeConflict,
+    isResolvingMerge,
   } = usePostActions({
     gitService,
     path,
@@ -160,26 +249,35 @@ const PostList: React.FC<PostListProps> = ({
   const activeTemplate = activeCollection?.template || null;
   const [visibleFields, setVisibleFields] = useState<string[]>([]);
   const [columnWidths, setColumnWidths] = useState<Record<string, number>>({ '__name__': 35 });
+  const { entriesByCollection } = useReferenceEntries(gitService, activeTemplate);
+
+  // Posts in any collection that reference the post about to be deleted
+  const [incomingReferences, setIncomingReferences] = useState<IncomingReference[]>([]);
+  useEffect(() => {
+      setIncomingReferences([]);
+      if (!postToDelete || !activeCollection || !workspace) return;
+      let isMounted = true;
+      findIncomingReferences(gitService, workspace.collections, activeCollection, postToDelete.entryId ?? entrySlug(postToDelete.name, postToDelete.frontmatter))
+          .then(refs => { if (isMounted) setIncomingReferences(refs.filter(ref => ref.entry.path !== postToDelete.path)); })
+          .catch(e => console.error('[references] Failed to check incoming references', e));
+      return () => { isMounted = false; };
+  }, [postToDelete, activeCollection?.id, workspace?.collections, gitService]);
 
   // @para-doc [#csa-new-post-state]
   const handleCreateNewPost = useCallback(() => {
-      const defaultFrontmatter: Record<string, any> = {
+      // Data entries only get the fields their template declares
+      const baseFrontmatter: Record<string, any> = isDataCollection ? {} : {
           title: '',
           date: new Date().toISOString().split('T')[0],
           tags: []
       };
 
-      if (activeTemplate?.fields) {
-          activeTemplate.fields.forEach(field => {
-              if (field.name !== 'title' && field.name !== 'date' && field.name !== 'tags') {
-                  let defaultValue: any = "";
-                  if (field.type === 'array') defaultValue = [];
-                  if (field.type === 'boolean') defaultValue = false;
-                  if (field.type === 'number') defaultValue = 0;
-                  defaultFrontmatter[field.name] = defaultValue;
-              }
-          });
-      }
+      // Template defaults, with `{{today}}`, `{{user}}`… expressions resolved
+      const user = useAuthStore.getState().user;
+      const defaultFrontmatter = resolveTemplateDefaults(activeTemplate, {
+          user: user?.name || user?.login,
+          collection: activeCollection?.id,
+      }, baseFrontmatter);
 
       const mockNewPost: PostData = {
           name: '',
@@ -193,7 +291,52 @@ const PostList: React.FC<PostListProps> = ({
       };
 
       setSelectedPost(mockNewPost);
-  }, [activeTemplate]);
+  }, [activeTemplate, isDataCollection, activeCollection?.id]);
+
+  // Multilingual collections: translations share a path apart from the locale part
+  const i18n = isDataCollection ? undefined : activeCollection?.i18n;
+  const postNames = useMemo(() => posts.map(p => p.name), [posts]);
+  const translationsOf = useCallback((post: PostData): TranslationLink[] =>
+      i18n ? findTranslations(post.name, postNames, i18n) : [], [i18n, postNames]);
+
+  // Opens an existing translation, or a new one pre-filled from the current entry
+  const openTranslation = useCallback((link: TranslationLink) => {
+      if (!selectedPost) return;
+      const existing = posts.find(p => p.name === link.path);
+      setSelectedPost(existing ?? {
+          name: link.path,
+          path: path ? `${path}/${link.path}` : link.path,
+          sha: '',
+          body: selectedPost.body,
+          rawContent: '',
+          frontmatter: translationFrontmatter(selectedPost.frontmatter, link.locale),
+          thumbnailUrl: selectedPost.thumbnailUrl,
+          html_url: ''
+      });
+      // The editor keeps its own state: remount it for the other file
+      setDetailVersion(v => v + 1);
+  }, [selectedPost, posts, path]);
+
+  // Open the requested post (a local draft picked on the dashboard) once the list is in
+  useEffect(() => {
+      if (!openPath || isLoading) return;
+      if (isNewDraftPath(openPath)) {
+          handleCreateNewPost();
+      } else {
+          // A file deleted since the draft was saved opens as a new file at the same path
+          setSelectedPost(posts.find(p => p.path === openPath) ?? {
+              name: entryRelativePath(openPath, path),
+              path: openPath,
+              sha: '',
+              body: '',
+              rawContent: '',
+              frontmatter: {},
+              thumbnailUrl: null,
+              html_url: ''
+          });
+      }
+      onPathOpened?.();
+  }, [openPath, isLoading]);
 
   useEffect(() => {
     // 1. Prioritize active collection settings
@@ -240,8 +383,15 @@ const PostList: React.FC<PostListProps> = ({
     setIsLoading(true);
     setError(null);
     try {
+        if (isDataCollection) {
+            setPosts(await loadDataEntries(gitService, path));
+            onPostUpdate();
+            return;
+        }
+
         const files = await gitService.listFiles(path);
-        const mdFiles = files.filter(f => f.type === 'file' && (f.name.endsWith('.md') || f.name.endsWith('.mdx')));
+        // Listings are recursive: keep nested entries, drop sibling folders sharing the prefix
+        const mdFiles = files.filter(f => f.type === 'file' && isInCollectionFolder(f.path, path) && (f.name.endsWith('.md') || f.name.endsWith('.mdx')));
         
         const postDataPromises = mdFiles.map(async (file) => {
             try {
@@ -251,7 +401,7 @@ const PostList: React.FC<PostListProps> = ({
                     frontmatter,
                     body,
                     rawContent: content,
-                    name: file.name,
+                    name: entryRelativePath(file.path, path),
                     sha: file.sha || '',
                     path: file.path,
                     html_url: file.url || '',
@@ -279,7 +429,7 @@ const PostList: React.FC<PostListProps> = ({
 
   useEffect(() => {
     fetchPosts();
-  }, [path, gitService]);
+  }, [path, gitService, isDataCollection]);
 
   // WF-08: Filter handlers
   const handleFilterChange = (field: string, filter: FilterValue | null) => {
@@ -328,7 +478,7 @@ const PostList: React.FC<PostListProps> = ({
     if (activeTemplate?.fields) {
       const extraFields = activeTemplate.fields.filter(
         f => !['title', 'image', 'cover', 'thumbnail', 'heroImage', 'date'].includes(f.name) &&
-             f.type !== 'object' && f.type !== 'array'
+             !['object', 'array', 'multiselect', 'image', 'markdown'].includes(f.type)
       );
       extraFields.forEach(f => {
         baseOptions.push(
@@ -396,6 +546,32 @@ const PostList: React.FC<PostListProps> = ({
   const totalPages = Math.ceil(filteredPosts.length / POSTS_PER_PAGE);
   const currentPosts = filteredPosts.slice((currentPage - 1) * POSTS_PER_PAGE, currentPage * POSTS_PER_PAGE);
 
+  // Drop selected paths that are gone after a reload or a collection switch
+  useEffect(() => {
+      setSelectedPaths(prev => {
+          const next = new Set(posts.filter(p => prev.has(p.path)).map(p => p.path));
+          return next.size === prev.size ? prev : next;
+      });
+  }, [posts]);
+
+  const toggleSelected = (post: PostData) => {
+      setSelectedPaths(prev => {
+          const next = new Set(prev);
+          if (next.has(post.path)) next.delete(post.path);
+          else next.add(post.path);
+          return next;
+      });
+  };
+
+  const isAllFilteredSelected = filteredPosts.length > 0 && filteredPosts.every(p => selectedPaths.has(p.path));
+
+  const handleBulkDone = () => {
+      setBulkAction(null);
+      setSelectedPaths(new Set());
+      onAction();
+      fetchPosts();
+  };
+
 
 
   // Helper to resolve image URLs for display
@@ -413,7 +589,136 @@ const PostList: React.FC<PostListProps> = ({
     return resolved || null;
   };
 
+  // Column renderers for template field types; null falls back to value-based rendering
+  const renderTypedCell = (post: PostData, field: string): React.ReactNode | null => {
+      const templateField = getTemplateField(activeTemplate, field);
+      if (!templateField) return null;
+      const val = post.frontmatter[field];
+      const isEmpty = val === undefined || val === null || val === '' || (Array.isArray(val) && val.length === 0);
+      const empty = <span className="text-gray-300 text-xs">-</span>;
+
+      // Repeatable groups show their size, nested objects their first text value
+      if (hasSubFields(templateField)) {
+          if (isEmpty) return empty;
+          if (Array.isArray(val)) {
+              return <span className="text-notion-text text-xs">{t('fieldInput.items', { count: val.length })}</span>;
+          }
+          const summary = Object.values(val).find(v => typeof v === 'string' && v !== '');
+          return summary ? <span className="text-notion-text text-xs truncate block" title={String(summary)}>{String(summary)}</span> : empty;
+      }
+
+      switch (templateField.type) {
+          case 'reference': {
+              if (isEmpty) return empty;
+              const entries = templateField.collection ? entriesByCollection[templateField.collection] : undefined;
+              return (
+                  <div className="flex flex-wrap gap-1">
+                      {toReferenceSlugs(val).map(slug => {
+                          const title = entries ? findEntryTitle(entries, slug) : slug;
+                          return (
+                              <span
+                                  key={slug}
+                                  title={title === null ? t('referenceInput.missing', { slug }) : slug}
+                                  className={`px-1.5 py-0.5 rounded-sm text-[11px] font-medium border truncate max-w-full ${
+                                      title === null ? 'bg-red-50 border-red-200 text-red-700 line-through' : 'bg-blue-50 border-blue-200 text-blue-800'
+                                  }`}
+                              >
+                                  {title ?? slug}
+                              </span>
+                          );
+                      })}
+                  </div>
+              );
+          }
+
+          case 'select':
+              return isEmpty ? empty : (
+                  <span className="inline-block px-1.5 py-0.5 rounded-sm text-[11px] font-medium bg-notion-sidebar border border-notion-border text-notion-text truncate max-w-full">
+                      {String(val)}
+                  </span>
+              );
+
+          case 'multiselect':
+              return isEmpty ? empty : (
+                  <div className="flex flex-wrap gap-1">
+                      {toStringArray(val).map(item => (
+                          <span key={item} className="px-1.5 py-0.5 rounded-sm text-[10px] font-medium bg-purple-50 border border-purple-200 text-purple-700">
+                              {item}
+                          </span>
+                      ))}
+                  </div>
+              );
+
+          case 'image': {
+              if (isEmpty) return empty;
+              const imagePath = String(val);
+              if (projectType === 'github' && repo.private) {
+                  return (
+                      <div className="w-8 h-8 bg-gray-100 rounded-sm border border-notion-border overflow-hidden">
+                          <ThumbnailWithAuth gitService={gitService} imagePath={imagePath} className="w-full h-full object-cover" />
+                      </div>
+                  );
+              }
+              const resolvedUrl = resolveImageUrl(imagePath);
+              return resolvedUrl && resolvedUrl !== 'needs-domain' ? (
+                  <img src={resolvedUrl} alt="" title={imagePath} className="w-8 h-8 object-cover rounded-sm border border-notion-border" onError={(e) => e.currentTarget.style.display = 'none'} />
+              ) : (
+                  <span className="text-notion-muted text-xs truncate block" title={imagePath}>{imagePath.split('/').pop()}</span>
+              );
+          }
+
+          case 'url':
+              return isEmpty ? empty : (
+                  <a href={String(val)} target="_blank" rel="noopener noreferrer" onClick={(e) => e.stopPropagation()} className="text-notion-blue text-xs hover:underline truncate block" title={String(val)}>
+                      {String(val).replace(/^https?:\/\//, '')}
+                  </a>
+              );
+
+          case 'email':
+              return isEmpty ? empty : (
+                  <a href={`mailto:${val}`} onClick={(e) => e.stopPropagation()} className="text-notion-blue text-xs hover:underline truncate block">
+                      {String(val)}
+                  </a>
+              );
+
+          case 'color':
+              return isEmpty ? empty : (
+                  <span className="inline-flex items-center gap-1.5 text-xs font-mono text-notion-text">
+                      {isHexColor(String(val)) && <span className="w-3 h-3 rounded-sm border border-notion-border flex-shrink-0" style={{ backgroundColor: String(val) }} />}
+                      {String(val)}
+                  </span>
+              );
+
+          case 'datetime': {
+              if (isEmpty) return empty;
+              const d = val instanceof Date ? val : new Date(val);
+              if (isNaN(d.getTime())) return <span className="text-notion-text text-xs">{String(val)}</span>;
+              return (
+                  <span className="text-notion-text text-xs whitespace-nowrap">
+                      {d.toLocaleString(language === 'vi' ? 'vi-VN' : 'en-US', { dateStyle: 'medium', timeStyle: 'short' })}
+                  </span>
+              );
+          }
+
+          case 'slug':
+              return isEmpty ? empty : <span className="text-notion-text text-xs font-mono truncate block" title={String(val)}>{String(val)}</span>;
+
+          case 'markdown':
+          case 'text': {
+              if (isEmpty) return empty;
+              const text = templateField.type === 'markdown' ? markdownToPlainText(String(val)) : String(val);
+              return <span className="text-notion-text text-xs block whitespace-normal break-words leading-snug line-clamp-2" title={text}>{text}</span>;
+          }
+
+          default:
+              return null;
+      }
+  };
+
   const renderDynamicCell = (post: PostData, field: string) => {
+      const typedCell = renderTypedCell(post, field);
+      if (typedCell) return typedCell;
+
       // Date handling
       if (field.toLowerCase().includes('date')) {
           let dateVal = post.frontmatter[field];
@@ -453,10 +758,29 @@ const PostList: React.FC<PostListProps> = ({
       return <span className="text-notion-text text-xs block whitespace-normal break-words leading-snug line-clamp-2" title={String(val)}>{String(val)}</span>;
   };
 
+  if (selectedPost && isDataCollection && activeCollection) {
+      return (
+          <DataEntryDetailView
+            post={selectedPost}
+            collection={activeCollection}
+            gitService={gitService}
+            imagesPath={imagesPath}
+            imageFileTypes={imageFileTypes}
+            onBack={() => setSelectedPost(null)}
+            onDelete={(p) => setPostToDelete(p)}
+            onSaved={() => { fetchPosts(); onAction(); }}
+          />
+      );
+  }
+
   if (selectedPost) {
       return (
           <PostDetailView 
+            key={detailVersion}
             post={selectedPost} 
+            translations={i18n && selectedPost.name ? translationsOf(selectedPost) : undefined}
+            currentLocale={i18n && selectedPost.name ? entryLocale(selectedPost.name, i18n) : null}
+            onOpenTranslation={openTranslation}
             onBack={() => setSelectedPost(null)}
             onDelete={(p) => setPostToDelete(p)}
             gitService={gitService}
@@ -504,6 +828,28 @@ const PostList: React.FC<PostListProps> = ({
         description={t('postList.deleteConfirm', { name: postToDelete?.name || '' })}
         confirmLabel={t('postPreview.delete')}
         isProcessing={isDeleting}
+      >
+        {incomingReferences.length > 0 && (
+          <div className="mt-3 rounded-sm border border-yellow-200 bg-yellow-50 p-2">
+            <p className="text-xs font-medium text-yellow-800">{t('referenceInput.deleteWarning', { count: incomingReferences.length })}</p>
+            <ul className="mt-1 space-y-0.5">
+              {incomingReferences.slice(0, 10).map(ref => (
+                <li key={`${ref.entry.path}:${ref.field}`} className="text-[11px] text-yellow-900 truncate">
+                  {ref.collection.name} › {ref.entry.title} <span className="font-mono text-yellow-700">({ref.field})</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </ConfirmationModal>
+
+      <MergeConflictModal
+        isOpen={!!mergeConflict}
+        fileName={mergeConflict?.post.name || ''}
+        merge={mergeConflict?.merge || null}
+        isSaving={isResolvingMerge}
+        onCancel={cancelMergeConflict}
+        onResolve={resolveMergeConflict}
       />
 
       {/* Toolbar */}
@@ -589,6 +935,7 @@ const PostList: React.FC<PostListProps> = ({
                 {t('postList.createButton')}
             </button>
 
+            {!isDataCollection && (
             <button
                 onClick={() => uploadPostInputRef.current?.click()}
                 className="flex items-center justify-center px-3 py-1.5 bg-notion-blue hover:bg-blue-600 text-white text-xs font-medium rounded-sm transition-colors shadow-sm"
@@ -596,6 +943,7 @@ const PostList: React.FC<PostListProps> = ({
                 <UploadIcon className="w-3.5 h-3.5 mr-1.5" />
                 {t('postList.uploadButton')}
             </button>
+            )}
         </div>
       </div>
 
@@ -610,6 +958,39 @@ const PostList: React.FC<PostListProps> = ({
         />
       )}
 
+      {canBulkEdit && selectedPaths.size > 0 && (
+        <BulkActionBar
+          selectedCount={selectedPaths.size}
+          filteredCount={filteredPosts.length}
+          hasStatusField={!!statusFieldOf(activeCollection)}
+          onSelectAllFiltered={() => setSelectedPaths(new Set(filteredPosts.map(p => p.path)))}
+          onClearSelection={() => setSelectedPaths(new Set())}
+          onAction={(kind) => setBulkAction({ kind, posts: posts.filter(p => selectedPaths.has(p.path)) })}
+        />
+      )}
+
+      {postToRename && activeCollection && (
+        <RenamePostModal
+          post={postToRename}
+          collection={activeCollection}
+          gitService={gitService}
+          domainUrl={domainUrl}
+          onClose={() => setPostToRename(null)}
+          onDone={handleRenamed}
+        />
+      )}
+
+      {bulkAction && activeCollection && (
+        <BulkActionModal
+          kind={bulkAction.kind}
+          posts={bulkAction.posts}
+          collection={activeCollection}
+          gitService={gitService}
+          onClose={() => setBulkAction(null)}
+          onDone={handleBulkDone}
+        />
+      )}
+
       {isLoading ? (
           <div className="flex justify-center items-center h-64">
               <SpinnerIcon className="w-8 h-8 animate-spin text-notion-muted" />
@@ -631,11 +1012,21 @@ const PostList: React.FC<PostListProps> = ({
                   <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
                       {currentPosts.map(post => (
                           <div 
-                            key={post.sha} 
+                            key={postKey(post)} 
                             onClick={() => setSelectedPost(post)}
-                            className="bg-white border border-notion-border rounded-sm hover:shadow-md transition-shadow cursor-pointer overflow-hidden flex flex-col h-full"
+                            className={`bg-white border rounded-sm hover:shadow-md transition-shadow cursor-pointer overflow-hidden flex flex-col h-full ${selectedPaths.has(post.path) ? 'border-notion-blue' : 'border-notion-border'}`}
                           >
-                              <div className="h-32 bg-gray-100 overflow-hidden relative border-b border-notion-border">
+                              <div className="h-32 bg-gray-100 overflow-hidden relative border-b border-notion-border group">
+                                {canBulkEdit && (
+                                    <input
+                                        type="checkbox"
+                                        checked={selectedPaths.has(post.path)}
+                                        onClick={(e) => e.stopPropagation()}
+                                        onChange={() => toggleSelected(post)}
+                                        aria-label={t('bulk.selectPost')}
+                                        className={`absolute top-2 left-2 z-10 w-4 h-4 cursor-pointer ${selectedPaths.has(post.path) ? '' : 'opacity-0 group-hover:opacity-100'}`}
+                                    />
+                                )}
                                 {projectType === 'github' && repo.private && post.thumbnailUrl ? (
                                     <ThumbnailWithAuth gitService={gitService} imagePath={post.thumbnailUrl} className="w-full h-full object-cover" />
                                 ) : (() => {
@@ -653,6 +1044,7 @@ const PostList: React.FC<PostListProps> = ({
                               </div>
                               <div className="p-4 flex-grow">
                                   <h3 className="text-sm font-semibold text-notion-text mb-1 line-clamp-2">{post.frontmatter.title || post.name}</h3>
+                                  {i18n && <div className="mb-1"><TranslationBadges links={translationsOf(post)} current={entryLocale(post.name, i18n)} /></div>}
                                   <div className="text-xs text-notion-muted line-clamp-3">
                                       {post.frontmatter.description || post.frontmatter.excerpt || (post.body ? post.body.substring(0, 100) : '')}
                                   </div>
@@ -668,6 +1060,7 @@ const PostList: React.FC<PostListProps> = ({
                   <div className="border border-notion-border rounded-sm overflow-x-auto bg-white">
                       <table className="w-full divide-y divide-notion-border text-sm table-fixed">
                           <colgroup>
+                              {canBulkEdit && <col style={{ width: '36px' }} />}
                               <col style={{ width: `${columnWidths['__name__'] || 35}%` }} />
                               {visibleFields.map(field => (
                                   <col key={field} style={{ width: `${columnWidths[field] || 15}%` }} />
@@ -676,6 +1069,17 @@ const PostList: React.FC<PostListProps> = ({
                           </colgroup>
                           <thead className="bg-notion-sidebar text-notion-muted font-semibold">
                               <tr>
+                                  {canBulkEdit && (
+                                      <th className="pl-3 py-2 border-r border-notion-border">
+                                          <input
+                                              type="checkbox"
+                                              checked={isAllFilteredSelected}
+                                              onChange={() => setSelectedPaths(isAllFilteredSelected ? new Set() : new Set(filteredPosts.map(p => p.path)))}
+                                              aria-label={t('bulk.selectAllFiltered', { count: filteredPosts.length })}
+                                              className="w-4 h-4 cursor-pointer"
+                                          />
+                                      </th>
+                                  )}
                                   <th
                                     className="px-4 py-2 text-left text-xs font-normal border-r border-notion-border uppercase tracking-wide select-none truncate cursor-pointer hover:bg-gray-100 transition-colors"
                                     onClick={() => handleColumnSort('title')}
@@ -702,7 +1106,18 @@ const PostList: React.FC<PostListProps> = ({
                           </thead>
                           <tbody className="divide-y divide-notion-border">
                               {currentPosts.map(post => (
-                                  <tr key={post.sha} onClick={() => setSelectedPost(post)} className="hover:bg-notion-hover/50 cursor-pointer group transition-colors">
+                                  <tr key={postKey(post)} onClick={() => setSelectedPost(post)} className={`hover:bg-notion-hover/50 cursor-pointer group transition-colors ${selectedPaths.has(post.path) ? 'bg-blue-50/50' : ''}`}>
+                                      {canBulkEdit && (
+                                          <td className="pl-3 py-2 border-r border-notion-border align-top" onClick={(e) => e.stopPropagation()}>
+                                              <input
+                                                  type="checkbox"
+                                                  checked={selectedPaths.has(post.path)}
+                                                  onChange={() => toggleSelected(post)}
+                                                  aria-label={t('bulk.selectPost')}
+                                                  className="w-4 h-4 mt-2 cursor-pointer"
+                                              />
+                                          </td>
+                                      )}
                                       <td className="px-4 py-2 border-r border-notion-border overflow-hidden">
                                           <div className="flex items-start gap-3">
                                               {/* Mini Thumbnail */}
@@ -725,6 +1140,7 @@ const PostList: React.FC<PostListProps> = ({
                                                   <span className="font-medium text-notion-text block truncate" title={post.frontmatter.title || post.name}>
                                                       {post.frontmatter.title || post.name}
                                                   </span>
+                                                  {i18n && <TranslationBadges links={translationsOf(post)} current={entryLocale(post.name, i18n)} />}
                                               </div>
                                           </div>
                                       </td>
@@ -737,20 +1153,33 @@ const PostList: React.FC<PostListProps> = ({
 
                                       <td className="px-4 py-2 text-right">
                                           <div className="flex justify-end gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                                              <button
-                                                  onClick={(e) => { e.stopPropagation(); handleUpdatePostFile(post); }}
-                                                  className="p-1 text-notion-muted hover:text-notion-text hover:bg-gray-200 rounded-sm transition-colors"
-                                                  title={t('postList.updateFile')}
-                                              >
-                                                  <DocumentIcon className="w-4 h-4" />
-                                              </button>
-                                              <button
-                                                  onClick={(e) => { e.stopPropagation(); handleUpdateImage(post); }}
-                                                  className="p-1 text-notion-muted hover:text-notion-text hover:bg-gray-200 rounded-sm transition-colors"
-                                                  title={t('postList.updateImage')}
-                                              >
-                                                  <ImageIcon className="w-4 h-4" />
-                                              </button>
+                                              {!isDataCollection && (
+                                                <>
+                                                  <button
+                                                      onClick={(e) => { e.stopPropagation(); handleUpdatePostFile(post); }}
+                                                      className="p-1 text-notion-muted hover:text-notion-text hover:bg-gray-200 rounded-sm transition-colors"
+                                                      title={t('postList.updateFile')}
+                                                  >
+                                                      <DocumentIcon className="w-4 h-4" />
+                                                  </button>
+                                                  <button
+                                                      onClick={(e) => { e.stopPropagation(); handleUpdateImage(post); }}
+                                                      className="p-1 text-notion-muted hover:text-notion-text hover:bg-gray-200 rounded-sm transition-colors"
+                                                      title={t('postList.updateImage')}
+                                                  >
+                                                      <ImageIcon className="w-4 h-4" />
+                                                  </button>
+                                                  {!activeCollection?.editorialMode && (
+                                                    <button
+                                                        onClick={(e) => { e.stopPropagation(); setPostToRename(post); }}
+                                                        className="p-1 text-notion-muted hover:text-notion-text hover:bg-gray-200 rounded-sm transition-colors"
+                                                        title={t('rename.button')}
+                                                    >
+                                                        <EditIcon className="w-4 h-4" />
+                                                    </button>
+                                                  )}
+                                                </>
+                                              )}
                                               <button 
                                                 onClick={(e) => { e.stopPropagation(); setPostToDelete(post); }} 
                                                 className="text-notion-muted hover:text-red-600 hover:bg-red-50 p-1 rounded-sm transition-colors"
@@ -4,6 +4,7 @@ import { GithubRepo, IGitService } from '../types';
 import { parseMarkdown, extractImageUrls } from '../utils/parsing';
 import { useI18n } from '../i18n/I18nContext';
 import { useCollectionStore } from '../features/collections/store';
+import { validateFrontmatter, formatValidationIssue } from '../utils/validation';
 import { SpinnerIcon } from './icons/SpinnerIcon';
 import { CheckCircleIcon } from './icons/CheckCircleIcon';
 import { ExclamationTriangleIcon } from './icons/ExclamationTriangleIcon';
@@ -26,6 +27,8 @@ interface CheckItem {
   label: string;
   status: ValidationStatus;
   message?: string;
+  /** One line per problem, listed under the message */
+  details?: string[];
 }
 
 const PostUploadValidationModal: React.FC<PostUploadValidationModalProps> = ({ file, gitService, repo, onConfirm, onCancel }) => {
@@ -73,8 +76,20 @@ const PostUploadValidationModal: React.FC<PostUploadValidationModalProps> = ({ f
           });
       }
 
+      const ruleIssues = validateFrontmatter(frontmatter, activeCollection?.template, activeCollection?.vocabularies)
+          .filter(issue => issue.rule !== 'required' || frontmatter[issue.field] !== undefined);
+
       if (Object.keys(frontmatter).length === 0) {
            setFmStatus({ id: 'frontmatter', label: t('uploadValidation.frontmatter.label'), status: 'error', message: t('uploadValidation.frontmatter.notFound') });
+      } else if (ruleIssues.length > 0) {
+           // Values present but breaking the template rules: block the upload
+           setFmStatus({
+               id: 'frontmatter',
+               label: t('uploadValidation.frontmatter.label'),
+               status: 'error',
+               message: t('uploadValidation.frontmatter.rulesFailed'),
+               details: ruleIssues.map(issue => formatValidationIssue(issue, t)),
+           });
       } else if (template) {
            const missingFields = [];
            for (const key of Object.keys(template)) {
@@ -241,6 +256,13 @@ const PostUploadValidationModal: React.FC<PostUploadValidationModalProps> = ({ f
                         <div>
                             <p className="text-sm font-medium text-notion-text">{fmStatus.label}</p>
                             {fmStatus.message && <p className="text-xs text-notion-muted mt-0.5">{fmStatus.message}</p>}
+                            {fmStatus.details && (
+                                <ul className="mt-1 space-y-0.5">
+                                    {fmStatus.details.map((detail, i) => (
+                                        <li key={i} className="text-xs text-red-600">{detail}</li>
+                                    ))}
+                                </ul>
+                            )}
                         </div>
                     </div>
                 </div>
@@ -2,9 +2,13 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useCollectionStore } from '../features/collections/store';
 import { CollectionTemplate } from '../features/collections/types';
-import { IGitService, GithubRepo } from '../types';
-import { compressImage } from '../utils/image';
+import { IGitService, GithubRepo, FileChange } from '../types';
+import { compressImage, fileToBase64 } from '../utils/image';
 import { parseMarkdown, updateFrontmatter, slugify, extractImageUrls, escapeRegExp } from '../utils/parsing';
+import { resolveFilenamePattern } from '../utils/filenamePattern';
+import { missingDefaults } from '../utils/dynamicDefaults';
+import { useAuthStore } from '../features/auth/store';
+import { validateFrontmatter as validateTemplateRules, formatValidationIssue } from '../utils/validation';
 import { useI18n } from '../i18n/I18nContext';
 import { UploadIcon } from './icons/UploadIcon';
 import { DocumentIcon } from './icons/DocumentIcon';
@@ -66,7 +70,6 @@ const PostWorkflow: React.FC<PostWorkflowProps> = ({
     imagesPath,
     imageFileTypes,
     newPostCommitTemplate,
-    newImageCommitTemplate,
     imageCompressionEnabled,
     maxImageSize,
     imageResizeMaxWidth,
@@ -152,6 +155,11 @@ const PostWorkflow: React.FC<PostWorkflowProps> = ({
                     errors.push(t('newPost.validationErrors.mustBeString', { field: key }));
                 }
             }
+
+            // Per-field rules (length, pattern, ranges…); absent keys are reported above
+            validateTemplateRules(fm, activeCollection?.template)
+                .filter(issue => fm[issue.field] !== undefined)
+                .forEach(issue => errors.push(`- ${formatValidationIssue(issue, t)}`));
         } else {
             // Default validation
             const requiredStringFields = ['title'];
@@ -250,10 +258,18 @@ const PostWorkflow: React.FC<PostWorkflowProps> = ({
 
         const reader = new FileReader();
         reader.onload = (ev) => {
-            const content = ev.target?.result as string;
-            setPostContent(content);
+            const raw = ev.target?.result as string;
+            setPostContent(raw);
             setPostFile(file);
             try {
+                // Template fields the file leaves empty get their (expression) defaults
+                const user = useAuthStore.getState().user;
+                const defaults = missingDefaults(activeCollection?.template, parseMarkdown(raw).frontmatter, {
+                    user: user?.name || user?.login,
+                    collection: activeCollection?.id,
+                });
+                const content = Object.keys(defaults).length > 0 ? updateFrontmatter(raw, defaults) : raw;
+                setPostContent(content);
                 const { frontmatter: fm } = parseMarkdown(content);
                 setFrontmatter(fm);
                 setImageMappings({});
@@ -321,12 +337,12 @@ const PostWorkflow: React.FC<PostWorkflowProps> = ({
         setErrorMessage(null);
 
         try {
-            // 1. Upload Images
-            for (const img of images) {
-                const commitMsg = newImageCommitTemplate.replace('{filename}', img.finalName);
-                const fullPath = imagesPath ? `${imagesPath}/${img.finalName}` : img.finalName;
-                await gitService.uploadFile(fullPath, img.file, commitMsg);
-            }
+            // 1. Encode Images (committed together with the post below)
+            const imageChanges: FileChange[] = await Promise.all(images.map(async (img) => ({
+                path: imagesPath ? `${imagesPath}/${img.finalName}` : img.finalName,
+                content: await fileToBase64(img.file),
+                encoding: 'base64' as const,
+            })));
 
             // 2. Prepare Frontmatter Updates
             const updates: Record<string, any> = {};
@@ -359,16 +375,19 @@ const PostWorkflow: React.FC<PostWorkflowProps> = ({
                 }
             });
 
-            // 4. Upload Post
+            // 4. Commit Post + Images atomically (one commit, one deploy)
             const titleRaw = frontmatter.title || postFile.name.replace(/\.[^/.]+$/, "");
             const slug = slugify(String(titleRaw));
             
             const ext = postFile.name.split('.').pop() || 'md';
-            const postFilename = `${slug}.${ext}`;
+            const postFilename = resolveFilenamePattern(activeCollection?.filenamePattern, { slug, frontmatter, extension: ext });
             const fullPostPath = postsPath ? `${postsPath}/${postFilename}` : postFilename;
             const postCommitMsg = newPostCommitTemplate.replace('{filename}', postFilename);
 
-            await gitService.createFileFromString(fullPostPath, updatedContent, postCommitMsg);
+            await gitService.commitFiles(
+                [...imageChanges, { path: fullPostPath, content: updatedContent }],
+                postCommitMsg,
+            );
             
             onAction(); // Trigger sync update
             setPublishStatus('success');
@@ -0,0 +1,124 @@
+/**
+ * ReferenceFieldInput Component
+ *
+ * Searchable picker for `reference` template fields. Lists the target
+ * collection's entries by title and stores their slugs — one slug, or a
+ * list when the field is `multiple`. Slugs without a matching entry (e.g.
+ * the entry was deleted) stay visible and are flagged.
+ */
+
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { useI18n } from '../i18n/I18nContext';
+import type { TemplateField } from '../features/collections/types';
+import { toReferenceSlugs, findEntryTitle, ReferenceEntry } from '../utils/references';
+import { SpinnerIcon } from './icons/SpinnerIcon';
+import { CloseIcon } from './icons/CloseIcon';
+
+interface ReferenceFieldInputProps {
+  field: TemplateField;
+  value: any;
+  onChange: (value: any) => void;
+  /** Entries of the target collection; undefined while unknown */
+  entries: ReferenceEntry[] | undefined;
+  isLoading: boolean;
+}
+
+const MAX_RESULTS = 50;
+
+export const ReferenceFieldInput: React.FC<ReferenceFieldInputProps> = ({ field, value, onChange, entries, isLoading }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+  const selected = toReferenceSlugs(value);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const results = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return (entries || [])
+      .filter((entry) => !selected.includes(entry.slug))
+      .filter((entry) => !q || entry.title.toLowerCase().includes(q) || entry.slug.toLowerCase().includes(q))
+      .slice(0, MAX_RESULTS);
+  }, [entries, query, selected]);
+
+  const select = (slug: string) => {
+    onChange(field.multiple ? [...selected, slug] : slug);
+    setQuery('');
+    if (!field.multiple) setIsOpen(false);
+  };
+
+  const remove = (slug: string) => {
+    const next = selected.filter((item) => item !== slug);
+    onChange(field.multiple ? next : '');
+  };
+
+  if (!field.collection) {
+    return <span className="text-xs text-notion-muted italic px-1">{t('referenceInput.noCollection')}</span>;
+  }
+
+  return (
+    <div ref={containerRef} className="relative w-full">
+      <div className="flex flex-wrap items-center gap-1 py-0.5 px-1 min-h-[24px]">
+        {selected.map((slug) => {
+          const title = entries ? findEntryTitle(entries, slug) : slug;
+          const isMissing = entries !== undefined && !isLoading && title === null;
+          return (
+            <span
+              key={slug}
+              title={isMissing ? t('referenceInput.missing', { slug }) : slug}
+              className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded-sm text-[11px] font-medium border ${
+                isMissing ? 'bg-red-50 text-red-700 border-red-200 line-through' : 'bg-blue-50 text-blue-800 border-blue-200'
+              }`}
+            >
+              {title ?? slug}
+              <button type="button" onClick={() => remove(slug)} className="hover:text-red-600" aria-label={t('referenceInput.remove')}>
+                <CloseIcon className="w-2.5 h-2.5" />
+              </button>
+            </span>
+          );
+        })}
+        {(field.multiple || selected.length === 0) && (
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => { setQuery(e.target.value); setIsOpen(true); }}
+            onFocus={() => setIsOpen(true)}
+            placeholder={t('referenceInput.search')}
+            className="flex-grow min-w-[80px] bg-transparent border-b border-transparent focus:border-notion-blue focus:ring-0 text-sm py-0 px-0.5"
+          />
+        )}
+        {isLoading && <SpinnerIcon className="w-3 h-3 animate-spin text-notion-muted" />}
+      </div>
+
+      {isOpen && (
+        <ul className="absolute z-20 left-0 right-0 mt-1 max-h-56 overflow-y-auto bg-white border border-notion-border rounded-sm shadow-lg text-sm">
+          {results.map((entry) => (
+            <li key={entry.slug}>
+              <button
+                type="button"
+                onClick={() => select(entry.slug)}
+                className="w-full text-left px-2 py-1.5 hover:bg-notion-hover flex items-baseline justify-between gap-2"
+              >
+                <span className="truncate text-notion-text">{entry.title}</span>
+                <span className="text-[10px] font-mono text-notion-muted flex-shrink-0">{entry.slug}</span>
+              </button>
+            </li>
+          ))}
+          {results.length === 0 && (
+            <li className="px-2 py-1.5 text-xs text-notion-muted italic">
+              {isLoading ? t('referenceInput.loading') : t('referenceInput.noResults')}
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
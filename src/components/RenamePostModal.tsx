@@ -0,0 +1,233 @@
+/**
+ * RenamePostModal Component
+ *
+ * Renames a post, changes its slug or moves it to another collection. The
+ * preview lists every post whose links or references follow it; all of it is
+ * written in a single commit.
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { IGitService } from '../types';
+import type { Collection } from '../features/collections/types';
+import { useI18n } from '../i18n/I18nContext';
+import { useCollectionStore } from '../features/collections/store';
+import { withSyncLock } from '../features';
+import { parseMarkdown } from '../utils/parsing';
+import { entryRelativePath } from '../utils/filenamePattern';
+import { getTemplateField } from '../utils/fieldTypes';
+import { RenamePlan, planRename, renameCommitMessage, validateRelativePath } from '../utils/renamePost';
+import { MAX_COMMIT_FILES } from '../lib/encoding';
+import { SpinnerIcon } from './icons/SpinnerIcon';
+
+interface RenamePostModalProps {
+  post: { path: string; name: string };
+  collection: Collection;
+  gitService: IGitService;
+  domainUrl?: string;
+  onClose: () => void;
+  /** Called after the commit */
+  onDone: (plan: RenamePlan, target: Collection) => void;
+}
+
+const inputClassName = 'w-full px-2 py-1.5 border border-notion-border rounded-sm text-sm focus:outline-none focus:ring-1 focus:ring-notion-blue';
+
+export const RenamePostModal: React.FC<RenamePostModalProps> = ({ post, collection, gitService, domainUrl, onClose, onDone }) => {
+  const { t } = useI18n();
+  const collections = useCollectionStore((state) => state.workspace?.collections || []);
+
+  const [content, setContent] = useState<string | null>(null);
+  const [targetId, setTargetId] = useState(collection.id);
+  const [relativePath, setRelativePath] = useState(entryRelativePath(post.path, collection.postsPath));
+  const [slug, setSlug] = useState('');
+  const [plan, setPlan] = useState<RenamePlan | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const targets = collections.filter((c) => c.id === collection.id || (c.kind !== 'data' && c.postsPath));
+  const target = targets.find((c) => c.id === targetId) || collection;
+  const frontmatter = useMemo(() => (content ? parseMarkdown(content).frontmatter : {}), [content]);
+  const hasSlugField = typeof frontmatter.slug === 'string' || !!getTemplateField(target.template, 'slug');
+
+  // Read fresh: the post may have been saved since it was listed
+  useEffect(() => {
+    let cancelled = false;
+    gitService.getFileContent(post.path)
+      .then((raw) => {
+        if (cancelled) return;
+        setContent(raw);
+        const current = parseMarkdown(raw).frontmatter.slug;
+        setSlug(typeof current === 'string' ? current : '');
+      })
+      .catch((e) => { if (!cancelled) setError(t('rename.loadFailed', { message: e instanceof Error ? e.message : String(e) })); });
+    return () => { cancelled = true; };
+  }, [post.path, gitService, t]);
+
+  // Any edit invalidates the preview
+  useEffect(() => {
+    setPlan(null);
+    setError(null);
+  }, [targetId, relativePath, slug]);
+
+  const handlePreview = async () => {
+    if (content === null) return;
+    const pathError = validateRelativePath(relativePath);
+    if (pathError) {
+      setError(t(`rename.errors.${pathError}`));
+      return;
+    }
+    setIsPlanning(true);
+    setError(null);
+    try {
+      const currentSlug = typeof frontmatter.slug === 'string' ? frontmatter.slug : '';
+      const next = await planRename(gitService, collections, {
+        post: { path: post.path, rawContent: content },
+        from: collection,
+        to: target,
+        newRelativePath: relativePath.trim(),
+        newSlug: hasSlugField && slug.trim() !== currentSlug ? slug.trim() : undefined,
+      }, domainUrl);
+      if (next.newPath === next.oldPath && next.content === content && next.rewrites.length === 0) {
+        setError(t('rename.errors.unchanged'));
+      } else if (next.newPath !== next.oldPath && await gitService.getFileSha(next.newPath)) {
+        setError(t('rename.errors.exists', { path: next.newPath }));
+      } else if (next.changes.length > MAX_COMMIT_FILES) {
+        setError(t('rename.errors.tooManyFiles', { count: next.changes.length, max: MAX_COMMIT_FILES }));
+      } else {
+        setPlan(next);
+      }
+    } catch (e) {
+      setError(t('rename.failed', { message: e instanceof Error ? e.message : String(e) }));
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  const handleRun = async () => {
+    if (!plan) return;
+    setIsRunning(true);
+    setError(null);
+    try {
+      await withSyncLock(() => gitService.commitFiles(plan.changes, renameCommitMessage(plan)), t('rename.running'));
+      onDone(plan, target);
+    } catch (e) {
+      setError(t('rename.failed', { message: e instanceof Error ? e.message : String(e) }));
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={(e) => e.stopPropagation()}>
+      <div className="bg-white rounded-lg shadow-xl border border-notion-border w-full max-w-lg overflow-hidden animate-fade-in flex flex-col max-h-[85vh]">
+        <div className="px-5 py-3 border-b border-notion-border">
+          <h3 className="text-sm font-semibold text-notion-text">{t('rename.title', { name: post.name })}</h3>
+        </div>
+
+        <div className="p-5 space-y-3 overflow-y-auto">
+          {targets.length > 1 && (
+            <div>
+              <label className="block text-xs font-medium text-notion-text mb-1">{t('rename.collection')}</label>
+              <select value={targetId} onChange={(e) => setTargetId(e.target.value)} className={inputClassName}>
+                {targets.map((c) => <option key={c.id} value={c.id}>{c.name} ({c.postsPath})</option>)}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-xs font-medium text-notion-text mb-1">{t('rename.path')}</label>
+            <div className="flex items-center gap-1">
+              <span className="text-xs font-mono text-notion-muted flex-shrink-0">{target.postsPath ? `${target.postsPath}/` : ''}</span>
+              <input value={relativePath} onChange={(e) => setRelativePath(e.target.value)} className={`${inputClassName} font-mono`} />
+            </div>
+          </div>
+
+          {hasSlugField && (
+            <div>
+              <label className="block text-xs font-medium text-notion-text mb-1">{t('rename.slug')}</label>
+              <input value={slug} onChange={(e) => setSlug(e.target.value)} className={`${inputClassName} font-mono`} />
+              <p className="mt-1 text-[11px] text-notion-muted">{t('rename.slugHelp')}</p>
+            </div>
+          )}
+
+          {!content && !error && (
+            <div className="flex items-center text-xs text-notion-muted">
+              <SpinnerIcon className="w-3.5 h-3.5 mr-2 animate-spin" />
+              {t('rename.loading')}
+            </div>
+          )}
+
+          {plan && (
+            <div className="space-y-2">
+              <p className="text-xs text-notion-text">
+                {t('rename.urlChange')} <span className="font-mono">{plan.oldUrl}</span> → <span className="font-mono">{plan.newUrl}</span>
+              </p>
+              <p className="text-[10px] uppercase font-bold text-notion-muted tracking-wider">
+                {t('rename.preview', { count: plan.rewrites.length })}
+              </p>
+              {plan.rewrites.length > 0 ? (
+                <ul className="border border-notion-border rounded-sm divide-y divide-notion-border max-h-48 overflow-y-auto">
+                  {plan.rewrites.map((rewrite) => (
+                    <li key={rewrite.path} className="flex items-center gap-2 px-2 py-1 text-xs">
+                      <span className="font-mono text-notion-text truncate flex-1" title={rewrite.path}>{rewrite.path}</span>
+                      <span className="text-notion-muted flex-shrink-0">
+                        {t('rename.rewriteCounts', { links: rewrite.links, references: rewrite.references })}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-xs text-notion-muted">{t('rename.noRewrites')}</p>
+              )}
+              {plan.brokenReferences.length > 0 && (
+                <div className="rounded-sm border border-yellow-200 bg-yellow-50 p-2">
+                  <p className="text-xs font-medium text-yellow-800">{t('rename.brokenReferences', { count: plan.brokenReferences.length })}</p>
+                  <ul className="mt-1 space-y-0.5">
+                    {plan.brokenReferences.slice(0, 10).map((ref) => (
+                      <li key={`${ref.path}:${ref.field}`} className="text-[11px] font-mono text-yellow-900 truncate">
+                        {ref.path} ({ref.field})
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+
+        <div className="bg-notion-sidebar px-4 py-3 flex flex-row-reverse gap-2 border-t border-notion-border">
+          {plan ? (
+            <button
+              type="button"
+              onClick={handleRun}
+              disabled={isRunning}
+              className="inline-flex justify-center items-center rounded-sm border border-transparent px-3 py-1.5 text-xs font-medium text-white shadow-sm transition-colors disabled:opacity-50 bg-notion-blue hover:bg-blue-600"
+            >
+              {isRunning && <SpinnerIcon className="w-3 h-3 mr-1.5 animate-spin" />}
+              {t('rename.apply', { count: plan.changes.length })}
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={handlePreview}
+              disabled={isPlanning || content === null}
+              className="inline-flex justify-center items-center rounded-sm border border-transparent px-3 py-1.5 text-xs font-medium text-white shadow-sm transition-colors disabled:opacity-50 bg-notion-blue hover:bg-blue-600"
+            >
+              {isPlanning && <SpinnerIcon className="w-3 h-3 mr-1.5 animate-spin" />}
+              {isPlanning ? t('rename.scanning') : t('rename.previewButton')}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isRunning}
+            className="inline-flex justify-center items-center rounded-sm border border-notion-border bg-white px-3 py-1.5 text-xs font-medium text-notion-text shadow-sm hover:bg-notion-hover transition-colors disabled:opacity-50"
+          >
+            {t('collectionModal.cancel')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
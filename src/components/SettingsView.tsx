@@ -170,6 +170,16 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
                              />
                         </SettingRow>
                     )}
+
+                    <SettingRow label={t('dashboard.settings.branch.label')} description={t('dashboard.settings.branch.help')}>
+                        <input
+                            type="text"
+                            value={settings.branch || ''}
+                            onChange={(e) => onSettingsChange('branch', e.target.value.trim())}
+                            className="w-full max-w-xs px-3 py-1.5 text-sm font-mono border border-notion-border rounded-sm focus:outline-none focus:ring-1 focus:ring-notion-blue placeholder-notion-muted/50"
+                            placeholder={repo.default_branch || 'main'}
+                        />
+                    </SettingRow>
                 </div>
 
                 {/* --- Workflow Config --- */}
@@ -1,18 +1,24 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { GithubUser, ServiceType } from '../types';
+import { GithubUser, ServiceType, IGitService } from '../types';
 import { useI18n } from '../i18n/I18nContext';
 import { AstroIcon } from './icons/AstroIcon';
 import { GithubIcon } from './icons/GithubIcon';
 import { GiteaIcon } from './icons/GiteaIcon';
 import { GogsIcon } from './icons/GogsIcon';
+import { GitlabIcon } from './icons/GitlabIcon';
+import { FolderIcon } from './icons/FolderIcon';
 import { EllipsisVerticalIcon } from './icons/EllipsisVerticalIcon';
 import { LogoutIcon } from './icons/LogoutIcon';
 import { ExclamationTriangleIcon } from './icons/ExclamationTriangleIcon';
 import { SyncStatusBadge } from './SyncStatusBadge';
 import { ChevronDownIcon } from './icons/ChevronDownIcon';
 import { CollectionPicker } from './CollectionPicker';
-import { Collection } from '../features/collections';
+import { BranchSwitcher } from './BranchSwitcher';
+import { Collection, Singleton } from '../features/collections';
+import { DocumentIcon } from './icons/DocumentIcon';
+import { PlusIcon } from './icons/PlusIcon';
+import { EditIcon } from './icons/EditIcon';
 
 interface SidebarProps {
     activeView: string;
@@ -20,6 +26,7 @@ interface SidebarProps {
     navLinks: { id: string; label: string; icon: React.FC<any>; }[];
     user: GithubUser;
     serviceType: ServiceType;
+    gitService: IGitService;
     onLogout: () => void;
     isSynced: boolean;
     repoName: string;
@@ -29,6 +36,11 @@ interface SidebarProps {
     onNewCollection?: () => void;
     onEditCollection?: (collection: Collection) => void;
     onDeleteCollection?: (collection: Collection) => void;
+    singletons?: Singleton[];
+    activeSingletonId?: string | null;
+    onSingletonClick?: (singleton: Singleton) => void;
+    onNewSingleton?: () => void;
+    onEditSingleton?: (singleton: Singleton) => void;
 }
 
 export const Sidebar: React.FC<SidebarProps> = ({ 
@@ -37,6 +49,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
     navLinks, 
     user, 
     serviceType, 
+    gitService,
     onLogout, 
     isSynced, 
     repoName,
@@ -45,7 +58,12 @@ export const Sidebar: React.FC<SidebarProps> = ({
     lastUpdated, 
     onNewCollection,
     onEditCollection,
-    onDeleteCollection
+    onDeleteCollection,
+    singletons = [],
+    activeSingletonId,
+    onSingletonClick,
+    onNewSingleton,
+    onEditSingleton
 }) => {
     const { t } = useI18n();
     const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
@@ -71,6 +89,8 @@ export const Sidebar: React.FC<SidebarProps> = ({
             case 'github': return <GithubIcon className="w-3.5 h-3.5 text-notion-muted" title={tooltip} />;
             case 'gitea': return <GiteaIcon className="w-3.5 h-3.5" title={tooltip} />;
             case 'gogs': return <GogsIcon className="w-3.5 h-3.5" title={tooltip} />;
+            case 'gitlab': return <GitlabIcon className="w-3.5 h-3.5" title={tooltip} />;
+            case 'local': return <FolderIcon className="w-3.5 h-3.5 text-notion-muted" aria-label={tooltip} />;
             default: return null;
         }
     }
@@ -108,6 +128,11 @@ export const Sidebar: React.FC<SidebarProps> = ({
                 )}
             </div>
 
+            {/* Branch Switcher */}
+            <div className="px-2 mb-1">
+                <BranchSwitcher gitService={gitService} />
+            </div>
+
             {/* Navigation */}
             <nav className="flex-grow px-2 space-y-0.5 overflow-y-auto">
                 {/* Collection Picker */}
@@ -140,6 +165,57 @@ export const Sidebar: React.FC<SidebarProps> = ({
                         </button>
                     )
                 })}
+
+                {/* Singletons: one-file documents, opened straight into their form */}
+                <div className="px-3 pt-4 pb-1 flex items-center justify-between group/singletons">
+                    <p className="text-[11px] font-semibold text-notion-muted opacity-60">{t('singletons.sectionTitle')}</p>
+                    {onNewSingleton && (
+                        <button
+                            onClick={onNewSingleton}
+                            className="p-0.5 text-notion-muted hover:text-notion-text hover:bg-notion-hover rounded-sm opacity-0 group-hover/singletons:opacity-100 transition-opacity"
+                            title={t('singletons.newTitle')}
+                        >
+                            <PlusIcon className="w-3.5 h-3.5" />
+                        </button>
+                    )}
+                </div>
+                {singletons.length === 0 && onNewSingleton && (
+                    <button
+                        onClick={onNewSingleton}
+                        className="w-full text-left px-3 py-1 text-xs text-notion-muted hover:text-notion-text hover:bg-notion-hover rounded-sm transition-colors"
+                    >
+                        {t('singletons.empty')}
+                    </button>
+                )}
+                {singletons.map((singleton) => {
+                    const isActive = activeView === 'singleton' && activeSingletonId === singleton.id;
+                    return (
+                        <div key={singleton.id} className="relative group">
+                            <button
+                                onClick={() => onSingletonClick?.(singleton)}
+                                className={`flex items-center w-full text-left px-3 py-1.5 text-[14px] transition-colors rounded-sm ${isActive
+                                        ? 'bg-notion-hover text-notion-text font-medium'
+                                        : 'text-notion-text hover:bg-notion-hover text-opacity-90 hover:text-opacity-100'
+                                    }`}
+                                title={singleton.path}
+                            >
+                                <span className={`mr-2.5 flex-shrink-0 ${isActive ? 'text-notion-text' : 'text-notion-muted group-hover:text-notion-text'}`}>
+                                    <DocumentIcon className="w-[18px] h-[18px]" />
+                                </span>
+                                <span className="truncate">{singleton.name}</span>
+                            </button>
+                            {onEditSingleton && (
+                                <button
+                                    onClick={() => onEditSingleton(singleton)}
+                                    className="absolute right-1 top-1/2 -translate-y-1/2 p-1 text-notion-muted hover:text-notion-text rounded-sm opacity-0 group-hover:opacity-100 transition-opacity"
+                                    title={t('singletons.editTitle')}
+                                >
+                                    <EditIcon className="w-3.5 h-3.5" />
+                                </button>
+                            )}
+                        </div>
+                    );
+                })}
             </nav>
 
             {/* Bottom Status Area */}
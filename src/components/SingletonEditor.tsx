@@ -0,0 +1,233 @@
+/**
+ * SingletonEditor Component
+ *
+ * Form editor for a singleton: one file holding one record of site-wide
+ * content. Data files (JSON / YAML / TOML) are edited as a whole; markdown
+ * files as frontmatter fields plus their body. A file that doesn't exist yet
+ * starts from the template defaults and is created on first save.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useI18n } from '../i18n/I18nContext';
+import type { Singleton } from '../features/collections/types';
+import { IGitService } from '../types';
+import { parseMarkdown, buildMarkdown } from '../utils/parsing';
+import { getDataFormat, parseDataFile, serializeDataFile } from '../utils/dataFiles';
+import { defaultValueForField } from '../utils/fieldTypes';
+import { validateFrontmatter, groupValidationIssues } from '../utils/validation';
+import { isShaConflictError } from '../utils/merge';
+import { TemplateFieldsForm } from './TemplateFieldsForm';
+import { CheckCircleIcon } from './icons/CheckCircleIcon';
+import { SpinnerIcon } from './icons/SpinnerIcon';
+
+interface SingletonEditorProps {
+  singleton: Singleton;
+  gitService: IGitService;
+  /** Used when the singleton doesn't set its own images directory */
+  defaultImagesPath: string;
+  imageFileTypes: string;
+  onAction: () => void;
+}
+
+interface LoadedFile {
+  values: Record<string, any>;
+  body: string;
+  rawContent: string;
+  /** null while the file doesn't exist */
+  sha: string | null;
+}
+
+const isMarkdownPath = (path: string) => /\.mdx?$/i.test(path);
+
+export const SingletonEditor: React.FC<SingletonEditorProps> = ({
+  singleton,
+  gitService,
+  defaultImagesPath,
+  imageFileTypes,
+  onAction,
+}) => {
+  const { t } = useI18n();
+  const isMarkdown = isMarkdownPath(singleton.path);
+  const dataFormat = getDataFormat(singleton.path);
+  const template = singleton.template || null;
+
+  const [loaded, setLoaded] = useState<LoadedFile | null>(null);
+  const [values, setValues] = useState<Record<string, any>>({});
+  const [body, setBody] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string[]>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+
+  const load = useCallback(async (): Promise<LoadedFile> => {
+    const sha = await gitService.getFileSha(singleton.path);
+    if (!sha) {
+      const defaults = Object.fromEntries((template?.fields || []).map((field) => [field.name, defaultValueForField(field)]));
+      return { values: defaults, body: '', rawContent: '', sha: null };
+    }
+    const rawContent = await gitService.getFileContent(singleton.path);
+    if (isMarkdown) {
+      const { frontmatter, body } = parseMarkdown(rawContent);
+      return { values: frontmatter, body, rawContent, sha };
+    }
+    const parsed = parseDataFile(rawContent, dataFormat!);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error(t('singletons.error.notRecord', { path: singleton.path }));
+    }
+    return { values: parsed as Record<string, any>, body: '', rawContent, sha };
+  }, [gitService, singleton.path, template, isMarkdown, dataFormat, t]);
+
+  const applyLoaded = (file: LoadedFile) => {
+    setLoaded(file);
+    setValues(file.values);
+    setBody(file.body);
+    setIsDirty(false);
+    setFieldErrors({});
+  };
+
+  useEffect(() => {
+    let isMounted = true;
+    setIsLoading(true);
+    setError(null);
+    if (!isMarkdown && !dataFormat) {
+      setError(t('singletons.error.unsupported', { path: singleton.path }));
+      setIsLoading(false);
+      return;
+    }
+    load()
+      .then((file) => { if (isMounted) applyLoaded(file); })
+      .catch((e) => { if (isMounted) setError(e instanceof Error ? e.message : String(e)); })
+      .finally(() => { if (isMounted) setIsLoading(false); });
+    return () => {
+      isMounted = false;
+    };
+  }, [load]);
+
+  const handleChange = (key: string, value: any) => {
+    setValues((prev) => ({ ...prev, [key]: value }));
+    setFieldErrors((prev) => {
+      if (!prev[key]) return prev;
+      const { [key]: _cleared, ...rest } = prev;
+      return rest;
+    });
+    setIsDirty(true);
+    setSavedMessage(null);
+  };
+
+  const handleSave = async () => {
+    if (!loaded) return;
+    setError(null);
+    const issues = validateFrontmatter(values, template);
+    if (issues.length > 0) {
+      setFieldErrors(groupValidationIssues(issues, t));
+      return;
+    }
+
+    const content = isMarkdown
+      ? buildMarkdown(values, body)
+      : serializeDataFile(values, dataFormat!, loaded.sha ? loaded.rawContent : undefined);
+
+    setIsSaving(true);
+    try {
+      if (loaded.sha) {
+        await gitService.updateFileContent(singleton.path, content, `fix(content): update "${singleton.name}"`, loaded.sha);
+      } else {
+        await gitService.createFileFromString(singleton.path, content, `feat(content): create "${singleton.name}"`);
+      }
+      applyLoaded(await load());
+      setSavedMessage(t('singletons.saved'));
+      onAction();
+    } catch (e) {
+      setError(isShaConflictError(e) ? t('singletons.error.conflict') : e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReload = async () => {
+    setError(null);
+    setIsLoading(true);
+    try {
+      applyLoaded(await load());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <SpinnerIcon className="w-8 h-8 animate-spin text-notion-muted" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl space-y-4">
+      <div className="flex items-center justify-between gap-4 pb-3 border-b border-notion-border">
+        <span className="text-xs font-mono text-notion-muted truncate" title={singleton.path}>
+          {singleton.path}
+          {loaded && !loaded.sha && <span className="ml-2 font-sans italic">{t('singletons.notCreated')}</span>}
+        </span>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          {savedMessage && !isDirty && <span className="text-xs text-green-700">{savedMessage}</span>}
+          {loaded && (
+            <button
+              onClick={handleSave}
+              disabled={isSaving || (!isDirty && !!loaded.sha)}
+              className="flex items-center px-3 py-1 bg-notion-blue text-white text-xs font-medium rounded-sm shadow-sm hover:bg-blue-600 transition-colors disabled:opacity-50"
+            >
+              {isSaving ? <SpinnerIcon className="w-3 h-3 animate-spin mr-1.5" /> : <CheckCircleIcon className="w-3.5 h-3.5 mr-1.5" />}
+              {isSaving ? t('dataEntry.saving') : t('dataEntry.save')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-sm text-red-700 text-sm flex items-center justify-between gap-3">
+          <span>{error}</span>
+          {loaded && (
+            <button onClick={handleReload} className="text-xs font-medium underline flex-shrink-0">
+              {t('singletons.reload')}
+            </button>
+          )}
+        </div>
+      )}
+
+      {loaded && (
+        <>
+          <TemplateFieldsForm
+            template={template}
+            values={values}
+            initialValues={loaded.values}
+            errors={fieldErrors}
+            onChange={handleChange}
+            gitService={gitService}
+            imagesPath={singleton.imagesPath || defaultImagesPath}
+            imageFileTypes={imageFileTypes}
+            onError={setError}
+          />
+
+          {isMarkdown && (
+            <div>
+              <label className="block text-xs font-semibold text-notion-muted uppercase tracking-wider mb-1">
+                {t('singletons.bodyLabel')}
+              </label>
+              <textarea
+                value={body}
+                onChange={(e) => { setBody(e.target.value); setIsDirty(true); setSavedMessage(null); }}
+                rows={12}
+                className="w-full px-3 py-2 border border-notion-border rounded-sm text-sm font-mono focus:outline-none focus:ring-1 focus:ring-notion-blue"
+              />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+/**
+ * SingletonModal Component
+ *
+ * Modal for adding a singleton, or editing / removing an existing one.
+ * Removing a singleton only drops it from `.pageelrc.json`; the file stays.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useCollectionStore, Singleton } from '../features/collections';
+import { isDataFile } from '../utils/dataFiles';
+import { CloseIcon } from './icons/CloseIcon';
+import { useI18n } from '../i18n/I18nContext';
+
+interface SingletonModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** The singleton to edit; null to add a new one */
+  singleton: Singleton | null;
+  onSaved?: (singleton: Singleton) => void;
+  onRemoved?: (singleton: Singleton) => void;
+}
+
+const isSupportedPath = (path: string) => /\.mdx?$/i.test(path) || isDataFile(path);
+
+export const SingletonModal: React.FC<SingletonModalProps> = ({
+  isOpen,
+  onClose,
+  singleton,
+  onSaved,
+  onRemoved,
+}) => {
+  const [name, setName] = useState('');
+  const [path, setPath] = useState('');
+  const [imagesPath, setImagesPath] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const { saveSingleton, removeSingleton, workspace } = useCollectionStore();
+
+  const { t } = useI18n();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(singleton?.name || '');
+    setPath(singleton?.path || '');
+    setImagesPath(singleton?.imagesPath || '');
+    setError(null);
+  }, [isOpen, singleton]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    // Validate
+    if (!name.trim()) {
+      setError(t('singletons.error.nameRequired'));
+      return;
+    }
+    if (!isSupportedPath(path.trim())) {
+      setError(t('singletons.error.pathInvalid'));
+      return;
+    }
+
+    const id = singleton?.id || name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    if (!singleton && workspace?.singletons?.some(s => s.id === id)) {
+      setError(t('singletons.error.duplicateName'));
+      return;
+    }
+
+    const next: Singleton = {
+      ...singleton,
+      id,
+      name: name.trim(),
+      path: path.trim(),
+      imagesPath: imagesPath.trim() || undefined,
+    };
+    saveSingleton(next);
+
+    // Notify parent to sync
+    onSaved?.(next);
+
+    onClose();
+  };
+
+  const handleRemove = () => {
+    if (!singleton) return;
+    if (!window.confirm(t('singletons.removeConfirm', { name: singleton.name }))) return;
+    removeSingleton(singleton.id);
+    onRemoved?.(singleton);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4 animate-fade-in">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-notion-border">
+          <h2 className="text-lg font-semibold text-notion-text">
+            {singleton ? t('singletons.editTitle') : t('singletons.newTitle')}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-notion-muted hover:text-notion-text hover:bg-notion-hover rounded-sm transition-colors"
+          >
+            <CloseIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-sm text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-notion-text mb-1">
+              {t('singletons.nameLabel')}
+            </label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t('singletons.namePlaceholder')}
+              className="w-full px-3 py-2 border border-notion-border rounded-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              autoFocus
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-notion-text mb-1">
+              {t('singletons.pathLabel')}
+            </label>
+            <input
+              type="text"
+              value={path}
+              onChange={(e) => setPath(e.target.value)}
+              placeholder="src/data/site.json"
+              className="w-full px-3 py-2 border border-notion-border rounded-sm text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <p className="text-xs text-notion-muted mt-1">{t('singletons.pathHelp')}</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-notion-text mb-1">
+              {t('collectionModal.imagesPathLabel')}
+            </label>
+            <input
+              type="text"
+              value={imagesPath}
+              onChange={(e) => setImagesPath(e.target.value)}
+              placeholder={t('collectionModal.imagesPathPlaceholder')}
+              className="w-full px-3 py-2 border border-notion-border rounded-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-4">
+            {singleton && (
+              <button
+                type="button"
+                onClick={handleRemove}
+                className="px-4 py-2 border border-red-200 rounded-sm text-sm text-red-600 hover:bg-red-50 transition-colors"
+              >
+                {t('singletons.remove')}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-notion-border rounded-sm text-sm text-notion-text hover:bg-notion-hover transition-colors"
+            >
+              {t('collectionModal.cancel')}
+            </button>
+            <button
+              type="submit"
+              className="flex-1 px-4 py-2 bg-blue-500 text-white rounded-sm text-sm hover:bg-blue-600 transition-colors"
+            >
+              {singleton ? t('collectionModal.saveButton') : t('singletons.addButton')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
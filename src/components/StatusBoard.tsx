@@ -0,0 +1,220 @@
+/**
+ * StatusBoard Component
+ *
+ * Kanban view of the active collection: one column per option of its status
+ * field. Dropping a card on another column commits the new status to the
+ * post's frontmatter.
+ */
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { IGitService, GithubRepo } from '../types';
+import { useCollectionStore } from '../features/collections/store';
+import { loadReferenceEntries, ReferenceEntry } from '../utils/references';
+import { statusFieldOf, groupByStatus, commitStatusChange } from '../utils/statusBoard';
+import { resolveImageSource } from '../utils/github';
+import { toStringArray } from '../utils/fieldTypes';
+import { ArrowUturnLeftIcon } from './icons/ArrowUturnLeftIcon';
+import { DocumentIcon } from './icons/DocumentIcon';
+import { SpinnerIcon } from './icons/SpinnerIcon';
+import { useI18n } from '../i18n/I18nContext';
+
+interface StatusBoardProps {
+  gitService: IGitService;
+  repo: GithubRepo;
+  projectType: string;
+  domainUrl?: string;
+  onBack: () => void;
+  onAction: () => void;
+}
+
+const COVER_KEYS = ['cover', 'image', 'heroImage', 'thumbnail'];
+
+const coverOf = (frontmatter: Record<string, any>): string | null => {
+  const key = COVER_KEYS.find((k) => typeof frontmatter[k] === 'string' && frontmatter[k]);
+  return key ? frontmatter[key] : null;
+};
+
+const assigneeOf = (frontmatter: Record<string, any>): string =>
+  toStringArray(frontmatter.assignee ?? frontmatter.author).join(', ');
+
+export const StatusBoard: React.FC<StatusBoardProps> = ({ gitService, repo, projectType, domainUrl, onBack, onAction }) => {
+  const { t } = useI18n();
+  const collection = useCollectionStore((state) => state.getActiveCollection());
+  const field = statusFieldOf(collection);
+  const isReadOnly = !!collection?.editorialMode;
+
+  const [entries, setEntries] = useState<ReferenceEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [movingPath, setMovingPath] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!collection || !field) {
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      setEntries(await loadReferenceEntries(gitService, collection));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [gitService, collection, field]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const columns = useMemo(() => (field ? groupByStatus(entries, field) : []), [entries, field]);
+
+  const moveEntry = async (path: string, status: string) => {
+    const entry = entries.find((e) => e.path === path);
+    if (!field || !entry || entry.frontmatter[field.name] === status) return;
+
+    setMovingPath(path);
+    setError(null);
+    // Optimistic: move the card now, put it back if the commit fails
+    const previous = entries;
+    setEntries((current) => current.map((e) => (e.path === path ? { ...e, frontmatter: { ...e.frontmatter, [field.name]: status } } : e)));
+    try {
+      await commitStatusChange(gitService, path, field.name, status);
+      onAction();
+    } catch (e) {
+      setEntries(previous);
+      setError(t('workflows.board.moveError', { name: entry.title, message: e instanceof Error ? e.message : String(e) }));
+    } finally {
+      setMovingPath(null);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, status: string | null) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const path = e.dataTransfer.getData('text/plain');
+    if (path && status !== null) moveEntry(path, status);
+  };
+
+  return (
+    <div className="w-full animate-fade-in space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onBack}
+            className="flex items-center text-sm text-notion-text hover:bg-notion-hover px-2 py-1 rounded-sm transition-colors"
+          >
+            <ArrowUturnLeftIcon className="w-4 h-4 mr-1.5 text-notion-muted" />
+            <span className="font-medium">{t('workflows.backToLibrary')}</span>
+          </button>
+          <span className="text-notion-border text-lg font-light">|</span>
+          <h2 className="text-sm font-semibold text-notion-text">
+            {t('workflows.board.title')}{collection ? ` · ${collection.name}` : ''}
+          </h2>
+        </div>
+        {field && (
+          <button
+            onClick={load}
+            disabled={isLoading}
+            className="px-3 py-1 border border-notion-border rounded-sm text-xs text-notion-text hover:bg-notion-hover transition-colors disabled:opacity-50"
+          >
+            {t('workflows.board.reload')}
+          </button>
+        )}
+      </div>
+
+      {!field && (
+        <div className="p-4 bg-notion-sidebar border border-notion-border rounded-sm text-sm text-notion-muted">
+          {collection?.kind === 'data' ? t('workflows.board.dataCollection') : t('workflows.board.noStatusField')}
+        </div>
+      )}
+
+      {field && isReadOnly && (
+        <div className="p-3 bg-amber-50 border border-amber-200 rounded-sm text-amber-800 text-sm">
+          {t('workflows.board.editorialReadOnly')}
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-sm text-red-700 text-sm">{error}</div>
+      )}
+
+      {field && isLoading && (
+        <div className="flex justify-center py-12">
+          <SpinnerIcon className="w-6 h-6 animate-spin text-notion-muted" />
+        </div>
+      )}
+
+      {field && !isLoading && (
+        <div className="flex gap-3 overflow-x-auto pb-2">
+          {columns.map((column) => {
+            const columnKey = column.status ?? '';
+            const canDrop = !isReadOnly && column.status !== null;
+            return (
+              <div
+                key={columnKey}
+                onDragOver={(e) => { if (canDrop) { e.preventDefault(); setDropTarget(columnKey); } }}
+                onDragLeave={() => setDropTarget((current) => (current === columnKey ? null : current))}
+                onDrop={(e) => handleDrop(e, column.status)}
+                className={`w-64 flex-shrink-0 rounded-sm border p-2 transition-colors ${dropTarget === columnKey ? 'bg-blue-50 border-blue-300' : 'bg-notion-sidebar border-notion-border'}`}
+              >
+                <div className="flex items-center justify-between px-1 pb-2">
+                  <span className="text-xs font-semibold text-notion-text uppercase tracking-wide">
+                    {column.status ?? t('workflows.board.noStatus')}
+                  </span>
+                  <span className="text-[11px] text-notion-muted">{column.entries.length}</span>
+                </div>
+
+                <div className="space-y-2 min-h-[3rem]">
+                  {column.entries.length === 0 && (
+                    <p className="text-xs text-notion-muted italic px-1">{t('workflows.board.empty')}</p>
+                  )}
+                  {column.entries.map((entry) => {
+                    const cover = coverOf(entry.frontmatter);
+                    const coverUrl = cover ? resolveImageSource(cover, repo, projectType, domainUrl) : '';
+                    const assignee = assigneeOf(entry.frontmatter);
+                    const isMoving = movingPath === entry.path;
+                    return (
+                      <div
+                        key={entry.path}
+                        draggable={!isReadOnly && !movingPath}
+                        onDragStart={(e) => {
+                          e.dataTransfer.setData('text/plain', entry.path);
+                          e.dataTransfer.effectAllowed = 'move';
+                        }}
+                        className={`bg-white border border-notion-border rounded-sm overflow-hidden shadow-sm ${isReadOnly ? '' : 'cursor-grab active:cursor-grabbing'} ${isMoving ? 'opacity-60' : ''}`}
+                        title={entry.path}
+                      >
+                        {coverUrl ? (
+                          <img src={coverUrl} alt="" className="w-full h-24 object-cover border-b border-notion-border" onError={(e) => e.currentTarget.style.display = 'none'} />
+                        ) : null}
+                        <div className="p-2">
+                          <p className="text-sm font-medium text-notion-text line-clamp-2">
+                            {entry.title || t('workflows.board.untitled')}
+                          </p>
+                          <div className="flex items-center justify-between mt-1 text-[11px] text-notion-muted">
+                            <span className="truncate">{assignee}</span>
+                            {isMoving ? (
+                              <span className="flex items-center gap-1 flex-shrink-0">
+                                <SpinnerIcon className="w-3 h-3 animate-spin" />
+                                {t('workflows.board.moving')}
+                              </span>
+                            ) : !cover && (
+                              <DocumentIcon className="w-3.5 h-3.5 flex-shrink-0 opacity-50" />
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
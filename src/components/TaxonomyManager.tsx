@@ -0,0 +1,455 @@
+/**
+ * TaxonomyManager Component
+ *
+ * Taxonomy view: every term of the list fields (tags, categories…) of a
+ * collection with its usage count. Terms are renamed, merged or deleted
+ * across all posts in one commit, and a field can be given a controlled
+ * vocabulary that the editor suggests and enforces.
+ */
+
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { IGitService } from '../types';
+import type { Collection } from '../features/collections/types';
+import { useI18n } from '../i18n/I18nContext';
+import { useCollectionStore, saveCollectionsToPageelrc, buildPageelrcContent, readPageelrc, withSyncLock } from '../features';
+import { parseMarkdown } from '../utils/parsing';
+import { isInCollectionFolder } from '../utils/filenamePattern';
+import { MAX_COMMIT_FILES } from '../lib/encoding';
+import {
+  TaxonomyChange,
+  collectTaxonomy,
+  applyTermChange,
+  applyToVocabulary,
+  planTaxonomyChange,
+  taxonomyCommitMessage,
+  termsOf,
+} from '../utils/taxonomy';
+import { SpinnerIcon } from './icons/SpinnerIcon';
+import { TrashIcon } from './icons/TrashIcon';
+import { EditIcon } from './icons/EditIcon';
+
+interface TaxonomyManagerProps {
+  gitService: IGitService;
+  onAction: () => void;
+}
+
+interface TaxonomyPost {
+  path: string;
+  frontmatter: Record<string, any>;
+}
+
+const MARKDOWN_FILE = /\.(md|mdx)$/i;
+
+const loadPosts = async (gitService: IGitService, collection: Collection): Promise<TaxonomyPost[]> => {
+  const files = await gitService.listFiles(collection.postsPath);
+  const posts = await Promise.all(
+    files
+      .filter((file) => file.type === 'file' && isInCollectionFolder(file.path, collection.postsPath) && MARKDOWN_FILE.test(file.name))
+      .map(async (file): Promise<TaxonomyPost | null> => {
+        try {
+          return { path: file.path, frontmatter: parseMarkdown(await gitService.getFileContent(file.path)).frontmatter };
+        } catch (e) {
+          console.error(`[taxonomy] Failed to read ${file.path}`, e);
+          return null;
+        }
+      })
+  );
+  return posts.filter((post): post is TaxonomyPost => post !== null);
+};
+
+const buttonClassName = 'px-2 py-1 border border-notion-border bg-white text-xs text-notion-text rounded-sm hover:bg-notion-hover transition-colors disabled:opacity-50';
+const inputClassName = 'w-full px-2 py-1.5 border border-notion-border rounded-sm text-sm focus:outline-none focus:ring-1 focus:ring-notion-blue';
+
+export const TaxonomyManager: React.FC<TaxonomyManagerProps> = ({ gitService, onAction }) => {
+  const { t } = useI18n();
+  const collections = useCollectionStore((state) => state.workspace?.collections || []);
+  const activeCollectionId = useCollectionStore((state) => state.workspace?.activeCollectionId || null);
+  // Editorial collections only change through pull requests, like bulk edits
+  const postCollections = collections.filter((c) => c.kind !== 'data' && !c.editorialMode && c.postsPath);
+
+  const [collectionId, setCollectionId] = useState(
+    postCollections.find((c) => c.id === activeCollectionId)?.id || postCollections[0]?.id || ''
+  );
+  const collection = postCollections.find((c) => c.id === collectionId) || null;
+
+  const [posts, setPosts] = useState<TaxonomyPost[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [fieldName, setFieldName] = useState('');
+  const [selectedTerms, setSelectedTerms] = useState<Set<string>>(new Set());
+  const [pending, setPending] = useState<{ kind: TaxonomyChange['kind']; terms: string[] } | null>(null);
+  const [replacement, setReplacement] = useState('');
+  const [vocabularyDraft, setVocabularyDraft] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    if (!collection) return;
+    setError(null);
+    try {
+      setPosts(await loadPosts(gitService, collection));
+    } catch (e) {
+      setError(t('taxonomy.loadFailed', { message: e instanceof Error ? e.message : String(e) }));
+    }
+  }, [gitService, collection?.id, collection?.postsPath, t]);
+
+  useEffect(() => {
+    setPosts(null);
+    reload();
+  }, [reload]);
+
+  const fields = useMemo(() => (posts ? collectTaxonomy(posts, collection?.template) : []), [posts, collection?.template]);
+  const field = fields.find((f) => f.name === fieldName) || fields[0] || null;
+  const vocabulary = field ? collection?.vocabularies?.[field.name] : undefined;
+
+  // A new field or collection starts with a clean slate
+  useEffect(() => {
+    setSelectedTerms(new Set());
+    setPending(null);
+    setVocabularyDraft(null);
+  }, [field?.name, collectionId]);
+
+  const change = useMemo((): TaxonomyChange | null => {
+    if (!pending || !field) return null;
+    if (pending.kind === 'delete') return { kind: 'delete', field: field.name, terms: pending.terms };
+    const to = replacement.trim();
+    return to ? { kind: 'replace', field: field.name, terms: pending.terms, to } : null;
+  }, [pending, field, replacement]);
+
+  const affectedCount = useMemo(() => {
+    if (!change || !posts) return 0;
+    return posts.filter((post) => {
+      const value = post.frontmatter[change.field];
+      return value !== undefined && JSON.stringify(applyTermChange(value, change)) !== JSON.stringify(value);
+    }).length;
+  }, [change, posts]);
+
+  // The posts plus `.pageelrc.json` when a vocabulary follows the change
+  const commitFileCount = affectedCount + (vocabulary ? 1 : 0);
+  const isTooLarge = commitFileCount > MAX_COMMIT_FILES;
+
+  const startChange = (kind: TaxonomyChange['kind'], terms: string[]) => {
+    setPending({ kind, terms });
+    setReplacement(kind === 'replace' && terms.length === 1 ? terms[0] : '');
+    setNotice(null);
+  };
+
+  /** Vocabularies of the collection with the one of `name` set, or removed when `terms` is empty */
+  const vocabulariesWith = (name: string, terms: string[] | null): Collection['vocabularies'] => {
+    const vocabularies = { ...(collection?.vocabularies || {}) };
+    if (terms && terms.length > 0) vocabularies[name] = terms;
+    else delete vocabularies[name];
+    return Object.keys(vocabularies).length > 0 ? vocabularies : undefined;
+  };
+
+  const saveVocabulary = async (name: string, terms: string[] | null) => {
+    if (!collection) return;
+    useCollectionStore.getState().updateCollection(collection.id, { vocabularies: vocabulariesWith(name, terms) });
+    const workspace = useCollectionStore.getState().workspace;
+    if (workspace) await withSyncLock(() => saveCollectionsToPageelrc(gitService, workspace), t('taxonomy.savingVocabulary'));
+  };
+
+  const handleApply = async () => {
+    if (!change || !posts || isTooLarge) return;
+    setIsRunning(true);
+    setError(null);
+    try {
+      // Read the affected posts fresh: edits made since loading are kept
+      const affected = posts.filter((post) => termsOf(post.frontmatter[change.field]).some((term) => change.terms.includes(term)));
+      const fresh = await Promise.all(affected.map(async (post) => ({ path: post.path, rawContent: await gitService.getFileContent(post.path) })));
+      const postChanges = planTaxonomyChange(fresh, change);
+      const changes = [...postChanges];
+
+      // The vocabulary follows the change in the same commit as the posts
+      const vocabularies = vocabulary ? vocabulariesWith(change.field, applyToVocabulary(vocabulary, change)) : undefined;
+      const workspace = useCollectionStore.getState().workspace;
+      if (vocabulary && collection && workspace) {
+        const nextWorkspace = {
+          ...workspace,
+          collections: workspace.collections.map((c) => (c.id === collection.id ? { ...c, vocabularies } : c)),
+        };
+        // Carries the SHA it was built from, so a concurrent settings save isn't overwritten
+        const existing = await readPageelrc(gitService);
+        changes.push({ path: '.pageelrc.json', content: buildPageelrcContent(nextWorkspace, existing?.content), sha: existing?.sha ?? null });
+      }
+
+      if (changes.length > 0) {
+        await withSyncLock(() => gitService.commitFiles(changes, taxonomyCommitMessage(change, postChanges.length)), t('taxonomy.running'));
+      }
+      if (vocabulary && collection) useCollectionStore.getState().updateCollection(collection.id, { vocabularies });
+      setNotice(t('taxonomy.done', { count: postChanges.length }));
+      setPending(null);
+      setSelectedTerms(new Set());
+      onAction();
+      await reload();
+    } catch (e) {
+      setError(t('taxonomy.failed', { message: e instanceof Error ? e.message : String(e) }));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleSaveVocabulary = async () => {
+    if (!field || vocabularyDraft === null) return;
+    const terms = Array.from(new Set(vocabularyDraft.split(/[,\n]/).map((term) => term.trim()).filter(Boolean)));
+    setIsRunning(true);
+    try {
+      await saveVocabulary(field.name, terms);
+      setVocabularyDraft(null);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleRemoveVocabulary = async () => {
+    if (!field) return;
+    setIsRunning(true);
+    try {
+      await saveVocabulary(field.name, null);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const toggleTerm = (term: string) => {
+    setSelectedTerms((prev) => {
+      const next = new Set(prev);
+      if (next.has(term)) next.delete(term);
+      else next.add(term);
+      return next;
+    });
+  };
+
+  if (postCollections.length === 0) {
+    return <p className="text-sm text-notion-muted">{t('taxonomy.noCollections')}</p>;
+  }
+
+  const unusedTerms = field && vocabulary ? vocabulary.filter((term) => !field.terms.some((item) => item.term === term)) : [];
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-notion-muted">{t('taxonomy.description')}</p>
+
+      <div className="flex items-center gap-2">
+        <select value={collectionId} onChange={(e) => setCollectionId(e.target.value)} className={`${inputClassName} max-w-xs`}>
+          {postCollections.map((c) => <option key={c.id} value={c.id}>{c.name} ({c.postsPath})</option>)}
+        </select>
+        <button onClick={() => { setPosts(null); reload(); }} disabled={!posts} className={buttonClassName}>
+          {t('taxonomy.refresh')}
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {notice && <p className="text-xs text-green-700">{notice}</p>}
+
+      {!posts && !error && (
+        <div className="flex items-center text-sm text-notion-muted">
+          <SpinnerIcon className="w-4 h-4 mr-2 animate-spin" />
+          {t('taxonomy.loading')}
+        </div>
+      )}
+
+      {posts && fields.length === 0 && <p className="text-sm text-notion-muted">{t('taxonomy.noFields')}</p>}
+
+      {field && (
+        <>
+          <div className="flex flex-wrap gap-1 border-b border-notion-border">
+            {fields.map((f) => (
+              <button
+                key={f.name}
+                onClick={() => setFieldName(f.name)}
+                className={`px-3 py-1.5 text-sm border-b-2 -mb-px transition-colors ${
+                  f.name === field.name ? 'border-notion-blue text-notion-text font-medium' : 'border-transparent text-notion-muted hover:text-notion-text'
+                }`}
+              >
+                {f.name} <span className="text-xs text-notion-muted">({f.terms.length})</span>
+              </button>
+            ))}
+          </div>
+
+          {/* Controlled vocabulary */}
+          <div className="p-3 border border-notion-border rounded-sm bg-notion-sidebar space-y-2">
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className="text-xs font-medium text-notion-text">
+                {vocabulary ? t('taxonomy.vocabulary.enabled', { count: vocabulary.length }) : t('taxonomy.vocabulary.disabled')}
+              </span>
+              {vocabularyDraft === null && (
+                <div className="flex gap-1.5 ml-auto">
+                  <button
+                    onClick={() => setVocabularyDraft((vocabulary || field.terms.map((item) => item.term)).join('\n'))}
+                    disabled={isRunning}
+                    className={buttonClassName}
+                  >
+                    {vocabulary ? t('taxonomy.vocabulary.edit') : t('taxonomy.vocabulary.create')}
+                  </button>
+                  {vocabulary && (
+                    <button onClick={handleRemoveVocabulary} disabled={isRunning} className={buttonClassName}>
+                      {t('taxonomy.vocabulary.remove')}
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+            <p className="text-[11px] text-notion-muted">{t('taxonomy.vocabulary.help')}</p>
+            {vocabularyDraft !== null && (
+              <>
+                <textarea
+                  value={vocabularyDraft}
+                  onChange={(e) => setVocabularyDraft(e.target.value)}
+                  rows={6}
+                  placeholder={t('taxonomy.vocabulary.placeholder')}
+                  className={`${inputClassName} font-mono text-xs`}
+                />
+                <div className="flex justify-end gap-1.5">
+                  <button onClick={() => setVocabularyDraft(null)} disabled={isRunning} className={buttonClassName}>
+                    {t('collectionModal.cancel')}
+                  </button>
+                  <button
+                    onClick={handleSaveVocabulary}
+                    disabled={isRunning}
+                    className="px-2 py-1 text-xs bg-notion-blue text-white rounded-sm hover:bg-blue-600 disabled:opacity-50"
+                  >
+                    {t('taxonomy.vocabulary.save')}
+                  </button>
+                </div>
+              </>
+            )}
+            {unusedTerms.length > 0 && (
+              <p className="text-[11px] text-notion-muted">
+                {t('taxonomy.vocabulary.unused')} {unusedTerms.join(', ')}
+              </p>
+            )}
+          </div>
+
+          {selectedTerms.size > 0 && !pending && (
+            <div className="flex items-center gap-2 px-3 py-2 bg-blue-50 border border-blue-200 rounded-sm text-sm">
+              <span className="font-medium text-notion-text">{t('taxonomy.selected', { count: selectedTerms.size })}</span>
+              <button onClick={() => setSelectedTerms(new Set())} className="text-xs text-notion-muted hover:underline">
+                {t('bulk.clearSelection')}
+              </button>
+              <div className="flex gap-1.5 ml-auto">
+                {selectedTerms.size > 1 && (
+                  <button onClick={() => startChange('replace', Array.from(selectedTerms))} className={buttonClassName}>
+                    {t('taxonomy.merge')}
+                  </button>
+                )}
+                <button onClick={() => startChange('delete', Array.from(selectedTerms))} className={buttonClassName}>
+                  {t('taxonomy.delete')}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {pending && (
+            <div className="p-3 border border-notion-border rounded-sm space-y-2">
+              <p className="text-sm text-notion-text">
+                {pending.kind === 'delete'
+                  ? t('taxonomy.confirmDelete', { terms: pending.terms.join(', '), field: field.name })
+                  : pending.terms.length > 1
+                    ? t('taxonomy.mergeInto', { terms: pending.terms.join(', ') })
+                    : t('taxonomy.renameTo', { term: pending.terms[0] })}
+              </p>
+              {pending.kind === 'replace' && (
+                <>
+                  <input list="taxonomy-terms" value={replacement} onChange={(e) => setReplacement(e.target.value)} autoFocus className={inputClassName} />
+                  <datalist id="taxonomy-terms">
+                    {Array.from(new Set([...(vocabulary || []), ...field.terms.map((item) => item.term)])).map((term) => <option key={term} value={term} />)}
+                  </datalist>
+                  {vocabulary && change?.kind === 'replace' && !vocabulary.includes(change.to) && (
+                    <p className="text-[11px] text-amber-700">{t('taxonomy.addsToVocabulary', { term: change.to })}</p>
+                  )}
+                </>
+              )}
+              <div className="flex items-center gap-2">
+                <span className={`text-xs ${isTooLarge ? 'text-red-600' : 'text-notion-muted'}`}>
+                  {isTooLarge
+                    ? t('taxonomy.tooManyFiles', { count: commitFileCount, max: MAX_COMMIT_FILES })
+                    : t('taxonomy.affected', { count: affectedCount })}
+                </span>
+                <div className="flex gap-1.5 ml-auto">
+                  <button onClick={() => setPending(null)} disabled={isRunning} className={buttonClassName}>
+                    {t('collectionModal.cancel')}
+                  </button>
+                  <button
+                    onClick={handleApply}
+                    disabled={isRunning || !change || (affectedCount === 0 && !vocabulary) || isTooLarge}
+                    className={`inline-flex items-center px-2 py-1 text-xs text-white rounded-sm disabled:opacity-50 ${
+                      pending.kind === 'delete' ? 'bg-red-600 hover:bg-red-700' : 'bg-notion-blue hover:bg-blue-600'
+                    }`}
+                  >
+                    {isRunning && <SpinnerIcon className="w-3 h-3 mr-1.5 animate-spin" />}
+                    {t('taxonomy.apply')}
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {field.terms.length === 0 ? (
+            <p className="text-sm text-notion-muted">{t('taxonomy.noTerms')}</p>
+          ) : (
+            <div className="border border-notion-border rounded-sm overflow-hidden">
+              <table className="w-full text-sm">
+                <thead className="bg-notion-sidebar text-xs text-notion-muted">
+                  <tr>
+                    <th className="w-8 px-3 py-2 text-left">
+                      <input
+                        type="checkbox"
+                        checked={field.terms.every((item) => selectedTerms.has(item.term))}
+                        onChange={(e) => setSelectedTerms(e.target.checked ? new Set(field.terms.map((item) => item.term)) : new Set())}
+                        aria-label={t('taxonomy.selectAll')}
+                      />
+                    </th>
+                    <th className="px-3 py-2 text-left font-medium">{t('taxonomy.term')}</th>
+                    <th className="px-3 py-2 text-right font-medium w-24">{t('taxonomy.posts')}</th>
+                    <th className="px-3 py-2 w-20"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-notion-border">
+                  {field.terms.map((item) => (
+                    <tr key={item.term} className="group hover:bg-notion-hover/50">
+                      <td className="px-3 py-1.5">
+                        <input type="checkbox" checked={selectedTerms.has(item.term)} onChange={() => toggleTerm(item.term)} aria-label={item.term} />
+                      </td>
+                      <td className="px-3 py-1.5">
+                        <span className="font-medium text-notion-text">{item.term}</span>
+                        {vocabulary && !vocabulary.includes(item.term) && (
+                          <span className="ml-2 px-1.5 py-0.5 text-[10px] border rounded-sm bg-red-50 text-red-700 border-red-200">
+                            {t('taxonomy.notInVocabulary')}
+                          </span>
+                        )}
+                        {item.similar.length > 0 && (
+                          <span className="ml-2 px-1.5 py-0.5 text-[10px] border rounded-sm bg-amber-50 text-amber-700 border-amber-200">
+                            {t('taxonomy.similar', { terms: item.similar.join(', ') })}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-3 py-1.5 text-right text-notion-muted">{item.count}</td>
+                      <td className="px-3 py-1.5">
+                        <div className="flex justify-end gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                          <button
+                            onClick={() => startChange('replace', [item.term])}
+                            className="p-1 text-notion-muted hover:text-notion-text hover:bg-gray-200 rounded-sm transition-colors"
+                            title={t('taxonomy.rename')}
+                          >
+                            <EditIcon className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => startChange('delete', [item.term])}
+                            className="p-1 text-notion-muted hover:text-red-600 hover:bg-red-50 rounded-sm transition-colors"
+                            title={t('taxonomy.delete')}
+                          >
+                            <TrashIcon className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+/**
+ * TemplateFieldsForm Component
+ *
+ * Label + widget rows for a record edited as a whole form: data collection
+ * entries and singletons. Fields come from the template; keys the template
+ * doesn't declare get a field inferred from their value, so nothing in the
+ * file is hidden. Owns the image picker and the reference entry lookup.
+ */
+
+import React, { useState, useMemo } from 'react';
+import { useI18n } from '../i18n/I18nContext';
+import type { CollectionTemplate, TemplateField } from '../features/collections/types';
+import { IGitService } from '../types';
+import { inferTemplateFields } from '../utils/parsing';
+import { useReferenceEntries } from '../hooks/useReferenceEntries';
+import { SubFieldInput } from './NestedFieldInput';
+import { ReferenceFieldInput } from './ReferenceFieldInput';
+import PostImageSelectionModal from './PostImageSelectionModal';
+
+interface TemplateFieldsFormProps {
+  template: CollectionTemplate | null;
+  values: Record<string, any>;
+  /** Values as loaded, used to infer fields the template leaves out */
+  initialValues: Record<string, any>;
+  errors: Record<string, string[]>;
+  onChange: (key: string, value: any) => void;
+  gitService: IGitService;
+  imagesPath: string;
+  imageFileTypes: string;
+  /** Image uploads failed */
+  onError: (message: string) => void;
+}
+
+/** `public/images/a.png` → `/images/a.png`, as the site serves it */
+const toPublicUrl = (path: string): string => {
+  if (path.startsWith('public/')) return path.replace('public/', '/');
+  return path.startsWith('http') || path.startsWith('/') ? path : `/${path}`;
+};
+
+export const TemplateFieldsForm: React.FC<TemplateFieldsFormProps> = ({
+  template,
+  values,
+  initialValues,
+  errors,
+  onChange,
+  gitService,
+  imagesPath,
+  imageFileTypes,
+  onError,
+}) => {
+  const { t } = useI18n();
+  const [imageFieldTarget, setImageFieldTarget] = useState<{ apply: (url: string) => void } | null>(null);
+  const { entriesByCollection, isLoading: isLoadingReferences } = useReferenceEntries(gitService, template);
+
+  const fields = useMemo<TemplateField[]>(() => {
+    const declared = template?.fields || [];
+    const declaredNames = new Set(declared.map((field) => field.name));
+    const extra = Object.fromEntries(Object.entries(initialValues).filter(([key]) => !declaredNames.has(key)));
+    return [...declared, ...inferTemplateFields(extra)];
+  }, [template, initialValues]);
+
+  const handleImageConfirm = async (result: { type: 'new' | 'existing'; file?: File; path?: string }) => {
+    const target = imageFieldTarget;
+    setImageFieldTarget(null);
+    if (!target) return;
+    try {
+      if (result.type === 'new' && result.file) {
+        const fullPath = imagesPath ? `${imagesPath}/${result.file.name}` : result.file.name;
+        await gitService.uploadFile(fullPath, result.file, `feat(assets): add image "${result.file.name}"`);
+        target.apply(toPublicUrl(fullPath));
+      } else if (result.type === 'existing' && result.path) {
+        target.apply(toPublicUrl(result.path));
+      }
+    } catch (e) {
+      console.error(e);
+      onError(t('dataEntry.error.image'));
+    }
+  };
+
+  const renderField = (field: TemplateField) => {
+    if (field.type === 'reference') {
+      return (
+        <ReferenceFieldInput
+          field={field}
+          value={values[field.name]}
+          onChange={(value) => onChange(field.name, value)}
+          entries={field.collection ? entriesByCollection[field.collection] : undefined}
+          isLoading={isLoadingReferences}
+        />
+      );
+    }
+    return (
+      <SubFieldInput
+        field={field}
+        value={values[field.name]}
+        onChange={(value) => onChange(field.name, value)}
+        onPickImage={(apply) => setImageFieldTarget({ apply })}
+      />
+    );
+  };
+
+  return (
+    <>
+      {imageFieldTarget && (
+        <PostImageSelectionModal
+          gitService={gitService}
+          imagesPath={imagesPath}
+          imageFileTypes={imageFileTypes}
+          onClose={() => setImageFieldTarget(null)}
+          onConfirm={handleImageConfirm}
+        />
+      )}
+
+      {fields.length === 0 ? (
+        <p className="text-sm text-notion-muted italic">{t('dataEntry.noFields')}</p>
+      ) : (
+        <div className="space-y-2">
+          {fields.map((field) => (
+            <div key={field.name} className="flex items-start gap-3 py-1">
+              <label
+                className="w-36 flex-shrink-0 pt-1 text-xs font-medium text-notion-muted truncate"
+                title={field.description || field.name}
+              >
+                {field.name}
+                {field.required && <span className="text-red-500 ml-0.5">*</span>}
+              </label>
+              <div className="flex-grow min-w-0">
+                <div className="flex items-center">{renderField(field)}</div>
+                {errors[field.name]?.map((message) => (
+                  <p key={message} className="text-[11px] text-red-600 mt-0.5">{message}</p>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
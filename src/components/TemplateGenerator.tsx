@@ -1,7 +1,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { GithubRepo, IGitService, GithubContent } from '../types';
-import { parseMarkdown, inferFrontmatterType } from '../utils/parsing';
+import { parseMarkdown, inferTemplateFields } from '../utils/parsing';
 import { UploadIcon } from './icons/UploadIcon';
 import { InfoIcon } from './icons/InfoIcon';
 import { CheckCircleIcon } from './icons/CheckCircleIcon';
@@ -11,7 +11,7 @@ import { ArrowUturnLeftIcon } from './icons/ArrowUturnLeftIcon';
 import { SearchIcon } from './icons/SearchIcon';
 import { SpinnerIcon } from './icons/SpinnerIcon';
 import { DocumentIcon } from './icons/DocumentIcon';
-import { useCollectionStore, CollectionTemplate, TemplateField } from '../features/collections';
+import { useCollectionStore, CollectionTemplate, TemplateField, TEMPLATE_FIELD_TYPES } from '../features/collections';
 
 interface TemplateGeneratorProps {
     gitService: IGitService;
@@ -37,7 +37,10 @@ const defaultTemplate: Record<string, string> = {
 const MAX_COLUMNS = 5;
 
 // Available field types for template editing
-const AVAILABLE_TYPES = ['string', 'date', 'array', 'boolean', 'number', 'object'] as const;
+const AVAILABLE_TYPES = TEMPLATE_FIELD_TYPES;
+
+// Types whose choices are configured in the template
+const OPTION_TYPES = new Set(['select', 'multiselect']);
 
 // Default widths in percentage
 const DEFAULT_WIDTHS: Record<string, number> = {
@@ -60,6 +63,12 @@ const TemplateGenerator: React.FC<TemplateGeneratorProps> = ({ gitService, repo,
     // Columns config state
     const [selectedColumns, setSelectedColumns] = useState<string[]>([]);
     const [columnWidths, setColumnWidths] = useState<Record<string, number>>({ '__name__': 35 });
+    // Comma-separated choices of select/multiselect fields, as typed
+    const [fieldOptions, setFieldOptions] = useState<Record<string, string>>({});
+    // Sub-schemas of object / repeatable-group fields inferred from the parsed post
+    const [parsedSubFields, setParsedSubFields] = useState<Record<string, TemplateField[]>>({});
+    // Target collection and single/multiple mode of reference fields
+    const [fieldReferences, setFieldReferences] = useState<Record<string, { collection: string; multiple: boolean }>>({});
 
     const { t } = useI18n();
     
@@ -83,13 +92,37 @@ const TemplateGenerator: React.FC<TemplateGeneratorProps> = ({ gitService, repo,
         return record;
     };
 
-    // Convert Record<string, string> to CollectionTemplate format
+    // Sub-fields of a field: freshly inferred ones win over the saved template
+    const getSubFields = (name: string): TemplateField[] | undefined =>
+        parsedSubFields[name] || activeCollection?.template?.fields.find(f => f.name === name)?.fields;
+
+    // Convert Record<string, string> to CollectionTemplate format.
+    // Other settings of existing fields (required, description…) are kept.
     const recordToCollectionTemplate = (record: Record<string, string>): CollectionTemplate => {
         return {
-            fields: Object.entries(record).map(([name, type]) => ({
-                name,
-                type: type as TemplateField['type'],
-            })),
+            fields: Object.entries(record).map(([name, type]) => {
+                const existing = activeCollection?.template?.fields.find(f => f.name === name);
+                const field: TemplateField = { ...existing, name, type: type as TemplateField['type'] };
+                if (OPTION_TYPES.has(type)) {
+                    field.options = (fieldOptions[name] || '').split(',').map(o => o.trim()).filter(o => o);
+                } else {
+                    delete field.options;
+                }
+                if (type === 'reference') {
+                    field.collection = fieldReferences[name]?.collection || undefined;
+                    field.multiple = fieldReferences[name]?.multiple || undefined;
+                } else {
+                    delete field.collection;
+                    delete field.multiple;
+                }
+                const subFields = getSubFields(name);
+                if ((type === 'object' || type === 'array') && subFields) {
+                    field.fields = subFields;
+                } else {
+                    delete field.fields;
+                }
+                return field;
+            }),
         };
     };
 
@@ -97,6 +130,14 @@ const TemplateGenerator: React.FC<TemplateGeneratorProps> = ({ gitService, repo,
         // Load template from collection store if available, otherwise from localStorage
         if (activeCollection?.template) {
             setCurrentTemplate(collectionTemplateToRecord(activeCollection.template));
+            setFieldOptions(Object.fromEntries(
+                activeCollection.template.fields.filter(f => f.options).map(f => [f.name, f.options!.join(', ')])
+            ));
+            setFieldReferences(Object.fromEntries(
+                activeCollection.template.fields
+                    .filter(f => f.type === 'reference')
+                    .map(f => [f.name, { collection: f.collection || '', multiple: !!f.multiple }])
+            ));
             setSelectedColumns(activeCollection.tableColumns || []);
             setColumnWidths(activeCollection.columnWidths || { '__name__': 35 });
         } else {
@@ -212,10 +253,13 @@ const TemplateGenerator: React.FC<TemplateGeneratorProps> = ({ gitService, repo,
         }
 
         const newTemplate: Record<string, string> = {};
-        for (const [key, value] of Object.entries(frontmatter)) {
-            newTemplate[key] = inferFrontmatterType(value);
+        const subFields: Record<string, TemplateField[]> = {};
+        for (const field of inferTemplateFields(frontmatter)) {
+            newTemplate[field.name] = field.type;
+            if (field.fields) subFields[field.name] = field.fields;
         }
         setParsedTemplate(newTemplate);
+        setParsedSubFields(subFields);
 
         // Auto-select limited to MAX_COLUMNS, excluding fixed columns
         const potentialCols = Object.keys(newTemplate).filter(k => !['title', 'image', 'cover', 'thumbnail'].includes(k));
@@ -261,6 +305,7 @@ const TemplateGenerator: React.FC<TemplateGeneratorProps> = ({ gitService, repo,
             const isDefault = JSON.stringify(templateToSave) === JSON.stringify(defaultTemplate);
             setSuccess(isDefault ? t('templateGenerator.success.default') : t('templateGenerator.success.saved'));
             setParsedTemplate(null);
+            setParsedSubFields({});
         } catch (e) {
             setError("Failed to save template.");
         } finally {
@@ -273,8 +318,21 @@ const TemplateGenerator: React.FC<TemplateGeneratorProps> = ({ gitService, repo,
         for (const [key, type] of Object.entries(template)) {
             switch (type) {
                 case 'date': fmString += `${key}: ${new Date().toISOString().split('T')[0]}\n`; break;
+                case 'datetime': fmString += `${key}: ${new Date().toISOString()}\n`; break;
                 case 'array': fmString += `${key}:\n  - item1\n  - item2\n`; break;
+                case 'multiselect': fmString += `${key}:\n  - ${(fieldOptions[key] || 'option1').split(',')[0].trim()}\n`; break;
+                case 'select': fmString += `${key}: "${(fieldOptions[key] || 'option1').split(',')[0].trim()}"\n`; break;
+                case 'boolean': fmString += `${key}: false\n`; break;
+                case 'number': fmString += `${key}: 0\n`; break;
+                case 'color': fmString += `${key}: "#000000"\n`; break;
+                case 'url': fmString += `${key}: "https://example.com"\n`; break;
+                case 'email': fmString += `${key}: "name@example.com"\n`; break;
+                case 'image': fmString += `${key}: "/images/example.jpg"\n`; break;
+                case 'slug': fmString += `${key}: "your-${key}-here"\n`; break;
+                case 'text':
+                case 'markdown': fmString += `${key}: |\n  Your ${key} here\n`; break;
                 case 'object': fmString += `${key}:\n  subKey: "sub value"\n`; break;
+                case 'reference': fmString += fieldReferences[key]?.multiple ? `${key}:\n  - entry-slug\n` : `${key}: "entry-slug"\n`; break;
                 case 'string':
                 default: fmString += `${key}: "Your ${key} here"\n`; break;
             }
@@ -329,6 +387,12 @@ const TemplateGenerator: React.FC<TemplateGeneratorProps> = ({ gitService, repo,
             'boolean': 'bg-green-50 text-green-700 border-green-100',
             'number': 'bg-teal-50 text-teal-700 border-teal-100',
             'object': 'bg-gray-100 text-gray-700 border-gray-200',
+            'datetime': 'bg-orange-50 text-orange-700 border-orange-100',
+            'select': 'bg-indigo-50 text-indigo-700 border-indigo-100',
+            'multiselect': 'bg-purple-50 text-purple-700 border-purple-100',
+            'image': 'bg-rose-50 text-rose-700 border-rose-100',
+            'color': 'bg-pink-50 text-pink-700 border-pink-100',
+            'reference': 'bg-blue-50 text-blue-700 border-blue-100',
             'default': 'bg-gray-50 text-gray-600 border-gray-200'
         };
         const style = typeStyles[type] || typeStyles['default'];
@@ -385,6 +449,47 @@ const TemplateGenerator: React.FC<TemplateGeneratorProps> = ({ gitService, repo,
                                                 ))}
                                             </select>
                                         </div>
+                                        {(type === 'object' || type === 'array') && getSubFields(key) && (
+                                            <p className="mt-1 text-[11px] text-notion-muted font-mono truncate" title={getSubFields(key)!.map(f => `${f.name}: ${f.type}`).join(', ')}>
+                                                {type === 'array' ? '[{ ' : '{ '}
+                                                {getSubFields(key)!.map(f => f.name).join(', ')}
+                                                {type === 'array' ? ' }]' : ' }'}
+                                            </p>
+                                        )}
+                                        {type === 'reference' && (
+                                            <div className="mt-1.5 flex items-center gap-2">
+                                                <select
+                                                    value={fieldReferences[key]?.collection || ''}
+                                                    onChange={(e) => setFieldReferences(prev => ({ ...prev, [key]: { multiple: !!prev[key]?.multiple, collection: e.target.value } }))}
+                                                    aria-label={`${t('templateGenerator.table.referenceCollection')}: ${key}`}
+                                                    className="flex-grow text-xs px-2 py-1 border border-notion-border rounded-sm focus:outline-none focus:ring-1 focus:ring-notion-blue cursor-pointer"
+                                                >
+                                                    <option value="">{t('templateGenerator.table.referenceCollection')}</option>
+                                                    {(workspace?.collections || []).map(c => (
+                                                        <option key={c.id} value={c.id}>{c.name}</option>
+                                                    ))}
+                                                </select>
+                                                <label className="inline-flex items-center gap-1 text-xs text-notion-muted whitespace-nowrap cursor-pointer">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={!!fieldReferences[key]?.multiple}
+                                                        onChange={(e) => setFieldReferences(prev => ({ ...prev, [key]: { collection: prev[key]?.collection || '', multiple: e.target.checked } }))}
+                                                        className="h-3 w-3 rounded-sm border-notion-border text-notion-blue focus:ring-notion-blue"
+                                                    />
+                                                    {t('templateGenerator.table.referenceMultiple')}
+                                                </label>
+                                            </div>
+                                        )}
+                                        {OPTION_TYPES.has(type) && (
+                                            <input
+                                                type="text"
+                                                value={fieldOptions[key] || ''}
+                                                onChange={(e) => setFieldOptions(prev => ({ ...prev, [key]: e.target.value }))}
+                                                placeholder={t('templateGenerator.table.optionsPlaceholder')}
+                                                aria-label={`${t('templateGenerator.table.options')}: ${key}`}
+                                                className="mt-1.5 w-full text-xs px-2 py-1 border border-notion-border rounded-sm focus:outline-none focus:ring-1 focus:ring-notion-blue"
+                                            />
+                                        )}
                                     </td>
                                 </tr>
                             ))}
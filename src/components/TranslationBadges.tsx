@@ -0,0 +1,57 @@
+/**
+ * TranslationBadges Component
+ *
+ * One chip per locale of a multilingual entry: filled when the translation
+ * exists, dashed when it is missing. With `onOpen` / `onCreate` the chips
+ * become buttons (editor header); without them they only show status (list).
+ */
+
+import React from 'react';
+import type { TranslationLink } from '../utils/contentLocales';
+import { useI18n } from '../i18n/I18nContext';
+
+interface TranslationBadgesProps {
+  links: TranslationLink[];
+  /** Locale of the entry being shown */
+  current?: string | null;
+  onOpen?: (link: TranslationLink) => void;
+  onCreate?: (link: TranslationLink) => void;
+}
+
+export const TranslationBadges: React.FC<TranslationBadgesProps> = ({ links, current, onOpen, onCreate }) => {
+  const { t } = useI18n();
+  if (links.length === 0) return null;
+
+  return (
+    <span className="inline-flex items-center gap-1">
+      {links.map((link) => {
+        const isCurrent = link.locale === current;
+        const base = 'px-1.5 py-0.5 rounded-sm text-[10px] font-mono uppercase leading-none border';
+        const style = isCurrent
+          ? 'bg-notion-text text-white border-notion-text'
+          : link.exists
+            ? 'bg-notion-sidebar text-notion-text border-notion-border'
+            : 'text-notion-muted border-dashed border-notion-border';
+        const title = link.exists
+          ? t('translations.exists', { locale: link.locale })
+          : t('translations.missing', { locale: link.locale });
+
+        const action = isCurrent ? undefined : link.exists ? onOpen : onCreate;
+        if (!action) {
+          return <span key={link.locale} className={`${base} ${style}`} title={title}>{link.locale}</span>;
+        }
+        return (
+          <button
+            key={link.locale}
+            type="button"
+            onClick={(e) => { e.stopPropagation(); action(link); }}
+            className={`${base} ${style} hover:border-notion-text transition-colors`}
+            title={link.exists ? t('translations.open', { locale: link.locale }) : t('translations.create', { locale: link.locale })}
+          >
+            {link.exists ? link.locale : `+ ${link.locale}`}
+          </button>
+        );
+      })}
+    </span>
+  );
+};
@@ -0,0 +1,130 @@
+/**
+ * UpcomingPublications Component
+ *
+ * Dashboard panel listing posts of scheduled collections that are waiting
+ * for the publish cron, soonest first, plus the outcome of its last run
+ * (read from `.pageel/publish-log.json`).
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { IGitService } from '../types';
+import { useI18n } from '../i18n/I18nContext';
+import { useCollectionStore } from '../features/collections/store';
+import { loadReferenceEntries } from '../utils/references';
+import { scheduledAt, PUBLISH_LOG_PATH, PublishRun } from '../utils/schedule';
+import { ClockIcon } from './icons/ClockIcon';
+import { SpinnerIcon } from './icons/SpinnerIcon';
+
+interface UpcomingPublicationsProps {
+  gitService: IGitService;
+}
+
+interface UpcomingEntry {
+  path: string;
+  title: string;
+  collection: string;
+  at: Date;
+}
+
+export const UpcomingPublications: React.FC<UpcomingPublicationsProps> = ({ gitService }) => {
+  const { t } = useI18n();
+  const workspace = useCollectionStore((state) => state.workspace);
+  const [entries, setEntries] = useState<UpcomingEntry[] | null>(null);
+  const [lastRun, setLastRun] = useState<PublishRun | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const scheduled = useMemo(
+    () => (workspace?.collections || []).filter((c) => c.schedule && c.kind !== 'data'),
+    [workspace],
+  );
+
+  useEffect(() => {
+    if (scheduled.length === 0) return;
+    let cancelled = false;
+
+    const load = async () => {
+      const now = Date.now();
+      const upcoming: UpcomingEntry[] = [];
+      try {
+        for (const collection of scheduled) {
+          const collectionEntries = await loadReferenceEntries(gitService, collection);
+          collectionEntries.forEach((entry) => {
+            const at = scheduledAt(entry.frontmatter, collection.schedule!);
+            if (at && at.getTime() > now) {
+              upcoming.push({ path: entry.path, title: entry.title, collection: collection.name, at });
+            }
+          });
+        }
+        if (!cancelled) {
+          setEntries(upcoming.sort((a, b) => a.at.getTime() - b.at.getTime()));
+          setError(null);
+        }
+      } catch (e) {
+        if (!cancelled) {
+          setError(t('schedule.error', { message: e instanceof Error ? e.message : String(e) }));
+          setEntries([]);
+        }
+      }
+
+      // The log only exists once the cron has published something
+      try {
+        const runs = JSON.parse(await gitService.getFileContent(PUBLISH_LOG_PATH));
+        if (!cancelled) setLastRun(Array.isArray(runs) && runs.length > 0 ? runs[0] : null);
+      } catch {
+        if (!cancelled) setLastRun(null);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [gitService, scheduled, t]);
+
+  if (scheduled.length === 0) return null;
+
+  if (entries === null) {
+    return (
+      <div className="flex items-center text-xs text-notion-muted mb-4">
+        <SpinnerIcon className="w-3.5 h-3.5 mr-2 animate-spin" />
+        {t('schedule.loading')}
+      </div>
+    );
+  }
+
+  if (entries.length === 0 && !error && !lastRun) return null;
+
+  return (
+    <div className="mb-6 border border-notion-border rounded-md bg-white">
+      <div className="flex items-center px-4 py-2 border-b border-notion-border">
+        <ClockIcon className="w-4 h-4 mr-2 text-notion-muted" />
+        <h3 className="text-sm font-semibold text-notion-text">{t('schedule.upcomingTitle', { count: entries.length })}</h3>
+        {lastRun && (
+          <span className="ml-auto text-[11px] text-notion-muted">
+            {t('schedule.lastRun', { date: new Date(lastRun.ranAt).toLocaleString(), count: lastRun.published.length })}
+          </span>
+        )}
+      </div>
+
+      {error && <p className="px-4 py-2 text-xs text-red-600">{error}</p>}
+
+      {entries.length > 0 && (
+        <ul className="divide-y divide-notion-border">
+          {entries.map((entry) => (
+            <li key={entry.path} className="flex items-center gap-3 px-4 py-2 text-sm">
+              <div className="flex-grow min-w-0">
+                <p className="font-medium text-notion-text truncate">{entry.title}</p>
+                <p className="text-[11px] text-notion-muted font-mono truncate">
+                  {entry.collection} · {entry.path}
+                </p>
+              </div>
+              <span className="px-2 py-0.5 text-[11px] border rounded-sm flex-shrink-0 bg-blue-50 text-blue-700 border-blue-200">
+                {entry.at.toLocaleString()}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+/**
+ * VocabularyInput Component
+ *
+ * Editor widget of a field with a controlled vocabulary (Collection.vocabularies):
+ * terms are picked from the vocabulary, with suggestions while typing. Terms
+ * outside it stay visible, flagged, until they are removed.
+ */
+
+import React, { useState } from 'react';
+import { useI18n } from '../i18n/I18nContext';
+import { termsOf } from '../utils/taxonomy';
+import { CloseIcon } from './icons/CloseIcon';
+
+interface VocabularyInputProps {
+  /** Frontmatter key, used to tie the input to its suggestions */
+  name: string;
+  vocabulary: string[];
+  value: any;
+  onChange: (value: any) => void;
+}
+
+const inputClass = 'flex-grow bg-transparent border-b border-transparent focus:border-notion-blue focus:ring-0 text-sm py-0.5 px-1 hover:bg-notion-hover/50 rounded-sm transition-colors min-w-0';
+
+export const VocabularyInput: React.FC<VocabularyInputProps> = ({ name, vocabulary, value, onChange }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState('');
+
+  // A single term (e.g. `category: news`) is picked from a list
+  if (value !== undefined && value !== null && !Array.isArray(value) && typeof value !== 'object') {
+    const text = String(value);
+    return (
+      <select value={text} onChange={(e) => onChange(e.target.value)} className={`${inputClass} w-full cursor-pointer`}>
+        <option value="">{t('fieldInput.none')}</option>
+        {text && !vocabulary.includes(text) && <option value={text}>{text}</option>}
+        {vocabulary.map((term) => <option key={term} value={term}>{term}</option>)}
+      </select>
+    );
+  }
+
+  const selected = termsOf(value);
+  const remaining = vocabulary.filter((term) => !selected.includes(term));
+  const match = vocabulary.find((term) => term.toLowerCase() === draft.trim().toLowerCase());
+
+  const addTerm = (term: string) => {
+    if (!selected.includes(term)) onChange([...selected, term]);
+    setDraft('');
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 w-full py-0.5 px-1">
+      {selected.map((term) => {
+        const isKnown = vocabulary.includes(term);
+        return (
+          <span
+            key={term}
+            className={`inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded-sm text-[11px] font-medium border ${
+              isKnown ? 'bg-purple-100 text-purple-800 border-purple-300' : 'bg-red-50 text-red-700 border-red-300'
+            }`}
+            title={isKnown ? undefined : t('taxonomy.notInVocabulary')}
+          >
+            {term}
+            <button type="button" onClick={() => onChange(selected.filter((item) => item !== term))} className="hover:text-notion-text">
+              <CloseIcon className="w-3 h-3" />
+            </button>
+          </span>
+        );
+      })}
+      <input
+        type="text"
+        list={`vocabulary-${name}`}
+        value={draft}
+        onChange={(e) => {
+          const exact = vocabulary.find((term) => term === e.target.value);
+          if (exact) addTerm(exact);
+          else setDraft(e.target.value);
+        }}
+        onKeyDown={(e) => {
+          if (e.key !== 'Enter') return;
+          e.preventDefault();
+          if (match) addTerm(match);
+        }}
+        placeholder={t('taxonomy.addTerm')}
+        className={`${inputClass} text-xs ${draft.trim() && !match ? '!border-red-400 text-red-700' : ''}`}
+      />
+      <datalist id={`vocabulary-${name}`}>
+        {remaining.map((term) => <option key={term} value={term} />)}
+      </datalist>
+    </div>
+  );
+};
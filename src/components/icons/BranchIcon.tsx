@@ -0,0 +1,21 @@
+import React from 'react';
+
+export const BranchIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <svg 
+    xmlns="http://www.w3.org/2000/svg" 
+    fill="none" 
+    viewBox="0 0 24 24" 
+    strokeWidth={1.5} 
+    stroke="currentColor" 
+    {...props}
+  >
+    <circle cx="6" cy="5" r="2" />
+    <circle cx="6" cy="19" r="2" />
+    <circle cx="18" cy="7" r="2" />
+    <path 
+      strokeLinecap="round" 
+      strokeLinejoin="round" 
+      d="M6 7v10M18 9c0 4-6 3-11.2 8.2" 
+    />
+  </svg>
+);
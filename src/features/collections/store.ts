@@ -6,7 +6,7 @@
 
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { Collection, Workspace, WorkspaceSettings, createCollection } from './types';
+import { Collection, Singleton, Workspace, WorkspaceSettings, createCollection } from './types';
 import { DEFAULT_SETTINGS } from '../settings/types';
 
 interface CollectionState {
@@ -47,6 +47,15 @@ interface CollectionActions {
   
   /** Batch set collections (overwrites existing) */
   setCollections: (collections: Collection[]) => void;
+  
+  /** Batch set singletons (overwrites existing) */
+  setSingletons: (singletons: Singleton[]) => void;
+  
+  /** Add a singleton, or replace the one with the same ID */
+  saveSingleton: (singleton: Singleton) => void;
+  
+  /** Remove a singleton (the file itself is kept) */
+  removeSingleton: (singletonId: string) => void;
 }
 
 export type CollectionStore = CollectionState & CollectionActions;
@@ -200,6 +209,49 @@ export const useCollectionStore = create<CollectionStore>()(
           };
         });
       },
+
+      setSingletons: (singletons) => {
+        set((state) => {
+          if (!state.workspace) return state;
+          return {
+            workspace: {
+              ...state.workspace,
+              singletons,
+              updatedAt: new Date().toISOString(),
+            },
+          };
+        });
+      },
+
+      saveSingleton: (singleton) => {
+        set((state) => {
+          if (!state.workspace) return state;
+          const existing = state.workspace.singletons || [];
+          const singletons = existing.some(s => s.id === singleton.id)
+            ? existing.map(s => (s.id === singleton.id ? singleton : s))
+            : [...existing, singleton];
+          return {
+            workspace: {
+              ...state.workspace,
+              singletons,
+              updatedAt: new Date().toISOString(),
+            },
+          };
+        });
+      },
+
+      removeSingleton: (singletonId) => {
+        set((state) => {
+          if (!state.workspace) return state;
+          return {
+            workspace: {
+              ...state.workspace,
+              singletons: (state.workspace.singletons || []).filter(s => s.id !== singletonId),
+              updatedAt: new Date().toISOString(),
+            },
+          };
+        });
+      },
     }),
     {
       name: 'pageel-collections',
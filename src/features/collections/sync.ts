@@ -5,7 +5,7 @@
  */
 
 import { IGitService } from '../../types';
-import { Collection, Workspace, WorkspaceSettings, createCollection } from './types';
+import { Collection, CollectionI18n, CollectionKind, CollectionSchedule, Singleton, Workspace, WorkspaceSettings, createCollection } from './types';
 
 /**
  * Structure of .pageelrc.json v2 with collections support
@@ -15,11 +15,26 @@ export interface PageelrcConfig {
   collections: {
     id: string;
     name: string;
+    kind?: CollectionKind;
     postsPath: string;
     imagesPath: string;
+    filenamePattern?: string;
+    urlPrefix?: string;
+    i18n?: CollectionI18n;
     template?: object;
     tableColumns?: string[];
     columnWidths?: Record<string, number>;
+    statusField?: string;
+    schedule?: CollectionSchedule;
+    editorialMode?: boolean;
+    vocabularies?: Record<string, string[]>;
+  }[];
+  singletons?: {
+    id: string;
+    name: string;
+    path: string;
+    imagesPath?: string;
+    template?: object;
   }[];
   activeCollectionId?: string;
   settings: {
@@ -31,6 +46,7 @@ export interface PageelrcConfig {
     imageCompressionEnabled?: boolean;
     maxImageSize?: number;
     imageResizeMaxWidth?: number;
+    branch?: string;
   };
   commitMessages?: {
     newPost?: string;
@@ -45,13 +61,37 @@ export interface PageelrcConfig {
   };
 }
 
+/** `i18n` of a collection entry, dropped unless it names at least one locale */
+const parseI18n = (value: any): CollectionI18n | undefined => {
+  const locales = Array.isArray(value?.locales)
+    ? value.locales.filter((l: unknown): l is string => typeof l === 'string' && l.trim() !== '')
+    : [];
+  if (locales.length === 0) return undefined;
+  return { locales, strategy: value.strategy === 'suffix' ? 'suffix' : 'folder' };
+};
+
+/** `vocabularies` of a collection entry: lists of string terms by field, empty lists dropped */
+const parseVocabularies = (value: any): Record<string, string[]> | undefined => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const entries = Object.entries(value)
+    .map(([field, terms]) => [field, Array.isArray(terms) ? terms.filter((t): t is string => typeof t === 'string' && t.trim() !== '') : []] as const)
+    .filter(([, terms]) => terms.length > 0);
+  return entries.length ? Object.fromEntries(entries) : undefined;
+};
+
+/** `schedule` of a collection entry: any object turns it on, `field` must be a string */
+export const parseSchedule = (value: any): CollectionSchedule | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  return typeof value.field === 'string' && value.field.trim() ? { field: value.field.trim() } : {};
+};
+
 /**
  * Load collections from .pageelrc.json
  */
 export async function loadCollectionsFromPageelrc(
   gitService: IGitService,
   repoId: string
-): Promise<{ collections: Collection[]; activeCollectionId: string | null; settings: Partial<WorkspaceSettings>; plugins?: { editor?: string; toolbar?: string; preview?: string } } | null> {
+): Promise<{ collections: Collection[]; singletons?: Singleton[]; activeCollectionId: string | null; settings: Partial<WorkspaceSettings>; plugins?: { editor?: string; toolbar?: string; preview?: string } } | null> {
   try {
     const content = await gitService.getFileContent('.pageelrc.json');
     const config = JSON.parse(content);
@@ -61,15 +101,33 @@ export async function loadCollectionsFromPageelrc(
       const collections: Collection[] = config.collections.map((c: any) => ({
         id: c.id,
         name: c.name,
+        kind: c.kind === 'data' ? 'data' : undefined,
         postsPath: c.postsPath,
         imagesPath: c.imagesPath,
+        filenamePattern: typeof c.filenamePattern === 'string' && c.filenamePattern ? c.filenamePattern : undefined,
+        urlPrefix: typeof c.urlPrefix === 'string' && c.urlPrefix ? c.urlPrefix : undefined,
+        i18n: parseI18n(c.i18n),
         template: c.template,
         tableColumns: c.tableColumns,
         columnWidths: c.columnWidths,
+        statusField: typeof c.statusField === 'string' && c.statusField ? c.statusField : undefined,
+        schedule: parseSchedule(c.schedule),
+        editorialMode: c.editorialMode === true || undefined,
+        vocabularies: parseVocabularies(c.vocabularies),
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       }));
 
+      const singletons: Singleton[] = (Array.isArray(config.singletons) ? config.singletons : [])
+        .filter((s: any) => s && typeof s.id === 'string' && typeof s.path === 'string')
+        .map((s: any) => ({
+          id: s.id,
+          name: s.name || s.id,
+          path: s.path,
+          imagesPath: s.imagesPath || undefined,
+          template: s.template,
+        }));
+
       const settings: Partial<WorkspaceSettings> = {
         projectType: config.settings?.projectType,
         domainUrl: config.settings?.domainUrl,
@@ -79,6 +137,7 @@ export async function loadCollectionsFromPageelrc(
         imageCompressionEnabled: config.settings?.imageCompressionEnabled,
         maxImageSize: config.settings?.maxImageSize,
         imageResizeMaxWidth: config.settings?.imageResizeMaxWidth,
+        branch: config.settings?.branch,
         newPostCommit: config.commitMessages?.newPost,
         updatePostCommit: config.commitMessages?.updatePost,
         newImageCommit: config.commitMessages?.newImage,
@@ -87,6 +146,7 @@ export async function loadCollectionsFromPageelrc(
 
       return {
         collections,
+        singletons,
         activeCollectionId: config.activeCollectionId || collections[0]?.id || null,
         settings,
         plugins: config.plugins,
@@ -133,69 +193,101 @@ export async function loadCollectionsFromPageelrc(
 }
 
 /**
- * Save collections to .pageelrc.json
+ * Current content and SHA of .pageelrc.json, or null when it doesn't exist yet.
+ * The SHA is read first, so a write based on it can't miss a newer version.
  */
-export async function saveCollectionsToPageelrc(
-  gitService: IGitService,
-  workspace: Workspace
-): Promise<boolean> {
+export async function readPageelrc(gitService: IGitService): Promise<{ content: string; sha: string } | null> {
   try {
-    const config: PageelrcConfig = {
-      version: 2,
-      collections: workspace.collections.map(c => ({
-        id: c.id,
-        name: c.name,
-        postsPath: c.postsPath,
-        imagesPath: c.imagesPath,
-        template: c.template,
-        tableColumns: c.tableColumns,
-        columnWidths: c.columnWidths,
-      })),
-      activeCollectionId: workspace.activeCollectionId || undefined,
-      settings: {
-        projectType: workspace.settings.projectType,
-        domainUrl: workspace.settings.domainUrl || undefined,
-        postFileTypes: workspace.settings.postFileTypes,
-        imageFileTypes: workspace.settings.imageFileTypes,
-        publishDateSource: workspace.settings.publishDateSource,
-        imageCompressionEnabled: workspace.settings.imageCompressionEnabled,
-        maxImageSize: workspace.settings.maxImageSize,
-        imageResizeMaxWidth: workspace.settings.imageResizeMaxWidth,
-      },
-      commitMessages: {
-        newPost: workspace.settings.newPostCommit,
-        updatePost: workspace.settings.updatePostCommit,
-        newImage: workspace.settings.newImageCommit,
-        updateImage: workspace.settings.updateImageCommit,
-      },
-    };
-
-    // Check if file exists and preserve plugins field if it exists
-    let sha: string | null = null;
-    let existingPlugins: any = undefined;
+    const sha = await gitService.getFileSha('.pageelrc.json');
+    if (!sha) return null;
+    return { content: await gitService.getFileContent('.pageelrc.json'), sha };
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Build the content of .pageelrc.json for a workspace. The `plugins` field of
+ * the existing file is preserved, so callers can commit it alongside other changes.
+ */
+export function buildPageelrcContent(workspace: Workspace, existingContent?: string | null): string {
+  const config: PageelrcConfig = {
+    version: 2,
+    collections: workspace.collections.map(c => ({
+      id: c.id,
+      name: c.name,
+      kind: c.kind === 'data' ? 'data' : undefined,
+      postsPath: c.postsPath,
+      imagesPath: c.imagesPath,
+      filenamePattern: c.filenamePattern || undefined,
+      urlPrefix: c.urlPrefix || undefined,
+      i18n: c.i18n?.locales.length ? c.i18n : undefined,
+      template: c.template,
+      tableColumns: c.tableColumns,
+      columnWidths: c.columnWidths,
+      statusField: c.statusField || undefined,
+      schedule: c.schedule,
+      editorialMode: c.editorialMode || undefined,
+      vocabularies: c.vocabularies && Object.keys(c.vocabularies).length ? c.vocabularies : undefined,
+    })),
+    singletons: workspace.singletons?.length
+      ? workspace.singletons.map(s => ({
+          id: s.id,
+          name: s.name,
+          path: s.path,
+          imagesPath: s.imagesPath || undefined,
+          template: s.template,
+        }))
+      : undefined,
+    activeCollectionId: workspace.activeCollectionId || undefined,
+    settings: {
+      projectType: workspace.settings.projectType,
+      domainUrl: workspace.settings.domainUrl || undefined,
+      postFileTypes: workspace.settings.postFileTypes,
+      imageFileTypes: workspace.settings.imageFileTypes,
+      publishDateSource: workspace.settings.publishDateSource,
+      imageCompressionEnabled: workspace.settings.imageCompressionEnabled,
+      maxImageSize: workspace.settings.maxImageSize,
+      imageResizeMaxWidth: workspace.settings.imageResizeMaxWidth,
+      branch: workspace.settings.branch || undefined,
+    },
+    commitMessages: {
+      newPost: workspace.settings.newPostCommit,
+      updatePost: workspace.settings.updatePostCommit,
+      newImage: workspace.settings.newImageCommit,
+      updateImage: workspace.settings.updateImageCommit,
+    },
+  };
+
+  // Preserve the plugins field of the existing file
+  if (existingContent) {
     try {
-      sha = await gitService.getFileSha('.pageelrc.json');
-      if (sha) {
-        const oldContent = await gitService.getFileContent('.pageelrc.json');
-        if (oldContent) {
-          const oldConfig = JSON.parse(oldContent);
-          if (oldConfig && oldConfig.plugins) {
-            existingPlugins = oldConfig.plugins;
-          }
-        }
+      const oldConfig = JSON.parse(existingContent);
+      if (oldConfig && oldConfig.plugins) {
+        config.plugins = oldConfig.plugins;
       }
     } catch (e) {
-      // File doesn't exist or fail to read/parse, ignore
+      // Unparseable file, ignore
     }
+  }
 
-    if (existingPlugins) {
-      config.plugins = existingPlugins;
-    }
+  return JSON.stringify(config, null, 2);
+}
 
-    const content = JSON.stringify(config, null, 2);
+/**
+ * Save collections to .pageelrc.json
+ */
+export async function saveCollectionsToPageelrc(
+  gitService: IGitService,
+  workspace: Workspace
+): Promise<boolean> {
+  try {
+    const existing = await readPageelrc(gitService);
+    const content = buildPageelrcContent(workspace, existing?.content);
 
-    if (sha) {
-      await gitService.updateFileContent('.pageelrc.json', content, 'chore: update pageel config', sha);
+    // SHA-checked write: a concurrent save fails instead of being overwritten
+    if (existing) {
+      await gitService.updateFileContent('.pageelrc.json', content, 'chore: update pageel config', existing.sha);
     } else {
       await gitService.createFileFromString('.pageelrc.json', content, 'chore: create pageel config');
     }
@@ -21,12 +21,35 @@ export interface Collection {
   /** Optional icon identifier */
   icon?: string;
   
+  /**
+   * What the collection holds. `data`: JSON/YAML/TOML entries instead of
+   * markdown — one entry per file in `postsPath`, or, when `postsPath` is a
+   * data file itself, one entry per item of that file. Defaults to `posts`.
+   */
+  kind?: CollectionKind;
+  
   /** Path to posts/content directory */
   postsPath: string;
   
   /** Path to images/assets directory */
   imagesPath: string;
   
+  /**
+   * Path of new entries inside `postsPath`, e.g. `{year}/{month}/{slug}.mdx`
+   * or `{slug}/index.md` (see `utils/filenamePattern`). Defaults to `{slug}`.
+   */
+  filenamePattern?: string;
+  
+  /**
+   * Site URL of the collection's entries, before the slug (e.g. `/blog`).
+   * Defaults to `/` + the last folder of `postsPath`. Used to find internal
+   * links when a post is renamed or moved.
+   */
+  urlPrefix?: string;
+  
+  /** Locales of a multilingual collection and how its files are split by locale */
+  i18n?: CollectionI18n;
+  
   /** Frontmatter template for this collection */
   template?: CollectionTemplate;
   
@@ -36,6 +59,21 @@ export interface Collection {
   /** Column widths (percentage) */
   columnWidths?: Record<string, number>;
   
+  /** Scheduled publishing: due posts are published by `/api/cron/publish` */
+  schedule?: CollectionSchedule;
+  
+  /** `select` field whose options are the columns of the status board (default: `status`) */
+  statusField?: string;
+  
+  /** Editorial mode: saves go to a `cms/<collection>/<slug>` branch + pull request */
+  editorialMode?: boolean;
+  
+  /**
+   * Controlled vocabularies: allowed terms of a taxonomy field (e.g. `tags`).
+   * The editor suggests them and rejects other values.
+   */
+  vocabularies?: Record<string, string[]>;
+  
   /** ISO timestamp */
   createdAt: string;
   
@@ -43,6 +81,30 @@ export interface Collection {
   updatedAt: string;
 }
 
+export type CollectionKind = 'posts' | 'data';
+
+/**
+ * A Singleton is one file holding one record of site-wide content (hero
+ * text, social links, footer). It opens straight into a form: no list, no
+ * create or delete. Markdown files are edited as frontmatter + body.
+ */
+export interface Singleton {
+  /** Unique identifier (e.g., 'site', 'home') */
+  id: string;
+  
+  /** Display name for UI */
+  name: string;
+  
+  /** Path of the file (.md, .mdx, .json, .yaml, .yml or .toml) */
+  path: string;
+  
+  /** Where images picked in the form are uploaded */
+  imagesPath?: string;
+  
+  /** Field definitions; keys of the file not listed here are inferred */
+  template?: CollectionTemplate;
+}
+
 /**
  * Template definition for a collection's frontmatter
  */
@@ -51,23 +113,124 @@ export interface CollectionTemplate {
   fields: TemplateField[];
 }
 
+/**
+ * Frontmatter field types. Each one has an editor widget (PostDetailView),
+ * a filter control (FilterBar) and a column renderer (PostList).
+ */
+export const TEMPLATE_FIELD_TYPES = [
+  'string',
+  'text',
+  'markdown',
+  'slug',
+  'url',
+  'email',
+  'color',
+  'number',
+  'boolean',
+  'date',
+  'datetime',
+  'select',
+  'multiselect',
+  'image',
+  'array',
+  'object',
+  'reference',
+] as const;
+
+export type TemplateFieldType = typeof TEMPLATE_FIELD_TYPES[number];
+
 export interface TemplateField {
   /** Field name (key in frontmatter) */
   name: string;
   
   /** Field type */
-  type: 'string' | 'date' | 'array' | 'boolean' | 'number' | 'object';
+  type: TemplateFieldType;
+  
+  /** Choices for `select` and `multiselect` fields */
+  options?: string[];
+  
+  /** Target collection id of a `reference` field (Astro `reference()`) */
+  collection?: string;
+  
+  /** A `reference` field holds a list of entry slugs instead of one */
+  multiple?: boolean;
+  
+  /**
+   * Sub-schema: the keys of an `object` field, or of each item of an `array`
+   * field (a repeatable group such as `authors: [{ name, url }]`)
+   */
+  fields?: TemplateField[];
   
   /** Is this field required? */
   required?: boolean;
   
-  /** Default value */
+  /** Constraints checked before a post is saved or uploaded */
+  validation?: FieldValidation;
+  
+  /**
+   * Default value. Strings may use expressions resolved when a post is
+   * created: `{{today}}`, `{{now}}`, `{{user}}`, `{{collection}}`, `{{uuid}}`,
+   * `{{fields.title}}`, `{{slugify(title)}}` (see utils/dynamicDefaults)
+   */
   defaultValue?: unknown;
   
   /** Description for UI */
   description?: string;
 }
 
+/**
+ * How a post is marked as scheduled. Without `field`, a post with
+ * `draft: true` and a `publishDate` (or `pubDate` / `date`) is published once
+ * that date passes. With `field` (e.g. `publishAt`), that field alone holds
+ * the time and is removed on publishing.
+ */
+export interface CollectionSchedule {
+  field?: string;
+}
+
+/**
+ * Translations of one entry share a path apart from the locale part:
+ * - `folder`: `en/hello.md`, `vi/hello.md`
+ * - `suffix`: `hello.md` (first locale), `hello.vi.md`
+ */
+export interface CollectionI18n {
+  /** Locale codes; the first one is the default */
+  locales: string[];
+  strategy: 'folder' | 'suffix';
+}
+
+/**
+ * Declarative rules for a template field (stored in `.pageelrc.json`).
+ * Rules that don't apply to a value's type are ignored.
+ */
+export interface FieldValidation {
+  /** String length */
+  minLength?: number;
+  maxLength?: number;
+  
+  /** Regular expression (JavaScript syntax, no delimiters) a string must match */
+  pattern?: string;
+  
+  /** Shown instead of the generic message when `pattern` fails */
+  patternMessage?: string;
+  
+  /** Numeric range */
+  min?: number;
+  max?: number;
+  
+  /** Date range, ISO dates (YYYY-MM-DD) */
+  minDate?: string;
+  maxDate?: string;
+  
+  /** The value, or every item of a list, must be one of these */
+  allowedValues?: string[];
+  
+  /** List size and duplicate check */
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+}
+
 /**
  * Workspace-level settings shared across all collections
  */
@@ -97,6 +260,9 @@ export interface WorkspaceSettings {
   updatePostCommit: string;
   newImageCommit: string;
   updateImageCommit: string;
+
+  /** Content branch the workspace targets (empty = repository default) */
+  branch?: string;
 }
 
 /**
@@ -112,6 +278,9 @@ export interface Workspace {
   /** Currently active collection ID */
   activeCollectionId: string | null;
   
+  /** Single-file documents edited outside of any collection */
+  singletons?: Singleton[];
+  
   /** Shared workspace settings */
   settings: WorkspaceSettings;
   
@@ -8,7 +8,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { ViewType } from '../types';
 
-const VALID_VIEWS: ViewType[] = ['dashboard', 'workflows', 'images', 'template', 'backup', 'settings'];
+const VALID_VIEWS: ViewType[] = ['dashboard', 'workflows', 'images', 'template', 'taxonomy', 'backup', 'settings'];
 
 function getInitialView(): ViewType {
   if (typeof window !== 'undefined') {
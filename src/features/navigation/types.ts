@@ -2,7 +2,7 @@
  * Navigation Feature Types
  */
 
-export type ViewType = 'dashboard' | 'workflows' | 'images' | 'template' | 'backup' | 'settings' | 'plugins';
+export type ViewType = 'dashboard' | 'workflows' | 'images' | 'template' | 'taxonomy' | 'backup' | 'settings' | 'plugins' | 'singleton';
 
 export interface NavigationState {
   currentView: ViewType;
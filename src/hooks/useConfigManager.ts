@@ -140,6 +140,7 @@ export function useConfigManager({
           template: c.template,
           tableColumns: c.tableColumns,
           columnWidths: c.columnWidths,
+          editorialMode: c.editorialMode || undefined,
         })),
         activeCollectionId: workspace.activeCollectionId,
       };
@@ -7,6 +7,7 @@
  * - loadSettingsAndScan (config loading + repo scanning)
  * - Sync polling (repo push detection)
  * - Repo stats fetching
+ * - Following the workspace content branch from .pageelrc.json
  */
 
 import { useState, useEffect, useCallback } from 'react';
@@ -164,6 +165,24 @@ export function useDashboardInit({ gitService, repo }: UseDashboardInitParams):
 
   // Load settings and scan — runs once on mount
   useEffect(() => {
+    // Switch the session to the workspace branch unless the user or env already chose one.
+    // Returns true when a reload is underway.
+    const followWorkspaceBranch = async (branch: string): Promise<boolean> => {
+      try {
+        const info = await gitService.getBranchInfo();
+        if (info.source !== 'default' || info.branch === branch || !info.branches.includes(branch)) {
+          return false;
+        }
+        setScanPhase(`Switching to branch ${branch}...`, 50);
+        await gitService.switchBranch(branch);
+        window.location.reload();
+        return true;
+      } catch (e) {
+        console.warn('Could not switch to workspace branch', e);
+        return false;
+      }
+    };
+
     const loadSettingsAndScan = async () => {
       // TD-08: Initialize workspace and load from .pageelrc.json (Single Source of Truth)
       initWorkspace(repo.full_name);
@@ -177,9 +196,14 @@ export function useDashboardInit({ gitService, repo }: UseDashboardInitParams):
         repo.full_name,
       );
 
+      if (collectionsData?.settings?.branch && await followWorkspaceBranch(collectionsData.settings.branch)) {
+        return;
+      }
+
       if (collectionsData && collectionsData.collections.length > 0) {
         const store = useCollectionStore.getState();
         store.setCollections(collectionsData.collections);
+        store.setSingletons(collectionsData.singletons || []);
         if (collectionsData.settings) {
           updateWorkspaceSettings(collectionsData.settings);
         }
@@ -0,0 +1,154 @@
+/**
+ * useLocalDraft Hook
+ *
+ * Autosaves unsaved editor content to the local draft store every few
+ * seconds (and right away when the session expires), and finds the draft a
+ * previous session left behind so the editor can offer to restore it.
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { IGitService, GithubRepo } from '../types';
+import {
+  LocalDraft,
+  getLocalDraftStore,
+  localDraftKey,
+  newDraftPath,
+  pendingLocalDraft,
+} from '../utils/localDrafts';
+
+export const AUTOSAVE_INTERVAL_MS = 3000;
+
+// One branch lookup per Git service; drafts are scoped to the session branch
+const branchRequests = new WeakMap<IGitService, Promise<string>>();
+
+export function useDraftBranch(gitService: IGitService, repo: GithubRepo): string | null {
+  const [branch, setBranch] = useState<string | null>(null);
+
+  useEffect(() => {
+    let request = branchRequests.get(gitService);
+    if (!request) {
+      request = Promise.resolve()
+        .then(() => gitService.getBranchInfo())
+        .then((info) => info.branch)
+        .catch(() => repo.default_branch || 'main');
+      branchRequests.set(gitService, request);
+    }
+    let isMounted = true;
+    request.then((name) => { if (isMounted) setBranch(name); });
+    return () => {
+      isMounted = false;
+    };
+  }, [gitService, repo.default_branch]);
+
+  return branch;
+}
+
+interface UseLocalDraftOptions {
+  /** File path, '' for a post that has no file yet */
+  path: string;
+  collectionId?: string;
+  /** Content the editor opened with; a draft equal to it is not offered */
+  openedContent: string;
+  baseSha: string;
+  /** Current unsaved content, or null when there is nothing to keep */
+  getContent: () => { content: string; title: string; fileName?: string } | null;
+}
+
+interface UseLocalDraftReturn {
+  /** Draft from an earlier session, until it is restored or discarded */
+  pendingDraft: LocalDraft | null;
+  /** Hands the pending draft over to the editor; it is kept until the next save */
+  restorePendingDraft: () => LocalDraft | null;
+  discardPendingDraft: () => void;
+  /** Drops everything autosaved by this editor, call after a successful save */
+  clearLocalDraft: () => void;
+}
+
+export function useLocalDraft(
+  gitService: IGitService,
+  repo: GithubRepo,
+  { path, collectionId, openedContent, baseSha, getContent }: UseLocalDraftOptions
+): UseLocalDraftReturn {
+  const branch = useDraftBranch(gitService, repo);
+  const draftPath = path || newDraftPath(collectionId);
+  const key = branch ? localDraftKey(repo.full_name, branch, draftPath) : null;
+
+  const [pendingDraft, setPendingDraft] = useState<LocalDraft | null>(null);
+  // Keys written by this editor (a new post changes key once it is created)
+  const writtenKeysRef = useRef<Set<string>>(new Set());
+  const lastSavedRef = useRef<string | null>(null);
+  const getContentRef = useRef(getContent);
+  getContentRef.current = getContent;
+  const openedContentRef = useRef(openedContent);
+  const checkedRef = useRef(false);
+
+  // Only the key the editor opened with can hold an earlier session's draft
+  useEffect(() => {
+    if (!key || checkedRef.current) return;
+    checkedRef.current = true;
+    let isMounted = true;
+    pendingLocalDraft(getLocalDraftStore(), key, openedContentRef.current)
+      .then((draft) => { if (isMounted) setPendingDraft(draft); })
+      .catch((e) => console.warn('[local-drafts] Failed to read local draft', e));
+    return () => {
+      isMounted = false;
+    };
+  }, [key]);
+
+  const flush = useCallback(() => {
+    if (!key || !branch) return;
+    const current = getContentRef.current();
+    if (!current || current.content === lastSavedRef.current) return;
+    lastSavedRef.current = current.content;
+    writtenKeysRef.current.add(key);
+    getLocalDraftStore()
+      .put({
+        repo: repo.full_name,
+        branch,
+        path: draftPath,
+        collectionId,
+        title: current.title,
+        content: current.content,
+        fileName: current.fileName,
+        baseSha,
+        updatedAt: Date.now(),
+      })
+      .catch((e) => console.warn('[local-drafts] Autosave failed', e));
+  }, [key, branch, repo.full_name, draftPath, collectionId, baseSha]);
+
+  useEffect(() => {
+    const timer = setInterval(flush, AUTOSAVE_INTERVAL_MS);
+    // The session is about to end (401 from the proxy, tab closing): save now
+    window.addEventListener('auth-error', flush);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('auth-error', flush);
+      window.removeEventListener('pagehide', flush);
+    };
+  }, [flush]);
+
+  const restorePendingDraft = useCallback(() => {
+    if (!pendingDraft || !key) return null;
+    writtenKeysRef.current.add(key);
+    setPendingDraft(null);
+    return pendingDraft;
+  }, [pendingDraft, key]);
+
+  const discardPendingDraft = useCallback(() => {
+    if (!key) return;
+    setPendingDraft(null);
+    getLocalDraftStore().delete(key).catch((e) => console.warn('[local-drafts] Failed to discard local draft', e));
+  }, [key]);
+
+  const clearLocalDraft = useCallback(() => {
+    const store = getLocalDraftStore();
+    writtenKeysRef.current.forEach((written) => {
+      store.delete(written).catch((e) => console.warn('[local-drafts] Failed to clear local draft', e));
+    });
+    writtenKeysRef.current.clear();
+    lastSavedRef.current = null;
+  }, []);
+
+  return { pendingDraft, restorePendingDraft, discardPendingDraft, clearLocalDraft };
+}
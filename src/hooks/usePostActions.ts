@@ -6,12 +6,18 @@
  * - Upload new post file
  * - Update post file content
  * - Update post image (via frontmatter)
- * - Delete post
+ * - Delete post (or one entry of a multi-entry data file)
+ * - Rename/move post (RenamePostModal commits; the hook refreshes after it)
+ *
+ * Content updates go through saveWithMerge: a stale SHA is merged three-way,
+ * and unresolvable conflicts are exposed as `mergeConflict` for the resolver.
  */
 
 import React, { useState, useRef } from 'react';
 import { IGitService } from '../types';
 import { updateFrontmatter } from '../utils/parsing';
+import { saveWithMerge, PostMerge } from '../utils/merge';
+import { getDataFormat, removeDataEntry } from '../utils/dataFiles';
 
 export interface PostData {
   frontmatter: Record<string, any>;
@@ -22,6 +28,8 @@ export interface PostData {
   path: string;
   html_url: string;
   thumbnailUrl: string | null;
+  /** Data collections: id of the entry inside a multi-entry file at `path` */
+  entryId?: string;
 }
 
 interface UsePostActionsParams {
@@ -35,6 +43,13 @@ interface UsePostActionsParams {
   setSelectedPost: (post: PostData | null) => void;
 }
 
+export interface PendingMergeConflict {
+  post: PostData;
+  merge: PostMerge;
+  theirsSha: string;
+  commitMessage: string;
+}
+
 interface UsePostActionsReturn {
   // Upload
   uploadPostInputRef: React.RefObject<HTMLInputElement>;
@@ -63,6 +78,17 @@ interface UsePostActionsReturn {
   setPostToDelete: (post: PostData | null) => void;
   confirmDelete: () => Promise<void>;
   isDeleting: boolean;
+
+  // Rename / move
+  postToRename: PostData | null;
+  setPostToRename: (post: PostData | null) => void;
+  handleRenamed: () => void;
+
+  // Stale SHA that could not be merged automatically
+  mergeConflict: PendingMergeConflict | null;
+  resolveMergeConflict: (content: string) => Promise<void>;
+  cancelMergeConflict: () => void;
+  isResolvingMerge: boolean;
 }
 
 export function usePostActions({
@@ -93,6 +119,29 @@ export function usePostActions({
   const [postToDelete, setPostToDelete] = useState<PostData | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
 
+  // Rename state
+  const [postToRename, setPostToRename] = useState<PostData | null>(null);
+
+  // Merge conflict state
+  const [mergeConflict, setMergeConflict] = useState<PendingMergeConflict | null>(null);
+  const [isResolvingMerge, setIsResolvingMerge] = useState(false);
+
+  /** Returns false when the user has to resolve a conflict first */
+  const savePostContent = async (post: PostData, content: string, commitMessage: string): Promise<boolean> => {
+    const result = await saveWithMerge(gitService, {
+      path: post.path,
+      base: post.rawContent,
+      ours: content,
+      sha: post.sha,
+      commitMessage,
+    });
+    if (result.status === 'conflict') {
+      setMergeConflict({ post, merge: result.merge, theirsSha: result.theirsSha, commitMessage });
+      return false;
+    }
+    return true;
+  };
+
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       setUploadFile(e.target.files[0]);
@@ -141,10 +190,11 @@ export function usePostActions({
         const content = ev.target?.result as string;
         const commitMsg = updatePostCommitTemplate.replace('{filename}', postToUpdateFile.name) || `fix(content): update post "${postToUpdateFile.name}"`;
 
-        await gitService.updateFileContent(postToUpdateFile.path, content, commitMsg, postToUpdateFile.sha);
+        const saved = await savePostContent(postToUpdateFile, content, commitMsg);
+        setPostToUpdateFile(null);
+        if (!saved) return;
         onAction();
         fetchPosts();
-        setPostToUpdateFile(null);
       };
       reader.readAsText(file);
     } catch (err) {
@@ -191,9 +241,10 @@ export function usePostActions({
         const newContent = updateFrontmatter(postToUpdateImage.rawContent, { [targetField]: finalUrl });
         const commitMsg = `fix(content): update image for "${postToUpdateImage.name}"`;
 
-        await gitService.updateFileContent(postToUpdateImage.path, newContent, commitMsg, postToUpdateImage.sha);
-        onAction();
-        fetchPosts();
+        if (await savePostContent(postToUpdateImage, newContent, commitMsg)) {
+          onAction();
+          fetchPosts();
+        }
       }
     } catch (e) {
       alert("Failed to update image");
@@ -209,11 +260,23 @@ export function usePostActions({
     if (!postToDelete) return;
     setIsDeleting(true);
     try {
-      const commitMsg = `chore(content): delete post "${postToDelete.name}"`;
-      await gitService.deleteFile(postToDelete.path, postToDelete.sha, commitMsg);
+      const entryFormat = postToDelete.entryId !== undefined ? getDataFormat(postToDelete.path) : null;
+      if (entryFormat) {
+        // One item of a multi-entry data file: rewrite the file without it.
+        // Read it fresh, sibling entries may have been saved since listing.
+        const [content, sha] = await Promise.all([
+          gitService.getFileContent(postToDelete.path),
+          gitService.getFileSha(postToDelete.path),
+        ]);
+        const commitMsg = `chore(content): delete entry "${postToDelete.entryId}" from "${postToDelete.path.split('/').pop()}"`;
+        await gitService.updateFileContent(postToDelete.path, removeDataEntry(content, entryFormat, postToDelete.entryId!), commitMsg, sha || postToDelete.sha);
+      } else {
+        const commitMsg = `chore(content): delete post "${postToDelete.name}"`;
+        await gitService.deleteFile(postToDelete.path, postToDelete.sha, commitMsg);
+      }
       onAction();
       fetchPosts();
-      if (selectedPost?.path === postToDelete.path) setSelectedPost(null);
+      if (selectedPost?.path === postToDelete.path && selectedPost.entryId === postToDelete.entryId) setSelectedPost(null);
     } catch (e) {
       alert("Delete failed");
     } finally {
@@ -222,6 +285,30 @@ export function usePostActions({
     }
   };
 
+  const handleRenamed = () => {
+    if (selectedPost?.path === postToRename?.path) setSelectedPost(null);
+    setPostToRename(null);
+    onAction();
+    fetchPosts();
+  };
+
+  const resolveMergeConflict = async (content: string) => {
+    if (!mergeConflict) return;
+    setIsResolvingMerge(true);
+    try {
+      await gitService.updateFileContent(mergeConflict.post.path, content, mergeConflict.commitMessage, mergeConflict.theirsSha);
+      setMergeConflict(null);
+      onAction();
+      fetchPosts();
+    } catch (e) {
+      alert(`Failed to save: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setIsResolvingMerge(false);
+    }
+  };
+
+  const cancelMergeConflict = () => setMergeConflict(null);
+
   return {
     uploadPostInputRef,
     handleFileUpload,
@@ -243,5 +330,12 @@ export function usePostActions({
     setPostToDelete,
     confirmDelete,
     isDeleting,
+    postToRename,
+    setPostToRename,
+    handleRenamed,
+    mergeConflict,
+    resolveMergeConflict,
+    cancelMergeConflict,
+    isResolvingMerge,
   };
 }
@@ -0,0 +1,61 @@
+/**
+ * useReferenceEntries Hook
+ *
+ * Loads the entries of every collection the template's `reference` fields
+ * point at, keyed by collection id. Used by the reference picker in
+ * PostDetailView and the reference column in PostList.
+ */
+
+import { useState, useEffect } from 'react';
+import { IGitService } from '../types';
+import { useCollectionStore } from '../features/collections/store';
+import type { CollectionTemplate } from '../features/collections/types';
+import { getReferencedCollectionIds, loadReferenceEntries, ReferenceEntry } from '../utils/references';
+
+interface UseReferenceEntriesReturn {
+  entriesByCollection: Record<string, ReferenceEntry[]>;
+  isLoading: boolean;
+}
+
+export function useReferenceEntries(
+  gitService: IGitService,
+  template: CollectionTemplate | null | undefined
+): UseReferenceEntriesReturn {
+  const collections = useCollectionStore((state) => state.workspace?.collections);
+  const [entriesByCollection, setEntriesByCollection] = useState<Record<string, ReferenceEntry[]>>({});
+  const [isLoading, setIsLoading] = useState(false);
+
+  const targetIds = getReferencedCollectionIds(template);
+  const targetKey = targetIds.join('|');
+
+  useEffect(() => {
+    const targets = (collections || []).filter((collection) => targetIds.includes(collection.id));
+    if (targets.length === 0) {
+      setEntriesByCollection({});
+      return;
+    }
+
+    let isMounted = true;
+    setIsLoading(true);
+    Promise.all(
+      targets.map(async (collection) => {
+        try {
+          return [collection.id, await loadReferenceEntries(gitService, collection)] as const;
+        } catch (e) {
+          console.error(`[references] Failed to load entries of "${collection.id}"`, e);
+          return [collection.id, []] as const;
+        }
+      })
+    ).then((pairs) => {
+      if (!isMounted) return;
+      setEntriesByCollection(Object.fromEntries(pairs));
+      setIsLoading(false);
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [gitService, targetKey, collections]);
+
+  return { entriesByCollection, isLoading };
+}
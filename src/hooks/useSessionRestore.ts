@@ -100,12 +100,15 @@ export function useSessionRestore() {
       const repoData = await proxyAdapter.getRepoDetails();
 
       const owner = repoData?.owner?.login || 'user';
-      const service: ServiceType = 'github';
+      const service: ServiceType = repoData?.service || 'github';
 
       const userData = {
         login: owner,
-        avatar_url: `https://github.com/${owner}.png`,
-        html_url: `https://github.com/${owner}`,
+        avatar_url: repoData?.owner?.avatar_url || `https://github.com/${owner}.png`,
+        // Owner page = repo URL minus the repo name (covers GitLab subgroups)
+        html_url: service === 'github' || !repoData?.html_url
+          ? `https://github.com/${owner}`
+          : repoData.html_url.replace(/\/[^/]+\/?$/, ''),
         name: owner,
       };
 
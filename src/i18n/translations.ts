@@ -67,6 +67,15 @@ export const translations = {
       tokenDisclaimer: 'Your token is encrypted and stored only for this browser session.',
     },
     dashboard: {
+      branch: {
+        label: 'Branch',
+        loading: 'Loading branches...',
+        default: 'default',
+        switching: 'Switching to {{branch}}...',
+        switchFailed: 'Failed to switch branch: {{message}}',
+        resetToConfigured: 'Reset to configured branch',
+        configured: 'configured branch',
+      },
       header: {
         title: 'Manage Posts',
         subtitle: "An overview of your repository's content.",
@@ -91,6 +100,7 @@ export const translations = {
         workflows: 'Workflows',
         manageImages: 'Manage Images',
         template: 'Post Template',
+        taxonomy: 'Taxonomy',
         backup: 'Backup',
         settings: 'Settings',
         menuTitle: 'Menu',
@@ -149,6 +159,10 @@ export const translations = {
           label: 'Project Type',
           help: 'Select "Web Project" for live sites (Astro/Next.js) or "File Library" for basic file management.',
         },
+        branch: {
+          label: 'Content Branch',
+          help: 'Branch this workspace reads and writes. Leave empty to use the repository default branch.',
+        },
         domain: {
           label: 'Production Domain',
           help: 'Required for "Web Project" to preview root-relative images (e.g., /images/pic.jpg).',
@@ -211,7 +225,20 @@ export const translations = {
       wizard: {
         title: 'Post Creation Wizard',
         desc: 'A guided, step-by-step process to upload images, validate content structure, and publish new posts safely.',
-      }
+      },
+      board: {
+        title: 'Status Board',
+        desc: 'Move posts through draft, review and publishing by dragging cards between status columns.',
+        noStatusField: 'This collection has no status field. Add a select field (e.g. status: draft, review, published) to its template, or choose one in the collection settings.',
+        dataCollection: 'The status board is not available for data collections: their entries have no frontmatter to hold a status.',
+        noStatus: 'No status',
+        empty: 'No posts',
+        untitled: 'Untitled',
+        moving: 'Saving…',
+        moveError: 'Could not move "{{name}}": {{message}}',
+        editorialReadOnly: 'Editorial mode is on for this collection: change the status from the editor so it goes through a pull request.',
+        reload: 'Reload',
+      },
     },
     postWorkflow: {
       title: 'Create New Post',
@@ -287,6 +314,7 @@ export const translations = {
         emptyTitle: 'Please enter a title to save the post.',
         duplicateFile: 'The post title already exists. Please change the title.',
         invalidSlug: 'Invalid title format. Please use letters, numbers, and spaces only.',
+        invalidFilenamePattern: 'Could not build the file name from the collection pattern: {{message}}',
       },
       noPosts: 'No posts found in the selected directory.',
       searchPlaceholder: 'Search by title, author, category, tag...',
@@ -327,6 +355,7 @@ export const translations = {
         valid: "Matches active template.",
         validBasic: "Valid frontmatter syntax.",
         missingFields: "Missing fields required by template: {{fields}}",
+        rulesFailed: "Does not meet the template's validation rules:",
         parseError: "Could not parse frontmatter.",
       },
       images: {
@@ -485,6 +514,10 @@ export const translations = {
       table: {
         field: 'Field Name',
         type: 'Expected Type',
+        options: 'Options',
+        optionsPlaceholder: 'Comma-separated choices',
+        referenceCollection: 'Target collection',
+        referenceMultiple: 'Multiple',
       },
       columns: {
         title: 'Default Table Columns',
@@ -545,6 +578,291 @@ export const translations = {
     languageSwitcher: {
       modalTitle: 'Select Language',
     },
+    validation: {
+      required: '{{field}} is required.',
+      minLength: '{{field}} must be at least {{min}} characters.',
+      maxLength: '{{field}} must be at most {{max}} characters.',
+      pattern: '{{field}} does not match the required format.',
+      min: '{{field}} must be at least {{min}}.',
+      max: '{{field}} must be at most {{max}}.',
+      minDate: '{{field}} must be on or after {{min}}.',
+      maxDate: '{{field}} must be on or before {{max}}.',
+      allowedValues: '{{field}} must be one of: {{values}} (got {{invalid}}).',
+      vocabulary: '{{field}} has terms outside its vocabulary: {{invalid}}.',
+      minItems: '{{field}} needs at least {{min}} items.',
+      maxItems: '{{field}} allows at most {{max}} items.',
+      uniqueItems: '{{field}} contains duplicate items.',
+      saveBlocked: 'Fix the highlighted fields before saving.',
+    },
+    fieldInput: {
+      chooseImage: 'Choose',
+      generateSlug: 'From title',
+      none: 'None',
+      preview: 'Preview',
+      edit: 'Edit',
+      invalidUrl: 'Not a valid URL',
+      invalidEmail: 'Not a valid email address',
+      addItem: 'Add item',
+      removeItem: 'Remove item',
+      item: 'Item {{index}}',
+      items: '{{count}} items',
+      dragToReorder: 'Drag to reorder',
+    },
+    referenceInput: {
+      search: 'Search entries…',
+      loading: 'Loading entries…',
+      noResults: 'No matching entries',
+      noCollection: 'No target collection set for this field',
+      missing: 'No entry "{{slug}}" — it may have been deleted or renamed',
+      remove: 'Remove',
+      deleteWarning: 'Referenced by {{count}} entries. Their references will break:',
+    },
+    dataEntry: {
+      back: 'Back to entries',
+      newTitle: 'New entry',
+      save: 'Save',
+      saving: 'Saving…',
+      noFields: 'This entry has no fields. Add some to the collection template.',
+      idLabel: 'Entry ID',
+      idHelp: 'Key of the new entry in the data file. Leave empty to derive it from the name or title.',
+      fileNameLabel: 'File name',
+      fileNameHelp: 'Saved as JSON unless the name ends in .yaml, .yml or .toml.',
+      error: {
+        idRequired: 'Enter an ID for the new entry.',
+        nameRequired: 'Enter a file name for the new entry.',
+        exists: '"{{name}}" already exists.',
+        conflict: 'The file was changed by someone else. Reload the list and try again.',
+        image: 'Image upload failed.',
+      },
+    },
+    singletons: {
+      sectionTitle: 'SINGLETONS',
+      empty: '+ Add a singleton',
+      newTitle: 'New Singleton',
+      editTitle: 'Edit Singleton',
+      nameLabel: 'Name',
+      namePlaceholder: 'e.g., Site settings, Home page',
+      pathLabel: 'File',
+      pathHelp: 'One file holding one record: .json, .yaml, .yml, .toml, .md or .mdx. It is created on first save if missing.',
+      addButton: 'Add Singleton',
+      remove: 'Remove',
+      removeConfirm: 'Remove "{{name}}" from the sidebar? The file itself is kept.',
+      configSaved: 'Singletons saved',
+      notCreated: '(not created yet)',
+      bodyLabel: 'Content',
+      saved: 'Saved',
+      reload: 'Reload',
+      error: {
+        nameRequired: 'Name is required',
+        pathInvalid: 'Enter the path of a .json, .yaml, .yml, .toml, .md or .mdx file',
+        duplicateName: 'A singleton with this name already exists',
+        unsupported: '"{{path}}" is not a supported file type.',
+        notRecord: '"{{path}}" does not hold a single record (expected an object at the top level).',
+        conflict: 'The file was changed by someone else. Reload it and apply your changes again.',
+      },
+    },
+    translations: {
+      exists: 'Translation: {{locale}}',
+      missing: 'No {{locale}} translation yet',
+      open: 'Open the {{locale}} translation',
+      create: 'Create {{locale}} translation from this post',
+      discardConfirm: 'Discard unsaved changes and switch translation?',
+    },
+    schedule: {
+      button: 'Schedule',
+      scheduledFor: 'Scheduled · {{date}}',
+      title: 'Publish at',
+      help: 'The post stays unpublished until the publish cron runs after this time. Save to keep the schedule.',
+      apply: 'Apply',
+      upcomingTitle: 'Upcoming publications ({{count}})',
+      loading: 'Loading scheduled posts...',
+      lastRun: 'Last run {{date}} · {{count}} published',
+      error: 'Could not load scheduled posts: {{message}}',
+    },
+    localDrafts: {
+      title: 'Unsaved local drafts ({{count}})',
+      found: 'Unsaved changes from {{date}} were found in this browser.',
+      remoteChanged: 'The file has changed on the remote since then.',
+      showChanges: 'Show changes',
+      hideChanges: 'Hide changes',
+      loadingDiff: 'Loading remote version...',
+      diffFailed: 'Could not load the remote version: {{message}}',
+      restore: 'Restore unsaved changes',
+      discard: 'Discard',
+      discardConfirm: 'Discard the unsaved changes to "{{title}}"?',
+      open: 'Open',
+      newPost: 'New post',
+      untitled: 'Untitled',
+      savedAt: 'saved {{date}}',
+    },
+    bulk: {
+      selected: '{{count}} selected',
+      selectAllFiltered: 'Select all {{count}} matching posts',
+      clearSelection: 'Clear selection',
+      selectPost: 'Select post',
+      actions: {
+        field: 'Set field',
+        tags: 'Tags',
+        status: 'Change status',
+        move: 'Move',
+        delete: 'Delete',
+      },
+      titles: {
+        field: 'Set or clear a field on {{count}} posts',
+        tags: 'Add or remove tags on {{count}} posts',
+        status: 'Change the status of {{count}} posts',
+        move: 'Move {{count}} posts to another collection',
+        delete: 'Delete {{count}} posts',
+      },
+      setField: 'Set value',
+      clearField: 'Remove field',
+      fieldPlaceholder: 'Field name',
+      addTags: 'Add',
+      removeTags: 'Remove',
+      listPlaceholder: 'Comma-separated values',
+      chooseCollection: 'Choose a collection...',
+      noMoveTargets: 'There is no other posts collection to move to.',
+      deleteWarning: 'The selected files will be deleted in one commit.',
+      preview: 'Preview · {{count}} files will change',
+      loading: 'Reading selected posts...',
+      chooseOptions: 'Choose the options above to see the affected files.',
+      status: {
+        update: 'Update',
+        move: 'Move',
+        delete: 'Delete',
+        unchanged: 'Unchanged',
+        conflict: 'Exists',
+      },
+      apply: 'Apply to {{count}} files',
+      running: 'Applying bulk action...',
+      loadFailed: 'Could not read the selected posts: {{message}}',
+      failed: 'Bulk action failed: {{message}}',
+      tooManyFiles: 'This action changes {{count}} files, but one commit can hold at most {{max}}. Select fewer posts.',
+    },
+    rename: {
+      button: 'Rename / Move',
+      saveFirst: 'Save your changes before renaming',
+      title: 'Rename or move "{{name}}"',
+      collection: 'Collection',
+      path: 'File path',
+      slug: 'Slug',
+      slugHelp: 'Leave empty to derive the slug from the file path.',
+      loading: 'Reading the post...',
+      previewButton: 'Preview changes',
+      scanning: 'Scanning for links...',
+      urlChange: 'URL:',
+      preview: '{{count}} other files link to or reference this post',
+      rewriteCounts: '{{links}} links · {{references}} references',
+      noRewrites: 'No other post links to or references it.',
+      brokenReferences: '{{count}} references point at this entry and can\'t follow it to another collection. They are left unchanged.',
+      apply: 'Commit {{count}} file changes',
+      running: 'Renaming post...',
+      loadFailed: 'Could not read the post: {{message}}',
+      failed: 'Rename failed: {{message}}',
+      errors: {
+        empty: 'Enter a file path.',
+        invalid: 'The path must stay inside the collection folder.',
+        extension: 'The file name must end in .md or .mdx.',
+        unchanged: 'Nothing to change.',
+        exists: '{{path}} already exists.',
+        tooManyFiles: 'This rename changes {{count}} files, but one commit can hold at most {{max}}.',
+      },
+    },
+    taxonomy: {
+      description: 'Every term of the list fields of a collection, with the number of posts using it. Renaming, merging or deleting a term updates all posts in one commit.',
+      refresh: 'Refresh',
+      loading: 'Reading posts...',
+      noCollections: 'There is no posts collection to manage yet. Data collections and collections in editorial mode are left out.',
+      noFields: 'No tag or category fields found in this collection.',
+      noTerms: 'No post uses this field yet.',
+      term: 'Term',
+      posts: 'Posts',
+      selectAll: 'Select all terms',
+      selected: '{{count}} terms selected',
+      rename: 'Rename',
+      merge: 'Merge into...',
+      delete: 'Delete',
+      renameTo: 'Rename "{{term}}" to:',
+      mergeInto: 'Merge {{terms}} into:',
+      confirmDelete: 'Remove {{terms}} from the {{field}} of every post?',
+      affected: '{{count}} posts will change',
+      tooManyFiles: 'This change touches {{count}} files, but one commit can hold at most {{max}}.',
+      addsToVocabulary: '"{{term}}" will be added to the vocabulary.',
+      apply: 'Apply',
+      running: 'Updating terms...',
+      done: '{{count}} posts updated.',
+      similar: 'similar: {{terms}}',
+      notInVocabulary: 'Not in vocabulary',
+      addTerm: 'Add a term...',
+      loadFailed: 'Could not read the posts: {{message}}',
+      failed: 'Update failed: {{message}}',
+      savingVocabulary: 'Saving vocabulary...',
+      vocabulary: {
+        enabled: 'Controlled vocabulary: {{count}} terms',
+        disabled: 'No controlled vocabulary',
+        help: 'With a vocabulary, the editor suggests its terms and refuses to save others.',
+        create: 'Create from current terms',
+        edit: 'Edit vocabulary',
+        remove: 'Remove vocabulary',
+        save: 'Save vocabulary',
+        placeholder: 'One term per line',
+        unused: 'Unused terms:',
+      },
+    },
+    mergeConflict: {
+      title: 'Resolve conflicting changes',
+      description: '"{{name}}" was changed by someone else while you were editing. Changes that don\'t overlap were merged; choose a version for each conflict below.',
+      frontmatter: 'Frontmatter',
+      body: 'Content',
+      field: 'Field',
+      yours: 'Your version',
+      theirs: 'Saved version',
+      keepBoth: 'Keep both',
+      empty: '(removed)',
+      unchangedLines: '{{count}} merged lines',
+      remaining: '{{count}} conflicts left',
+      save: 'Save merged post',
+      cancel: 'Keep editing',
+      autoMerged: 'The post was changed elsewhere; both sets of changes were merged and saved.',
+    },
+    postHistory: {
+      tab: 'History',
+      loading: 'Loading history...',
+      loadingDiff: 'Loading revisions...',
+      empty: 'No commits found for this file.',
+      from: 'From',
+      to: 'To',
+      commit: 'Commit',
+      frontmatter: 'Frontmatter',
+      body: 'Content',
+      noChanges: 'No changes',
+      unchangedLines: '{{count}} unchanged lines',
+      restore: 'Restore',
+      restoreFailed: 'Restore failed: {{message}}',
+      restoreConfirm: {
+        title: 'Restore this revision?',
+        description: 'The post will be saved as it was in {{sha}}, as a new commit. Later history is kept.',
+      },
+    },
+    editorial: {
+      loading: 'Loading drafts...',
+      title: 'Drafts awaiting review ({{count}})',
+      draftBadge: 'Draft · PR #{{number}}',
+      publish: 'Publish',
+      discard: 'Discard',
+      publishing: 'Publishing draft...',
+      discarding: 'Discarding draft...',
+      actionFailed: 'Draft action failed: {{message}}',
+      status: {
+        ready: 'Ready to merge',
+        checking: 'Checking',
+        conflict: 'Conflicts',
+      },
+      discardConfirm: {
+        title: 'Discard draft?',
+        description: 'The pull request will be closed and branch "{{branch}}" deleted. Unpublished changes are lost.',
+      },
+    },
     collectionModal: {
       newTitle: 'New Collection',
       editTitle: 'Edit Collection',
@@ -554,6 +872,28 @@ export const translations = {
       postsPathPlaceholder: 'e.g., src/content/blog',
       imagesPathLabel: 'Images Directory',
       imagesPathPlaceholder: 'e.g., public/images/blog',
+      kindLabel: 'Content Type',
+      kindPosts: 'Posts (Markdown / MDX)',
+      kindData: 'Data (JSON / YAML / TOML)',
+      kindDataHelp: 'Entries are data files in the directory, or the items of a single data file.',
+      dataPathLabel: 'Data Directory or File',
+      dataPathPlaceholder: 'e.g., src/content/authors or src/data/team.json',
+      filenamePatternLabel: 'File Name Pattern',
+      filenamePatternHelp: 'Where new entries are saved. Tokens: {slug}, {year}, {month}, {day}, {hour}, {minute}, {locale}, {fields.name}.',
+      urlPrefixLabel: 'URL Prefix',
+      urlPrefixHelp: 'Site path of the entries before their slug. Links to a post are rewritten with it when the post is renamed or moved.',
+      localesLabel: 'Locales',
+      localesHelp: 'Comma-separated, default first. Folder: en/post.md, vi/post.md. Suffix: post.md, post.vi.md.',
+      localeStrategyFolder: 'Folder per locale',
+      localeStrategySuffix: 'File name suffix',
+      statusFieldLabel: 'Status Field',
+      statusFieldDefault: 'status (default)',
+      statusFieldHelp: 'A select field whose options become the columns of the status board in Workflows.',
+      scheduleLabel: 'Scheduled Publishing',
+      scheduleHelp: 'Drafts scheduled from the editor are published by the server cron once their publishDate passes. Optionally name a dedicated schedule field instead.',
+      scheduleFieldPlaceholder: 'Schedule field (optional), e.g. publishAt',
+      editorialModeLabel: 'Editorial Mode',
+      editorialModeHelp: 'Saves go to a cms/<collection>/<slug> branch and open a pull request instead of committing to the content branch.',
       cancel: 'Cancel',
       saveButton: 'Save Changes',
       createButton: 'Create Collection',
@@ -562,6 +902,7 @@ export const translations = {
         postsPathRequired: 'Posts directory is required',
         imagesPathRequired: 'Images directory is required',
         duplicateName: 'A collection with this name already exists',
+        filenamePatternInvalid: 'This pattern does not produce a valid file path',
       }
     }
   },
@@ -632,6 +973,15 @@ export const translations = {
       tokenDisclaimer: 'Token của bạn được mã hóa và chỉ lưu trữ trong phiên duyệt web này.',
     },
     dashboard: {
+      branch: {
+        label: 'Nhánh',
+        loading: 'Đang tải danh sách nhánh...',
+        default: 'mặc định',
+        switching: 'Đang chuyển sang {{branch}}...',
+        switchFailed: 'Không thể chuyển nhánh: {{message}}',
+        resetToConfigured: 'Về nhánh đã cấu hình',
+        configured: 'nhánh đã cấu hình',
+      },
       header: {
         title: 'Quản lý Bài viết',
         subtitle: 'Tổng quan về nội dung trong kho chứa của bạn.',
@@ -656,6 +1006,7 @@ export const translations = {
         workflows: 'Workflows',
         manageImages: 'Quản lý Hình ảnh',
         template: 'Mẫu Bài viết',
+        taxonomy: 'Phân loại',
         backup: 'Sao lưu',
         settings: 'Cài đặt',
         menuTitle: 'Trình đơn',
@@ -714,6 +1065,10 @@ export const translations = {
           label: 'Loại Dự án',
           help: 'Chọn "Dự án Web" cho website (Astro/Next.js) hoặc "Thư viện File" để quản lý file cơ bản.',
         },
+        branch: {
+          label: 'Nhánh nội dung',
+          help: 'Nhánh mà workspace đọc và ghi. Để trống để dùng nhánh mặc định của kho chứa.',
+        },
         domain: {
           label: 'Tên miền Production',
           help: 'Cần thiết cho "Dự án Web" để xem trước ảnh có đường dẫn tương đối (vd: /images/pic.jpg).',
@@ -776,7 +1131,20 @@ export const translations = {
       wizard: {
         title: 'Wizard Tạo Bài Viết',
         desc: 'Quy trình từng bước được hướng dẫn để tải ảnh, xác thực cấu trúc nội dung và xuất bản bài viết mới an toàn.',
-      }
+      },
+      board: {
+        title: 'Bảng trạng thái',
+        desc: 'Chuyển bài viết qua các bước nháp, duyệt và xuất bản bằng cách kéo thẻ giữa các cột trạng thái.',
+        noStatusField: 'Bộ sưu tập này chưa có trường trạng thái. Thêm một trường select (VD: status: draft, review, published) vào template, hoặc chọn trong cài đặt bộ sưu tập.',
+        dataCollection: 'Bảng trạng thái không dùng được cho bộ sưu tập dữ liệu: các mục không có frontmatter để lưu trạng thái.',
+        noStatus: 'Chưa có trạng thái',
+        empty: 'Không có bài',
+        untitled: 'Không tiêu đề',
+        moving: 'Đang lưu…',
+        moveError: 'Không thể chuyển "{{name}}": {{message}}',
+        editorialReadOnly: 'Bộ sưu tập đang bật chế độ biên tập: hãy đổi trạng thái trong trình soạn thảo để đi qua pull request.',
+        reload: 'Tải lại',
+      },
     },
     postWorkflow: {
       title: 'Tạo Bài Viết Mới',
@@ -852,6 +1220,7 @@ export const translations = {
         emptyTitle: 'Vui lòng nhập tiêu đề bài viết để lưu.',
         duplicateFile: 'Tên bài viết đã tồn tại trên hệ thống. Vui lòng thay đổi tiêu đề.',
         invalidSlug: 'Tiêu đề không hợp lệ. Vui lòng chỉ sử dụng chữ cái, số và khoảng trắng.',
+        invalidFilenamePattern: 'Không thể tạo tên file từ mẫu của bộ sưu tập: {{message}}',
       },
       noPosts: 'Không tìm thấy bài viết nào trong thư mục đã chọn.',
       searchPlaceholder: 'Tìm kiếm theo tiêu đề, tác giả, danh mục, thẻ...',
@@ -1050,6 +1419,10 @@ export const translations = {
       table: {
         field: 'Tên trường',
         type: 'Loại dự kiến',
+        options: 'Lựa chọn',
+        optionsPlaceholder: 'Các lựa chọn, cách nhau bằng dấu phẩy',
+        referenceCollection: 'Bộ sưu tập đích',
+        referenceMultiple: 'Nhiều mục',
       },
       columns: {
         title: 'Cột Bảng Mặc định',
@@ -1110,6 +1483,291 @@ export const translations = {
     languageSwitcher: {
       modalTitle: 'Chọn ngôn ngữ',
     },
+    validation: {
+      required: '{{field}} là bắt buộc.',
+      minLength: '{{field}} phải có ít nhất {{min}} ký tự.',
+      maxLength: '{{field}} chỉ được tối đa {{max}} ký tự.',
+      pattern: '{{field}} không đúng định dạng yêu cầu.',
+      min: '{{field}} phải lớn hơn hoặc bằng {{min}}.',
+      max: '{{field}} phải nhỏ hơn hoặc bằng {{max}}.',
+      minDate: '{{field}} phải từ ngày {{min}} trở đi.',
+      maxDate: '{{field}} phải trước hoặc bằng ngày {{max}}.',
+      allowedValues: '{{field}} phải là một trong: {{values}} (nhận được {{invalid}}).',
+      vocabulary: '{{field}} có thuật ngữ ngoài bộ từ vựng: {{invalid}}.',
+      minItems: '{{field}} cần ít nhất {{min}} mục.',
+      maxItems: '{{field}} chỉ cho phép tối đa {{max}} mục.',
+      uniqueItems: '{{field}} có mục bị trùng.',
+      saveBlocked: 'Hãy sửa các trường được đánh dấu trước khi lưu.',
+    },
+    fieldInput: {
+      chooseImage: 'Chọn',
+      generateSlug: 'Từ tiêu đề',
+      none: 'Không có',
+      preview: 'Xem trước',
+      edit: 'Sửa',
+      invalidUrl: 'URL không hợp lệ',
+      invalidEmail: 'Địa chỉ email không hợp lệ',
+      addItem: 'Thêm mục',
+      removeItem: 'Xóa mục',
+      item: 'Mục {{index}}',
+      items: '{{count}} mục',
+      dragToReorder: 'Kéo để sắp xếp',
+    },
+    referenceInput: {
+      search: 'Tìm mục…',
+      loading: 'Đang tải mục…',
+      noResults: 'Không có mục phù hợp',
+      noCollection: 'Trường này chưa chọn bộ sưu tập đích',
+      missing: 'Không có mục "{{slug}}" — có thể đã bị xóa hoặc đổi tên',
+      remove: 'Gỡ',
+      deleteWarning: 'Được tham chiếu bởi {{count}} mục. Các tham chiếu này sẽ bị hỏng:',
+    },
+    dataEntry: {
+      back: 'Quay lại danh sách',
+      newTitle: 'Mục mới',
+      save: 'Lưu',
+      saving: 'Đang lưu…',
+      noFields: 'Mục này chưa có trường nào. Hãy thêm vào mẫu của bộ sưu tập.',
+      idLabel: 'ID mục',
+      idHelp: 'Khóa của mục mới trong file dữ liệu. Để trống để lấy từ tên hoặc tiêu đề.',
+      fileNameLabel: 'Tên file',
+      fileNameHelp: 'Lưu dạng JSON trừ khi tên kết thúc bằng .yaml, .yml hoặc .toml.',
+      error: {
+        idRequired: 'Nhập ID cho mục mới.',
+        nameRequired: 'Nhập tên file cho mục mới.',
+        exists: '"{{name}}" đã tồn tại.',
+        conflict: 'File đã bị người khác thay đổi. Hãy tải lại danh sách và thử lại.',
+        image: 'Tải ảnh lên thất bại.',
+      },
+    },
+    singletons: {
+      sectionTitle: 'TÀI LIỆU ĐƠN',
+      empty: '+ Thêm tài liệu đơn',
+      newTitle: 'Tài liệu đơn mới',
+      editTitle: 'Chỉnh sửa tài liệu đơn',
+      nameLabel: 'Tên',
+      namePlaceholder: 'VD: Cài đặt trang, Trang chủ',
+      pathLabel: 'File',
+      pathHelp: 'Một file chứa một bản ghi: .json, .yaml, .yml, .toml, .md hoặc .mdx. File sẽ được tạo khi lưu lần đầu nếu chưa có.',
+      addButton: 'Thêm tài liệu đơn',
+      remove: 'Gỡ',
+      removeConfirm: 'Gỡ "{{name}}" khỏi thanh bên? File vẫn được giữ nguyên.',
+      configSaved: 'Đã lưu tài liệu đơn',
+      notCreated: '(chưa được tạo)',
+      bodyLabel: 'Nội dung',
+      saved: 'Đã lưu',
+      reload: 'Tải lại',
+      error: {
+        nameRequired: 'Tên là bắt buộc',
+        pathInvalid: 'Nhập đường dẫn của một file .json, .yaml, .yml, .toml, .md hoặc .mdx',
+        duplicateName: 'Đã có tài liệu đơn với tên này',
+        unsupported: '"{{path}}" không phải loại file được hỗ trợ.',
+        notRecord: '"{{path}}" không chứa một bản ghi duy nhất (cần một object ở cấp cao nhất).',
+        conflict: 'File đã bị người khác thay đổi. Hãy tải lại và áp dụng lại thay đổi của bạn.',
+      },
+    },
+    translations: {
+      exists: 'Bản dịch: {{locale}}',
+      missing: 'Chưa có bản dịch {{locale}}',
+      open: 'Mở bản dịch {{locale}}',
+      create: 'Tạo bản dịch {{locale}} từ bài này',
+      discardConfirm: 'Bỏ các thay đổi chưa lưu và chuyển bản dịch?',
+    },
+    schedule: {
+      button: 'Lên lịch',
+      scheduledFor: 'Đã lên lịch · {{date}}',
+      title: 'Xuất bản lúc',
+      help: 'Bài viết chưa được xuất bản cho đến khi cron xuất bản chạy sau thời điểm này. Lưu để giữ lịch.',
+      apply: 'Áp dụng',
+      upcomingTitle: 'Sắp xuất bản ({{count}})',
+      loading: 'Đang tải bài viết đã lên lịch...',
+      lastRun: 'Lần chạy gần nhất {{date}} · {{count}} bài đã xuất bản',
+      error: 'Không thể tải bài viết đã lên lịch: {{message}}',
+    },
+    localDrafts: {
+      title: 'Bản nháp cục bộ chưa lưu ({{count}})',
+      found: 'Tìm thấy thay đổi chưa lưu từ {{date}} trong trình duyệt này.',
+      remoteChanged: 'Tệp trên kho đã thay đổi kể từ đó.',
+      showChanges: 'Xem thay đổi',
+      hideChanges: 'Ẩn thay đổi',
+      loadingDiff: 'Đang tải phiên bản trên kho...',
+      diffFailed: 'Không thể tải phiên bản trên kho: {{message}}',
+      restore: 'Khôi phục thay đổi chưa lưu',
+      discard: 'Bỏ',
+      discardConfirm: 'Bỏ các thay đổi chưa lưu của "{{title}}"?',
+      open: 'Mở',
+      newPost: 'Bài viết mới',
+      untitled: 'Không có tiêu đề',
+      savedAt: 'đã lưu {{date}}',
+    },
+    bulk: {
+      selected: 'Đã chọn {{count}}',
+      selectAllFiltered: 'Chọn tất cả {{count}} bài viết phù hợp',
+      clearSelection: 'Bỏ chọn',
+      selectPost: 'Chọn bài viết',
+      actions: {
+        field: 'Đặt trường',
+        tags: 'Thẻ',
+        status: 'Đổi trạng thái',
+        move: 'Di chuyển',
+        delete: 'Xóa',
+      },
+      titles: {
+        field: 'Đặt hoặc xóa một trường trên {{count}} bài viết',
+        tags: 'Thêm hoặc bỏ thẻ trên {{count}} bài viết',
+        status: 'Đổi trạng thái của {{count}} bài viết',
+        move: 'Di chuyển {{count}} bài viết sang bộ sưu tập khác',
+        delete: 'Xóa {{count}} bài viết',
+      },
+      setField: 'Đặt giá trị',
+      clearField: 'Xóa trường',
+      fieldPlaceholder: 'Tên trường',
+      addTags: 'Thêm',
+      removeTags: 'Bỏ',
+      listPlaceholder: 'Các giá trị cách nhau bằng dấu phẩy',
+      chooseCollection: 'Chọn bộ sưu tập...',
+      noMoveTargets: 'Không có bộ sưu tập bài viết nào khác để di chuyển đến.',
+      deleteWarning: 'Các tệp đã chọn sẽ bị xóa trong một commit.',
+      preview: 'Xem trước · {{count}} tệp sẽ thay đổi',
+      loading: 'Đang đọc các bài viết đã chọn...',
+      chooseOptions: 'Chọn các tùy chọn ở trên để xem các tệp bị ảnh hưởng.',
+      status: {
+        update: 'Cập nhật',
+        move: 'Di chuyển',
+        delete: 'Xóa',
+        unchanged: 'Không đổi',
+        conflict: 'Đã tồn tại',
+      },
+      apply: 'Áp dụng cho {{count}} tệp',
+      running: 'Đang áp dụng thao tác hàng loạt...',
+      loadFailed: 'Không thể đọc các bài viết đã chọn: {{message}}',
+      failed: 'Thao tác hàng loạt thất bại: {{message}}',
+      tooManyFiles: 'Thao tác này thay đổi {{count}} tệp, nhưng một commit chỉ chứa tối đa {{max}} tệp. Hãy chọn ít bài viết hơn.',
+    },
+    rename: {
+      button: 'Đổi tên / Di chuyển',
+      saveFirst: 'Lưu thay đổi trước khi đổi tên',
+      title: 'Đổi tên hoặc di chuyển "{{name}}"',
+      collection: 'Bộ sưu tập',
+      path: 'Đường dẫn tệp',
+      slug: 'Slug',
+      slugHelp: 'Để trống để lấy slug từ đường dẫn tệp.',
+      loading: 'Đang đọc bài viết...',
+      previewButton: 'Xem trước thay đổi',
+      scanning: 'Đang tìm liên kết...',
+      urlChange: 'URL:',
+      preview: '{{count}} tệp khác liên kết hoặc tham chiếu đến bài viết này',
+      rewriteCounts: '{{links}} liên kết · {{references}} tham chiếu',
+      noRewrites: 'Không có bài viết nào liên kết hoặc tham chiếu đến bài này.',
+      brokenReferences: '{{count}} tham chiếu trỏ đến mục này và không thể theo nó sang bộ sưu tập khác. Chúng được giữ nguyên.',
+      apply: 'Commit {{count}} thay đổi tệp',
+      running: 'Đang đổi tên bài viết...',
+      loadFailed: 'Không thể đọc bài viết: {{message}}',
+      failed: 'Đổi tên thất bại: {{message}}',
+      errors: {
+        empty: 'Nhập đường dẫn tệp.',
+        invalid: 'Đường dẫn phải nằm trong thư mục của bộ sưu tập.',
+        extension: 'Tên tệp phải kết thúc bằng .md hoặc .mdx.',
+        unchanged: 'Không có gì để thay đổi.',
+        exists: '{{path}} đã tồn tại.',
+        tooManyFiles: 'Thao tác đổi tên này thay đổi {{count}} tệp, nhưng một commit chỉ chứa tối đa {{max}} tệp.',
+      },
+    },
+    taxonomy: {
+      description: 'Mọi thuật ngữ của các trường danh sách trong bộ sưu tập, kèm số bài viết sử dụng. Đổi tên, gộp hoặc xóa một thuật ngữ sẽ cập nhật mọi bài viết trong một commit.',
+      refresh: 'Làm mới',
+      loading: 'Đang đọc bài viết...',
+      noCollections: 'Chưa có bộ sưu tập bài viết nào để quản lý. Bộ sưu tập dữ liệu và bộ sưu tập ở chế độ biên tập không được tính.',
+      noFields: 'Không tìm thấy trường thẻ hoặc danh mục nào trong bộ sưu tập này.',
+      noTerms: 'Chưa có bài viết nào dùng trường này.',
+      term: 'Thuật ngữ',
+      posts: 'Bài viết',
+      selectAll: 'Chọn tất cả thuật ngữ',
+      selected: 'Đã chọn {{count}} thuật ngữ',
+      rename: 'Đổi tên',
+      merge: 'Gộp vào...',
+      delete: 'Xóa',
+      renameTo: 'Đổi tên "{{term}}" thành:',
+      mergeInto: 'Gộp {{terms}} vào:',
+      confirmDelete: 'Xóa {{terms}} khỏi {{field}} của mọi bài viết?',
+      affected: '{{count}} bài viết sẽ thay đổi',
+      tooManyFiles: 'Thay đổi này chạm tới {{count}} tệp, nhưng một commit chỉ chứa tối đa {{max}} tệp.',
+      addsToVocabulary: '"{{term}}" sẽ được thêm vào bộ từ vựng.',
+      apply: 'Áp dụng',
+      running: 'Đang cập nhật thuật ngữ...',
+      done: 'Đã cập nhật {{count}} bài viết.',
+      similar: 'tương tự: {{terms}}',
+      notInVocabulary: 'Ngoài bộ từ vựng',
+      addTerm: 'Thêm thuật ngữ...',
+      loadFailed: 'Không thể đọc bài viết: {{message}}',
+      failed: 'Cập nhật thất bại: {{message}}',
+      savingVocabulary: 'Đang lưu bộ từ vựng...',
+      vocabulary: {
+        enabled: 'Bộ từ vựng kiểm soát: {{count}} thuật ngữ',
+        disabled: 'Chưa có bộ từ vựng kiểm soát',
+        help: 'Khi có bộ từ vựng, trình soạn thảo gợi ý các thuật ngữ của nó và không cho lưu thuật ngữ khác.',
+        create: 'Tạo từ các thuật ngữ hiện có',
+        edit: 'Sửa bộ từ vựng',
+        remove: 'Xóa bộ từ vựng',
+        save: 'Lưu bộ từ vựng',
+        placeholder: 'Mỗi dòng một thuật ngữ',
+        unused: 'Thuật ngữ chưa dùng:',
+      },
+    },
+    mergeConflict: {
+      title: 'Giải quyết thay đổi xung đột',
+      description: '"{{name}}" đã được người khác thay đổi trong lúc bạn chỉnh sửa. Các thay đổi không chồng lấn đã được gộp; hãy chọn phiên bản cho từng xung đột bên dưới.',
+      frontmatter: 'Frontmatter',
+      body: 'Nội dung',
+      field: 'Trường',
+      yours: 'Phiên bản của bạn',
+      theirs: 'Phiên bản đã lưu',
+      keepBoth: 'Giữ cả hai',
+      empty: '(đã xóa)',
+      unchangedLines: '{{count}} dòng đã gộp',
+      remaining: 'Còn {{count}} xung đột',
+      save: 'Lưu bài đã gộp',
+      cancel: 'Tiếp tục chỉnh sửa',
+      autoMerged: 'Bài viết đã được thay đổi ở nơi khác; hai bộ thay đổi đã được gộp và lưu.',
+    },
+    postHistory: {
+      tab: 'Lịch sử',
+      loading: 'Đang tải lịch sử...',
+      loadingDiff: 'Đang tải phiên bản...',
+      empty: 'Không tìm thấy commit nào cho tệp này.',
+      from: 'Từ',
+      to: 'Đến',
+      commit: 'Commit',
+      frontmatter: 'Frontmatter',
+      body: 'Nội dung',
+      noChanges: 'Không có thay đổi',
+      unchangedLines: '{{count}} dòng không đổi',
+      restore: 'Khôi phục',
+      restoreFailed: 'Khôi phục thất bại: {{message}}',
+      restoreConfirm: {
+        title: 'Khôi phục phiên bản này?',
+        description: 'Bài viết sẽ được lưu như tại {{sha}} bằng một commit mới. Lịch sử sau đó vẫn được giữ.',
+      },
+    },
+    editorial: {
+      loading: 'Đang tải bản nháp...',
+      title: 'Bản nháp chờ duyệt ({{count}})',
+      draftBadge: 'Bản nháp · PR #{{number}}',
+      publish: 'Xuất bản',
+      discard: 'Hủy bỏ',
+      publishing: 'Đang xuất bản bản nháp...',
+      discarding: 'Đang hủy bản nháp...',
+      actionFailed: 'Thao tác bản nháp thất bại: {{message}}',
+      status: {
+        ready: 'Sẵn sàng merge',
+        checking: 'Đang kiểm tra',
+        conflict: 'Xung đột',
+      },
+      discardConfirm: {
+        title: 'Hủy bản nháp?',
+        description: 'Pull request sẽ bị đóng và nhánh "{{branch}}" bị xóa. Các thay đổi chưa xuất bản sẽ mất.',
+      },
+    },
     collectionModal: {
       newTitle: 'Bộ sưu tập mới',
       editTitle: 'Chỉnh sửa bộ sưu tập',
@@ -1119,6 +1777,28 @@ export const translations = {
       postsPathPlaceholder: 'VD: src/content/blog',
       imagesPathLabel: 'Thư mục hình ảnh',
       imagesPathPlaceholder: 'VD: public/images/blog',
+      kindLabel: 'Loại nội dung',
+      kindPosts: 'Bài viết (Markdown / MDX)',
+      kindData: 'Dữ liệu (JSON / YAML / TOML)',
+      kindDataHelp: 'Mỗi mục là một file dữ liệu trong thư mục, hoặc một phần tử của một file dữ liệu duy nhất.',
+      dataPathLabel: 'Thư mục hoặc file dữ liệu',
+      dataPathPlaceholder: 'VD: src/content/authors hoặc src/data/team.json',
+      filenamePatternLabel: 'Mẫu tên file',
+      filenamePatternHelp: 'Nơi lưu bài mới. Biến: {slug}, {year}, {month}, {day}, {hour}, {minute}, {locale}, {fields.tên}.',
+      urlPrefixLabel: 'Tiền tố URL',
+      urlPrefixHelp: 'Đường dẫn trên site của các mục trước slug. Liên kết đến bài viết được cập nhật theo tiền tố này khi đổi tên hoặc di chuyển bài.',
+      localesLabel: 'Ngôn ngữ',
+      localesHelp: 'Cách nhau bởi dấu phẩy, mặc định đứng đầu. Thư mục: en/post.md, vi/post.md. Hậu tố: post.md, post.vi.md.',
+      localeStrategyFolder: 'Thư mục theo ngôn ngữ',
+      localeStrategySuffix: 'Hậu tố tên file',
+      statusFieldLabel: 'Trường trạng thái',
+      statusFieldDefault: 'status (mặc định)',
+      statusFieldHelp: 'Trường select có các lựa chọn làm cột của bảng trạng thái trong Workflows.',
+      scheduleLabel: 'Lên lịch xuất bản',
+      scheduleHelp: 'Bài nháp được lên lịch từ trình soạn thảo sẽ được cron máy chủ xuất bản khi publishDate đến hạn. Có thể dùng một trường lịch riêng thay thế.',
+      scheduleFieldPlaceholder: 'Trường lịch (tùy chọn), VD: publishAt',
+      editorialModeLabel: 'Chế độ biên tập',
+      editorialModeHelp: 'Lưu vào nhánh cms/<collection>/<slug> và mở pull request thay vì commit thẳng vào nhánh nội dung.',
       cancel: 'Hủy',
       saveButton: 'Lưu thay đổi',
       createButton: 'Tạo bộ sưu tập',
@@ -1127,6 +1807,7 @@ export const translations = {
         postsPathRequired: 'Thư mục bài viết là bắt buộc',
         imagesPathRequired: 'Thư mục hình ảnh là bắt buộc',
         duplicateName: 'Bộ sưu tập với tên này đã tồn tại',
+        filenamePatternInvalid: 'Mẫu này không tạo ra đường dẫn file hợp lệ',
       }
     }
   }
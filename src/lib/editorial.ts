@@ -0,0 +1,241 @@
+/**
+ * Editorial mode — server-side draft branches + pull requests
+ *
+ * v2.6: When a collection has `editorialMode` enabled, saving a post never
+ *       touches the target branch. The post is committed to
+ *       `cms/<collection>/<slug>` and a pull request into the target branch
+ *       is opened (or reused). Publishing squash-merges the PR, discarding
+ *       closes it and deletes the draft branch.
+ *
+ * The workflow runs against an `EditorialBackend` so it can be exercised
+ * without a Git service — see createMemoryEditorialBackend().
+ */
+
+import * as git from './git-client';
+import type { GitClientConfig } from './git-client';
+import type { DraftSaveRequest, DraftInfo, PullRequestInfo } from '../types';
+
+export const DRAFT_BRANCH_PREFIX = 'cms/';
+
+/** The subset of branch/PR operations the editorial workflow needs */
+export interface EditorialBackend {
+  /** Branch PRs target (session branch or repo default) */
+  getBaseBranch(): Promise<string>;
+  branchExists(branch: string): Promise<boolean>;
+  createBranch(name: string, fromBranch: string): Promise<void>;
+  deleteBranch(name: string): Promise<void>;
+  /** File content on a branch, null when missing */
+  readFile(branch: string, path: string): Promise<string | null>;
+  writeFile(branch: string, path: string, content: string, commitMessage: string): Promise<void>;
+  /** Open PRs, only those from `head` when given */
+  listPullRequests(head?: string): Promise<PullRequestInfo[]>;
+  getPullRequest(number: number): Promise<PullRequestInfo>;
+  createPullRequest(pr: { title: string; head: string; base: string; body?: string }): Promise<PullRequestInfo>;
+  mergePullRequest(number: number): Promise<void>;
+  closePullRequest(number: number): Promise<void>;
+}
+
+function toBranchSegment(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .replace(/\.{2,}/g, '.');
+}
+
+/** `cms/<collection>/<slug>` — segments are sanitized to valid ref names */
+export function draftBranchName(collectionId: string, slug: string): string {
+  const collection = toBranchSegment(collectionId);
+  const name = toBranchSegment(slug);
+  if (!collection || !name) {
+    throw new Error('Collection and slug are required for a draft branch');
+  }
+  return `${DRAFT_BRANCH_PREFIX}${collection}/${name}`;
+}
+
+export function isDraftBranch(branch: string): boolean {
+  return branch.startsWith(DRAFT_BRANCH_PREFIX);
+}
+
+async function findOpenPullRequest(backend: EditorialBackend, branch: string): Promise<PullRequestInfo | null> {
+  const open = await backend.listPullRequests(branch);
+  return open.find((pr) => pr.head === branch && pr.state === 'open') || null;
+}
+
+/**
+ * Commit the post to its draft branch and make sure a PR is open for it.
+ * The draft branch is created from the base branch on first save.
+ */
+export async function saveDraft(backend: EditorialBackend, request: DraftSaveRequest): Promise<PullRequestInfo> {
+  const branch = draftBranchName(request.collectionId, request.slug);
+  const base = await backend.getBaseBranch();
+
+  if (!(await backend.branchExists(branch))) {
+    await backend.createBranch(branch, base);
+  }
+
+  await backend.writeFile(branch, request.path, request.content, request.commitMessage);
+
+  const existing = await findOpenPullRequest(backend, branch);
+  if (existing) return existing;
+
+  return backend.createPullRequest({
+    title: request.title || request.slug,
+    head: branch,
+    base,
+    body: `Draft of \`${request.path}\` created from Pageel CMS.`,
+  });
+}
+
+/** Draft state for a post, or null when it has no draft branch */
+export async function getDraft(
+  backend: EditorialBackend,
+  collectionId: string,
+  slug: string,
+  path: string
+): Promise<DraftInfo | null> {
+  const branch = draftBranchName(collectionId, slug);
+  if (!(await backend.branchExists(branch))) return null;
+
+  const [content, pullRequest] = await Promise.all([
+    backend.readFile(branch, path),
+    findOpenPullRequest(backend, branch),
+  ]);
+  return { branch, content, pullRequest };
+}
+
+/** Open PRs whose head is a CMS draft branch */
+export async function listDrafts(backend: EditorialBackend): Promise<PullRequestInfo[]> {
+  const open = await backend.listPullRequests();
+  return open.filter((pr) => pr.state === 'open' && isDraftBranch(pr.head));
+}
+
+/** Only CMS-created PRs can be published or discarded from the dashboard */
+async function requireDraftPullRequest(backend: EditorialBackend, number: number): Promise<PullRequestInfo> {
+  const pr = await backend.getPullRequest(number);
+  if (!isDraftBranch(pr.head)) {
+    throw new Error(`Pull request #${number} is not a CMS draft`);
+  }
+  if (pr.state !== 'open') {
+    throw new Error(`Pull request #${number} is already ${pr.state}`);
+  }
+  return pr;
+}
+
+export async function publishDraft(backend: EditorialBackend, number: number): Promise<void> {
+  const pr = await requireDraftPullRequest(backend, number);
+  await backend.mergePullRequest(number);
+  await backend.deleteBranch(pr.head).catch((e) => {
+    // Some services delete the head branch on merge
+    console.warn(`[editorial] Could not delete ${pr.head}:`, e.message);
+  });
+}
+
+export async function discardDraft(backend: EditorialBackend, number: number): Promise<void> {
+  const pr = await requireDraftPullRequest(backend, number);
+  await backend.closePullRequest(number);
+  await backend.deleteBranch(pr.head);
+}
+
+/** EditorialBackend over the Git service in `config` */
+export function createGitEditorialBackend(config: GitClientConfig): EditorialBackend {
+  const onBranch = (branch: string): GitClientConfig => ({ ...config, branch });
+
+  return {
+    getBaseBranch: () => git.resolveBranch(config),
+    branchExists: async (branch) => (await git.getBranchSha(config, branch)) !== null,
+    createBranch: (name, fromBranch) => git.createBranch(config, name, fromBranch),
+    deleteBranch: (name) => git.deleteBranch(config, name),
+    readFile: async (branch, path) => {
+      const sha = await git.getFileSha(onBranch(branch), path);
+      return sha ? git.getFileContent(onBranch(branch), path) : null;
+    },
+    writeFile: async (branch, path, content, commitMessage) => {
+      await git.commitFiles(onBranch(branch), [{ path, content }], commitMessage);
+    },
+    listPullRequests: (head) => git.listPullRequests(config, 'open', head),
+    getPullRequest: (number) => git.getPullRequest(config, number),
+    createPullRequest: (pr) => git.createPullRequest(config, pr),
+    mergePullRequest: (number) => git.mergePullRequest(config, number),
+    closePullRequest: (number) => git.closePullRequest(config, number),
+  };
+}
+
+/**
+ * In-memory EditorialBackend — a local stand-in for tests and offline
+ * development. Branches are plain path → content maps; merging copies the
+ * head branch's files over the base branch.
+ */
+export function createMemoryEditorialBackend(
+  initial: { baseBranch?: string; files?: Record<string, string> } = {}
+): EditorialBackend & { branches: Map<string, Map<string, string>> } {
+  const baseBranch = initial.baseBranch || 'main';
+  const branches = new Map<string, Map<string, string>>([
+    [baseBranch, new Map(Object.entries(initial.files || {}))],
+  ]);
+  const pulls: PullRequestInfo[] = [];
+  let nextNumber = 1;
+
+  const getBranch = (name: string) => {
+    const files = branches.get(name);
+    if (!files) throw new Error(`Branch "${name}" not found`);
+    return files;
+  };
+  const getPull = (number: number) => {
+    const pr = pulls.find((p) => p.number === number);
+    if (!pr) throw new Error(`Pull request #${number} not found`);
+    return pr;
+  };
+  const touch = (pr: PullRequestInfo) => { pr.updatedAt = new Date().toISOString(); };
+
+  return {
+    branches,
+    getBaseBranch: async () => baseBranch,
+    branchExists: async (branch) => branches.has(branch),
+    createBranch: async (name, fromBranch) => {
+      if (branches.has(name)) throw new Error(`Branch "${name}" already exists`);
+      branches.set(name, new Map(getBranch(fromBranch)));
+    },
+    deleteBranch: async (name) => {
+      getBranch(name);
+      branches.delete(name);
+    },
+    readFile: async (branch, path) => getBranch(branch).get(path) ?? null,
+    writeFile: async (branch, path, content) => {
+      getBranch(branch).set(path, content);
+      pulls.filter((p) => p.head === branch && p.state === 'open').forEach(touch);
+    },
+    listPullRequests: async (head) => pulls
+      .filter((p) => p.state === 'open' && (!head || p.head === head))
+      .map((p) => ({ ...p })),
+    getPullRequest: async (number) => ({ ...getPull(number) }),
+    createPullRequest: async ({ title, head, base }) => {
+      getBranch(head);
+      const pr: PullRequestInfo = {
+        number: nextNumber++,
+        title,
+        url: '',
+        head,
+        base,
+        state: 'open',
+        mergeable: true,
+        author: 'local',
+        updatedAt: new Date().toISOString(),
+      };
+      pulls.push(pr);
+      return { ...pr };
+    },
+    mergePullRequest: async (number) => {
+      const pr = getPull(number);
+      const target = getBranch(pr.base);
+      getBranch(pr.head).forEach((content, path) => target.set(path, content));
+      pr.state = 'merged';
+      touch(pr);
+    },
+    closePullRequest: async (number) => {
+      const pr = getPull(number);
+      pr.state = 'closed';
+      touch(pr);
+    },
+  };
+}
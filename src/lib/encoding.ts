@@ -0,0 +1,53 @@
+/**
+ * Base64 helpers shared by the Git clients, the upload proxy and the browser.
+ *
+ * `String.fromCharCode(...bytes)` overflows the call stack and per-character
+ * string concatenation is quadratic on large files, so bytes are converted
+ * in fixed-size chunks.
+ */
+
+/** Per-file cap for uploads and commitFiles (/api/proxy/upload, /api/proxy/git) */
+export const MAX_UPLOAD_SIZE = 10 * 1024 * 1024;
+
+/** Files per commitFiles call accepted by /api/proxy/git; callers check it before committing */
+export const MAX_COMMIT_FILES = 50;
+
+// Stays well below the engine's argument limit for fromCharCode.apply
+const CHUNK_SIZE = 0x8000;
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  const chunks: string[] = [];
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    chunks.push(String.fromCharCode.apply(null, bytes.subarray(i, i + CHUNK_SIZE) as unknown as number[]));
+  }
+  return btoa(chunks.join(''));
+}
+
+/** Accepts the line-wrapped base64 the Git APIs return */
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64.replace(/\s/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function utf8ToBase64(content: string): string {
+  return bytesToBase64(new TextEncoder().encode(content));
+}
+
+export function base64ToUtf8(base64: string): string {
+  return new TextDecoder().decode(base64ToBytes(base64));
+}
+
+/** Decoded size of a base64 string, without decoding it */
+export function base64ByteLength(base64: string): number {
+  const clean = base64.replace(/\s/g, '');
+  const padding = clean.endsWith('==') ? 2 : clean.endsWith('=') ? 1 : 0;
+  return Math.floor((clean.length * 3) / 4) - padding;
+}
+
+export function formatMegabytes(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+}
@@ -0,0 +1,108 @@
+/**
+ * Git API Cache — server-side, per process (one warm serverless instance)
+ *
+ * Two stores:
+ * - responses: GET bodies keyed by URL, revalidated with `If-None-Match`.
+ *   A 304 proves the caller still has access, so bodies are shared across
+ *   sessions; GitHub does not count 304s against the rate limit.
+ * - trees: recursive trees keyed by commit SHA. A commit's tree never
+ *   changes, so these are never revalidated.
+ *
+ * Successful writes drop the repo's responses (see git-client apiCall).
+ * Hit/miss counts are logged when CMS_DEBUG=true.
+ */
+
+export type CacheKind = 'response' | 'tree';
+
+interface CachedResponse {
+  etag: string;
+  body: any;
+}
+
+// Bounded: least recently used entries are dropped first
+const MAX_RESPONSES = 500;
+// A recursive tree of an 8k-file repo is ~1 MB
+const MAX_TREES = 10;
+
+const responses = new Map<string, CachedResponse>();
+const trees = new Map<string, any[]>();
+const stats: Record<CacheKind, { hits: number; misses: number }> = {
+  response: { hits: 0, misses: 0 },
+  tree: { hits: 0, misses: 0 },
+};
+
+function isDebug(): boolean {
+  return (typeof process !== 'undefined' && process.env.CMS_DEBUG === 'true')
+    || (import.meta.env as any)?.CMS_DEBUG === 'true';
+}
+
+function touch<T>(store: Map<string, T>, key: string): T | undefined {
+  const value = store.get(key);
+  if (value !== undefined) {
+    store.delete(key);
+    store.set(key, value);
+  }
+  return value;
+}
+
+function put<T>(store: Map<string, T>, key: string, value: T, max: number): void {
+  store.delete(key);
+  store.set(key, value);
+  while (store.size > max) {
+    store.delete(store.keys().next().value!);
+  }
+}
+
+export function getCachedResponse(url: string): CachedResponse | undefined {
+  return touch(responses, url);
+}
+
+export function setCachedResponse(url: string, etag: string, body: any): void {
+  put(responses, url, { etag, body }, MAX_RESPONSES);
+}
+
+export function getCachedTree(key: string): any[] | undefined {
+  return touch(trees, key);
+}
+
+export function setCachedTree(key: string, tree: any[]): void {
+  put(trees, key, tree, MAX_TREES);
+}
+
+export function recordCacheResult(kind: CacheKind, hit: boolean, label: string): void {
+  stats[kind][hit ? 'hits' : 'misses']++;
+  if (isDebug()) {
+    const { hits, misses } = stats[kind];
+    console.debug(`[git-cache] ${kind} ${hit ? 'hit' : 'miss'} ${label} (hits=${hits}, misses=${misses})`);
+  }
+}
+
+/** Drops every cached response under `repoUrl` (e.g. `https://api.github.com/repos/o/r`) */
+export function invalidateRepo(repoUrl: string): void {
+  let dropped = 0;
+  for (const key of Array.from(responses.keys())) {
+    if (key === repoUrl || key.startsWith(`${repoUrl}/`) || key.startsWith(`${repoUrl}?`)) {
+      responses.delete(key);
+      dropped++;
+    }
+  }
+  if (isDebug() && dropped) {
+    console.debug(`[git-cache] invalidated ${dropped} responses for ${repoUrl}`);
+  }
+}
+
+export function getGitCacheStats() {
+  return {
+    response: { ...stats.response, size: responses.size },
+    tree: { ...stats.tree, size: trees.size },
+  };
+}
+
+/** Empties both stores and resets the counters (tests) */
+export function clearGitCache(): void {
+  responses.clear();
+  trees.clear();
+  for (const kind of Object.keys(stats) as CacheKind[]) {
+    stats[kind] = { hits: 0, misses: 0 };
+  }
+}
@@ -4,34 +4,99 @@
  * v2.1: Refactored to accept credentials as constructor params
  *       instead of reading global env vars. This enables multi-tenant
  *       where each user session has its own token/repo.
+ * v2.6: Branch-aware — every read passes `ref`, every write passes `branch`.
+ *       An empty branch keeps the old behaviour (repository default branch).
+ *       GitLab (`service: 'gitlab'`) is delegated to gitlab-client.ts,
+ *       a local working copy (`service: 'local'`) to local-client.ts.
+ *       Reads are cached (git-cache.ts): contents and branch lookups are
+ *       revalidated with ETags, recursive trees are keyed by commit SHA.
  */
 
+import type { FileChange, CommitResult, PullRequestInfo, FileRevision } from '../types';
+import * as gitlab from './gitlab-client';
+import * as local from './local-client';
+import * as gitCache from './git-cache';
+import { utf8ToBase64, base64ToUtf8, base64ByteLength } from './encoding';
+
 const GITHUB_API = 'https://api.github.com';
 
+// Retries when the branch moved between reading HEAD and updating the ref
+const MAX_COMMIT_ATTEMPTS = 3;
+
+// GitHub's Contents API returns no content above 1 MB; larger files use the Git Data API
+const LARGE_FILE_SIZE = 1024 * 1024;
+
+// Revisions returned by getFileHistory (one API page)
+const FILE_HISTORY_LIMIT = 30;
+
+// Branch and PR listings are paged; 100 pages cover 10,000 items on GitHub
+const LIST_PAGE_SIZE = 100;
+const MAX_LIST_PAGES = 100;
+
 export interface GitClientConfig {
   token: string;
   owner: string;
   repo: string;
   service: string;
   instanceUrl?: string;
+  /** Target branch — empty means the repository default branch */
+  branch?: string;
+  /** `service: 'local'` — working copy root (default: cwd) */
+  localRoot?: string;
+  /** `service: 'local'` — also create a git commit for every write */
+  localCommit?: boolean;
 }
 
 /**
- * Create a GitClientConfig from token + repo string.
+ * Create a GitClientConfig from token + repo string (+ optional branch/service).
  * Falls back to env vars if not provided.
+ *
+ * GitLab repos may be nested (`group/subgroup/project`) or a numeric project ID.
+ * `local` needs no token or repo — it reads CMS_LOCAL_ROOT / CMS_LOCAL_COMMIT.
  */
-export function createGitConfig(token?: string, repo?: string): GitClientConfig {
+export function createGitConfig(token?: string, repo?: string, branch?: string, service?: string, instanceUrl?: string): GitClientConfig {
   const resolvedToken = token || import.meta.env.GITHUB_TOKEN || '';
   const resolvedRepo = repo || import.meta.env.CMS_REPO || '';
-  const service = import.meta.env.CMS_SERVICE || 'github';
-  const instanceUrl = import.meta.env.CMS_INSTANCE_URL || '';
-  const [owner, repoName] = resolvedRepo.split('/');
+  const resolvedBranch = branch || import.meta.env.CMS_BRANCH || '';
+  const resolvedService = service || import.meta.env.CMS_SERVICE || 'github';
+  const resolvedInstanceUrl = instanceUrl || import.meta.env.CMS_INSTANCE_URL || '';
+
+  let owner: string;
+  let repoName: string;
+  if (resolvedService === 'gitlab') {
+    const slash = resolvedRepo.lastIndexOf('/');
+    owner = slash === -1 ? '' : resolvedRepo.slice(0, slash);
+    repoName = resolvedRepo.slice(slash + 1);
+  } else {
+    [owner, repoName] = resolvedRepo.split('/');
+  }
+
+  if (resolvedService === 'local') {
+    // No remote: the repo name is informational, credentials are not needed
+    return {
+      token: '',
+      owner: owner && repoName ? owner : 'local',
+      repo: repoName || owner || '',
+      service: resolvedService,
+      branch: '',
+      localRoot: import.meta.env.CMS_LOCAL_ROOT || '',
+      localCommit: import.meta.env.CMS_LOCAL_COMMIT === 'true',
+    };
+  }
 
-  if (!resolvedToken || !owner || !repoName) {
+  const isGitlabProjectId = resolvedService === 'gitlab' && !owner && /^\d+$/.test(repoName);
+  if (!resolvedToken || (!owner && !isGitlabProjectId) || !repoName) {
     throw new Error('Missing Git credentials (token or repo)');
   }
 
-  return { token: resolvedToken, owner, repo: repoName, service, instanceUrl };
+  return {
+    token: resolvedToken,
+    owner,
+    repo: repoName,
+    service: resolvedService,
+    instanceUrl: resolvedInstanceUrl,
+    branch: resolvedBranch,
+  };
 }
 
 function getBaseUrl(config: GitClientConfig): string {
@@ -41,11 +106,8 @@ function getBaseUrl(config: GitClientConfig): string {
   return GITHUB_API;
 }
 
-async function apiCall(config: GitClientConfig, path: string, options: RequestInit = {}): Promise<any> {
-  const baseUrl = getBaseUrl(config);
-  const url = `${baseUrl}${path}`;
-
-  const response = await fetch(url, {
+async function apiFetch(config: GitClientConfig, path: string, options: RequestInit = {}): Promise<Response> {
+  return fetch(`${getBaseUrl(config)}${path}`, {
     ...options,
     headers: {
       'Authorization': `token ${config.token}`,
@@ -54,7 +116,9 @@ async function apiCall(config: GitClientConfig, path: string, options: RequestIn
       ...options.headers,
     },
   });
+}
 
+async function readResponse(response: Response): Promise<any> {
   if (!response.ok) {
     const text = await response.text();
     throw new Error(`Git API ${response.status}: ${text}`);
@@ -68,13 +132,102 @@ async function apiCall(config: GitClientConfig, path: string, options: RequestIn
   return response.text();
 }
 
+async function apiCall(config: GitClientConfig, path: string, options: RequestInit = {}): Promise<any> {
+  const result = await readResponse(await apiFetch(config, path, options));
+  // Any successful write may change what cached reads would return
+  if (options.method && options.method !== 'GET') {
+    gitCache.invalidateRepo(repoUrl(config));
+  }
+  return result;
+}
+
+/** GET revalidated with `If-None-Match` — a 304 is answered from the cache */
+async function cachedApiCall(config: GitClientConfig, path: string, headers: Record<string, string> = {}): Promise<any> {
+  const url = `${getBaseUrl(config)}${path}`;
+  const cached = gitCache.getCachedResponse(url);
+  const response = await apiFetch(config, path, {
+    headers: cached ? { ...headers, 'If-None-Match': cached.etag } : headers,
+  });
+
+  if (response.status === 304 && cached) {
+    gitCache.recordCacheResult('response', true, path);
+    return cached.body;
+  }
+
+  const body = await readResponse(response);
+  const etag = response.headers.get('etag');
+  if (etag) gitCache.setCachedResponse(url, etag, body);
+  gitCache.recordCacheResult('response', false, path);
+  return body;
+}
+
 function repoPath(config: GitClientConfig): string {
   return `/repos/${config.owner}/${config.repo}`;
 }
 
+/** Cache scope of a repository — response keys start with it */
+function repoUrl(config: GitClientConfig): string {
+  return `${getBaseUrl(config)}${repoPath(config)}`;
+}
+
+/** Commit SHA the branch (or HEAD) points at — one conditional request */
+async function resolveHeadSha(config: GitClientConfig): Promise<string> {
+  if (config.service === 'github') {
+    const sha = await cachedApiCall(config, `${repoPath(config)}/commits/${treeRef(config)}`, {
+      'Accept': 'application/vnd.github.sha',
+    });
+    return String(sha).trim();
+  }
+  const branch = await resolveBranch(config);
+  const sha = await getBranchSha(config, branch);
+  if (!sha) throw new Error(`Git API 404: branch "${branch}" not found`);
+  return sha;
+}
+
+/** Recursive tree of the branch head, cached by commit SHA */
+async function getRecursiveTree(config: GitClientConfig): Promise<any[]> {
+  const sha = await resolveHeadSha(config);
+  const key = `${repoUrl(config)}@${sha}`;
+  const cached = gitCache.getCachedTree(key);
+  if (cached) {
+    gitCache.recordCacheResult('tree', true, key);
+    return cached;
+  }
+
+  const data = await apiCall(config, `${repoPath(config)}/git/trees/${sha}?recursive=1`);
+  const tree = data.tree || [];
+  gitCache.setCachedTree(key, tree);
+  gitCache.recordCacheResult('tree', false, key);
+  return tree;
+}
+
+/** Encodes a branch name for URL paths, keeping `/` separators (e.g. feature/x) */
+function encodeRef(branch: string): string {
+  return branch.split('/').map(encodeURIComponent).join('/');
+}
+
+/** Tree-ish used for recursive tree reads: the configured branch or HEAD */
+function treeRef(config: GitClientConfig): string {
+  return config.branch ? encodeRef(config.branch) : 'HEAD';
+}
+
+/** Appends `ref=<branch>` to a contents API path when a branch is configured */
+function withRef(config: GitClientConfig, path: string): string {
+  if (!config.branch) return path;
+  const querySymbol = path.includes('?') ? '&' : '?';
+  return `${path}${querySymbol}ref=${encodeURIComponent(config.branch)}`;
+}
+
+/** Adds `branch` to a contents API write body when a branch is configured */
+function withBranch(config: GitClientConfig, body: Record<string, any>): Record<string, any> {
+  return config.branch ? { ...body, branch: config.branch } : body;
+}
+
 // --- Exported API methods (all accept config as first param) ---
 
 export async function verifyTokenAccess(config: GitClientConfig): Promise<boolean> {
+  if (config.service === 'gitlab') return gitlab.verifyTokenAccess(config);
+  if (config.service === 'local') return local.verifyTokenAccess(config);
   try {
     await apiCall(config, `${repoPath(config)}`);
     return true;
@@ -84,12 +237,15 @@ export async function verifyTokenAccess(config: GitClientConfig): Promise<boolea
 }
 
 export async function getRepoContents(config: GitClientConfig, path: string) {
-  return apiCall(config, `${repoPath(config)}/contents/${path}`);
+  if (config.service === 'gitlab') return gitlab.getRepoContents(config, path);
+  if (config.service === 'local') return local.getRepoContents(config, path);
+  return apiCall(config, withRef(config, `${repoPath(config)}/contents/${path}`));
 }
 
 export async function listFiles(config: GitClientConfig, path: string) {
-  const tree = await apiCall(config, `${repoPath(config)}/git/trees/HEAD?recursive=1`);
-  const items = (tree.tree || [])
+  if (config.service === 'gitlab') return gitlab.listFiles(config, path);
+  if (config.service === 'local') return local.listFiles(config, path);
+  const items = (await getRecursiveTree(config))
     .filter((item: any) => item.path.startsWith(path) && item.path !== path)
     .map((item: any) => ({
       path: item.path,
@@ -102,67 +258,265 @@ export async function listFiles(config: GitClientConfig, path: string) {
 }
 
 export async function getFileContent(config: GitClientConfig, path: string) {
-  const cacheBuster = `_t=${Date.now()}`;
-  const querySymbol = path.includes('?') ? '&' : '?';
-  const data = await apiCall(config, `${repoPath(config)}/contents/${path}${querySymbol}${cacheBuster}`);
+  if (config.service === 'gitlab') return gitlab.getFileContent(config, path);
+  if (config.service === 'local') return local.getFileContent(config, path);
+  const data = await cachedApiCall(config, withRef(config, `${repoPath(config)}/contents/${path}`));
   if (data.content && data.encoding === 'base64') {
-    const binary = atob(data.content.replace(/\n/g, ''));
-    const bytes = new Uint8Array(binary.length);
-    for (let i = 0; i < binary.length; i++) {
-      bytes[i] = binary.charCodeAt(i);
-    }
-    return new TextDecoder().decode(bytes);
+    return base64ToUtf8(data.content);
+  }
+  if (!data.content && data.sha && (data.encoding === 'none' || data.size > 0)) {
+    // Above the Contents API limit (GitHub 1 MB, Gitea's max blob size): read the blob
+    const blob = await apiCall(config, `${repoPath(config)}/git/blobs/${data.sha}`);
+    return blob.encoding === 'base64' ? base64ToUtf8(blob.content || '') : blob.content || '';
   }
   return data.content || '';
 }
 
 export async function getFileSha(config: GitClientConfig, path: string): Promise<string | null> {
+  if (config.service === 'gitlab') return gitlab.getFileSha(config, path);
+  if (config.service === 'local') return local.getFileSha(config, path);
   try {
-    const cacheBuster = `_t=${Date.now()}`;
-    const querySymbol = path.includes('?') ? '&' : '?';
-    const data = await apiCall(config, `${repoPath(config)}/contents/${path}${querySymbol}${cacheBuster}`);
+    const data = await cachedApiCall(config, withRef(config, `${repoPath(config)}/contents/${path}`));
     return data.sha || null;
   } catch {
     return null;
   }
 }
 
+/**
+ * GitHub: files above LARGE_FILE_SIZE are committed through the Git Data API
+ * (blob → tree → commit). The Contents API `sha` rules are repeated here: a
+ * stale SHA fails with 409, overwriting without a SHA with 422.
+ */
+function isLargeGithubWrite(config: GitClientConfig, base64Content: string): boolean {
+  return config.service === 'github' && base64ByteLength(base64Content) > LARGE_FILE_SIZE;
+}
+
+async function writeLargeFile(config: GitClientConfig, path: string, base64Content: string, commitMessage: string, sha?: string) {
+  const currentSha = await getFileSha(config, path);
+  if (sha && currentSha && currentSha !== sha) {
+    throw new Error(`Git API 409: ${path} does not match ${sha}`);
+  }
+  if (!sha && currentSha) {
+    throw new Error(`Git API 422: "sha" wasn't supplied for existing ${path}`);
+  }
+  const result = await commitFiles(config, [{ path, content: base64Content, encoding: 'base64' }], commitMessage);
+  return { content: { path, name: path.split('/').pop() }, commit: { sha: result.sha } };
+}
+
 export async function createFileFromString(config: GitClientConfig, path: string, content: string, commitMessage: string) {
+  if (config.service === 'gitlab') return gitlab.createFileFromString(config, path, content, commitMessage);
+  if (config.service === 'local') return local.createFileFromString(config, path, content, commitMessage);
+  const base64Content = utf8ToBase64(content);
+  if (isLargeGithubWrite(config, base64Content)) {
+    return writeLargeFile(config, path, base64Content, commitMessage);
+  }
   return apiCall(config, `${repoPath(config)}/contents/${path}`, {
     method: 'PUT',
-    body: JSON.stringify({
+    body: JSON.stringify(withBranch(config, {
       message: commitMessage,
-      content: btoa(unescape(encodeURIComponent(content))),
-    }),
+      content: base64Content,
+    })),
   });
 }
 
 export async function updateFileContent(config: GitClientConfig, path: string, content: string, commitMessage: string, sha: string) {
+  if (config.service === 'gitlab') return gitlab.updateFileContent(config, path, content, commitMessage, sha);
+  if (config.service === 'local') return local.updateFileContent(config, path, content, commitMessage, sha);
+  const base64Content = utf8ToBase64(content);
+  if (isLargeGithubWrite(config, base64Content)) {
+    return writeLargeFile(config, path, base64Content, commitMessage, sha);
+  }
   return apiCall(config, `${repoPath(config)}/contents/${path}`, {
     method: 'PUT',
-    body: JSON.stringify({
+    body: JSON.stringify(withBranch(config, {
       message: commitMessage,
-      content: btoa(unescape(encodeURIComponent(content))),
+      content: base64Content,
       sha: sha,
-    }),
+    })),
   });
 }
 
 export async function deleteFile(config: GitClientConfig, path: string, sha: string, commitMessage: string) {
+  if (config.service === 'gitlab') return gitlab.deleteFile(config, path, sha, commitMessage);
+  if (config.service === 'local') return local.deleteFile(config, path, sha, commitMessage);
   return apiCall(config, `${repoPath(config)}/contents/${path}`, {
     method: 'DELETE',
-    body: JSON.stringify({
+    body: JSON.stringify(withBranch(config, {
       message: commitMessage,
       sha: sha,
-    }),
+    })),
+  });
+}
+
+/**
+ * Commits that touched `path` on the configured branch, newest first.
+ * GitHub and Gitea share the `/commits?path=` shape; Gogs has no equivalent.
+ */
+export async function getFileHistory(config: GitClientConfig, path: string): Promise<FileRevision[]> {
+  if (config.service === 'gitlab') return gitlab.getFileHistory(config, path);
+  if (config.service === 'local') return local.getFileHistory(config, path);
+  if (config.service === 'gogs') {
+    throw new Error('File history is not supported for gogs');
+  }
+  const params = new URLSearchParams({
+    path,
+    per_page: String(FILE_HISTORY_LIMIT),
+    limit: String(FILE_HISTORY_LIMIT),
+  });
+  if (config.branch) params.set('sha', config.branch);
+
+  const data = await apiCall(config, `${repoPath(config)}/commits?${params.toString()}`);
+  return (Array.isArray(data) ? data : []).map((item: any) => ({
+    sha: item.sha,
+    message: item.commit?.message || '',
+    author: item.author?.login || item.commit?.author?.name || '',
+    date: item.commit?.author?.date || item.created || '',
+    url: item.html_url || '',
+  }));
+}
+
+/** File content at a commit SHA (or any ref) */
+export async function getFileContentAt(config: GitClientConfig, path: string, ref: string): Promise<string> {
+  if (config.service === 'local') return local.getFileContentAt(config, path, ref);
+  return getFileContent({ ...config, branch: ref }, path);
+}
+
+export async function resolveBranch(config: GitClientConfig): Promise<string> {
+  if (config.service === 'gitlab') return gitlab.resolveBranch(config);
+  if (config.service === 'local') return local.resolveBranch(config);
+  if (config.branch) return config.branch;
+  const details = await cachedApiCall(config, `${repoPath(config)}`);
+  return details.default_branch;
+}
+
+/** Rejects with a 409 when a change's expected `sha` no longer matches the file at `config.branch` */
+async function assertUnchanged(config: GitClientConfig, changes: FileChange[]): Promise<void> {
+  await Promise.all(changes.filter((change) => change.sha !== undefined).map(async (change) => {
+    if ((await getFileSha(config, change.path)) !== change.sha) {
+      throw new Error(`Git API 409: ${change.path} changed since it was read`);
+    }
+  }));
+}
+
+/**
+ * Commit several files at once (create, update or delete).
+ *
+ * GitHub: Git Data API — blobs → tree on top of HEAD → commit → fast-forward ref.
+ * Gitea:  ChangeFiles endpoint (POST /contents, Gitea ≥ 1.20), also one commit.
+ * Gogs:   no multi-file API — falls back to one Contents API call per file.
+ *
+ * Changes carrying a `sha` are checked first (optimistic locking). On GitHub
+ * the check runs against the exact HEAD the commit is built on.
+ */
+export async function commitFiles(config: GitClientConfig, changes: FileChange[], commitMessage: string): Promise<CommitResult> {
+  if (changes.length === 0) {
+    throw new Error('commitFiles requires at least one change');
+  }
+
+  if (config.service !== 'github') await assertUnchanged(config, changes);
+  if (config.service === 'gitlab') return gitlab.commitFiles(config, changes, commitMessage);
+  if (config.service === 'local') return local.commitFiles(config, changes, commitMessage);
+  if (config.service === 'gitea') return commitFilesGitea(config, changes, commitMessage);
+  if (config.service === 'gogs') return commitFilesSequential(config, changes, commitMessage);
+
+  const branch = await resolveBranch(config);
+
+  // Blobs don't depend on HEAD, so create them once outside the retry loop
+  const entries = await Promise.all(changes.map(async (change) => {
+    const entry = { path: change.path, mode: '100644', type: 'blob' };
+    if (change.delete) {
+      return { ...entry, sha: null };
+    }
+    if (change.encoding === 'base64') {
+      const blob = await apiCall(config, `${repoPath(config)}/git/blobs`, {
+        method: 'POST',
+        body: JSON.stringify({ content: change.content || '', encoding: 'base64' }),
+      });
+      return { ...entry, sha: blob.sha };
+    }
+    return { ...entry, content: change.content || '' };
+  }));
+
+  for (let attempt = 1; ; attempt++) {
+    const ref = await apiCall(config, `${repoPath(config)}/git/ref/heads/${encodeRef(branch)}`);
+    const headSha: string = ref.object.sha;
+    await assertUnchanged({ ...config, branch: headSha }, changes);
+    const headCommit = await apiCall(config, `${repoPath(config)}/git/commits/${headSha}`);
+
+    const tree = await apiCall(config, `${repoPath(config)}/git/trees`, {
+      method: 'POST',
+      body: JSON.stringify({ base_tree: headCommit.tree.sha, tree: entries }),
+    });
+
+    const commit = await apiCall(config, `${repoPath(config)}/git/commits`, {
+      method: 'POST',
+      body: JSON.stringify({ message: commitMessage, tree: tree.sha, parents: [headSha] }),
+    });
+
+    try {
+      await apiCall(config, `${repoPath(config)}/git/refs/heads/${encodeRef(branch)}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ sha: commit.sha, force: false }),
+      });
+      return { sha: commit.sha, branch };
+    } catch (error: any) {
+      // 422 = not a fast-forward: someone pushed meanwhile, rebuild on the new HEAD
+      const isNotFastForward = String(error.message || '').startsWith('Git API 422');
+      if (!isNotFastForward || attempt >= MAX_COMMIT_ATTEMPTS) throw error;
+    }
+  }
+}
+
+async function commitFilesGitea(config: GitClientConfig, changes: FileChange[], commitMessage: string): Promise<CommitResult> {
+  const branch = await resolveBranch(config);
+  const branchConfig = { ...config, branch };
+
+  const files = await Promise.all(changes.map(async (change) => {
+    const sha = await getFileSha(branchConfig, change.path);
+    if (change.delete) {
+      return { operation: 'delete', path: change.path, sha };
+    }
+    const content = change.encoding === 'base64' ? (change.content || '') : utf8ToBase64(change.content || '');
+    return sha
+      ? { operation: 'update', path: change.path, content, sha }
+      : { operation: 'create', path: change.path, content };
+  }));
+
+  const result = await apiCall(config, `${repoPath(config)}/contents`, {
+    method: 'POST',
+    body: JSON.stringify({ branch, message: commitMessage, files }),
   });
+  return { sha: result?.commit?.sha || '', branch };
+}
+
+async function commitFilesSequential(config: GitClientConfig, changes: FileChange[], commitMessage: string): Promise<CommitResult> {
+  const branch = await resolveBranch(config);
+  const branchConfig = { ...config, branch };
+  let lastSha = '';
+
+  for (const change of changes) {
+    const sha = await getFileSha(branchConfig, change.path);
+    let result: any;
+    if (change.delete) {
+      if (!sha) continue;
+      result = await deleteFile(branchConfig, change.path, sha, commitMessage);
+    } else {
+      const content = change.encoding === 'base64' ? (change.content || '') : utf8ToBase64(change.content || '');
+      result = await uploadFile(branchConfig, change.path, content, commitMessage, sha || undefined);
+    }
+    lastSha = result?.commit?.sha || lastSha;
+  }
+
+  return { sha: lastSha, branch };
 }
 
 export async function scanForContentDirectories(config: GitClientConfig): Promise<string[]> {
+  if (config.service === 'gitlab') return gitlab.scanForContentDirectories(config);
+  if (config.service === 'local') return local.scanForContentDirectories(config);
   try {
-    const tree = await apiCall(config, `${repoPath(config)}/git/trees/HEAD?recursive=1`);
     const dirs = new Set<string>();
-    for (const item of tree.tree || []) {
+    for (const item of await getRecursiveTree(config)) {
       if (item.type === 'blob' && /\.(md|mdx)$/i.test(item.path)) {
         const dir = item.path.substring(0, item.path.lastIndexOf('/'));
         if (dir) dirs.add(dir);
@@ -175,10 +529,11 @@ export async function scanForContentDirectories(config: GitClientConfig): Promis
 }
 
 export async function scanForImageDirectories(config: GitClientConfig): Promise<string[]> {
+  if (config.service === 'gitlab') return gitlab.scanForImageDirectories(config);
+  if (config.service === 'local') return local.scanForImageDirectories(config);
   try {
-    const tree = await apiCall(config, `${repoPath(config)}/git/trees/HEAD?recursive=1`);
     const dirs = new Set<string>();
-    for (const item of tree.tree || []) {
+    for (const item of await getRecursiveTree(config)) {
       if (item.type === 'blob' && /\.(jpg|jpeg|png|gif|webp|svg|avif)$/i.test(item.path)) {
         const dir = item.path.substring(0, item.path.lastIndexOf('/'));
         if (dir) dirs.add(dir);
@@ -201,9 +556,12 @@ export async function findProductionUrl(config: GitClientConfig): Promise<string
 }
 
 export async function getRepoTree(config: GitClientConfig, path?: string) {
-  const treePath = path || 'HEAD';
-  const data = await apiCall(config, `${repoPath(config)}/git/trees/${treePath}?recursive=1`);
-  return (data.tree || []).map((item: any) => ({
+  if (config.service === 'gitlab') return gitlab.getRepoTree(config, path);
+  if (config.service === 'local') return local.getRepoTree(config, path);
+  const tree = path
+    ? (await cachedApiCall(config, `${repoPath(config)}/git/trees/${path}?recursive=1`)).tree || []
+    : await getRecursiveTree(config);
+  return tree.map((item: any) => ({
     path: item.path,
     name: item.path.split('/').pop(),
     type: item.type === 'tree' ? 'dir' : 'file',
@@ -213,10 +571,45 @@ export async function getRepoTree(config: GitClientConfig, path?: string) {
 }
 
 export async function getRepoDetails(config: GitClientConfig) {
+  if (config.service === 'gitlab') return gitlab.getRepoDetails(config);
+  if (config.service === 'local') return local.getRepoDetails(config);
   return apiCall(config, `${repoPath(config)}`);
 }
 
+/**
+ * List branch names (first 100 — GitHub and Gitea share the `/branches` shape)
+ */
+export async function listBranches(config: GitClientConfig): Promise<string[]> {
+  if (config.service === 'gitlab') return gitlab.listBranches(config);
+  if (config.service === 'local') return local.listBranches(config);
+  const branches = await listAllPages(config, `${repoPath(config)}/branches`, (b) => b.name);
+  return branches.map((b) => b.name);
+}
+
+/** Every page of a GitHub/Gitea/Gogs listing; `key` identifies an item */
+async function listAllPages(config: GitClientConfig, path: string, key: (item: any) => string | number): Promise<any[]> {
+  const separator = path.includes('?') ? '&' : '?';
+  const items: any[] = [];
+  const seen = new Set<string | number>();
+  for (let page = 1; page <= MAX_LIST_PAGES; page++) {
+    const data = await apiCall(config, `${path}${separator}per_page=${LIST_PAGE_SIZE}&limit=${LIST_PAGE_SIZE}&page=${page}`);
+    const batch: any[] = Array.isArray(data) ? data : [];
+    // Gogs ignores `page` and sends the full list every time
+    if (batch.length === 0 || seen.has(key(batch[0]))) break;
+    batch.forEach((item) => seen.add(key(item)));
+    items.push(...batch);
+    // Gitea caps `limit` below 100, so a short page only ends a GitHub listing
+    if (config.service === 'github' && batch.length < LIST_PAGE_SIZE) break;
+  }
+  return items;
+}
+
 export async function uploadFile(config: GitClientConfig, path: string, base64Content: string, commitMessage: string, sha?: string) {
+  if (config.service === 'gitlab') return gitlab.uploadFile(config, path, base64Content, commitMessage, sha);
+  if (config.service === 'local') return local.uploadFile(config, path, base64Content, commitMessage, sha);
+  if (isLargeGithubWrite(config, base64Content)) {
+    return writeLargeFile(config, path, base64Content, commitMessage, sha);
+  }
   const body: any = {
     message: commitMessage,
     content: base64Content,
@@ -225,19 +618,21 @@ export async function uploadFile(config: GitClientConfig, path: string, base64Co
 
   return apiCall(config, `${repoPath(config)}/contents/${path}`, {
     method: 'PUT',
-    body: JSON.stringify(body),
+    body: JSON.stringify(withBranch(config, body)),
   });
 }
 
 export async function getFileAsBlob(config: GitClientConfig, path: string): Promise<Response> {
+  if (config.service === 'gitlab') return gitlab.getFileAsBlob(config, path);
+  if (config.service === 'local') return local.getFileAsBlob(config, path);
   const baseUrl = getBaseUrl(config);
   
-  // Use raw content endpoint
+  // Use raw content endpoint (HEAD resolves to the default branch on GitHub)
   let rawUrl: string;
   if (config.service === 'github') {
-    rawUrl = `https://raw.githubusercontent.com/${config.owner}/${config.repo}/main/${path}`;
+    rawUrl = `https://raw.githubusercontent.com/${config.owner}/${config.repo}/${treeRef(config)}/${path}`;
   } else {
-    rawUrl = `${baseUrl}/repos/${config.owner}/${config.repo}/raw/${path}`;
+    rawUrl = withRef(config, `${baseUrl}/repos/${config.owner}/${config.repo}/raw/${path}`);
   }
 
   const response = await fetch(rawUrl, {
@@ -252,3 +647,131 @@ export async function getFileAsBlob(config: GitClientConfig, path: string): Prom
 
   return response;
 }
+
+// --- Branches & pull requests (GitHub + Gitea; Gogs and local have no PR API) ---
+
+function assertPullRequestSupport(config: GitClientConfig): void {
+  if (config.service === 'gogs' || config.service === 'local') {
+    throw new Error(`Pull requests are not supported for ${config.service}`);
+  }
+}
+
+function normalizePullRequest(pr: any): PullRequestInfo {
+  return {
+    number: pr.number,
+    title: pr.title || '',
+    url: pr.html_url || '',
+    head: pr.head?.ref || '',
+    base: pr.base?.ref || '',
+    state: pr.merged || pr.merged_at ? 'merged' : pr.state === 'open' ? 'open' : 'closed',
+    mergeable: typeof pr.mergeable === 'boolean' ? pr.mergeable : null,
+    author: pr.user?.login || '',
+    updatedAt: pr.updated_at || '',
+  };
+}
+
+/**
+ * Head commit SHA of a branch, or null when the branch doesn't exist
+ */
+export async function getBranchSha(config: GitClientConfig, branch: string): Promise<string | null> {
+  if (config.service === 'gitlab') return gitlab.getBranchSha(config, branch);
+  if (config.service === 'local') return local.getBranchSha(config, branch);
+  try {
+    const data = await cachedApiCall(config, `${repoPath(config)}/branches/${encodeRef(branch)}`);
+    // GitHub: commit.sha — Gitea: commit.id
+    return data.commit?.sha || data.commit?.id || null;
+  } catch (error: any) {
+    if (String(error.message || '').startsWith('Git API 404')) return null;
+    throw error;
+  }
+}
+
+export async function createBranch(config: GitClientConfig, name: string, fromBranch: string): Promise<void> {
+  if (config.service === 'gitlab') return gitlab.createBranch(config, name, fromBranch);
+  assertPullRequestSupport(config);
+  if (config.service === 'gitea') {
+    await apiCall(config, `${repoPath(config)}/branches`, {
+      method: 'POST',
+      body: JSON.stringify({ new_branch_name: name, old_branch_name: fromBranch }),
+    });
+    return;
+  }
+
+  const sha = await getBranchSha(config, fromBranch);
+  if (!sha) throw new Error(`Base branch "${fromBranch}" not found`);
+  await apiCall(config, `${repoPath(config)}/git/refs`, {
+    method: 'POST',
+    body: JSON.stringify({ ref: `refs/heads/${name}`, sha }),
+  });
+}
+
+export async function deleteBranch(config: GitClientConfig, name: string): Promise<void> {
+  if (config.service === 'gitlab') return gitlab.deleteBranch(config, name);
+  assertPullRequestSupport(config);
+  const path = config.service === 'gitea'
+    ? `${repoPath(config)}/branches/${encodeRef(name)}`
+    : `${repoPath(config)}/git/refs/heads/${encodeRef(name)}`;
+  await apiCall(config, path, { method: 'DELETE' });
+}
+
+/**
+ * Pull requests in `state`, every page. `head` limits the list to one source
+ * branch — GitHub filters on the server, Gitea's listing has no such filter.
+ */
+export async function listPullRequests(
+  config: GitClientConfig,
+  state: 'open' | 'closed' | 'all' = 'open',
+  head?: string
+): Promise<PullRequestInfo[]> {
+  if (config.service === 'gitlab') return gitlab.listPullRequests(config, state, head);
+  assertPullRequestSupport(config);
+  const headParam = head && config.service === 'github' ? `&head=${encodeURIComponent(`${config.owner}:${head}`)}` : '';
+  const data = await listAllPages(config, `${repoPath(config)}/pulls?state=${state}${headParam}`, (pr) => pr.number);
+  const pulls = data.map(normalizePullRequest);
+  return head ? pulls.filter((pr) => pr.head === head) : pulls;
+}
+
+export async function getPullRequest(config: GitClientConfig, number: number): Promise<PullRequestInfo> {
+  if (config.service === 'gitlab') return gitlab.getPullRequest(config, number);
+  assertPullRequestSupport(config);
+  return normalizePullRequest(await apiCall(config, `${repoPath(config)}/pulls/${number}`));
+}
+
+export async function createPullRequest(
+  config: GitClientConfig,
+  pr: { title: string; head: string; base: string; body?: string }
+): Promise<PullRequestInfo> {
+  if (config.service === 'gitlab') return gitlab.createPullRequest(config, pr);
+  assertPullRequestSupport(config);
+  const data = await apiCall(config, `${repoPath(config)}/pulls`, {
+    method: 'POST',
+    body: JSON.stringify(pr),
+  });
+  return normalizePullRequest(data);
+}
+
+/** Squash-merge a pull request */
+export async function mergePullRequest(config: GitClientConfig, number: number): Promise<void> {
+  if (config.service === 'gitlab') return gitlab.mergePullRequest(config, number);
+  assertPullRequestSupport(config);
+  if (config.service === 'gitea') {
+    await apiCall(config, `${repoPath(config)}/pulls/${number}/merge`, {
+      method: 'POST',
+      body: JSON.stringify({ Do: 'squash' }),
+    });
+    return;
+  }
+  await apiCall(config, `${repoPath(config)}/pulls/${number}/merge`, {
+    method: 'PUT',
+    body: JSON.stringify({ merge_method: 'squash' }),
+  });
+}
+
+export async function closePullRequest(config: GitClientConfig, number: number): Promise<void> {
+  if (config.service === 'gitlab') return gitlab.closePullRequest(config, number);
+  assertPullRequestSupport(config);
+  await apiCall(config, `${repoPath(config)}/pulls/${number}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ state: 'closed' }),
+  });
+}
@@ -0,0 +1,404 @@
+/**
+ * GitLab API Client — server-side GitLab (SaaS + self-managed) API v4 calls
+ *
+ * v2.6: Mirrors every git-client operation for `CMS_SERVICE=gitlab`.
+ *       git-client delegates here, so callers never branch on GitLab.
+ *
+ * Differences from the GitHub-shaped services handled here:
+ * - Projects are addressed by numeric ID or URL-encoded `group/subgroup/project`.
+ * - Files API requires a ref; `HEAD` stands for the default branch on reads.
+ * - Tree listings are paginated (100 per page).
+ * - Writes check the caller's blob SHA against the current one (409 on mismatch),
+ *   matching the GitHub contents API conflict behaviour.
+ */
+
+import type { GitClientConfig } from './git-client';
+import { base64ToUtf8 } from './encoding';
+import type { FileChange, CommitResult, PullRequestInfo, FileRevision } from '../types';
+
+export const GITLAB_DEFAULT_URL = 'https://gitlab.com';
+
+const PER_PAGE = 100;
+// 100 pages × 100 entries — enough for any content repo, bounded for safety
+const MAX_PAGES = 100;
+const FILE_HISTORY_LIMIT = 30;
+
+function getBaseUrl(config: GitClientConfig): string {
+  return `${(config.instanceUrl || GITLAB_DEFAULT_URL).replace(/\/+$/, '')}/api/v4`;
+}
+
+async function gitlabFetch(config: GitClientConfig, path: string, options: RequestInit = {}): Promise<Response> {
+  const response = await fetch(`${getBaseUrl(config)}${path}`, {
+    ...options,
+    headers: {
+      // Bearer works for personal, project and OAuth access tokens
+      'Authorization': `Bearer ${config.token}`,
+      'Content-Type': 'application/json',
+      ...options.headers,
+    },
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Git API ${response.status}: ${text}`);
+  }
+  return response;
+}
+
+async function gitlabCall(config: GitClientConfig, path: string, options: RequestInit = {}): Promise<any> {
+  const response = await gitlabFetch(config, path, options);
+  const contentType = response.headers.get('content-type');
+  if (contentType?.includes('application/json')) {
+    return response.json();
+  }
+  return response.text();
+}
+
+/** Follows `x-next-page` until the last page */
+async function gitlabPaginate(config: GitClientConfig, path: string): Promise<any[]> {
+  const items: any[] = [];
+  const separator = path.includes('?') ? '&' : '?';
+  let page = '1';
+  for (let count = 0; page && count < MAX_PAGES; count++) {
+    const response = await gitlabFetch(config, `${path}${separator}per_page=${PER_PAGE}&page=${page}`);
+    const data = await response.json();
+    if (!Array.isArray(data)) break;
+    items.push(...data);
+    page = response.headers.get('x-next-page') || '';
+  }
+  return items;
+}
+
+/**
+ * `/projects/:id` — a numeric project ID is used as-is, otherwise the
+ * `namespace/project` path is URL-encoded (nested groups included).
+ */
+export function projectPath(config: GitClientConfig): string {
+  const id = !config.owner && /^\d+$/.test(config.repo)
+    ? config.repo
+    : encodeURIComponent(`${config.owner}/${config.repo}`);
+  return `/projects/${id}`;
+}
+
+function filePath(config: GitClientConfig, path: string): string {
+  return `${projectPath(config)}/repository/files/${encodeURIComponent(path)}`;
+}
+
+/** Ref for reads: the configured branch or HEAD (default branch) */
+function readRef(config: GitClientConfig): string {
+  return encodeURIComponent(config.branch || 'HEAD');
+}
+
+function toTreeItem(item: any) {
+  return {
+    path: item.path,
+    name: item.name || item.path.split('/').pop(),
+    type: item.type === 'tree' ? 'dir' : 'file',
+    sha: item.id,
+  };
+}
+
+async function getRecursiveTree(config: GitClientConfig, path = ''): Promise<any[]> {
+  const pathParam = path ? `&path=${encodeURIComponent(path)}` : '';
+  return gitlabPaginate(config, `${projectPath(config)}/repository/tree?recursive=true&ref=${readRef(config)}${pathParam}`);
+}
+
+async function getFileMeta(config: GitClientConfig, path: string): Promise<any | null> {
+  try {
+    return await gitlabCall(config, `${filePath(config, path)}?ref=${readRef(config)}`);
+  } catch (error: any) {
+    if (String(error.message || '').startsWith('Git API 404')) return null;
+    throw error;
+  }
+}
+
+/** Optimistic concurrency: reject the write when the file changed since `sha` was read */
+async function assertCurrentSha(config: GitClientConfig, path: string, sha?: string): Promise<void> {
+  if (!sha) return;
+  const meta = await getFileMeta(config, path);
+  if (meta && meta.blob_id !== sha) {
+    throw new Error(`Git API 409: ${path} does not match ${sha}`);
+  }
+}
+
+// --- Repository ---
+
+export async function verifyTokenAccess(config: GitClientConfig): Promise<boolean> {
+  try {
+    await gitlabCall(config, projectPath(config));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Project normalized to the GitHub repository shape the client expects */
+export async function getRepoDetails(config: GitClientConfig) {
+  const project = await gitlabCall(config, projectPath(config));
+  return {
+    id: project.id,
+    name: project.path,
+    full_name: project.path_with_namespace,
+    private: project.visibility !== 'public',
+    html_url: project.web_url,
+    description: project.description || '',
+    pushed_at: project.last_activity_at,
+    default_branch: project.default_branch,
+    owner: {
+      login: project.namespace?.full_path || '',
+      avatar_url: project.namespace?.avatar_url || project.avatar_url || '',
+    },
+    stars_count: project.star_count,
+  };
+}
+
+export async function resolveBranch(config: GitClientConfig): Promise<string> {
+  if (config.branch) return config.branch;
+  const project = await gitlabCall(config, projectPath(config));
+  return project.default_branch;
+}
+
+export async function listBranches(config: GitClientConfig): Promise<string[]> {
+  const data = await gitlabPaginate(config, `${projectPath(config)}/repository/branches`);
+  return data.map((b: any) => b.name);
+}
+
+// --- Trees ---
+
+export async function getRepoContents(config: GitClientConfig, path: string) {
+  const pathParam = path ? `&path=${encodeURIComponent(path)}` : '';
+  const items = await gitlabPaginate(config, `${projectPath(config)}/repository/tree?ref=${readRef(config)}${pathParam}`);
+  return items.map((item: any) => ({ ...toTreeItem(item), size: 0, download_url: null }));
+}
+
+export async function listFiles(config: GitClientConfig, path: string) {
+  const items = await getRecursiveTree(config, path);
+  return items
+    .filter((item: any) => item.path.startsWith(path) && item.path !== path)
+    .map(toTreeItem);
+}
+
+export async function getRepoTree(config: GitClientConfig, path?: string) {
+  return (await getRecursiveTree(config, path)).map(toTreeItem);
+}
+
+async function scanForDirectories(config: GitClientConfig, pattern: RegExp): Promise<string[]> {
+  try {
+    const dirs = new Set<string>();
+    for (const item of await getRecursiveTree(config)) {
+      if (item.type === 'blob' && pattern.test(item.path)) {
+        const dir = item.path.substring(0, item.path.lastIndexOf('/'));
+        if (dir) dirs.add(dir);
+      }
+    }
+    return Array.from(dirs);
+  } catch {
+    return [];
+  }
+}
+
+export async function scanForContentDirectories(config: GitClientConfig): Promise<string[]> {
+  return scanForDirectories(config, /\.(md|mdx)$/i);
+}
+
+export async function scanForImageDirectories(config: GitClientConfig): Promise<string[]> {
+  return scanForDirectories(config, /\.(jpg|jpeg|png|gif|webp|svg|avif)$/i);
+}
+
+// --- Files ---
+
+export async function getFileContent(config: GitClientConfig, path: string): Promise<string> {
+  const data = await gitlabCall(config, `${filePath(config, path)}?ref=${readRef(config)}`);
+  if (data.content && data.encoding === 'base64') {
+    return base64ToUtf8(data.content);
+  }
+  return data.content || '';
+}
+
+export async function getFileSha(config: GitClientConfig, path: string): Promise<string | null> {
+  try {
+    const meta = await getFileMeta(config, path);
+    return meta?.blob_id || null;
+  } catch {
+    return null;
+  }
+}
+
+export async function createFileFromString(config: GitClientConfig, path: string, content: string, commitMessage: string) {
+  return gitlabCall(config, filePath(config, path), {
+    method: 'POST',
+    body: JSON.stringify({
+      branch: await resolveBranch(config),
+      content,
+      commit_message: commitMessage,
+    }),
+  });
+}
+
+export async function updateFileContent(config: GitClientConfig, path: string, content: string, commitMessage: string, sha: string) {
+  await assertCurrentSha(config, path, sha);
+  return gitlabCall(config, filePath(config, path), {
+    method: 'PUT',
+    body: JSON.stringify({
+      branch: await resolveBranch(config),
+      content,
+      commit_message: commitMessage,
+    }),
+  });
+}
+
+export async function deleteFile(config: GitClientConfig, path: string, sha: string, commitMessage: string) {
+  await assertCurrentSha(config, path, sha);
+  return gitlabCall(config, filePath(config, path), {
+    method: 'DELETE',
+    body: JSON.stringify({
+      branch: await resolveBranch(config),
+      commit_message: commitMessage,
+    }),
+  });
+}
+
+export async function uploadFile(config: GitClientConfig, path: string, base64Content: string, commitMessage: string, sha?: string) {
+  await assertCurrentSha(config, path, sha);
+  const exists = sha ? true : (await getFileMeta(config, path)) !== null;
+  return gitlabCall(config, filePath(config, path), {
+    method: exists ? 'PUT' : 'POST',
+    body: JSON.stringify({
+      branch: await resolveBranch(config),
+      content: base64Content,
+      encoding: 'base64',
+      commit_message: commitMessage,
+    }),
+  });
+}
+
+export async function getFileAsBlob(config: GitClientConfig, path: string): Promise<Response> {
+  const response = await fetch(`${getBaseUrl(config)}${filePath(config, path)}/raw?ref=${readRef(config)}`, {
+    headers: { 'Authorization': `Bearer ${config.token}` },
+  });
+  if (!response.ok) {
+    throw new Error(`Blob fetch ${response.status}`);
+  }
+  return response;
+}
+
+/** One atomic commit through the Commits API (`actions[]`) */
+export async function commitFiles(config: GitClientConfig, changes: FileChange[], commitMessage: string): Promise<CommitResult> {
+  const branch = await resolveBranch(config);
+  const branchConfig = { ...config, branch };
+
+  const actions = await Promise.all(changes.map(async (change) => {
+    if (change.delete) {
+      return { action: 'delete', file_path: change.path };
+    }
+    const exists = (await getFileMeta(branchConfig, change.path)) !== null;
+    return {
+      action: exists ? 'update' : 'create',
+      file_path: change.path,
+      content: change.content || '',
+      encoding: change.encoding === 'base64' ? 'base64' : 'text',
+    };
+  }));
+
+  const commit = await gitlabCall(config, `${projectPath(config)}/repository/commits`, {
+    method: 'POST',
+    body: JSON.stringify({ branch, commit_message: commitMessage, actions }),
+  });
+  return { sha: commit.id, branch };
+}
+
+export async function getFileHistory(config: GitClientConfig, path: string): Promise<FileRevision[]> {
+  const params = new URLSearchParams({ path, per_page: String(FILE_HISTORY_LIMIT) });
+  if (config.branch) params.set('ref_name', config.branch);
+  const data = await gitlabCall(config, `${projectPath(config)}/repository/commits?${params.toString()}`);
+  return (Array.isArray(data) ? data : []).map((item: any) => ({
+    sha: item.id,
+    message: item.message || item.title || '',
+    author: item.author_name || '',
+    date: item.authored_date || item.created_at || '',
+    url: item.web_url || '',
+  }));
+}
+
+// --- Branches & merge requests ---
+
+export async function getBranchSha(config: GitClientConfig, branch: string): Promise<string | null> {
+  try {
+    const data = await gitlabCall(config, `${projectPath(config)}/repository/branches/${encodeURIComponent(branch)}`);
+    return data.commit?.id || null;
+  } catch (error: any) {
+    if (String(error.message || '').startsWith('Git API 404')) return null;
+    throw error;
+  }
+}
+
+export async function createBranch(config: GitClientConfig, name: string, fromBranch: string): Promise<void> {
+  const params = new URLSearchParams({ branch: name, ref: fromBranch });
+  await gitlabCall(config, `${projectPath(config)}/repository/branches?${params.toString()}`, { method: 'POST' });
+}
+
+export async function deleteBranch(config: GitClientConfig, name: string): Promise<void> {
+  await gitlabCall(config, `${projectPath(config)}/repository/branches/${encodeURIComponent(name)}`, { method: 'DELETE' });
+}
+
+function normalizeMergeRequest(mr: any): PullRequestInfo {
+  const status = mr.detailed_merge_status || mr.merge_status;
+  return {
+    number: mr.iid,
+    title: mr.title || '',
+    url: mr.web_url || '',
+    head: mr.source_branch || '',
+    base: mr.target_branch || '',
+    state: mr.state === 'merged' ? 'merged' : mr.state === 'opened' ? 'open' : 'closed',
+    mergeable: status === 'can_be_merged' || status === 'mergeable'
+      ? true
+      : status === 'cannot_be_merged' || status === 'conflict' ? false : null,
+    author: mr.author?.username || '',
+    updatedAt: mr.updated_at || '',
+  };
+}
+
+export async function listPullRequests(
+  config: GitClientConfig,
+  state: 'open' | 'closed' | 'all' = 'open',
+  head?: string
+): Promise<PullRequestInfo[]> {
+  const gitlabState = state === 'open' ? 'opened' : state;
+  const headParam = head ? `&source_branch=${encodeURIComponent(head)}` : '';
+  const data = await gitlabPaginate(config, `${projectPath(config)}/merge_requests?state=${gitlabState}${headParam}`);
+  return data.map(normalizeMergeRequest);
+}
+
+export async function getPullRequest(config: GitClientConfig, number: number): Promise<PullRequestInfo> {
+  return normalizeMergeRequest(await gitlabCall(config, `${projectPath(config)}/merge_requests/${number}`));
+}
+
+export async function createPullRequest(
+  config: GitClientConfig,
+  pr: { title: string; head: string; base: string; body?: string }
+): Promise<PullRequestInfo> {
+  const data = await gitlabCall(config, `${projectPath(config)}/merge_requests`, {
+    method: 'POST',
+    body: JSON.stringify({
+      title: pr.title,
+      source_branch: pr.head,
+      target_branch: pr.base,
+      description: pr.body || '',
+    }),
+  });
+  return normalizeMergeRequest(data);
+}
+
+export async function mergePullRequest(config: GitClientConfig, number: number): Promise<void> {
+  await gitlabCall(config, `${projectPath(config)}/merge_requests/${number}/merge`, {
+    method: 'PUT',
+    body: JSON.stringify({ squash: true }),
+  });
+}
+
+export async function closePullRequest(config: GitClientConfig, number: number): Promise<void> {
+  await gitlabCall(config, `${projectPath(config)}/merge_requests/${number}`, {
+    method: 'PUT',
+    body: JSON.stringify({ state_event: 'close' }),
+  });
+}
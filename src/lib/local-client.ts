@@ -0,0 +1,420 @@
+/**
+ * Local Filesystem Client — `CMS_SERVICE=local`
+ *
+ * v2.6: Mirrors the git-client operations against a working copy on disk
+ *       (local development, air-gapped installs). git-client delegates here.
+ *
+ * - Files live under `config.localRoot` (CMS_LOCAL_ROOT, default: cwd).
+ * - SHAs are git blob SHAs computed from the file bytes, so the optimistic
+ *   concurrency check behaves like the GitHub contents API (409 on mismatch).
+ * - With `config.localCommit` (CMS_LOCAL_COMMIT=true) every write also becomes
+ *   a real commit in the local repository; otherwise files are only written.
+ * - The working copy is the only branch: reads ignore `config.branch`,
+ *   branches and pull requests are not supported.
+ *
+ * Node built-ins are imported lazily so git-client stays edge-safe for the
+ * remote services.
+ */
+
+import type { GitClientConfig } from './git-client';
+import type { FileChange, CommitResult, FileRevision } from '../types';
+
+// Never listed or written: VCS internals, dependencies, build output
+const IGNORED_DIRS = new Set(['.git', 'node_modules', 'dist', '.astro', '.vercel']);
+
+const FILE_HISTORY_LIMIT = 30;
+
+// Fallback branch name when the root is not a git repository
+const NO_GIT_BRANCH = 'local';
+
+async function nodeModules() {
+  const [fs, path, crypto, childProcess, util] = await Promise.all([
+    import('node:fs/promises'),
+    import('node:path'),
+    import('node:crypto'),
+    import('node:child_process'),
+    import('node:util'),
+  ]);
+  return { fs, path, crypto, execFile: util.promisify(childProcess.execFile) };
+}
+
+function getRoot(config: GitClientConfig): string {
+  return config.localRoot || process.cwd();
+}
+
+function notFound(path: string): Error {
+  return new Error(`Git API 404: ${path} not found`);
+}
+
+/**
+ * Absolute path for a repo-relative path. Rejects anything resolving outside
+ * the root or into an ignored directory — isPathAllowed runs in the routes,
+ * this is the filesystem-level backstop.
+ */
+async function resolvePath(config: GitClientConfig, relativePath: string): Promise<string> {
+  const { path } = await nodeModules();
+  const root = path.resolve(getRoot(config));
+  const absolute = path.resolve(root, relativePath.replace(/^\/+/, ''));
+  const relative = path.relative(root, absolute);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`Git API 403: ${relativePath} is outside the content root`);
+  }
+  if (relative.split(path.sep).some((segment) => IGNORED_DIRS.has(segment))) {
+    throw new Error(`Git API 403: ${relativePath} is not allowed`);
+  }
+  return absolute;
+}
+
+async function readBytes(config: GitClientConfig, path: string): Promise<Buffer | null> {
+  const { fs } = await nodeModules();
+  try {
+    return await fs.readFile(await resolvePath(config, path));
+  } catch (error: any) {
+    if (error.code === 'ENOENT' || error.code === 'EISDIR') return null;
+    throw error;
+  }
+}
+
+/** Same SHA git would give the file (`git hash-object`) */
+async function blobSha(bytes: Buffer): Promise<string> {
+  const { crypto } = await nodeModules();
+  return crypto.createHash('sha1')
+    .update(`blob ${bytes.length}\0`)
+    .update(bytes)
+    .digest('hex');
+}
+
+async function git(config: GitClientConfig, args: string[]): Promise<string> {
+  const { execFile } = await nodeModules();
+  const { stdout } = await execFile('git', args, { cwd: getRoot(config), maxBuffer: 32 * 1024 * 1024 });
+  return stdout;
+}
+
+async function isGitRepo(config: GitClientConfig): Promise<boolean> {
+  try {
+    return (await git(config, ['rev-parse', '--is-inside-work-tree'])).trim() === 'true';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Blob SHAs of the files under `scope`, keyed by repo-relative path. In a git
+ * checkout, files that match the index take their SHA from `git ls-files -s`;
+ * only modified and untracked files in `paths` are read and hashed.
+ */
+async function blobShas(config: GitClientConfig, scope: string, paths: string[]): Promise<Map<string, string>> {
+  const shas = new Map<string, string>();
+  if (await isGitRepo(config)) {
+    const pathspec = scope || '.';
+    for (const record of (await git(config, ['ls-files', '-s', '-z', '--', pathspec])).split('\0')) {
+      const match = /^\d+ ([0-9a-f]+) \d\t([\s\S]+)$/.exec(record);
+      if (match) shas.set(match[2], match[1]);
+    }
+    // Lists stat-dirty files as well; those are just hashed below
+    const changed = await git(config, ['diff-files', '--name-only', '--relative', '-z', '--', pathspec]);
+    changed.split('\0').forEach((path) => shas.delete(path));
+  }
+  for (const path of paths) {
+    if (shas.has(path)) continue;
+    const bytes = await readBytes(config, path);
+    if (bytes) shas.set(path, await blobSha(bytes));
+  }
+  return shas;
+}
+
+/** SHA of one file, null when it doesn't exist */
+async function fileSha(config: GitClientConfig, path: string): Promise<string | null> {
+  const { fs } = await nodeModules();
+  try {
+    if (!(await fs.stat(await resolvePath(config, path))).isFile()) return null;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+  const relative = path.replace(/^\/+/, '');
+  return (await blobShas(config, relative, [relative])).get(relative) ?? null;
+}
+
+/** Optimistic concurrency: reject the write when the file changed since `sha` was read */
+async function assertCurrentSha(config: GitClientConfig, path: string, sha?: string): Promise<void> {
+  if (!sha) return;
+  const current = await fileSha(config, path);
+  if (current && current !== sha) {
+    throw new Error(`Git API 409: ${path} does not match ${sha}`);
+  }
+}
+
+async function writeBytes(config: GitClientConfig, path: string, bytes: Buffer): Promise<void> {
+  const { fs, path: nodePath } = await nodeModules();
+  const absolute = await resolvePath(config, path);
+  await fs.mkdir(nodePath.dirname(absolute), { recursive: true });
+  await fs.writeFile(absolute, bytes);
+}
+
+/** Commits `paths` when CMS_LOCAL_COMMIT is on; returns the commit SHA or '' */
+async function commitPaths(config: GitClientConfig, paths: string[], commitMessage: string): Promise<string> {
+  if (!config.localCommit || !(await isGitRepo(config))) return '';
+  await git(config, ['add', '-A', '--', ...paths]);
+  const staged = await git(config, ['diff', '--cached', '--name-only', '--', ...paths]);
+  if (!staged.trim()) return '';
+  await git(config, ['commit', '-m', commitMessage, '--', ...paths]);
+  return (await git(config, ['rev-parse', 'HEAD'])).trim();
+}
+
+/** GitHub contents API write response shape */
+async function writeResult(config: GitClientConfig, path: string, written: boolean, commitSha: string) {
+  return {
+    content: written ? { path, name: path.split('/').pop(), sha: await fileSha(config, path) } : null,
+    commit: { sha: commitSha },
+  };
+}
+
+type TreeEntry = { path: string; name: string; type: 'dir' | 'file'; sha: string; size: number };
+
+/** Every file and directory under `dir`, with SHAs */
+async function walk(config: GitClientConfig, dir: string): Promise<TreeEntry[]> {
+  const items = await walkEntries(config, dir);
+  const shas = await blobShas(config, dir, items.filter((item) => item.type === 'file').map((item) => item.path));
+  return items.map((item) => (item.type === 'file' ? { ...item, sha: shas.get(item.path) || '' } : item));
+}
+
+/** Every file and directory under `dir`; file sizes come from stat, SHAs are left empty */
+async function walkEntries(config: GitClientConfig, dir: string): Promise<TreeEntry[]> {
+  const { fs, path: nodePath } = await nodeModules();
+  let entries;
+  try {
+    entries = await fs.readdir(await resolvePath(config, dir), { withFileTypes: true });
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const items: TreeEntry[] = [];
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    if (IGNORED_DIRS.has(entry.name)) continue;
+    const relative = dir ? nodePath.posix.join(dir, entry.name) : entry.name;
+    if (entry.isDirectory()) {
+      items.push({ path: relative, name: entry.name, type: 'dir' as const, sha: '', size: 0 });
+      items.push(...await walkEntries(config, relative));
+    } else if (entry.isFile()) {
+      const { size } = await fs.stat(await resolvePath(config, relative));
+      items.push({ path: relative, name: entry.name, type: 'file' as const, sha: '', size });
+    }
+  }
+  return items;
+}
+
+async function scanForDirectories(config: GitClientConfig, pattern: RegExp): Promise<string[]> {
+  try {
+    const dirs = new Set<string>();
+    for (const item of await walkEntries(config, '')) {
+      if (item.type === 'file' && pattern.test(item.path)) {
+        const dir = item.path.substring(0, item.path.lastIndexOf('/'));
+        if (dir) dirs.add(dir);
+      }
+    }
+    return Array.from(dirs);
+  } catch {
+    return [];
+  }
+}
+
+// --- Repository ---
+
+export async function verifyTokenAccess(config: GitClientConfig): Promise<boolean> {
+  const { fs } = await nodeModules();
+  try {
+    return (await fs.stat(getRoot(config))).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+export async function resolveBranch(config: GitClientConfig): Promise<string> {
+  try {
+    const branch = (await git(config, ['rev-parse', '--abbrev-ref', 'HEAD'])).trim();
+    return branch && branch !== 'HEAD' ? branch : NO_GIT_BRANCH;
+  } catch {
+    return NO_GIT_BRANCH;
+  }
+}
+
+/** Working copy normalized to the GitHub repository shape the client expects */
+export async function getRepoDetails(config: GitClientConfig) {
+  const { path } = await nodeModules();
+  const root = path.resolve(getRoot(config));
+  const name = config.repo || path.basename(root);
+  return {
+    name,
+    full_name: `${config.owner}/${name}`,
+    private: true,
+    html_url: '',
+    description: root,
+    pushed_at: new Date().toISOString(),
+    default_branch: await resolveBranch(config),
+    owner: { login: config.owner },
+  };
+}
+
+export async function listBranches(config: GitClientConfig): Promise<string[]> {
+  return [await resolveBranch(config)];
+}
+
+// --- Trees ---
+
+export async function getRepoContents(config: GitClientConfig, path: string) {
+  const { fs, path: nodePath } = await nodeModules();
+  const absolute = await resolvePath(config, path);
+  let entries;
+  try {
+    entries = await fs.readdir(absolute, { withFileTypes: true });
+  } catch (error: any) {
+    if (error.code === 'ENOENT') throw notFound(path);
+    throw error;
+  }
+
+  const files = entries
+    .filter((entry) => entry.isFile() && !IGNORED_DIRS.has(entry.name))
+    .map((entry) => (path ? nodePath.posix.join(path, entry.name) : entry.name));
+  const shas = await blobShas(config, path, files);
+
+  const items = [];
+  for (const entry of entries) {
+    if (IGNORED_DIRS.has(entry.name) || !(entry.isDirectory() || entry.isFile())) continue;
+    const relative = path ? nodePath.posix.join(path, entry.name) : entry.name;
+    const size = entry.isFile() ? (await fs.stat(await resolvePath(config, relative))).size : 0;
+    items.push({
+      name: entry.name,
+      path: relative,
+      type: entry.isDirectory() ? 'dir' : 'file',
+      sha: shas.get(relative) || '',
+      size,
+      download_url: null,
+    });
+  }
+  return items;
+}
+
+export async function listFiles(config: GitClientConfig, path: string) {
+  return (await walk(config, path)).filter((item) => item.path !== path);
+}
+
+export async function getRepoTree(config: GitClientConfig, path?: string) {
+  return walk(config, path || '');
+}
+
+export async function scanForContentDirectories(config: GitClientConfig): Promise<string[]> {
+  return scanForDirectories(config, /\.(md|mdx)$/i);
+}
+
+export async function scanForImageDirectories(config: GitClientConfig): Promise<string[]> {
+  return scanForDirectories(config, /\.(jpg|jpeg|png|gif|webp|svg|avif)$/i);
+}
+
+// --- Files ---
+
+export async function getFileContent(config: GitClientConfig, path: string): Promise<string> {
+  const bytes = await readBytes(config, path);
+  if (!bytes) throw notFound(path);
+  return new TextDecoder().decode(bytes);
+}
+
+export async function getFileSha(config: GitClientConfig, path: string): Promise<string | null> {
+  try {
+    return await fileSha(config, path);
+  } catch {
+    return null;
+  }
+}
+
+export async function createFileFromString(config: GitClientConfig, path: string, content: string, commitMessage: string) {
+  if (await readBytes(config, path)) {
+    throw new Error(`Git API 422: ${path} already exists`);
+  }
+  const bytes = Buffer.from(content, 'utf-8');
+  await writeBytes(config, path, bytes);
+  return writeResult(config, path, true, await commitPaths(config, [path], commitMessage));
+}
+
+export async function updateFileContent(config: GitClientConfig, path: string, content: string, commitMessage: string, sha: string) {
+  await assertCurrentSha(config, path, sha);
+  const bytes = Buffer.from(content, 'utf-8');
+  await writeBytes(config, path, bytes);
+  return writeResult(config, path, true, await commitPaths(config, [path], commitMessage));
+}
+
+export async function deleteFile(config: GitClientConfig, path: string, sha: string, commitMessage: string) {
+  const { fs } = await nodeModules();
+  await assertCurrentSha(config, path, sha);
+  try {
+    await fs.unlink(await resolvePath(config, path));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') throw notFound(path);
+    throw error;
+  }
+  return writeResult(config, path, false, await commitPaths(config, [path], commitMessage));
+}
+
+export async function uploadFile(config: GitClientConfig, path: string, base64Content: string, commitMessage: string, sha?: string) {
+  await assertCurrentSha(config, path, sha);
+  const bytes = Buffer.from(base64Content, 'base64');
+  await writeBytes(config, path, bytes);
+  return writeResult(config, path, true, await commitPaths(config, [path], commitMessage));
+}
+
+export async function getFileAsBlob(config: GitClientConfig, path: string): Promise<Response> {
+  const bytes = await readBytes(config, path);
+  if (!bytes) {
+    throw new Error('Blob fetch 404');
+  }
+  return new Response(new Uint8Array(bytes));
+}
+
+/** Writes every change, then one commit for all of them (when enabled) */
+export async function commitFiles(config: GitClientConfig, changes: FileChange[], commitMessage: string): Promise<CommitResult> {
+  const { fs } = await nodeModules();
+  for (const change of changes) {
+    if (change.delete) {
+      await fs.rm(await resolvePath(config, change.path), { force: true });
+    } else {
+      const encoding = change.encoding === 'base64' ? 'base64' : 'utf-8';
+      await writeBytes(config, change.path, Buffer.from(change.content || '', encoding));
+    }
+  }
+  const sha = await commitPaths(config, changes.map((change) => change.path), commitMessage);
+  return { sha, branch: await resolveBranch(config) };
+}
+
+// --- History (requires the root to be a git repository) ---
+
+export async function getFileHistory(config: GitClientConfig, path: string): Promise<FileRevision[]> {
+  if (!(await isGitRepo(config))) {
+    throw new Error('File history requires the local root to be a git repository');
+  }
+  // Unit separator between fields, record separator between commits
+  const output = await git(config, [
+    'log', `-n${FILE_HISTORY_LIMIT}`, '--format=%H%x1f%an%x1f%aI%x1f%B%x1e', '--', path,
+  ]);
+  return output.split('\x1e').map((record) => record.trim()).filter(Boolean).map((record) => {
+    const [sha, author, date, message] = record.split('\x1f');
+    return { sha, author, date, message: (message || '').trim(), url: '' };
+  });
+}
+
+export async function getFileContentAt(config: GitClientConfig, path: string, ref: string): Promise<string> {
+  if (!/^[\w./-]+$/.test(ref) || ref.startsWith('-')) {
+    throw new Error(`Invalid ref: ${ref}`);
+  }
+  await resolvePath(config, path);
+  return git(config, ['show', `${ref}:${path.replace(/^\/+/, '')}`]);
+}
+
+export async function getBranchSha(config: GitClientConfig, branch: string): Promise<string | null> {
+  if (branch !== (await resolveBranch(config))) return null;
+  try {
+    return (await git(config, ['rev-parse', 'HEAD'])).trim();
+  } catch {
+    return null;
+  }
+}
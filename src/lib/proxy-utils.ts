@@ -128,7 +128,7 @@ export async function createAuthenticatedBlobResponse(
   }
 
   const creds = resolveGitCredentials(session);
-  const config = createGitConfig(creds.token, creds.repo);
+  const config = createGitConfig(creds.token, creds.repo, creds.branch, creds.service, creds.instanceUrl);
   const decodedPath = decodeURIComponent(filePath);
 
   if (!isPathAllowed(decodedPath)) {
@@ -0,0 +1,140 @@
+/**
+ * Scheduled publishing — server-side publish runner
+ *
+ * Collections with a `schedule` in `.pageelrc.json` are scanned for posts
+ * whose publication time has passed (see utils/schedule). Every due post is
+ * flipped to published in a single commit, together with an entry appended
+ * to `.pageel/publish-log.json` so the dashboard can show what ran.
+ *
+ * Runs against a `PublishBackend` so it can be exercised without a Git
+ * service — see createMemoryPublishBackend().
+ */
+
+import * as git from './git-client';
+import type { GitClientConfig } from './git-client';
+import type { FileChange } from '../types';
+import { parseSchedule } from '../features/collections/sync';
+import { parseMarkdown, buildMarkdown } from '../utils/parsing';
+import { isDue, scheduledAt, publishedFrontmatter, PUBLISH_LOG_PATH } from '../utils/schedule';
+import type { PublishRun } from '../utils/schedule';
+import { isInCollectionFolder } from '../utils/filenamePattern';
+import type { CollectionSchedule } from '../features/collections/types';
+
+// Runs kept in the log, newest first
+const PUBLISH_LOG_LIMIT = 50;
+
+const MARKDOWN_FILE = /\.(md|mdx)$/i;
+
+/** The subset of Git operations the publish runner needs */
+export interface PublishBackend {
+  /** File content, null when missing */
+  readFile(path: string): Promise<string | null>;
+  /** Paths of all files under `dir`, at any depth */
+  listFiles(dir: string): Promise<string[]>;
+  commit(changes: FileChange[], commitMessage: string): Promise<void>;
+}
+
+export function createGitPublishBackend(config: GitClientConfig): PublishBackend {
+  return {
+    readFile: async (path) => {
+      try {
+        return await git.getFileContent(config, path);
+      } catch (error: any) {
+        if (String(error.message || '').startsWith('Git API 404')) return null;
+        throw error;
+      }
+    },
+    listFiles: async (dir) => (await git.listFiles(config, dir))
+      .filter((item: any) => item.type === 'file')
+      .map((item: any) => item.path),
+    commit: async (changes, commitMessage) => {
+      await git.commitFiles(config, changes, commitMessage);
+    },
+  };
+}
+
+/** In-memory PublishBackend for tests and offline development */
+export function createMemoryPublishBackend(
+  initial: Record<string, string> = {}
+): PublishBackend & { files: Map<string, string>; commits: { message: string; paths: string[] }[] } {
+  const files = new Map(Object.entries(initial));
+  const commits: { message: string; paths: string[] }[] = [];
+  return {
+    files,
+    commits,
+    readFile: async (path) => files.get(path) ?? null,
+    listFiles: async (dir) => [...files.keys()].filter((path) => path.startsWith(`${dir.replace(/\/+$/, '')}/`)),
+    commit: async (changes, message) => {
+      changes.forEach((change) => {
+        if (change.delete) files.delete(change.path);
+        else files.set(change.path, change.content ?? '');
+      });
+      commits.push({ message, paths: changes.map((change) => change.path) });
+    },
+  };
+}
+
+/** Scheduled collections of `.pageelrc.json` (posts collections only) */
+async function readScheduledCollections(backend: PublishBackend): Promise<{ id: string; postsPath: string; schedule: CollectionSchedule }[]> {
+  const raw = await backend.readFile('.pageelrc.json');
+  if (!raw) return [];
+  const config = JSON.parse(raw);
+  if (config.version !== 2 || !Array.isArray(config.collections)) return [];
+  return config.collections
+    .filter((c: any) => c && c.kind !== 'data' && typeof c.postsPath === 'string' && c.postsPath)
+    .map((c: any) => ({ id: String(c.id), postsPath: c.postsPath as string, schedule: parseSchedule(c.schedule) }))
+    .filter((c: { schedule?: CollectionSchedule }) => c.schedule);
+}
+
+/** Previous runs from the publish log, newest first */
+export async function readPublishLog(backend: PublishBackend): Promise<PublishRun[]> {
+  const raw = await backend.readFile(PUBLISH_LOG_PATH);
+  if (!raw) return [];
+  try {
+    const runs = JSON.parse(raw);
+    return Array.isArray(runs) ? runs : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Publishes every due post in one commit. Nothing is written when no post
+ * is due, so a frequent cron doesn't flood the history.
+ */
+export async function runScheduledPublish(backend: PublishBackend, now: Date = new Date()): Promise<PublishRun> {
+  const run: PublishRun = { ranAt: now.toISOString(), published: [], errors: [] };
+  const changes: FileChange[] = [];
+
+  for (const collection of await readScheduledCollections(backend)) {
+    const paths = (await backend.listFiles(collection.postsPath))
+      .filter((path) => isInCollectionFolder(path, collection.postsPath) && MARKDOWN_FILE.test(path));
+
+    for (const path of paths) {
+      try {
+        const content = await backend.readFile(path);
+        if (content === null) continue;
+        const { frontmatter, body } = parseMarkdown(content);
+        if (!isDue(frontmatter, collection.schedule, now)) continue;
+
+        changes.push({ path, content: buildMarkdown(publishedFrontmatter(frontmatter, collection.schedule), body) });
+        run.published.push({
+          collection: collection.id,
+          path,
+          scheduledAt: scheduledAt(frontmatter, collection.schedule)!.toISOString(),
+        });
+      } catch (e) {
+        run.errors.push({ path, message: e instanceof Error ? e.message : String(e) });
+      }
+    }
+  }
+
+  if (run.published.length === 0) return run;
+
+  const log = [run, ...(await readPublishLog(backend))].slice(0, PUBLISH_LOG_LIMIT);
+  changes.push({ path: PUBLISH_LOG_PATH, content: `${JSON.stringify(log, null, 2)}\n` });
+
+  const names = run.published.map((entry) => `- ${entry.collection}: ${entry.path}`);
+  await backend.commit(changes, `chore(content): publish ${run.published.length} scheduled post(s)\n\n${names.join('\n')}`);
+  return run;
+}
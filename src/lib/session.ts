@@ -2,7 +2,7 @@
  * Session management — HMAC-SHA256 signed cookies
  * 
  * Cookie format: base64(payload).base64(signature)
- * Payload: { user, exp, repo?, token? }
+ * Payload: { user, exp, repo?, token?, branch?, service? }
  * 
  * v2.1: Extended to support Dynamic Session Credentials (Multi-Tenant)
  *       When CMS_REPO/GITHUB_TOKEN are missing from env, user supplies them
@@ -76,6 +76,10 @@ export interface SessionPayload {
   token?: string;
   /** User role for RBAC */
   role?: string;
+  /** Selected branch — overrides env CMS_BRANCH when set */
+  branch?: string;
+  /** Dynamic Git service (github | gitea | gogs | gitlab) — only set when env CMS_SERVICE is missing */
+  service?: string;
 }
 
 /**
@@ -86,6 +90,10 @@ export interface CreateSessionOptions {
   repo?: string;
   token?: string;
   role?: string;
+  branch?: string;
+  service?: string;
+  /** Keep an existing expiry (unix seconds) when re-issuing a session */
+  exp?: number;
 }
 
 /**
@@ -95,13 +103,15 @@ export async function createSession(options: CreateSessionOptions): Promise<stri
   const secret = getSecret();
   const payload: SessionPayload = {
     user: options.username,
-    exp: Math.floor(Date.now() / 1000) + MAX_AGE,
+    exp: options.exp || Math.floor(Date.now() / 1000) + MAX_AGE,
   };
 
   // Only embed credentials when env vars are missing (Dynamic Session mode)
   if (options.repo) payload.repo = options.repo;
   if (options.token) payload.token = options.token;
   if (options.role) payload.role = options.role;
+  if (options.branch) payload.branch = options.branch;
+  if (options.service) payload.service = options.service;
 
   const payloadStr = btoa(JSON.stringify(payload));
   const signature = await hmacSign(payloadStr, secret);
@@ -149,18 +159,29 @@ export function getSessionCookieOptions(isProd: boolean) {
 }
 
 /**
- * Resolve Git credentials: prefer env vars, fallback to session payload
+ * Resolve Git credentials: prefer env vars, fallback to session payload.
+ * Branch is the exception — a branch picked in the session wins over env CMS_BRANCH.
  */
 export function resolveGitCredentials(session: SessionPayload): {
   token: string;
   repo: string;
+  branch: string;
+  service: string;
+  instanceUrl: string;
 } {
   const envToken = import.meta.env.GITHUB_TOKEN || '';
   const envRepo = import.meta.env.CMS_REPO || '';
+  const envBranch = import.meta.env.CMS_BRANCH || '';
+  const envService = import.meta.env.CMS_SERVICE || '';
+  const envInstanceUrl = import.meta.env.CMS_INSTANCE_URL || '';
 
   return {
     token: envToken || session.token || '',
     repo: envRepo || session.repo || '',
+    branch: session.branch || envBranch,
+    service: envService || session.service || 'github',
+    // Only ever from env: the token is sent to this host
+    instanceUrl: envInstanceUrl,
   };
 }
 
@@ -168,6 +189,8 @@ export function resolveGitCredentials(session: SessionPayload): {
  * Check if server has hardcoded Git env vars
  */
 export function hasEnvGitConfig(): boolean {
+  // The local filesystem backend has no remote credentials to ask for
+  if (import.meta.env.CMS_SERVICE === 'local') return true;
   return !!(import.meta.env.GITHUB_TOKEN && import.meta.env.CMS_REPO);
 }
 
@@ -7,6 +7,7 @@
  * 2. HMAC signature + expiration verification
  * 3. Git credentials completeness check (BUG-19 fix)
  *    → Prevents stale sessions after mode transitions (Server→Connect→Open)
+ *    → Skipped for the local backend (CMS_SERVICE=local), which has no remote
  */
 
 import { defineMiddleware } from 'astro:middleware';
@@ -53,9 +54,10 @@ export const onRequest = defineMiddleware(async ({ request, cookies, redirect, u
   }
 
   // Layer 3: Validate Git credentials completeness (BUG-19)
-  // Catches stale sessions when env vars change (e.g., Server→Connect mode transition)
+  // Catches stale sessions when env vars change (e.g., Server→Connect mode transition).
+  // The local filesystem backend has no remote, so it needs neither.
   const creds = resolveGitCredentials(session);
-  if (!creds.token || !creds.repo) {
+  if (creds.service !== 'local' && (!creds.token || !creds.repo)) {
     cookies.delete(COOKIE_NAME, { path: '/' });
     if (path.startsWith('/api/')) {
       return new Response(JSON.stringify({ error: 'Session missing Git credentials. Please re-login.' }), {
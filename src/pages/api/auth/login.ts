@@ -6,6 +6,11 @@
  *   - Server Mode: CMS_USER + GITHUB_TOKEN set → password auth only
  *   - Connect Mode: CMS_USER set, GITHUB_TOKEN missing → password auth + user-provided token
  *   - Open Mode: CMS_USER not set → skip password, validate GitHub token only
+ *
+ * v2.6: Connect/Open Mode may also pick the Git service (GitLab PATs —
+ *       `glpat-…` — select GitLab when no service is given). The instance URL
+ *       only ever comes from CMS_INSTANCE_URL: the server sends the user's
+ *       token there, so it is never taken from the form.
  */
 
 import type { APIRoute } from 'astro';
@@ -16,18 +21,24 @@ import { createGitConfig, verifyTokenAccess } from '../../../lib/git-client';
 
 // @para-doc [#csa-cms-local-auth-validation]
 // @para-doc [#csa-cms-sec-ac-login-zod-clean]
+const gitServiceSchema = z.enum(['github', 'gitea', 'gogs', 'gitlab'], { message: 'Unsupported Git service.' }).optional();
+
 const serverModeLoginSchema = z.object({
   username: z.string().min(1, 'Username and password are required.'),
   password: z.string().min(1, 'Username and password are required.'),
   repo: z.string().optional(),
-  token: z.string().optional()
+  token: z.string().optional(),
+  service: gitServiceSchema,
 });
 
 const openModeLoginSchema = z.object({
   repo: z.string().optional(),
-  token: z.string().optional()
+  token: z.string().optional(),
+  service: gitServiceSchema,
 });
 
+const GITLAB_TOKEN_PREFIX = 'glpat-';
+
 export const POST: APIRoute = async ({ request, cookies, redirect, clientAddress, locals }) => {
   const ip = clientAddress || 'unknown';
 
@@ -43,12 +54,14 @@ export const POST: APIRoute = async ({ request, cookies, redirect, clientAddress
     const password = formData.get('password')?.toString() || '';
     const repo = formData.get('repo')?.toString() || undefined;
     const tokenInput = formData.get('token')?.toString() || undefined;
+    const serviceInput = formData.get('service')?.toString() || undefined;
 
     const envHasAuth = hasEnvAuth();
 
     // Validate inputs using Zod without dummy password fallback
     const currentSchema = envHasAuth ? serverModeLoginSchema : openModeLoginSchema;
-    const payloadToValidate = envHasAuth ? { username, password, repo, token: tokenInput } : { repo, token: tokenInput };
+    const gitFields = { repo, token: tokenInput, service: serviceInput };
+    const payloadToValidate = envHasAuth ? { username, password, ...gitFields } : gitFields;
     const validation = currentSchema.safeParse(payloadToValidate);
 
     if (!validation.success) {
@@ -68,25 +81,34 @@ export const POST: APIRoute = async ({ request, cookies, redirect, clientAddress
     const envHasGit = hasEnvGitConfig();
     let dynamicRepo: string | undefined;
     let dynamicToken: string | undefined;
+    let dynamicService: string | undefined;
 
     if (!envHasGit) {
       // Env vars missing — require user to provide them
       dynamicRepo = repo;
       dynamicToken = tokenInput;
+      // Env CMS_SERVICE wins over the form
+      if (!import.meta.env.CMS_SERVICE) {
+        dynamicService = serviceInput || (tokenInput?.startsWith(GITLAB_TOKEN_PREFIX) ? 'gitlab' : undefined);
+      }
+      // Self-hosted Gitea/Gogs have no public default host
+      if ((dynamicService === 'gitea' || dynamicService === 'gogs') && !import.meta.env.CMS_INSTANCE_URL) {
+        return redirect('/login?error=' + encodeURIComponent('Gitea and Gogs need CMS_INSTANCE_URL to be set on the server.'));
+      }
 
       if (!dynamicRepo || !dynamicToken) {
-        return redirect('/login?error=' + encodeURIComponent('Repository and GitHub Token are required.'));
+        return redirect('/login?error=' + encodeURIComponent('Repository and access token are required.'));
       }
 
       // Validate token has access to the specified repo
       try {
-        const testConfig = createGitConfig(dynamicToken, dynamicRepo);
+        const testConfig = createGitConfig(dynamicToken, dynamicRepo, undefined, dynamicService);
         const hasAccess = await verifyTokenAccess(testConfig);
         if (!hasAccess) {
           return redirect('/login?error=' + encodeURIComponent('Token does not have access to this repository.'));
         }
       } catch {
-        return redirect('/login?error=' + encodeURIComponent('Invalid token or repository format (use owner/repo).'));
+        return redirect('/login?error=' + encodeURIComponent('Invalid token or repository format (use owner/repo, or a GitLab project ID).'));
       }
     }
 
@@ -97,6 +119,7 @@ export const POST: APIRoute = async ({ request, cookies, redirect, clientAddress
       username: sessionUser,
       repo: dynamicRepo,
       token: dynamicToken,
+      service: dynamicService,
     });
     const isProd = import.meta.env.PROD;
     const cookieOpts = getSessionCookieOptions(isProd);
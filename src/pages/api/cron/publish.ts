@@ -0,0 +1,56 @@
+/**
+ * GET|POST /api/cron/publish — publish scheduled posts that are due
+ *
+ * Called by a platform cron (Vercel Cron, Cloudflare Cron Triggers, a
+ * GitHub Actions schedule…), not by the CMS UI, so there is no session:
+ * the caller sends `Authorization: Bearer <CMS_CRON_SECRET>` (Vercel's own
+ * `CRON_SECRET` is accepted too). Git credentials come from the server env
+ * (GITHUB_TOKEN / CMS_REPO / CMS_BRANCH / CMS_SERVICE).
+ *
+ * Without a configured secret the endpoint refuses every request.
+ */
+
+import type { APIRoute } from 'astro';
+import { createGitConfig } from '../../../lib/git-client';
+import { timingSafeEqual } from '../../../lib/auth';
+import { createGitPublishBackend, runScheduledPublish } from '../../../lib/scheduler';
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+const handler: APIRoute = async ({ request, locals }) => {
+  const env = (locals as any)?.runtime?.env || {};
+  const secret: string = env.CMS_CRON_SECRET || import.meta.env.CMS_CRON_SECRET
+    || env.CRON_SECRET || import.meta.env.CRON_SECRET || '';
+  if (!secret) {
+    return json({ error: 'Scheduled publishing is not configured (CMS_CRON_SECRET)' }, 503);
+  }
+
+  const authorization = request.headers.get('Authorization') || '';
+  const provided = authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : '';
+  if (!provided || !timingSafeEqual(provided, secret)) {
+    console.warn(`[cron/publish] Rejected request, ip: ${request.headers.get('x-forwarded-for') || 'unknown'}`);
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const config = createGitConfig();
+    if (config.service !== 'local' && (!config.token || !config.repo)) {
+      return json({ error: 'Server Git credentials are missing (GITHUB_TOKEN / CMS_REPO)' }, 503);
+    }
+
+    const run = await runScheduledPublish(createGitPublishBackend(config));
+    console.info(`[cron/publish] Published ${run.published.length} post(s), ${run.errors.length} error(s)`);
+    return json(run);
+  } catch (error: any) {
+    console.error('[cron/publish] Error:', error.message);
+    return json({ error: error.message || 'Scheduled publishing failed' }, 500);
+  }
+};
+
+export const GET = handler;
+export const POST = handler;
@@ -4,12 +4,18 @@
  * 
  * v2.1: Reads Git credentials from session (Dynamic Session Credentials)
  *       Falls back to env vars when session doesn't contain credentials.
+ * v2.6: Target branch also comes from the session (see /api/settings/branch).
+ *       Editorial actions (saveDraft … discardDraft) go through lib/editorial.
  */
 
 import type { APIRoute } from 'astro';
 import * as git from '../../../lib/git-client';
 import { verifySession, resolveGitCredentials, COOKIE_NAME } from '../../../lib/session';
 import { isPathAllowed } from '../../../lib/proxy-utils';
+import { validateFileMagicBytes, sanitizeSvg } from '../../../lib/security-utils';
+import { base64ToBytes, formatMegabytes, MAX_UPLOAD_SIZE, MAX_COMMIT_FILES } from '../../../lib/encoding';
+import * as editorial from '../../../lib/editorial';
+import type { FileChange } from '../../../types';
 
 // Whitelist of allowed actions
 const ALLOWED_ACTIONS = new Set([
@@ -25,6 +31,14 @@ const ALLOWED_ACTIONS = new Set([
   'findProductionUrl',
   'getRepoTree',
   'getRepoDetails',
+  'commitFiles',
+  'getFileHistory',
+  'getFileContentAt',
+  'saveDraft',
+  'getDraft',
+  'listDrafts',
+  'publishDraft',
+  'discardDraft',
 ]);
 
 const PATH_ACTIONS = new Set([
@@ -36,14 +50,79 @@ const PATH_ACTIONS = new Set([
   'updateFileContent',
   'deleteFile',
   'getRepoTree',
+  'getFileHistory',
+  'getFileContentAt',
+  'saveDraft',
+  'getDraft',
 ]);
 
 const PATH_REQUIRED_ACTIONS = new Set([
   'createFileFromString',
   'updateFileContent',
   'deleteFile',
+  'saveDraft',
 ]);
 
+// commitFiles limits — same per-file cap as /api/proxy/upload, MAX_COMMIT_FILES files
+const IMAGE_EXTENSIONS = new Set(['png', 'jpg', 'jpeg', 'gif', 'webp', 'avif']);
+
+/**
+ * Validate a commitFiles payload with the same rules as single-file writes:
+ * every path must pass `cms-write`, binary images must match their magic bytes
+ * and SVGs are sanitized. Returns the cleaned changes or an error message.
+ */
+function validateCommitChanges(raw: unknown): { changes?: FileChange[]; error?: string; status?: number } {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return { error: 'changes must be a non-empty array' };
+  }
+  if (raw.length > MAX_COMMIT_FILES) {
+    return { error: `Too many files in one commit (max ${MAX_COMMIT_FILES})` };
+  }
+
+  const changes: FileChange[] = [];
+  for (const item of raw) {
+    const path = typeof item?.path === 'string' ? item.path : '';
+    if (!path || !isPathAllowed(path, 'cms-write')) {
+      return { error: `Path "${path}" is not allowed`, status: 403 };
+    }
+    // Expected SHA for optimistic locking, passed through untouched
+    const sha = typeof item.sha === 'string' || item.sha === null ? { sha: item.sha as string | null } : {};
+    if (item.delete === true) {
+      changes.push({ path, delete: true, ...sha });
+      continue;
+    }
+
+    const encoding = item.encoding === 'base64' ? 'base64' : 'utf-8';
+    let content = typeof item.content === 'string' ? item.content : '';
+    const extension = (path.split('.').pop() || '').toLowerCase();
+
+    if (encoding === 'base64') {
+      let bytes: Uint8Array;
+      try {
+        bytes = base64ToBytes(content);
+      } catch {
+        return { error: `Invalid base64 content for "${path}"` };
+      }
+      if (bytes.length > MAX_UPLOAD_SIZE) {
+        return { error: `File too large: "${path}" (max ${formatMegabytes(MAX_UPLOAD_SIZE)}, got ${formatMegabytes(bytes.length)})`, status: 413 };
+      }
+      if (IMAGE_EXTENSIONS.has(extension) && !validateFileMagicBytes(bytes, extension)) {
+        return { error: `File verification failed: invalid magic bytes signature for "${path}"` };
+      }
+      if (extension === 'svg') {
+        // Store sanitized SVG as text
+        changes.push({ path, content: sanitizeSvg(new TextDecoder('utf-8').decode(bytes)), encoding: 'utf-8', ...sha });
+        continue;
+      }
+    } else if (extension === 'svg') {
+      content = sanitizeSvg(content);
+    }
+
+    changes.push({ path, content, encoding, ...sha });
+  }
+  return { changes };
+}
+
 export const POST: APIRoute = async ({ request, cookies }) => {
   try {
     // Resolve credentials from session
@@ -62,7 +141,7 @@ export const POST: APIRoute = async ({ request, cookies }) => {
     }
 
     const creds = resolveGitCredentials(session);
-    const config = git.createGitConfig(creds.token, creds.repo);
+    const config = git.createGitConfig(creds.token, creds.repo, creds.branch, creds.service, creds.instanceUrl);
 
     const body = await request.json();
     const { action, params = {} } = body;
@@ -100,6 +179,18 @@ export const POST: APIRoute = async ({ request, cookies }) => {
       params.path = path;
     }
 
+    if (action === 'commitFiles') {
+      const { changes, error, status } = validateCommitChanges(params.changes);
+      if (error) {
+        console.warn(`[proxy/git] commitFiles rejected: ${error}`);
+        return new Response(
+          JSON.stringify({ error }),
+          { status: status || 400, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+      params.changes = changes;
+    }
+
     let result: any;
 
     switch (action) {
@@ -109,8 +200,12 @@ export const POST: APIRoute = async ({ request, cookies }) => {
         break;
 
       case 'findProductionUrl':
+        result = await git.findProductionUrl(config);
+        break;
+
       case 'getRepoDetails':
-        result = await (git as any)[action](config);
+        // Tell the client which service it talks to (icons, avatar URLs)
+        result = { ...(await git.getRepoDetails(config)), service: config.service };
         break;
 
       case 'getRepoContents':
@@ -136,6 +231,57 @@ export const POST: APIRoute = async ({ request, cookies }) => {
         result = await git.deleteFile(config, params.path, params.sha, params.commitMessage);
         break;
 
+      case 'commitFiles':
+        result = await git.commitFiles(config, params.changes, params.commitMessage);
+        break;
+
+      case 'getFileHistory':
+        result = await git.getFileHistory(config, params.path);
+        break;
+
+      case 'getFileContentAt':
+        if (typeof params.ref !== 'string' || !params.ref) {
+          return new Response(
+            JSON.stringify({ error: 'ref is required for action "getFileContentAt"' }),
+            { status: 400, headers: { 'Content-Type': 'application/json' } }
+          );
+        }
+        result = await git.getFileContentAt(config, params.path, params.ref);
+        break;
+
+      case 'saveDraft':
+        result = await editorial.saveDraft(editorial.createGitEditorialBackend(config), {
+          collectionId: String(params.collectionId || ''),
+          slug: String(params.slug || ''),
+          path: params.path,
+          content: typeof params.content === 'string' ? params.content : '',
+          commitMessage: String(params.commitMessage || ''),
+          title: String(params.title || ''),
+        });
+        break;
+
+      case 'getDraft':
+        result = await editorial.getDraft(
+          editorial.createGitEditorialBackend(config),
+          String(params.collectionId || ''),
+          String(params.slug || ''),
+          params.path
+        );
+        break;
+
+      case 'listDrafts':
+        result = await editorial.listDrafts(editorial.createGitEditorialBackend(config));
+        break;
+
+      case 'publishDraft':
+      case 'discardDraft':
+        await editorial[action as 'publishDraft' | 'discardDraft'](
+          editorial.createGitEditorialBackend(config),
+          Number(params.number)
+        );
+        result = { success: true };
+        break;
+
       default:
         return new Response(
           JSON.stringify({ error: 'Unhandled action' }),
@@ -10,6 +10,7 @@ import { uploadFile, getFileSha, createGitConfig } from '../../../lib/git-client
 import { verifySession, resolveGitCredentials, COOKIE_NAME } from '../../../lib/session';
 import { isPathAllowed } from '../../../lib/proxy-utils';
 import { validateFileMagicBytes, sanitizeSvg } from '../../../lib/security-utils';
+import { bytesToBase64, formatMegabytes, MAX_UPLOAD_SIZE } from '../../../lib/encoding';
 
 export const POST: APIRoute = async ({ request, cookies }) => {
   try {
@@ -29,7 +30,7 @@ export const POST: APIRoute = async ({ request, cookies }) => {
     }
 
     const creds = resolveGitCredentials(session);
-    const config = createGitConfig(creds.token, creds.repo);
+    const config = createGitConfig(creds.token, creds.repo, creds.branch, creds.service, creds.instanceUrl);
 
     const formData = await request.formData();
     const path = formData.get('path')?.toString();
@@ -67,10 +68,9 @@ export const POST: APIRoute = async ({ request, cookies }) => {
     }
 
     // P2: File size validation (10MB max)
-    const MAX_UPLOAD_SIZE = 10 * 1024 * 1024;
     if (file.size > MAX_UPLOAD_SIZE) {
       return new Response(
-        JSON.stringify({ error: `File too large (max 10MB, got ${(file.size / 1024 / 1024).toFixed(1)}MB)` }),
+        JSON.stringify({ error: `File too large (max ${formatMegabytes(MAX_UPLOAD_SIZE)}, got ${formatMegabytes(file.size)})` }),
         { status: 413, headers: { 'Content-Type': 'application/json' } }
       );
     }
@@ -105,12 +105,8 @@ export const POST: APIRoute = async ({ request, cookies }) => {
       finalBytes = textEncoder.encode(cleanSvg);
     }
 
-    // Convert to base64
-    let binary = '';
-    for (let i = 0; i < finalBytes.length; i++) {
-      binary += String.fromCharCode(finalBytes[i]);
-    }
-    const base64Content = btoa(binary);
+    // Convert to base64 (chunked — files up to MAX_UPLOAD_SIZE)
+    const base64Content = bytesToBase64(finalBytes);
 
     // If no SHA provided, try to get existing file SHA (for update)
     if (!sha) {
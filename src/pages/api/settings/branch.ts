@@ -0,0 +1,131 @@
+/**
+ * GET  /api/settings/branch — current branch, default branch and branch list
+ * POST /api/settings/branch — switch the session to another branch
+ *
+ * The selected branch lives in the signed session cookie, so every proxy
+ * (git, upload, blob, image) picks it up without extra request params.
+ * Switching re-issues the session and its CSRF cookie (CSRF is bound to the
+ * session signature).
+ */
+
+import type { APIRoute } from 'astro';
+import {
+  verifySession,
+  resolveGitCredentials,
+  createSession,
+  createCsrfToken,
+  getSessionCookieOptions,
+  COOKIE_NAME,
+} from '../../../lib/session';
+import { createGitConfig, getRepoDetails, listBranches } from '../../../lib/git-client';
+
+const MAX_BRANCH_LENGTH = 255;
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+export const GET: APIRoute = async ({ cookies }) => {
+  try {
+    const sessionToken = cookies.get(COOKIE_NAME)?.value;
+    if (!sessionToken) {
+      return json({ error: 'Unauthorized' }, 401);
+    }
+
+    const session = await verifySession(sessionToken);
+    if (!session) {
+      return json({ error: 'Session expired' }, 401);
+    }
+
+    const creds = resolveGitCredentials(session);
+    const config = createGitConfig(creds.token, creds.repo, creds.branch, creds.service, creds.instanceUrl);
+    const [details, branches] = await Promise.all([
+      getRepoDetails(config),
+      listBranches(config),
+    ]);
+
+    const defaultBranch: string = details.default_branch || '';
+    return json({
+      branch: config.branch || defaultBranch,
+      defaultBranch,
+      branches,
+      // 'session' = picked by the user, 'env' = CMS_BRANCH, 'default' = repo default
+      source: session.branch ? 'session' : config.branch ? 'env' : 'default',
+    });
+  } catch (error: any) {
+    console.error('[settings/branch] Error:', error.message);
+    return json({ error: error.message || 'Failed to load branches' }, 500);
+  }
+};
+
+export const POST: APIRoute = async ({ request, cookies, locals }) => {
+  try {
+    const sessionToken = cookies.get(COOKIE_NAME)?.value;
+    if (!sessionToken) {
+      return json({ error: 'Unauthorized' }, 401);
+    }
+
+    const session = await verifySession(sessionToken);
+    if (!session) {
+      return json({ error: 'Session expired' }, 401);
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const branch = typeof body.branch === 'string' ? body.branch.trim() : '';
+    if (branch.length > MAX_BRANCH_LENGTH) {
+      return json({ error: 'Branch name too long' }, 400);
+    }
+
+    // Empty branch = reset to the env/repo default
+    if (branch) {
+      const creds = resolveGitCredentials(session);
+      const config = createGitConfig(creds.token, creds.repo, creds.branch, creds.service, creds.instanceUrl);
+      const branches = await listBranches(config);
+      if (!branches.includes(branch)) {
+        return json({ error: `Branch "${branch}" does not exist` }, 404);
+      }
+    }
+
+    const newToken = await createSession({
+      username: session.user,
+      repo: session.repo,
+      token: session.token,
+      role: session.role,
+      branch: branch || undefined,
+      service: session.service,
+      exp: session.exp,
+    });
+
+    const isProd = import.meta.env.PROD;
+    const cookieOpts = getSessionCookieOptions(isProd);
+    const maxAge = Math.max(0, session.exp - Math.floor(Date.now() / 1000));
+
+    cookies.set(cookieOpts.name, newToken, {
+      httpOnly: cookieOpts.httpOnly,
+      secure: cookieOpts.secure,
+      sameSite: cookieOpts.sameSite,
+      path: cookieOpts.path,
+      maxAge,
+    });
+
+    const sessionId = newToken.split('.')[1] || 'session-signature';
+    const env = (locals as any)?.runtime?.env || {};
+    const csrfToken = await createCsrfToken(sessionId, env.CMS_SECRET || import.meta.env.CMS_SECRET);
+
+    cookies.set('pageel_cms_csrf', csrfToken, {
+      httpOnly: false, // Client JS needs to read it
+      secure: isProd,
+      sameSite: 'lax',
+      path: '/',
+      maxAge,
+    });
+
+    return json({ success: true, branch });
+  } catch (error: any) {
+    console.error('[settings/branch] Error:', error.message);
+    return json({ error: error.message || 'Failed to switch branch' }, 500);
+  }
+};
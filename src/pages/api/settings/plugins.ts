@@ -85,7 +85,7 @@ export const POST: APIRoute = async ({ request, cookies }) => {
 
 
     const creds = resolveGitCredentials(session);
-    const config = createGitConfig(creds.token, creds.repo);
+    const config = createGitConfig(creds.token, creds.repo, creds.branch, creds.service, creds.instanceUrl);
 
     let currentConfig: any = {};
     let sha: string | null = null;
@@ -9,7 +9,8 @@
  * ⚠️ IMPORTANT: This adapter `implements` IGitService, NOT `extends` BaseGitService
  */
 
-import type { IGitService, ContentInfo, RepoTreeInfo, RepoInfo } from '../types';
+import type { IGitService, ContentInfo, RepoTreeInfo, RepoInfo, BranchInfo, FileChange, CommitResult, DraftSaveRequest, DraftInfo, PullRequestInfo, FileRevision } from '../types';
+import { formatMegabytes, MAX_UPLOAD_SIZE } from '../lib/encoding';
 
 // @para-doc [#csa-cms-cfr-error-class-impl]
 export class CloudflareChallengeError extends Error {
@@ -90,7 +91,7 @@ export class ProxyGitAdapter implements IGitService {
     return response.json();
   }
 
-  // --- IGitService implementation (12 JSON methods via /api/proxy/git) ---
+  // --- IGitService implementation (20 JSON methods via /api/proxy/git) ---
 
   async getRepoContents(path: string): Promise<ContentInfo[]> {
     return this.proxyJsonCall('getRepoContents', { path });
@@ -120,6 +121,10 @@ export class ProxyGitAdapter implements IGitService {
     return this.proxyJsonCall('deleteFile', { path, sha, commitMessage });
   }
 
+  async commitFiles(changes: FileChange[], commitMessage: string): Promise<CommitResult> {
+    return this.proxyJsonCall('commitFiles', { changes, commitMessage });
+  }
+
   async scanForContentDirectories(): Promise<string[]> {
     return this.proxyJsonCall('scanForContentDirectories');
   }
@@ -140,9 +145,44 @@ export class ProxyGitAdapter implements IGitService {
     return this.proxyJsonCall('getRepoDetails');
   }
 
+  async getFileHistory(path: string): Promise<FileRevision[]> {
+    return this.proxyJsonCall('getFileHistory', { path });
+  }
+
+  async getFileContentAt(path: string, ref: string): Promise<string> {
+    return this.proxyJsonCall('getFileContentAt', { path, ref });
+  }
+
+  // Editorial mode — draft branches + pull requests (see lib/editorial.ts)
+
+  async saveDraft(request: DraftSaveRequest): Promise<PullRequestInfo> {
+    return this.proxyJsonCall('saveDraft', { ...request });
+  }
+
+  async getDraft(collectionId: string, slug: string, path: string): Promise<DraftInfo | null> {
+    return this.proxyJsonCall('getDraft', { collectionId, slug, path });
+  }
+
+  async listDrafts(): Promise<PullRequestInfo[]> {
+    return this.proxyJsonCall('listDrafts');
+  }
+
+  async publishDraft(number: number): Promise<void> {
+    await this.proxyJsonCall('publishDraft', { number });
+  }
+
+  async discardDraft(number: number): Promise<void> {
+    await this.proxyJsonCall('discardDraft', { number });
+  }
+
   // --- Special methods via dedicated endpoints ---
 
   async uploadFile(path: string, file: File, commitMessage: string, sha?: string): Promise<any> {
+    // Same limit as /api/proxy/upload — fail before sending megabytes for nothing
+    if (file.size > MAX_UPLOAD_SIZE) {
+      throw new Error(`"${file.name}" is too large (max ${formatMegabytes(MAX_UPLOAD_SIZE)}, got ${formatMegabytes(file.size)})`);
+    }
+
     const formData = new FormData();
     formData.append('path', path);
     formData.append('file', file);
@@ -166,7 +206,11 @@ export class ProxyGitAdapter implements IGitService {
     }
 
     if (!response.ok) {
-      const err = await response.json().catch(() => ({ error: 'Upload error' }));
+      const err = await response.json().catch(() => ({ error: '' }));
+      if (!err.error && response.status === 413) {
+        // Rejected by the hosting platform before reaching the proxy (request body limit)
+        throw new Error(`"${file.name}" (${formatMegabytes(file.size)}) exceeds the server's request size limit`);
+      }
       throw new Error(err.error || `Upload error: ${response.status}`);
     }
 
@@ -190,4 +234,37 @@ export class ProxyGitAdapter implements IGitService {
 
     return response.blob();
   }
+
+  // --- Branch selection via /api/settings/branch (stored in the session cookie) ---
+
+  async getBranchInfo(): Promise<BranchInfo> {
+    const response = await fetch(`${this.baseUrl}/api/settings/branch`, {
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({ error: 'Branch error' }));
+      throw new Error(err.error || `Branch error: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  async switchBranch(branch: string): Promise<void> {
+    const csrfToken = this.getCsrfToken();
+    const response = await fetch(`${this.baseUrl}/api/settings/branch`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-CMS-CSRF-Token': csrfToken,
+      },
+      credentials: 'include',
+      body: JSON.stringify({ branch }),
+    });
+
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({ error: 'Branch error' }));
+      throw new Error(err.error || `Branch error: ${response.status}`);
+    }
+  }
 }
@@ -17,6 +17,7 @@ export interface GithubRepo {
   default_branch: string;
   owner: {
     login: string;
+    avatar_url?: string;
   };
   permissions?: {
     admin: boolean;
@@ -24,7 +25,8 @@ export interface GithubRepo {
     pull: boolean;
   };
   stargazers_count?: number; // from GitHub
-  stars_count?: number; // from Gitea/Gogs
+  stars_count?: number; // from Gitea/Gogs/GitLab
+  service?: ServiceType; // set by /api/proxy/git getRepoDetails
 }
 
 export interface GithubContent {
@@ -73,16 +75,91 @@ export interface AppSettings {
   updatePostCommit: string;
   newImageCommit: string;
   updateImageCommit: string;
+  branch?: string;
 }
 
 // --- Service Adapter Interfaces ---
 
-export type ServiceType = 'github' | 'gitea' | 'gogs';
+export type ServiceType = 'github' | 'gitea' | 'gogs' | 'gitlab' | 'local';
 export type UserInfo = GithubUser;
 export type RepoInfo = GithubRepo;
 export type ContentInfo = GithubContent;
 export type RepoTreeInfo = RepoTreeItem;
 
+/** One file in an atomic multi-file commit (see IGitService.commitFiles) */
+export interface FileChange {
+  path: string;
+  /** New file content — ignored when `delete` is set */
+  content?: string;
+  /** 'utf-8' (default) for text, 'base64' for binary such as images */
+  encoding?: 'utf-8' | 'base64';
+  delete?: boolean;
+  /**
+   * Expected blob SHA of the file before the commit (null = must not exist).
+   * The commit fails with a 409 when the file changed since it was read.
+   */
+  sha?: string | null;
+}
+
+export interface CommitResult {
+  /** SHA of the new commit */
+  sha: string;
+  branch: string;
+}
+
+/** One commit that touched a file (newest first in history lists) */
+export interface FileRevision {
+  sha: string;
+  message: string;
+  author: string;
+  /** ISO timestamp */
+  date: string;
+  url: string;
+}
+
+/** Pull request normalized across GitHub and Gitea */
+export interface PullRequestInfo {
+  number: number;
+  title: string;
+  url: string;
+  /** Head (source) branch name */
+  head: string;
+  /** Base (target) branch name */
+  base: string;
+  state: 'open' | 'closed' | 'merged';
+  /** null while the service is still computing mergeability */
+  mergeable: boolean | null;
+  author: string;
+  updatedAt: string;
+}
+
+/** Editorial mode: save a post to its `cms/<collection>/<slug>` draft branch */
+export interface DraftSaveRequest {
+  collectionId: string;
+  slug: string;
+  path: string;
+  content: string;
+  commitMessage: string;
+  /** Pull request title used when the PR is first opened */
+  title: string;
+}
+
+export interface DraftInfo {
+  branch: string;
+  /** Post content on the draft branch, null if the branch doesn't have it */
+  content: string | null;
+  pullRequest: PullRequestInfo | null;
+}
+
+export interface BranchInfo {
+  /** Branch every read/write currently targets */
+  branch: string;
+  defaultBranch: string;
+  branches: string[];
+  /** Where `branch` came from: user pick, env CMS_BRANCH, or repo default */
+  source: 'session' | 'env' | 'default';
+}
+
 export interface IGitService {
   // Methods for file/content operations
   getRepoContents(path: string): Promise<ContentInfo[]>;
@@ -93,6 +170,7 @@ export interface IGitService {
   createFileFromString(path: string, newContent: string, commitMessage: string): Promise<any>;
   updateFileContent(path: string, newContent: string, commitMessage: string, sha: string): Promise<any>;
   deleteFile(path: string, sha: string, commitMessage: string): Promise<any>;
+  commitFiles(changes: FileChange[], commitMessage: string): Promise<CommitResult>; // One commit for many files
   getFileAsBlob(path: string): Promise<Blob>;
   
   // Methods for repo scanning and info retrieval
@@ -101,4 +179,19 @@ export interface IGitService {
   findProductionUrl(): Promise<string | null>;
   getRepoTree(path?: string): Promise<RepoTreeInfo[]>;
   getRepoDetails(): Promise<RepoInfo>;
+
+  // Methods for branch selection
+  getBranchInfo(): Promise<BranchInfo>;
+  switchBranch(branch: string): Promise<void>;
+
+  // Methods for revision history
+  getFileHistory(path: string): Promise<FileRevision[]>;
+  getFileContentAt(path: string, ref: string): Promise<string>;
+
+  // Methods for editorial mode (draft branches + pull requests)
+  saveDraft(request: DraftSaveRequest): Promise<PullRequestInfo>;
+  getDraft(collectionId: string, slug: string, path: string): Promise<DraftInfo | null>;
+  listDrafts(): Promise<PullRequestInfo[]>;
+  publishDraft(number: number): Promise<void>;
+  discardDraft(number: number): Promise<void>;
 }
\ No newline at end of file
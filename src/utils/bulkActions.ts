@@ -0,0 +1,132 @@
+import type { FileChange } from '../types';
+import type { TemplateField } from '../features/collections/types';
+import { parseMarkdown, buildMarkdown } from './parsing';
+import { toStringArray } from './fieldTypes';
+import { entryRelativePath } from './filenamePattern';
+
+/** One change applied to every selected post of PostList */
+export type BulkAction =
+  | { kind: 'set-field'; field: string; value: unknown }
+  | { kind: 'clear-field'; field: string }
+  | { kind: 'add-tags'; field: string; tags: string[] }
+  | { kind: 'remove-tags'; field: string; tags: string[] }
+  /** Move files from one collection folder to another, keeping sub-folders */
+  | { kind: 'move'; fromPath: string; toPath: string }
+  | { kind: 'delete' };
+
+export interface BulkTarget {
+  path: string;
+  rawContent: string;
+}
+
+/** `conflict`: a move whose destination already exists, skipped */
+export type BulkItemStatus = 'update' | 'move' | 'delete' | 'unchanged' | 'conflict';
+
+export interface BulkPlanItem {
+  path: string;
+  status: BulkItemStatus;
+  /** Destination of a moved file */
+  newPath?: string;
+  /** Content written by `update` and `move` */
+  content?: string;
+}
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/** Text typed in the bulk "set field" input → frontmatter value of the field's type */
+export const parseFieldInput = (field: TemplateField | undefined, input: string): unknown => {
+  switch (field?.type) {
+    case 'number': {
+      const n = Number(input);
+      return input.trim() === '' || isNaN(n) ? input : n;
+    }
+    case 'boolean':
+      return input === 'true';
+    case 'multiselect':
+    case 'array':
+      return input.split(',').map((item) => item.trim()).filter(Boolean);
+    case 'reference':
+      return field.multiple ? input.split(',').map((item) => item.trim()).filter(Boolean) : input;
+    default:
+      return input;
+  }
+};
+
+const applyToFrontmatter = (frontmatter: Record<string, any>, action: BulkAction): Record<string, any> => {
+  switch (action.kind) {
+    case 'set-field':
+      return { ...frontmatter, [action.field]: action.value };
+    case 'clear-field': {
+      const { [action.field]: _removed, ...rest } = frontmatter;
+      return rest;
+    }
+    case 'add-tags': {
+      const tags = toStringArray(frontmatter[action.field]);
+      return { ...frontmatter, [action.field]: [...tags, ...action.tags.filter((tag) => !tags.includes(tag))] };
+    }
+    case 'remove-tags':
+      if (!(action.field in frontmatter)) return frontmatter;
+      return { ...frontmatter, [action.field]: toStringArray(frontmatter[action.field]).filter((tag) => !action.tags.includes(tag)) };
+    default:
+      return frontmatter;
+  }
+};
+
+/**
+ * What a bulk action does to each selected post, for the preview and the
+ * commit. `existingPaths` are the files already in a move's destination.
+ */
+export const planBulkAction = (
+  targets: BulkTarget[],
+  action: BulkAction,
+  existingPaths: Set<string> = new Set(),
+): BulkPlanItem[] =>
+  targets.map((target): BulkPlanItem => {
+    if (action.kind === 'delete') return { path: target.path, status: 'delete' };
+
+    if (action.kind === 'move') {
+      const relative = entryRelativePath(target.path, action.fromPath);
+      const newPath = action.toPath ? `${action.toPath}/${relative}` : relative;
+      if (newPath === target.path) return { path: target.path, status: 'unchanged' };
+      if (existingPaths.has(newPath)) return { path: target.path, newPath, status: 'conflict' };
+      return { path: target.path, newPath, status: 'move', content: target.rawContent };
+    }
+
+    const { frontmatter, body } = parseMarkdown(target.rawContent);
+    const next = applyToFrontmatter(frontmatter, action);
+    if (sameValue(next, frontmatter)) return { path: target.path, status: 'unchanged' };
+    return { path: target.path, status: 'update', content: buildMarkdown(next, body) };
+  });
+
+/** File changes of a plan for a single `commitFiles` call */
+export const bulkFileChanges = (plan: BulkPlanItem[]): FileChange[] =>
+  plan.flatMap((item): FileChange[] => {
+    switch (item.status) {
+      case 'update':
+        return [{ path: item.path, content: item.content }];
+      case 'move':
+        return [{ path: item.newPath!, content: item.content }, { path: item.path, delete: true }];
+      case 'delete':
+        return [{ path: item.path, delete: true }];
+      default:
+        return [];
+    }
+  });
+
+export const bulkCommitMessage = (action: BulkAction, count: number): string => {
+  const posts = `${count} post${count === 1 ? '' : 's'}`;
+  switch (action.kind) {
+    case 'set-field':
+      return `fix(content): set ${action.field} on ${posts}`;
+    case 'clear-field':
+      return `fix(content): clear ${action.field} on ${posts}`;
+    case 'add-tags':
+      return `fix(content): add ${action.field} ${action.tags.join(', ')} to ${posts}`;
+    case 'remove-tags':
+      return `fix(content): remove ${action.field} ${action.tags.join(', ')} from ${posts}`;
+    case 'move':
+      return `chore(content): move ${posts} to ${action.toPath}`;
+    case 'delete':
+      return `chore(content): delete ${posts}`;
+  }
+};
@@ -0,0 +1,75 @@
+import type { CollectionI18n } from '../features/collections/types';
+
+/** One locale of an entry: where its file is (relative to the collection) and whether it exists */
+export interface TranslationLink {
+  locale: string;
+  path: string;
+  exists: boolean;
+}
+
+const splitExtension = (fileName: string): [string, string] => {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? [fileName.slice(0, dot), fileName.slice(dot)] : [fileName, ''];
+};
+
+const splitPath = (path: string): [string, string] => {
+  const slash = path.lastIndexOf('/');
+  return slash >= 0 ? [path.slice(0, slash + 1), path.slice(slash + 1)] : ['', path];
+};
+
+/** Locale of an entry from its path inside the collection, or null when it has none */
+export const entryLocale = (relativePath: string, i18n: CollectionI18n): string | null => {
+  if (i18n.strategy === 'folder') {
+    const first = relativePath.split('/')[0];
+    return relativePath.includes('/') && i18n.locales.includes(first) ? first : null;
+  }
+  const [stem] = splitExtension(splitPath(relativePath)[1]);
+  const suffix = stem.includes('.') ? stem.slice(stem.lastIndexOf('.') + 1) : null;
+  if (suffix && i18n.locales.includes(suffix)) return suffix;
+  return i18n.locales[0] ?? null;
+};
+
+/** Path shared by all translations of an entry (the locale part removed) */
+export const translationKey = (relativePath: string, i18n: CollectionI18n): string | null => {
+  const locale = entryLocale(relativePath, i18n);
+  if (!locale) return null;
+  if (i18n.strategy === 'folder') return relativePath.slice(locale.length + 1);
+  const [dir, fileName] = splitPath(relativePath);
+  const [stem, extension] = splitExtension(fileName);
+  return stem.endsWith(`.${locale}`) ? `${dir}${stem.slice(0, -(locale.length + 1))}${extension}` : relativePath;
+};
+
+/** Path of the `locale` translation of an entry */
+export const translationPath = (relativePath: string, locale: string, i18n: CollectionI18n): string | null => {
+  const key = translationKey(relativePath, i18n);
+  if (key === null) return null;
+  if (i18n.strategy === 'folder') return `${locale}/${key}`;
+  if (locale === i18n.locales[0]) return key;
+  const [dir, fileName] = splitPath(key);
+  const [stem, extension] = splitExtension(fileName);
+  return `${dir}${stem}.${locale}${extension}`;
+};
+
+/**
+ * Every locale of an entry, given the paths of all entries of the
+ * collection. Empty when the entry has no locale.
+ */
+export const findTranslations = (relativePath: string, allPaths: Iterable<string>, i18n: CollectionI18n): TranslationLink[] => {
+  if (!entryLocale(relativePath, i18n)) return [];
+  const existing = new Set(allPaths);
+  return i18n.locales.map((locale) => {
+    const path = translationPath(relativePath, locale, i18n)!;
+    return { locale, path, exists: existing.has(path) };
+  });
+};
+
+/**
+ * Frontmatter of a new translation: a copy of the source with its
+ * `lang` / `locale` key (if any) switched to the target locale.
+ */
+export const translationFrontmatter = (source: Record<string, any>, locale: string): Record<string, any> => {
+  const frontmatter = structuredClone(source);
+  if ('lang' in frontmatter) frontmatter.lang = locale;
+  if ('locale' in frontmatter) frontmatter.locale = locale;
+  return frontmatter;
+};
@@ -0,0 +1,132 @@
+import * as jsyaml from 'js-yaml';
+import { parse as parseToml, stringify as stringifyToml } from 'smol-toml';
+
+/** Entry formats of Astro data collections (`file()` / `glob()` loaders) */
+export type DataFormat = 'json' | 'yaml' | 'toml';
+
+export const DATA_FILE_EXTENSIONS = ['.json', '.yaml', '.yml', '.toml'];
+
+/** One entry of a data file: an item of a top-level array, or a keyed value */
+export interface DataFileEntry {
+  id: string;
+  data: Record<string, any>;
+}
+
+export const getDataFormat = (path: string): DataFormat | null => {
+  const ext = path.slice(path.lastIndexOf('.')).toLowerCase();
+  if (ext === '.json') return 'json';
+  if (ext === '.yaml' || ext === '.yml') return 'yaml';
+  if (ext === '.toml') return 'toml';
+  return null;
+};
+
+export const isDataFile = (path: string): boolean => getDataFormat(path) !== null;
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+export const parseDataFile = (content: string, format: DataFormat): unknown => {
+  if (content.trim() === '') return {};
+  switch (format) {
+    case 'json':
+      return JSON.parse(content);
+    case 'yaml':
+      return jsyaml.load(content) ?? {};
+    case 'toml':
+      return parseToml(content);
+  }
+};
+
+/** JSON indentation of the original file (two spaces when unknown) */
+const detectJsonIndent = (original: string | undefined): string | number => {
+  const match = original?.match(/^[[{]\s*\n([ \t]+)\S/);
+  return match ? match[1] : 2;
+};
+
+/**
+ * Serialize data back in its file format. With the original content, JSON
+ * keeps its indentation and every format keeps its trailing newline (or lack
+ * of one). YAML comments are not preserved.
+ */
+export const serializeDataFile = (data: unknown, format: DataFormat, original?: string): string => {
+  let content: string;
+  switch (format) {
+    case 'json':
+      content = JSON.stringify(data, null, detectJsonIndent(original));
+      break;
+    case 'yaml':
+      content = jsyaml.dump(data, { lineWidth: -1 });
+      break;
+    case 'toml':
+      content = stringifyToml(data as Record<string, any>);
+      break;
+  }
+  content = content.replace(/\n+$/, '');
+  return original === undefined || original.endsWith('\n') ? `${content}\n` : content;
+};
+
+/**
+ * Entries of a file holding many: array items (id from their `id` field, else
+ * their position) or the values of a top-level map keyed by id.
+ */
+export const readDataEntries = (content: string, format: DataFormat): DataFileEntry[] => {
+  const parsed = parseDataFile(content, format);
+  if (Array.isArray(parsed)) {
+    return parsed.map((item, index) => ({
+      id: isRecord(item) && item.id !== undefined ? String(item.id) : String(index),
+      data: isRecord(item) ? item : { value: item },
+    }));
+  }
+  if (isRecord(parsed)) {
+    return Object.entries(parsed)
+      .filter(([, value]) => isRecord(value))
+      .map(([id, value]) => ({ id, data: value }));
+  }
+  return [];
+};
+
+const findArrayIndex = (items: unknown[], id: string): number => {
+  const byId = items.findIndex((item) => isRecord(item) && item.id !== undefined && String(item.id) === id);
+  if (byId !== -1) return byId;
+  const index = Number(id);
+  return Number.isInteger(index) && index >= 0 && index < items.length && !(isRecord(items[index]) && items[index].id !== undefined) ? index : -1;
+};
+
+/**
+ * Replace the entry `id` of a multi-entry file, or append it when `id` is
+ * null or unknown. A new map entry is keyed by `newId`; a new array item gets
+ * it as its `id` field unless it has one. Other entries and their order are
+ * left as they are.
+ */
+export const writeDataEntry = (
+  content: string,
+  format: DataFormat,
+  id: string | null,
+  data: Record<string, any>,
+  newId?: string
+): string => {
+  const parsed = parseDataFile(content, format);
+  if (Array.isArray(parsed)) {
+    const index = id === null ? -1 : findArrayIndex(parsed, id);
+    const appended = newId !== undefined && data.id === undefined ? { id: newId, ...data } : data;
+    const items = index === -1 ? [...parsed, appended] : parsed.map((item, i) => (i === index ? data : item));
+    return serializeDataFile(items, format, content);
+  }
+  const map = isRecord(parsed) ? parsed : {};
+  const key = id !== null && id in map ? id : newId;
+  if (!key) throw new Error('A new entry of a keyed data file needs an id.');
+  return serializeDataFile({ ...map, [key]: data }, format, content);
+};
+
+export const removeDataEntry = (content: string, format: DataFormat, id: string): string => {
+  const parsed = parseDataFile(content, format);
+  if (Array.isArray(parsed)) {
+    const index = findArrayIndex(parsed, id);
+    return serializeDataFile(parsed.filter((_, i) => i !== index), format, content);
+  }
+  if (isRecord(parsed)) {
+    const { [id]: _removed, ...rest } = parsed;
+    return serializeDataFile(rest, format, content);
+  }
+  return content;
+};
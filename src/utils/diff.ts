@@ -0,0 +1,115 @@
+import { parseMarkdown } from './parsing';
+
+export type DiffOp = 'equal' | 'add' | 'remove';
+
+export interface DiffLine {
+  op: DiffOp;
+  text: string;
+}
+
+export interface FrontmatterChange {
+  key: string;
+  status: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface PostDiff {
+  frontmatter: FrontmatterChange[];
+  body: DiffLine[];
+}
+
+// Above this many LCS cells the changed block is shown as remove-all/add-all
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Line diff (LCS). Common prefix/suffix lines are trimmed before the
+ * table is built, so typical single-edit diffs stay cheap.
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before === '' ? [] : before.split('\n');
+  const b = after === '' ? [] : after.split('\n');
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const head: DiffLine[] = a.slice(0, start).map((text) => ({ op: 'equal', text }));
+  const tail: DiffLine[] = a.slice(endA).map((text) => ({ op: 'equal', text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    return [
+      ...head,
+      ...midA.map((text): DiffLine => ({ op: 'remove', text })),
+      ...midB.map((text): DiffLine => ({ op: 'add', text })),
+      ...tail,
+    ];
+  }
+
+  // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+  const cols = midB.length + 1;
+  const lcs = new Uint32Array((midA.length + 1) * cols);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] = midA[i] === midB[j]
+        ? lcs[(i + 1) * cols + j + 1] + 1
+        : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      middle.push({ op: 'equal', text: midA[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+      middle.push({ op: 'remove', text: midA[i++] });
+    } else {
+      middle.push({ op: 'add', text: midB[j++] });
+    }
+  }
+  while (i < midA.length) middle.push({ op: 'remove', text: midA[i++] });
+  while (j < midB.length) middle.push({ op: 'add', text: midB[j++] });
+
+  return [...head, ...middle, ...tail];
+};
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Frontmatter-aware diff between two revisions of a post: frontmatter is
+ * compared per key (reordering or re-quoting YAML is not a change), the
+ * body is diffed line by line.
+ */
+export const diffPost = (before: string, after: string): PostDiff => {
+  const oldPost = parseMarkdown(before);
+  const newPost = parseMarkdown(after);
+
+  const keys = [...Object.keys(oldPost.frontmatter)];
+  Object.keys(newPost.frontmatter).forEach((key) => {
+    if (!keys.includes(key)) keys.push(key);
+  });
+
+  const frontmatter: FrontmatterChange[] = [];
+  keys.forEach((key) => {
+    const inOld = key in oldPost.frontmatter;
+    const inNew = key in newPost.frontmatter;
+    const oldValue = oldPost.frontmatter[key];
+    const newValue = newPost.frontmatter[key];
+    if (inOld && !inNew) frontmatter.push({ key, status: 'removed', before: oldValue });
+    else if (!inOld && inNew) frontmatter.push({ key, status: 'added', after: newValue });
+    else if (!sameValue(oldValue, newValue)) frontmatter.push({ key, status: 'changed', before: oldValue, after: newValue });
+  });
+
+  return { frontmatter, body: diffLines(oldPost.body, newPost.body) };
+};
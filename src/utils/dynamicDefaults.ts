@@ -0,0 +1,130 @@
+import type { CollectionTemplate, TemplateField } from '../features/collections/types';
+import { defaultValueForField } from './fieldTypes';
+import { slugify } from './parsing';
+
+/**
+ * Expression defaults for template fields, resolved when a post is created.
+ *
+ * A string `defaultValue` may hold tokens: `{{now}}` (ISO date-time),
+ * `{{today}}` (YYYY-MM-DD), `{{user}}`, `{{collection}}`, `{{uuid}}`, and
+ * derived ones that read other fields: `{{fields.title}}` and
+ * `{{slugify(title)}}`. Unknown tokens are kept as written, so templates of
+ * other tools (`{{ .Title }}`) pass through untouched.
+ */
+export interface DefaultContext {
+  now?: Date;
+  /** Display name of the signed-in user */
+  user?: string;
+  /** Id of the collection the post is created in */
+  collection?: string;
+}
+
+const TOKEN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const FIELD_TOKEN = /\{\{\s*(fields\.[\w-]+|slugify\(\s*[\w.-]+\s*\))\s*\}\}/;
+
+const fieldName = (ref: string) => ref.trim().replace(/^fields\./, '');
+
+const newUuid = (): string =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+        const r = Math.floor(Math.random() * 16);
+        return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+      });
+
+/** Whether a default reads other fields, and so follows them while the post is unsaved */
+export const isDerivedDefault = (value: unknown): boolean =>
+  typeof value === 'string' && FIELD_TOKEN.test(value);
+
+/** Resolves the tokens of a default (recursing into objects and arrays); other values are returned as is */
+export const resolveDefaultValue = (value: unknown, frontmatter: Record<string, any>, context: DefaultContext = {}): unknown => {
+  if (Array.isArray(value)) return value.map((item) => resolveDefaultValue(item, frontmatter, context));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolveDefaultValue(item, frontmatter, context)]));
+  }
+  if (typeof value !== 'string' || !value.includes('{{')) return value;
+
+  const now = context.now || new Date();
+  return value.replace(TOKEN, (match, expression: string) => {
+    if (expression === 'now') return now.toISOString();
+    if (expression === 'today') return now.toISOString().split('T')[0];
+    if (expression === 'user') return context.user || '';
+    if (expression === 'collection') return context.collection || '';
+    if (expression === 'uuid') return newUuid();
+    if (expression.startsWith('fields.')) {
+      const field = frontmatter[fieldName(expression)];
+      return field === undefined || field === null ? '' : String(field);
+    }
+    const slugifyCall = expression.match(/^slugify\(\s*([\w.-]+)\s*\)$/);
+    if (slugifyCall) {
+      const field = frontmatter[fieldName(slugifyCall[1])];
+      return field === undefined || field === null ? '' : slugify(String(field));
+    }
+    return match;
+  });
+};
+
+/** Fields whose default is derived from other fields */
+const derivedFields = (template: CollectionTemplate | null | undefined): TemplateField[] =>
+  (template?.fields || []).filter((field) => isDerivedDefault(field.defaultValue));
+
+/**
+ * Defaults of a blank post: `base` (built-in keys such as `title`) plus
+ * every template field not already in it. Derived fields are resolved
+ * last, against the other values.
+ */
+export const resolveTemplateDefaults = (
+  template: CollectionTemplate | null | undefined,
+  context: DefaultContext = {},
+  base: Record<string, any> = {},
+): Record<string, any> => {
+  const values: Record<string, any> = { ...base };
+  const fields = (template?.fields || []).filter((field) => !(field.name in base));
+  fields
+    .filter((field) => !isDerivedDefault(field.defaultValue))
+    .forEach((field) => { values[field.name] = resolveDefaultValue(defaultValueForField(field), values, context); });
+  fields
+    .filter((field) => isDerivedDefault(field.defaultValue))
+    .forEach((field) => { values[field.name] = resolveDefaultValue(field.defaultValue, values, context); });
+  return values;
+};
+
+/**
+ * Values to add to an uploaded post: template fields with a `defaultValue`
+ * that the file leaves out or empty.
+ */
+export const missingDefaults = (
+  template: CollectionTemplate | null | undefined,
+  frontmatter: Record<string, any>,
+  context: DefaultContext = {},
+): Record<string, any> => {
+  const isEmpty = (value: unknown) => value === undefined || value === null || value === '';
+  const missing = (template?.fields || []).filter((field) => field.defaultValue !== undefined && isEmpty(frontmatter[field.name]));
+  const values: Record<string, any> = {};
+  const resolve = (field: TemplateField) => {
+    values[field.name] = resolveDefaultValue(field.defaultValue, { ...frontmatter, ...values }, context);
+  };
+  missing.filter((field) => !isDerivedDefault(field.defaultValue)).forEach(resolve);
+  missing.filter((field) => isDerivedDefault(field.defaultValue)).forEach(resolve);
+  return values;
+};
+
+/**
+ * Derived fields re-resolved against `frontmatter`, skipping those in
+ * `edited` (typed in by the user). Only changed values are returned.
+ */
+export const syncDerivedFields = (
+  template: CollectionTemplate | null | undefined,
+  frontmatter: Record<string, any>,
+  edited: ReadonlySet<string>,
+  context: DefaultContext = {},
+): Record<string, any> => {
+  const updates: Record<string, any> = {};
+  derivedFields(template)
+    .filter((field) => !edited.has(field.name))
+    .forEach((field) => {
+      const value = resolveDefaultValue(field.defaultValue, frontmatter, context);
+      if (value !== frontmatter[field.name]) updates[field.name] = value;
+    });
+  return updates;
+};
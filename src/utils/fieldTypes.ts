@@ -0,0 +1,85 @@
+import type { CollectionTemplate, TemplateField, TemplateFieldType } from '../features/collections/types';
+
+/** Template definition of a frontmatter key, if the collection has one */
+export const getTemplateField = (template: CollectionTemplate | null | undefined, name: string): TemplateField | undefined =>
+  template?.fields.find((field) => field.name === name);
+
+/** Initial value when a field is added to a post */
+export const defaultValueForType = (type: TemplateFieldType | undefined): unknown => {
+  switch (type) {
+    case 'array':
+    case 'multiselect':
+      return [];
+    case 'boolean':
+      return false;
+    case 'number':
+      return 0;
+    default:
+      return '';
+  }
+};
+
+/**
+ * Like defaultValueForType, but an `object` with sub-fields gets their defaults
+ * and a multiple `reference` starts as an empty list
+ */
+export const defaultValueForField = (field: TemplateField | undefined): unknown => {
+  if (field?.defaultValue !== undefined) return field.defaultValue;
+  if (field?.type === 'object' && field.fields) {
+    return Object.fromEntries(field.fields.map((sub) => [sub.name, defaultValueForField(sub)]));
+  }
+  if (field?.type === 'reference' && field.multiple) return [];
+  return defaultValueForType(field?.type);
+};
+
+/** `object` and `array` fields that declare a sub-schema */
+export const hasSubFields = (field: TemplateField | undefined): field is TemplateField & { fields: TemplateField[] } =>
+  !!field && (field.type === 'object' || field.type === 'array') && Array.isArray(field.fields) && field.fields.length > 0;
+
+export const isValidUrl = (value: string): boolean => {
+  if (value.startsWith('/')) return true; // site-relative links
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:' || url.protocol === 'mailto:';
+  } catch {
+    return false;
+  }
+};
+
+export const isValidEmail = (value: string): boolean => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+
+export const isHexColor = (value: string): boolean => /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value);
+
+/** Multiselect values may be hand-written as a single string in YAML */
+export const toStringArray = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(String);
+  if (value === undefined || value === null || value === '') return [];
+  return [String(value)];
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** Value for <input type="datetime-local"> (local time, minutes precision) */
+export const toDateTimeInput = (value: unknown): string => {
+  if (!value) return '';
+  const date = value instanceof Date ? value : new Date(String(value));
+  if (isNaN(date.getTime())) return '';
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+/** <input type="datetime-local"> value → ISO 8601 string stored in frontmatter */
+export const fromDateTimeInput = (value: string): string => {
+  if (!value) return '';
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? '' : date.toISOString();
+};
+
+/** Rough plain-text rendering of a markdown field for table cells */
+export const markdownToPlainText = (markdown: string): string =>
+  markdown
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/[*_`~>]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
@@ -0,0 +1,88 @@
+import { slugify } from './parsing';
+
+/**
+ * Where new entries of a collection are written, relative to its folder.
+ *
+ * Tokens: `{slug}`, `{year}` `{month}` `{day}` `{hour}` `{minute}` (from the
+ * entry's date, else now), `{locale}` and `{fields.<name>}` (any frontmatter
+ * value, slugified). A pattern whose last segment has no extension gets the
+ * entry's one, so `{year}-{month}-{day}-{slug}` still ends in `.md`.
+ *
+ * Examples: `{slug}` (default), `{year}/{month}/{slug}.mdx`,
+ * `{slug}/index.md`, `{year}-{month}-{day}-{slug}`.
+ */
+export const DEFAULT_FILENAME_PATTERN = '{slug}';
+
+export interface FilenamePatternValues {
+  slug: string;
+  frontmatter?: Record<string, any>;
+  locale?: string;
+  /** Extension without the dot, used when the pattern doesn't set one */
+  extension?: string;
+  /** Fallback when the frontmatter has no date */
+  now?: Date;
+}
+
+const DATE_KEYS = ['date', 'pubDate', 'publishDate', 'published'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const entryDate = (frontmatter: Record<string, any>, now: Date): Date => {
+  for (const key of DATE_KEYS) {
+    const value = frontmatter[key];
+    if (value === undefined || value === null || value === '') continue;
+    const date = value instanceof Date ? value : new Date(String(value));
+    if (!isNaN(date.getTime())) return date;
+  }
+  return now;
+};
+
+/**
+ * Relative path of a new entry. Throws when the result would leave the
+ * collection folder or has an empty segment (e.g. `{fields.x}` unset).
+ */
+export const resolveFilenamePattern = (pattern: string | undefined, values: FilenamePatternValues): string => {
+  const frontmatter = values.frontmatter || {};
+  const date = entryDate(frontmatter, values.now || new Date());
+  // Date-only values (`2024-05-01`) parse as UTC midnight: read them in UTC
+  const tokens: Record<string, string> = {
+    slug: values.slug,
+    year: String(date.getUTCFullYear()),
+    month: pad(date.getUTCMonth() + 1),
+    day: pad(date.getUTCDate()),
+    hour: pad(date.getUTCHours()),
+    minute: pad(date.getUTCMinutes()),
+    locale: slugify(String(values.locale ?? frontmatter.locale ?? frontmatter.lang ?? '')),
+  };
+
+  const resolved = (pattern?.trim() || DEFAULT_FILENAME_PATTERN)
+    .replace(/^\/+|\/+$/g, '')
+    .replace(/\{([\w.]+)\}/g, (match, token: string) => {
+      if (token.startsWith('fields.')) {
+        const value = frontmatter[token.slice('fields.'.length)];
+        return value === undefined || value === null ? '' : slugify(String(value));
+      }
+      return tokens[token] ?? match;
+    });
+
+  const segments = resolved.split('/');
+  if (segments.some((segment) => segment === '' || segment === '.' || segment === '..' || /[{}\\]/.test(segment))) {
+    throw new Error(`Invalid file path "${resolved}" from pattern "${pattern}"`);
+  }
+
+  const last = segments[segments.length - 1];
+  if (!last.includes('.')) segments[segments.length - 1] = `${last}.${values.extension || 'md'}`;
+  return segments.join('/');
+};
+
+/** Path of an entry relative to its collection folder */
+export const entryRelativePath = (path: string, collectionPath: string): string => {
+  const prefix = collectionPath.replace(/\/+$/, '');
+  return prefix && path.startsWith(`${prefix}/`) ? path.slice(prefix.length + 1) : path;
+};
+
+/** Whether `path` lies inside the collection folder (at any depth) */
+export const isInCollectionFolder = (path: string, collectionPath: string): boolean => {
+  const prefix = collectionPath.replace(/\/+$/, '');
+  return !prefix || path.startsWith(`${prefix}/`);
+};
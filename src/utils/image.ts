@@ -125,3 +125,19 @@ export const isImageFile = (filename: string, acceptedTypes: string): boolean =>
     
     return allowedExtensions.some(ext => lowerFilename.endsWith(ext));
 };
+
+/**
+ * Reads a File as raw base64 (no data: prefix), e.g. for IGitService.commitFiles.
+ * @param file The file to encode.
+ */
+export const fileToBase64 = (file: File): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => {
+            const result = String(reader.result || '');
+            resolve(result.substring(result.indexOf(',') + 1));
+        };
+        reader.onerror = () => reject(reader.error || new Error(`Failed to read ${file.name}`));
+        reader.readAsDataURL(file);
+    });
+};
@@ -0,0 +1,115 @@
+/**
+ * Local drafts — unsaved editor content kept in the browser (IndexedDB) so a
+ * crashed tab or an expired session doesn't lose it. Drafts are keyed by
+ * repo, branch and path; a post that was never saved uses `newDraftPath()`.
+ */
+
+export interface LocalDraft {
+  repo: string;
+  branch: string;
+  /** File path, or `new:<collection>` for a post that has no file yet */
+  path: string;
+  collectionId?: string;
+  title: string;
+  /** Full markdown (frontmatter + body) */
+  content: string;
+  /** Name of the uploaded file, for drafts kept by NewPostCreator */
+  fileName?: string;
+  /** SHA of the remote file the edits started from, '' for a new post */
+  baseSha: string;
+  updatedAt: number;
+}
+
+export interface LocalDraftStore {
+  get(key: string): Promise<LocalDraft | null>;
+  put(draft: LocalDraft): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(): Promise<LocalDraft[]>;
+}
+
+const DB_NAME = 'pageel-cms';
+const DB_VERSION = 1;
+const STORE_NAME = 'localDrafts';
+
+export const localDraftKey = (repo: string, branch: string, path: string): string => `${repo}@${branch}:${path}`;
+
+const keyOf = (draft: LocalDraft): string => localDraftKey(draft.repo, draft.branch, draft.path);
+
+export const newDraftPath = (collectionId: string | undefined): string => `new:${collectionId || ''}`;
+
+export const isNewDraftPath = (path: string): boolean => path.startsWith('new:');
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+export function createIndexedDbDraftStore(factory: IDBFactory = indexedDB): LocalDraftStore {
+  let db: Promise<IDBDatabase> | null = null;
+  const open = (): Promise<IDBDatabase> => {
+    if (!db) {
+      const req = factory.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        if (!req.result.objectStoreNames.contains(STORE_NAME)) req.result.createObjectStore(STORE_NAME);
+      };
+      db = request(req);
+      // Let a later call try again (private mode, quota…)
+      db.catch(() => { db = null; });
+    }
+    return db;
+  };
+  const store = async (mode: IDBTransactionMode) => (await open()).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+  return {
+    get: async (key) => (await request<LocalDraft | undefined>((await store('readonly')).get(key))) ?? null,
+    put: async (draft) => { await request((await store('readwrite')).put(draft, keyOf(draft))); },
+    delete: async (key) => { await request((await store('readwrite')).delete(key)); },
+    list: async () => request<LocalDraft[]>((await store('readonly')).getAll()),
+  };
+}
+
+/** In-memory LocalDraftStore for tests and browsers without IndexedDB */
+export function createMemoryDraftStore(): LocalDraftStore & { drafts: Map<string, LocalDraft> } {
+  const drafts = new Map<string, LocalDraft>();
+  return {
+    drafts,
+    get: async (key) => drafts.get(key) ?? null,
+    put: async (draft) => { drafts.set(keyOf(draft), draft); },
+    delete: async (key) => { drafts.delete(key); },
+    list: async () => [...drafts.values()],
+  };
+}
+
+let defaultStore: LocalDraftStore | null = null;
+
+export const getLocalDraftStore = (): LocalDraftStore => {
+  if (!defaultStore) {
+    defaultStore = typeof indexedDB !== 'undefined' ? createIndexedDbDraftStore() : createMemoryDraftStore();
+  }
+  return defaultStore;
+};
+
+/** Drafts of one repo and branch, most recent first */
+export const listLocalDrafts = async (store: LocalDraftStore, repo: string, branch: string): Promise<LocalDraft[]> =>
+  (await store.list())
+    .filter((draft) => draft.repo === repo && draft.branch === branch)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+
+/**
+ * The draft worth offering for restore: one whose content differs from what
+ * the editor opened with. Identical drafts are stale leftovers and removed.
+ */
+export const pendingLocalDraft = async (
+  store: LocalDraftStore,
+  key: string,
+  openedContent: string,
+): Promise<LocalDraft | null> => {
+  const draft = await store.get(key);
+  if (!draft) return null;
+  if (draft.content === openedContent) {
+    await store.delete(key);
+    return null;
+  }
+  return draft;
+};
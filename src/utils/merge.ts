@@ -0,0 +1,237 @@
+import { IGitService } from '../types';
+import { diffLines } from './diff';
+import { parseMarkdown, updateFrontmatter } from './parsing';
+
+/** Lines every side agrees on, or a region both sides changed differently */
+export type MergeChunk =
+  | { type: 'ok'; lines: string[] }
+  | { type: 'conflict'; base: string[]; ours: string[]; theirs: string[] };
+
+export interface FrontmatterConflict {
+  key: string;
+  base?: unknown;
+  ours?: unknown;
+  theirs?: unknown;
+}
+
+export interface PostMerge {
+  /** Auto-merged keys (conflicting keys hold "ours" until resolved) */
+  frontmatter: Record<string, any>;
+  frontmatterConflicts: FrontmatterConflict[];
+  body: MergeChunk[];
+  hasConflicts: boolean;
+  /** False when no version has frontmatter, so a plain body stays plain */
+  hasFrontmatter: boolean;
+}
+
+export type ConflictSide = 'ours' | 'theirs' | 'both';
+
+export interface MergeResolution {
+  /** Keyed by frontmatter key */
+  frontmatter: Record<string, 'ours' | 'theirs'>;
+  /** Keyed by index into PostMerge.body */
+  body: Record<number, ConflictSide>;
+}
+
+interface Hunk {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+const splitLines = (text: string): string[] => (text === '' ? [] : text.split('\n'));
+
+/** Changes of `changed` against `base`, as replaced base ranges */
+const toHunks = (base: string, changed: string): Hunk[] => {
+  const hunks: Hunk[] = [];
+  let index = 0;
+  let current: Hunk | null = null;
+  for (const line of diffLines(base, changed)) {
+    if (line.op === 'equal') {
+      if (current) hunks.push(current);
+      current = null;
+      index++;
+      continue;
+    }
+    if (!current) current = { start: index, end: index, lines: [] };
+    if (line.op === 'remove') {
+      index++;
+      current.end = index;
+    } else {
+      current.lines.push(line.text);
+    }
+  }
+  if (current) hunks.push(current);
+  return hunks;
+};
+
+/** `base[start, end)` with the hunks (all inside that range) applied */
+const applyHunks = (base: string[], start: number, end: number, hunks: Hunk[]): string[] => {
+  const result: string[] = [];
+  let index = start;
+  for (const hunk of hunks) {
+    result.push(...base.slice(index, hunk.start), ...hunk.lines);
+    index = hunk.end;
+  }
+  result.push(...base.slice(index, end));
+  return result;
+};
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, i) => line === b[i]);
+
+/**
+ * Line-based three-way merge (diff3). Hunks that only one side touched are
+ * taken as-is; overlapping or adjacent hunks from both sides become a conflict
+ * unless both sides made the same change.
+ */
+export const mergeLines = (base: string, ours: string, theirs: string): MergeChunk[] => {
+  const baseLines = splitLines(base);
+  const tagged = [
+    ...toHunks(base, ours).map((hunk) => ({ ...hunk, side: 'ours' as const })),
+    ...toHunks(base, theirs).map((hunk) => ({ ...hunk, side: 'theirs' as const })),
+  ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const chunks: MergeChunk[] = [];
+  const pushOk = (lines: string[]) => {
+    if (lines.length === 0) return;
+    const last = chunks[chunks.length - 1];
+    if (last?.type === 'ok') last.lines.push(...lines);
+    else chunks.push({ type: 'ok', lines: [...lines] });
+  };
+
+  let index = 0;
+  let i = 0;
+  while (i < tagged.length) {
+    // Group every hunk that overlaps or touches the current region
+    const group = [tagged[i]];
+    let start = tagged[i].start;
+    let end = tagged[i].end;
+    for (i++; i < tagged.length && tagged[i].start <= end; i++) {
+      group.push(tagged[i]);
+      start = Math.min(start, tagged[i].start);
+      end = Math.max(end, tagged[i].end);
+    }
+
+    pushOk(baseLines.slice(index, start));
+    const ourHunks = group.filter((hunk) => hunk.side === 'ours');
+    const theirHunks = group.filter((hunk) => hunk.side === 'theirs');
+    const ourLines = applyHunks(baseLines, start, end, ourHunks);
+    const theirLines = applyHunks(baseLines, start, end, theirHunks);
+
+    if (theirHunks.length === 0 || sameLines(ourLines, theirLines)) {
+      pushOk(ourLines);
+    } else if (ourHunks.length === 0) {
+      pushOk(theirLines);
+    } else {
+      chunks.push({ type: 'conflict', base: baseLines.slice(start, end), ours: ourLines, theirs: theirLines });
+    }
+    index = end;
+  }
+  pushOk(baseLines.slice(index));
+  return chunks;
+};
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Three-way merge of a post: frontmatter per key (a key changed on one side
+ * only takes that side's value, deletions included), body per line hunk.
+ */
+export const mergePost = (base: string, ours: string, theirs: string): PostMerge => {
+  const [b, o, t] = [base, ours, theirs].map(parseMarkdown);
+
+  const keys = Object.keys(o.frontmatter);
+  [...Object.keys(t.frontmatter), ...Object.keys(b.frontmatter)].forEach((key) => {
+    if (!keys.includes(key)) keys.push(key);
+  });
+
+  const frontmatter: Record<string, any> = {};
+  const frontmatterConflicts: FrontmatterConflict[] = [];
+  keys.forEach((key) => {
+    const baseValue = b.frontmatter[key];
+    const ourValue = o.frontmatter[key];
+    const theirValue = t.frontmatter[key];
+    let value: unknown;
+    if (sameValue(ourValue, theirValue) || sameValue(theirValue, baseValue)) {
+      value = ourValue;
+    } else if (sameValue(ourValue, baseValue)) {
+      value = theirValue;
+    } else {
+      frontmatterConflicts.push({ key, base: baseValue, ours: ourValue, theirs: theirValue });
+      value = ourValue;
+    }
+    if (value !== undefined) frontmatter[key] = value;
+  });
+
+  const body = mergeLines(b.body, o.body, t.body);
+  return {
+    frontmatter,
+    frontmatterConflicts,
+    body,
+    hasConflicts: frontmatterConflicts.length > 0 || body.some((chunk) => chunk.type === 'conflict'),
+    hasFrontmatter: [b, o, t].some((parsed) => Object.keys(parsed.frontmatter).length > 0),
+  };
+};
+
+/** Builds the file content from a merge; unresolved conflicts keep "ours" */
+export const applyMergeResolution = (merge: PostMerge, resolution: MergeResolution = { frontmatter: {}, body: {} }): string => {
+  const frontmatter = { ...merge.frontmatter };
+  merge.frontmatterConflicts.forEach((conflict) => {
+    const value = resolution.frontmatter[conflict.key] === 'theirs' ? conflict.theirs : conflict.ours;
+    if (value === undefined) delete frontmatter[conflict.key];
+    else frontmatter[conflict.key] = value;
+  });
+
+  const lines = merge.body.flatMap((chunk, index) => {
+    if (chunk.type === 'ok') return chunk.lines;
+    const side = resolution.body[index] || 'ours';
+    if (side === 'both') return [...chunk.ours, ...chunk.theirs];
+    return side === 'theirs' ? chunk.theirs : chunk.ours;
+  });
+  const body = lines.join('\n');
+
+  return merge.hasFrontmatter ? updateFrontmatter(body, frontmatter) : body;
+};
+
+/** The Git APIs answer a stale SHA with 409 (GitHub/Gitea/GitLab/local) */
+export const isShaConflictError = (error: unknown): boolean => {
+  const message = error instanceof Error ? error.message : String(error);
+  return /\b409\b/.test(message) || /does not match/i.test(message);
+};
+
+export type SaveWithMergeResult =
+  | { status: 'saved' | 'merged'; content: string }
+  | { status: 'conflict'; merge: PostMerge; theirsSha: string };
+
+/**
+ * Saves `ours` on top of `sha`. When the file changed upstream (409), the
+ * current version is fetched and merged three-way against `base`: a clean
+ * merge is committed with the fresh SHA, real conflicts are returned for the
+ * user to resolve.
+ */
+export const saveWithMerge = async (
+  gitService: IGitService,
+  params: { path: string; base: string; ours: string; sha: string; commitMessage: string }
+): Promise<SaveWithMergeResult> => {
+  try {
+    await gitService.updateFileContent(params.path, params.ours, params.commitMessage, params.sha);
+    return { status: 'saved', content: params.ours };
+  } catch (error) {
+    if (!isShaConflictError(error)) throw error;
+  }
+
+  const [theirs, theirsSha] = await Promise.all([
+    gitService.getFileContent(params.path),
+    gitService.getFileSha(params.path),
+  ]);
+  if (!theirsSha) throw new Error(`File not found: ${params.path}`);
+
+  const merge = mergePost(params.base, params.ours, theirs);
+  if (merge.hasConflicts) {
+    return { status: 'conflict', merge, theirsSha };
+  }
+
+  const content = applyMergeResolution(merge);
+  await gitService.updateFileContent(params.path, content, params.commitMessage, theirsSha);
+  return { status: 'merged', content };
+};
@@ -1,5 +1,7 @@
 
 import * as jsyaml from 'js-yaml';
+import { isHexColor, isValidEmail } from './fieldTypes';
+import type { TemplateField, TemplateFieldType } from '../features/collections/types';
 
 export interface ParsedMarkdown {
   frontmatter: Record<string, any>;
@@ -44,16 +46,18 @@ export const parseMarkdown = (content: string): ParsedMarkdown => {
   return { frontmatter, thumbnailUrl, body };
 };
 
-export const updateFrontmatter = (content: string, updates: Record<string, any>): string => {
-  const { frontmatter, body } = parseMarkdown(content);
-  const newFrontmatter = { ...frontmatter, ...updates };
-
+export const buildMarkdown = (frontmatter: Record<string, any>, body: string): string => {
   // Use js-yaml to dump. lineWidth: -1 prevents line wrapping for long strings
-  const yamlString = jsyaml.dump(newFrontmatter, { lineWidth: -1 });
+  const yamlString = jsyaml.dump(frontmatter, { lineWidth: -1 });
 
   return `---\n${yamlString}---\n${body}`;
 };
 
+export const updateFrontmatter = (content: string, updates: Record<string, any>): string => {
+  const { frontmatter, body } = parseMarkdown(content);
+  return buildMarkdown({ ...frontmatter, ...updates }, body);
+};
+
 export const slugify = (str: string): string => {
   return str
     .toString()
@@ -106,13 +110,46 @@ export const inferFrontmatterType = (value: any): string => {
     if (typeof value === 'boolean') return 'boolean';
     if (typeof value === 'number') return 'number';
     if (Array.isArray(value)) return 'array';
-    if (value instanceof Date) return 'date'; 
+    // YAML timestamps with a time of day parse to a Date that is not at UTC midnight
+    if (value instanceof Date) return value.getUTCHours() || value.getUTCMinutes() || value.getUTCSeconds() ? 'datetime' : 'date';
     if (typeof value === 'object' && value !== null) return 'object';
-    // Check if string looks like date
-    if (typeof value === 'string' && !isNaN(Date.parse(value)) && value.includes('-')) return 'date';
+    if (typeof value === 'string') {
+        if (value.includes('\n')) return 'text';
+        if (isHexColor(value)) return 'color';
+        if (isValidEmail(value)) return 'email';
+        if (/\.(png|jpe?g|gif|webp|avif|svg)$/i.test(value)) return 'image';
+        if (/^https?:\/\//.test(value)) return 'url';
+        // Check if string looks like date
+        if (!isNaN(Date.parse(value)) && value.includes('-')) return /\d[T ]\d{2}:\d{2}/.test(value) ? 'datetime' : 'date';
+    }
     return 'string';
 };
 
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+/**
+ * Template fields for a frontmatter object. Nested objects become `object`
+ * fields with sub-fields; lists of objects become repeatable groups whose
+ * sub-fields are the union of the keys of every item.
+ */
+export const inferTemplateFields = (frontmatter: Record<string, unknown>): TemplateField[] =>
+    Object.entries(frontmatter).map(([name, value]) => {
+        if (isPlainObject(value)) {
+            return { name, type: 'object', fields: inferTemplateFields(value) };
+        }
+        if (Array.isArray(value) && value.length > 0 && value.every(isPlainObject)) {
+            const merged: Record<string, unknown> = {};
+            value.forEach((item) => {
+                Object.entries(item).forEach(([key, itemValue]) => {
+                    if (merged[key] === undefined || merged[key] === null || merged[key] === '') merged[key] = itemValue;
+                });
+            });
+            return { name, type: 'array', fields: inferTemplateFields(merged) };
+        }
+        return { name, type: inferFrontmatterType(value) as TemplateFieldType };
+    });
+
 /**
  * Escapes characters in a string that have special meaning in a regular expression.
  * @param str The input string.
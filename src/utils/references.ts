@@ -0,0 +1,133 @@
+import type { IGitService } from '../types';
+import type { Collection, CollectionTemplate, TemplateField } from '../features/collections/types';
+import { parseMarkdown } from './parsing';
+import { getDataFormat, isDataFile, parseDataFile, readDataEntries } from './dataFiles';
+import { entryRelativePath, isInCollectionFolder } from './filenamePattern';
+
+/** An entry of a collection as a `reference` field sees it */
+export interface ReferenceEntry {
+  /** Id stored in the referencing frontmatter */
+  slug: string;
+  title: string;
+  path: string;
+  frontmatter: Record<string, any>;
+}
+
+/** A post whose `reference` field points at a given entry */
+export interface IncomingReference {
+  collection: Collection;
+  entry: ReferenceEntry;
+  field: string;
+}
+
+const MARKDOWN_FILE = /\.(md|mdx)$/i;
+const ENTRY_FILE = /\.(md|mdx|json|ya?ml|toml)$/i;
+
+/**
+ * Entry id the way Astro's glob loader derives it: a `slug` in frontmatter
+ * wins, otherwise the path inside the collection folder without its
+ * extension (`2024/05/post.md` → `2024/05/post`, `post/index.md` → `post`).
+ */
+export const entrySlug = (fileName: string, frontmatter: Record<string, any> = {}): string =>
+  typeof frontmatter.slug === 'string' && frontmatter.slug.trim() !== ''
+    ? frontmatter.slug.trim()
+    : fileName.replace(ENTRY_FILE, '').replace(/\/index$/, '');
+
+/** Slugs held by a reference value; `{ collection, id }` objects are accepted too */
+export const toReferenceSlugs = (value: unknown): string[] => {
+  const items = Array.isArray(value) ? value : value === undefined || value === null || value === '' ? [] : [value];
+  return items
+    .map((item) => (typeof item === 'object' && item !== null ? (item as any).id ?? (item as any).slug : item))
+    .filter((slug) => slug !== undefined && slug !== null && slug !== '')
+    .map(String);
+};
+
+/** Top-level `reference` fields of a template, optionally only those targeting `collectionId` */
+export const getReferenceFields = (template: CollectionTemplate | null | undefined, collectionId?: string): TemplateField[] =>
+  (template?.fields || []).filter(
+    (field) => field.type === 'reference' && !!field.collection && (!collectionId || field.collection === collectionId)
+  );
+
+/** Ids of every collection the template's reference fields point at */
+export const getReferencedCollectionIds = (template: CollectionTemplate | null | undefined): string[] =>
+  Array.from(new Set(getReferenceFields(template).map((field) => field.collection!)));
+
+/** Title to show for a slug; a slug with no entry comes back as `null` */
+export const findEntryTitle = (entries: ReferenceEntry[] | undefined, slug: string): string | null => {
+  const entry = entries?.find((item) => item.slug === slug);
+  return entry ? entry.title : null;
+};
+
+const entryTitle = (slug: string, data: Record<string, any>): string =>
+  data.title ? String(data.title) : data.name ? String(data.name) : slug;
+
+const bySortTitle = (a: ReferenceEntry, b: ReferenceEntry) => a.title.localeCompare(b.title);
+
+/** Entries of a collection with their titles, sorted by title */
+export const loadReferenceEntries = async (gitService: IGitService, collection: Collection): Promise<ReferenceEntry[]> => {
+  if (!collection.postsPath) return [];
+  const isData = collection.kind === 'data';
+
+  // Items of a single data file are referenced by their entry id
+  const singleFileFormat = isData ? getDataFormat(collection.postsPath) : null;
+  if (singleFileFormat) {
+    const content = await gitService.getFileContent(collection.postsPath);
+    return readDataEntries(content, singleFileFormat)
+      .map(({ id, data }) => ({ slug: id, title: entryTitle(id, data), path: collection.postsPath, frontmatter: data }))
+      .sort(bySortTitle);
+  }
+
+  const files = await gitService.listFiles(collection.postsPath);
+  const entries = await Promise.all(
+    files
+      .filter((file) => file.type === 'file' && isInCollectionFolder(file.path, collection.postsPath))
+      .filter((file) => isData ? isDataFile(file.name) : MARKDOWN_FILE.test(file.name))
+      .map(async (file): Promise<ReferenceEntry | null> => {
+        try {
+          const content = await gitService.getFileContent(file.path);
+          const frontmatter = isData ? parseDataFile(content, getDataFormat(file.name)!) : parseMarkdown(content).frontmatter;
+          if (typeof frontmatter !== 'object' || frontmatter === null || Array.isArray(frontmatter)) return null;
+          const slug = entrySlug(entryRelativePath(file.path, collection.postsPath), frontmatter as Record<string, any>);
+          return { slug, title: entryTitle(slug, frontmatter as Record<string, any>), path: file.path, frontmatter: frontmatter as Record<string, any> };
+        } catch (e) {
+          console.error(`[references] Failed to read ${file.path}`, e);
+          return null;
+        }
+      })
+  );
+  return entries.filter((entry): entry is ReferenceEntry => entry !== null).sort(bySortTitle);
+};
+
+/** Which of `entries` reference `slug` through one of `fields` */
+export const matchIncomingReferences = (
+  collection: Collection,
+  entries: ReferenceEntry[],
+  fields: TemplateField[],
+  slug: string
+): IncomingReference[] =>
+  entries.flatMap((entry) =>
+    fields
+      .filter((field) => toReferenceSlugs(entry.frontmatter[field.name]).includes(slug))
+      .map((field) => ({ collection, entry, field: field.name }))
+  );
+
+/**
+ * Scans every collection with a reference field targeting `target` for posts
+ * that point at `slug`. Used to warn before the entry is deleted.
+ */
+export const findIncomingReferences = async (
+  gitService: IGitService,
+  collections: Collection[],
+  target: Collection,
+  slug: string
+): Promise<IncomingReference[]> => {
+  const results = await Promise.all(
+    collections.map(async (collection) => {
+      const fields = getReferenceFields(collection.template, target.id);
+      if (fields.length === 0) return [];
+      const entries = await loadReferenceEntries(gitService, collection);
+      return matchIncomingReferences(collection, entries, fields, slug);
+    })
+  );
+  return results.flat();
+};
@@ -0,0 +1,248 @@
+import type { IGitService, FileChange } from '../types';
+import type { Collection, TemplateField } from '../features/collections/types';
+import { parseMarkdown, buildMarkdown, escapeRegExp } from './parsing';
+import { getDataFormat, isDataFile, parseDataFile, serializeDataFile, readDataEntries, writeDataEntry } from './dataFiles';
+import { entrySlug, getReferenceFields, toReferenceSlugs } from './references';
+import { entryRelativePath, isInCollectionFolder } from './filenamePattern';
+
+const MARKDOWN_FILE = /\.(md|mdx)$/i;
+
+/** Files read at once while planning; every read is an API request */
+export const RENAME_READ_CONCURRENCY = 8;
+
+/** `fn` over `items` with at most `limit` calls in flight */
+const forEachWithLimit = async <T>(items: T[], limit: number, fn: (item: T) => Promise<void>): Promise<void> => {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) await fn(items[next++]);
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+};
+
+/** `/` + the last folder of the collection path: `src/content/blog` → `/blog` */
+export const defaultUrlPrefix = (postsPath: string): string => `/${postsPath.split('/').filter(Boolean).pop() || ''}`;
+
+/** Site URL of an entry, from the collection's `urlPrefix` */
+export const entryUrl = (collection: Pick<Collection, 'postsPath' | 'urlPrefix'>, slug: string): string => {
+  const prefix = (collection.urlPrefix || defaultUrlPrefix(collection.postsPath)).replace(/\/+$/, '');
+  return `${prefix}/${slug}`;
+};
+
+/**
+ * Points links at `oldUrl` to `newUrl`: site-relative ones and absolute ones
+ * on `domainUrl`. A trailing slash, `#hash` or `?query` is kept; longer URLs
+ * that merely start with `oldUrl` are left alone.
+ */
+export const rewriteLinks = (text: string, oldUrl: string, newUrl: string, domainUrl?: string): { text: string; count: number } => {
+  const domain = domainUrl ? `(?:${escapeRegExp(domainUrl.replace(/\/+$/, ''))})?` : '';
+  const pattern = new RegExp(`(^|[\\s("'<=\\[])(${domain})${escapeRegExp(oldUrl)}(/?)(?=[\\s)"'>#?\\]]|$)`, 'gm');
+  let count = 0;
+  const rewritten = text.replace(pattern, (_match, before: string, origin: string, slash: string) => {
+    count++;
+    return `${before}${origin}${newUrl}${slash}`;
+  });
+  return { text: rewritten, count };
+};
+
+export type RenamePathError = 'empty' | 'invalid' | 'extension';
+
+/** What's wrong with a new path typed relative to the collection folder, if anything */
+export const validateRelativePath = (path: string): RenamePathError | null => {
+  const trimmed = path.trim();
+  if (!trimmed) return 'empty';
+  if (trimmed.startsWith('/') || trimmed.split('/').some((segment) => segment === '' || segment === '.' || segment === '..')) return 'invalid';
+  if (!MARKDOWN_FILE.test(trimmed)) return 'extension';
+  return null;
+};
+
+/** A reference value (slug, list of slugs or `{ collection, id }` objects) with `oldSlug` replaced */
+export const rewriteReferenceValue = (value: unknown, oldSlug: string, newSlug: string): unknown => {
+  if (Array.isArray(value)) return value.map((item) => rewriteReferenceValue(item, oldSlug, newSlug));
+  if (typeof value === 'object' && value !== null) {
+    const ref = value as Record<string, any>;
+    if (ref.id !== undefined && String(ref.id) === oldSlug) return { ...ref, id: newSlug };
+    if (ref.id === undefined && ref.slug !== undefined && String(ref.slug) === oldSlug) return { ...ref, slug: newSlug };
+    return value;
+  }
+  return value !== undefined && value !== null && String(value) === oldSlug ? newSlug : value;
+};
+
+const rewriteReferences = (
+  data: Record<string, any>,
+  fields: TemplateField[],
+  oldSlug: string,
+  newSlug: string,
+): { data: Record<string, any>; count: number } => {
+  let count = 0;
+  const next = { ...data };
+  fields.forEach((field) => {
+    if (!toReferenceSlugs(data[field.name]).includes(oldSlug)) return;
+    next[field.name] = rewriteReferenceValue(data[field.name], oldSlug, newSlug);
+    count++;
+  });
+  return { data: next, count };
+};
+
+export interface RenameRequest {
+  post: { path: string; rawContent: string };
+  from: Collection;
+  to: Collection;
+  /** New path inside `to.postsPath`, e.g. `2024/new-name.md` */
+  newRelativePath: string;
+  /** New `slug` frontmatter value; undefined keeps it, '' removes it */
+  newSlug?: string;
+}
+
+/** A file rewritten because it linked to or referenced the renamed post */
+export interface RenameRewrite {
+  path: string;
+  links: number;
+  references: number;
+}
+
+export interface RenamePlan {
+  oldPath: string;
+  newPath: string;
+  oldUrl: string;
+  newUrl: string;
+  /** Content of the renamed post at `newPath` */
+  content: string;
+  rewrites: RenameRewrite[];
+  /** References that can't follow the post into another collection, left as they are */
+  brokenReferences: { path: string; field: string }[];
+  changes: FileChange[];
+}
+
+/**
+ * Everything a rename or move changes, as one set of file changes: the post
+ * at its new path, the old path deleted, and every post (or data entry)
+ * whose links or `reference` fields pointed at it rewritten.
+ */
+export const planRename = async (
+  gitService: IGitService,
+  collections: Collection[],
+  { post, from, to, newRelativePath, newSlug }: RenameRequest,
+  domainUrl?: string,
+): Promise<RenamePlan> => {
+  const newPath = to.postsPath ? `${to.postsPath}/${newRelativePath}` : newRelativePath;
+
+  const parsed = parseMarkdown(post.rawContent);
+  let frontmatter = parsed.frontmatter;
+  if (newSlug !== undefined) {
+    const { slug: _previous, ...rest } = frontmatter;
+    frontmatter = newSlug ? { ...rest, slug: newSlug } : rest;
+  }
+  const oldSlug = entrySlug(entryRelativePath(post.path, from.postsPath), parsed.frontmatter);
+  const slug = entrySlug(newRelativePath, frontmatter);
+  const oldUrl = entryUrl(from, oldSlug);
+  const newUrl = entryUrl(to, slug);
+
+  const isMove = from.id !== to.id;
+  const slugChanged = oldSlug !== slug;
+  const urlChanged = oldUrl !== newUrl;
+
+  const rewriteText = (text: string) => (urlChanged ? rewriteLinks(text, oldUrl, newUrl, domainUrl) : { text, count: 0 });
+
+  let content = newSlug !== undefined ? buildMarkdown(frontmatter, parsed.body) : post.rawContent;
+  content = rewriteText(content).text;
+
+  const rewrites: RenameRewrite[] = [];
+  const brokenReferences: { path: string; field: string }[] = [];
+  const changes: FileChange[] = [];
+
+  // Reference fields pointing at the post's collection, per collection
+  const referencing = (collection: Collection) => (slugChanged || isMove ? getReferenceFields(collection.template, from.id) : []);
+
+  for (const collection of collections) {
+    if (!collection.postsPath) continue;
+    const fields = referencing(collection);
+
+    if (collection.kind === 'data') {
+      if (fields.length === 0) continue;
+      const singleFileFormat = getDataFormat(collection.postsPath);
+      if (singleFileFormat) {
+        const original = await gitService.getFileContent(collection.postsPath);
+        let updated = original;
+        let references = 0;
+        readDataEntries(original, singleFileFormat).forEach(({ id, data }) => {
+          if (isMove) {
+            fields.filter((f) => toReferenceSlugs(data[f.name]).includes(oldSlug))
+              .forEach((f) => brokenReferences.push({ path: `${collection.postsPath}#${id}`, field: f.name }));
+            return;
+          }
+          const result = rewriteReferences(data, fields, oldSlug, slug);
+          if (result.count === 0) return;
+          updated = writeDataEntry(updated, singleFileFormat, id, result.data);
+          references += result.count;
+        });
+        if (references > 0) {
+          changes.push({ path: collection.postsPath, content: updated });
+          rewrites.push({ path: collection.postsPath, links: 0, references });
+        }
+        continue;
+      }
+    }
+
+    const files = (await gitService.listFiles(collection.postsPath))
+      .filter((file) => file.type === 'file' && isInCollectionFolder(file.path, collection.postsPath) && file.path !== post.path)
+      .filter((file) => (collection.kind === 'data' ? isDataFile(file.name) : MARKDOWN_FILE.test(file.name)));
+
+    await forEachWithLimit(files, RENAME_READ_CONCURRENCY, async (file) => {
+      const original = await gitService.getFileContent(file.path);
+      let updated = original;
+      let references = 0;
+
+      if (fields.length > 0) {
+        const format = collection.kind === 'data' ? getDataFormat(file.path) : null;
+        let data: Record<string, any> = {};
+        try {
+          const parsedData = format ? parseDataFile(original, format) : parseMarkdown(original).frontmatter;
+          if (typeof parsedData === 'object' && parsedData !== null && !Array.isArray(parsedData)) data = parsedData as Record<string, any>;
+        } catch (e) {
+          console.error(`[rename] Failed to parse ${file.path}`, e);
+        }
+        if (isMove) {
+          fields.filter((f) => toReferenceSlugs(data[f.name]).includes(oldSlug))
+            .forEach((f) => brokenReferences.push({ path: file.path, field: f.name }));
+        } else {
+          const result = rewriteReferences(data, fields, oldSlug, slug);
+          if (result.count > 0) {
+            references = result.count;
+            updated = format ? serializeDataFile(result.data, format, original) : buildMarkdown(result.data, parseMarkdown(original).body);
+          }
+        }
+      }
+
+      // Links are only looked for in markdown
+      const links = collection.kind === 'data' ? { text: updated, count: 0 } : rewriteText(updated);
+      if (references === 0 && links.count === 0) return;
+      changes.push({ path: file.path, content: links.text });
+      rewrites.push({ path: file.path, links: links.count, references });
+    });
+  }
+
+  rewrites.sort((a, b) => a.path.localeCompare(b.path));
+  changes.sort((a, b) => a.path.localeCompare(b.path));
+
+  return {
+    oldPath: post.path,
+    newPath,
+    oldUrl,
+    newUrl,
+    content,
+    rewrites,
+    brokenReferences,
+    changes: [
+      { path: newPath, content },
+      ...(newPath !== post.path ? [{ path: post.path, delete: true }] : []),
+      ...changes,
+    ],
+  };
+};
+
+export const renameCommitMessage = (plan: RenamePlan): string => {
+  const oldName = plan.oldPath.split('/').pop() || plan.oldPath;
+  const target = plan.newPath.split('/').pop() === oldName ? plan.newPath : plan.newPath.split('/').pop();
+  const rewritten = plan.rewrites.length > 0 ? `\n\nUpdated links and references in:\n${plan.rewrites.map((r) => `- ${r.path}`).join('\n')}` : '';
+  return `chore(content): rename "${oldName}" to "${target}"${rewritten}`;
+};
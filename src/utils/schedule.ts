@@ -0,0 +1,67 @@
+import type { CollectionSchedule } from '../features/collections/types';
+
+/** Runs of the publish cron, newest first (written by lib/scheduler) */
+export const PUBLISH_LOG_PATH = '.pageel/publish-log.json';
+
+export interface PublishedEntry {
+  collection: string;
+  path: string;
+  scheduledAt: string;
+}
+
+export interface PublishRun {
+  ranAt: string;
+  published: PublishedEntry[];
+  /** Files that could not be read or parsed; they are left untouched */
+  errors: { path: string; message: string }[];
+}
+
+/** Date keys read in draft + date mode, first one present wins */
+export const SCHEDULE_DATE_KEYS = ['publishDate', 'pubDate', 'date'];
+
+/**
+ * Flag written by the schedule picker in draft + date mode. Without it a draft
+ * with an old date is just a draft, not a post waiting to go live.
+ */
+export const SCHEDULED_KEY = 'scheduled';
+
+const toDate = (value: unknown): Date | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const date = value instanceof Date ? value : new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/** Key that holds the publication time of a post under `schedule` */
+export const scheduleKey = (frontmatter: Record<string, any>, schedule: CollectionSchedule): string =>
+  schedule.field || SCHEDULE_DATE_KEYS.find((key) => key in frontmatter) || SCHEDULE_DATE_KEYS[0];
+
+/**
+ * When a post is set to go live, or null if it isn't scheduled.
+ * With `schedule.field` the field alone decides; otherwise the post must be
+ * a draft (`draft: true`) marked `scheduled: true` with a publication date.
+ */
+export const scheduledAt = (frontmatter: Record<string, any>, schedule: CollectionSchedule): Date | null => {
+  if (schedule.field) return toDate(frontmatter[schedule.field]);
+  if (frontmatter.draft !== true || frontmatter[SCHEDULED_KEY] !== true) return null;
+  return toDate(frontmatter[scheduleKey(frontmatter, schedule)]);
+};
+
+export const isDue = (frontmatter: Record<string, any>, schedule: CollectionSchedule, now: Date): boolean => {
+  const at = scheduledAt(frontmatter, schedule);
+  return at !== null && at.getTime() <= now.getTime();
+};
+
+/** Frontmatter after publishing: no longer a draft, and the schedule field or flag is cleared */
+export const publishedFrontmatter = (frontmatter: Record<string, any>, schedule: CollectionSchedule): Record<string, any> => {
+  const next = { ...frontmatter };
+  if (schedule.field) delete next[schedule.field];
+  else delete next[SCHEDULED_KEY];
+  if ('draft' in next || !schedule.field) next.draft = false;
+  return next;
+};
+
+/** Updates that schedule a post for `at` */
+export const scheduleUpdates = (frontmatter: Record<string, any>, schedule: CollectionSchedule, at: Date): Record<string, any> =>
+  schedule.field
+    ? { [schedule.field]: at.toISOString() }
+    : { draft: true, [SCHEDULED_KEY]: true, [scheduleKey(frontmatter, schedule)]: at.toISOString() };
@@ -0,0 +1,68 @@
+import type { IGitService } from '../types';
+import type { Collection, TemplateField } from '../features/collections/types';
+import { updateFrontmatter } from './parsing';
+import { isShaConflictError } from './merge';
+
+const MARKDOWN_FILE = /\.(md|mdx)$/i;
+
+/**
+ * Status field of a collection's board: `statusField` when set, otherwise a
+ * `select` field named `status`. Its options are the board columns. Data
+ * collections have none: their entries are JSON/YAML/TOML, not frontmatter.
+ */
+export const statusFieldOf = (collection: Collection | null | undefined): (TemplateField & { options: string[] }) | undefined => {
+  if (collection?.kind === 'data') return undefined;
+  const fields = collection?.template?.fields || [];
+  const name = collection?.statusField || 'status';
+  const field = fields.find((f) => f.name === name);
+  return field && field.type === 'select' && field.options?.length ? field as TemplateField & { options: string[] } : undefined;
+};
+
+export interface BoardColumn<T> {
+  /** Option of the status field; null for entries with no (or an unknown) status */
+  status: string | null;
+  entries: T[];
+}
+
+/** Entries split into one column per option, plus a leading "no status" column when needed */
+export const groupByStatus = <T extends { frontmatter: Record<string, any> }>(
+  entries: T[],
+  field: TemplateField & { options: string[] },
+): BoardColumn<T>[] => {
+  const columns: BoardColumn<T>[] = field.options.map((status) => ({ status, entries: [] }));
+  const unsorted: T[] = [];
+  entries.forEach((entry) => {
+    const value = entry.frontmatter[field.name];
+    const column = columns.find((c) => c.status === value);
+    if (column) column.entries.push(entry);
+    else unsorted.push(entry);
+  });
+  return unsorted.length > 0 ? [{ status: null, entries: unsorted }, ...columns] : columns;
+};
+
+/**
+ * Sets the status of one post with a commit. Reads the file fresh so edits
+ * made since the board loaded are kept, and retries once on a SHA conflict.
+ * Only Markdown posts have frontmatter to write to; data files are refused.
+ */
+export const commitStatusChange = async (
+  gitService: IGitService,
+  path: string,
+  field: string,
+  status: string,
+): Promise<void> => {
+  const fileName = path.split('/').pop() || path;
+  if (!MARKDOWN_FILE.test(fileName)) throw new Error(`"${fileName}" is not a Markdown post`);
+  const message = `fix(content): move "${fileName}" to ${status}`;
+  const write = async () => {
+    const content = await gitService.getFileContent(path);
+    const sha = await gitService.getFileSha(path);
+    await gitService.updateFileContent(path, updateFrontmatter(content, { [field]: status }), message, sha || '');
+  };
+  try {
+    await write();
+  } catch (e) {
+    if (!isShaConflictError(e)) throw e;
+    await write();
+  }
+};
@@ -0,0 +1,129 @@
+import type { FileChange } from '../types';
+import type { CollectionTemplate } from '../features/collections/types';
+import { parseMarkdown, buildMarkdown } from './parsing';
+import { hasSubFields } from './fieldTypes';
+
+interface TaxonomyPost {
+  path: string;
+  frontmatter: Record<string, any>;
+}
+
+/** Terms held by a frontmatter value: the items of a list of scalars, or a single scalar */
+export const termsOf = (value: unknown): string[] => {
+  const items = Array.isArray(value) ? value : [value];
+  return items
+    .filter((item) => item !== undefined && item !== null && item !== '' && typeof item !== 'object')
+    .map(String);
+};
+
+/** Number of posts using each term of `field` */
+export const termCounts = (posts: { frontmatter: Record<string, any> }[], field: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  posts.forEach((post) => {
+    new Set(termsOf(post.frontmatter[field])).forEach((term) => counts.set(term, (counts.get(term) || 0) + 1));
+  });
+  return counts;
+};
+
+export interface TaxonomyTerm {
+  term: string;
+  count: number;
+  /** Other terms of the field that only differ in case or punctuation */
+  similar: string[];
+}
+
+export interface TaxonomyField {
+  name: string;
+  terms: TaxonomyTerm[];
+}
+
+/** `JavaScript`, `java-script` and `javascript` compare equal */
+const normalizeTerm = (term: string): string => term.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/**
+ * Taxonomy fields of a collection: `multiselect` and plain `array` fields of
+ * the template, plus any key that holds a list of scalars in some post. Terms
+ * come most used first.
+ */
+export const collectTaxonomy = (posts: TaxonomyPost[], template?: CollectionTemplate | null): TaxonomyField[] => {
+  const names = new Set<string>();
+  template?.fields
+    .filter((field) => field.type === 'multiselect' || (field.type === 'array' && !hasSubFields(field)))
+    .forEach((field) => names.add(field.name));
+  posts.forEach((post) => {
+    Object.entries(post.frontmatter).forEach(([key, value]) => {
+      if (Array.isArray(value) && value.length > 0 && value.every((item) => typeof item !== 'object' || item === null)) names.add(key);
+    });
+  });
+
+  return Array.from(names).sort().map((name) => {
+    const counts = Array.from(termCounts(posts, name).entries());
+    const groups = new Map<string, string[]>();
+    counts.forEach(([term]) => {
+      const key = normalizeTerm(term);
+      groups.set(key, [...(groups.get(key) || []), term]);
+    });
+    return {
+      name,
+      terms: counts
+        .map(([term, count]) => ({ term, count, similar: (groups.get(normalizeTerm(term)) || []).filter((other) => other !== term) }))
+        .sort((a, b) => b.count - a.count || a.term.localeCompare(b.term)),
+    };
+  });
+};
+
+/** `replace` renames a term, or merges several into one; `delete` removes terms */
+export type TaxonomyChange =
+  | { kind: 'replace'; field: string; terms: string[]; to: string }
+  | { kind: 'delete'; field: string; terms: string[] };
+
+/** A field value with the change applied; a single term that is deleted leaves `undefined` */
+export const applyTermChange = (value: unknown, change: TaxonomyChange): unknown => {
+  const replacement = change.kind === 'replace' ? change.to : null;
+  if (!Array.isArray(value)) {
+    if (value === undefined || value === null || typeof value === 'object' || !change.terms.includes(String(value))) return value;
+    return replacement ?? undefined;
+  }
+  const next: unknown[] = [];
+  value.forEach((item) => {
+    const isTerm = typeof item !== 'object' && item !== null && change.terms.includes(String(item));
+    const kept = isTerm ? replacement : item;
+    if (kept === null) return;
+    // Merging can produce the same term twice
+    if (isTerm && next.some((other) => String(other) === kept)) return;
+    next.push(kept);
+  });
+  return next;
+};
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/** File changes applying a taxonomy change to every post that uses one of its terms */
+export const planTaxonomyChange = (posts: { path: string; rawContent: string }[], change: TaxonomyChange): FileChange[] =>
+  posts.flatMap((post): FileChange[] => {
+    const { frontmatter, body } = parseMarkdown(post.rawContent);
+    if (!(change.field in frontmatter)) return [];
+    const value = applyTermChange(frontmatter[change.field], change);
+    if (sameValue(value, frontmatter[change.field])) return [];
+    const { [change.field]: _previous, ...rest } = frontmatter;
+    return [{ path: post.path, content: buildMarkdown(value === undefined ? rest : { ...frontmatter, [change.field]: value }, body) }];
+  });
+
+/** A vocabulary with the change applied, so it keeps matching the posts */
+export const applyToVocabulary = (vocabulary: string[], change: TaxonomyChange): string[] => {
+  const next = applyTermChange(vocabulary, change) as string[];
+  return change.kind === 'replace' && !next.includes(change.to) ? [...next, change.to] : next;
+};
+
+/** Values of `value` missing from the vocabulary */
+export const termsOutsideVocabulary = (value: unknown, vocabulary: string[]): string[] =>
+  termsOf(value).filter((term) => !vocabulary.includes(term));
+
+export const taxonomyCommitMessage = (change: TaxonomyChange, count: number): string => {
+  const posts = `${count} post${count === 1 ? '' : 's'}`;
+  const terms = change.terms.map((term) => `"${term}"`).join(', ');
+  if (change.kind === 'delete') return `fix(content): remove ${change.field} ${terms} from ${posts}`;
+  return change.terms.length > 1
+    ? `fix(content): merge ${change.field} ${terms} into "${change.to}" in ${posts}`
+    : `fix(content): rename ${change.field} ${terms} to "${change.to}" in ${posts}`;
+};
@@ -0,0 +1,135 @@
+import type { CollectionTemplate, FieldValidation, TemplateField } from '../features/collections/types';
+import { termsOutsideVocabulary } from './taxonomy';
+
+export type ValidationRule = Exclude<keyof FieldValidation, 'patternMessage'> | 'required' | 'vocabulary';
+
+export interface ValidationIssue {
+  /** Top-level frontmatter key the issue belongs to */
+  field: string;
+  /** Display path, e.g. `authors #2 › name` for nested fields */
+  path: string;
+  rule: ValidationRule;
+  params: Record<string, string | number>;
+  /** Custom message from the template (`patternMessage`) */
+  message?: string;
+}
+
+type Translate = (key: string, options?: { [key: string]: string | number }) => string;
+
+const isEmpty = (value: unknown): boolean =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '') || (Array.isArray(value) && value.length === 0);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toTime = (value: unknown): number => {
+  const date = value instanceof Date ? value : new Date(String(value));
+  return date.getTime();
+};
+
+/** Checks one value against its field; nested sub-fields are checked recursively */
+const validateValue = (field: TemplateField, value: unknown, root: string, path: string, issues: ValidationIssue[]) => {
+  const push = (rule: ValidationRule, params: Record<string, string | number> = {}, message?: string) =>
+    issues.push({ field: root, path, rule, params, message });
+
+  if (isEmpty(value)) {
+    if (field.required) push('required');
+    return;
+  }
+
+  const rules = field.validation || {};
+
+  if (typeof value === 'string') {
+    if (rules.minLength !== undefined && value.length < rules.minLength) push('minLength', { min: rules.minLength });
+    if (rules.maxLength !== undefined && value.length > rules.maxLength) push('maxLength', { max: rules.maxLength });
+    if (rules.pattern) {
+      let regex: RegExp | null = null;
+      try {
+        regex = new RegExp(rules.pattern);
+      } catch {
+        console.warn(`[validation] Invalid pattern for "${path}": ${rules.pattern}`);
+      }
+      if (regex && !regex.test(value)) push('pattern', { pattern: rules.pattern }, rules.patternMessage);
+    }
+  }
+
+  if (rules.min !== undefined || rules.max !== undefined) {
+    const num = typeof value === 'number' ? value : Number(value);
+    if (!isNaN(num)) {
+      if (rules.min !== undefined && num < rules.min) push('min', { min: rules.min });
+      if (rules.max !== undefined && num > rules.max) push('max', { max: rules.max });
+    }
+  }
+
+  if (rules.minDate || rules.maxDate) {
+    const time = toTime(value);
+    if (!isNaN(time)) {
+      if (rules.minDate && time < toTime(rules.minDate)) push('minDate', { min: rules.minDate });
+      // A date-only upper bound includes that whole day
+      const maxTime = rules.maxDate ? toTime(rules.maxDate) + (DATE_ONLY.test(rules.maxDate) ? DAY_MS - 1 : 0) : NaN;
+      if (rules.maxDate && time > maxTime) push('maxDate', { max: rules.maxDate });
+    }
+  }
+
+  if (rules.allowedValues?.length) {
+    const values = Array.isArray(value) ? value : [value];
+    const invalid = values.filter((item) => !rules.allowedValues!.includes(String(item)));
+    if (invalid.length > 0) push('allowedValues', { values: rules.allowedValues.join(', '), invalid: invalid.map(String).join(', ') });
+  }
+
+  if (Array.isArray(value)) {
+    if (rules.minItems !== undefined && value.length < rules.minItems) push('minItems', { min: rules.minItems });
+    if (rules.maxItems !== undefined && value.length > rules.maxItems) push('maxItems', { max: rules.maxItems });
+    if (rules.uniqueItems) {
+      const keys = value.map((item) => JSON.stringify(item));
+      if (new Set(keys).size !== keys.length) push('uniqueItems');
+    }
+  }
+
+  if (field.fields?.length) {
+    if (field.type === 'object' && isRecord(value)) {
+      field.fields.forEach((sub) => validateValue(sub, value[sub.name], root, `${path} › ${sub.name}`, issues));
+    } else if (field.type === 'array' && Array.isArray(value)) {
+      value.forEach((item, index) => {
+        const record = isRecord(item) ? item : {};
+        field.fields!.forEach((sub) => validateValue(sub, record[sub.name], root, `${path} #${index + 1} › ${sub.name}`, issues));
+      });
+    }
+  }
+};
+
+/**
+ * Checks frontmatter against the `required` flags and `validation` rules of
+ * a collection template. Keys the template doesn't declare are not checked,
+ * except against the collection's controlled `vocabularies`.
+ */
+export const validateFrontmatter = (
+  frontmatter: Record<string, unknown>,
+  template: CollectionTemplate | null | undefined,
+  vocabularies?: Record<string, string[]>
+): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  template?.fields.forEach((field) => validateValue(field, frontmatter[field.name], field.name, field.name, issues));
+  Object.entries(vocabularies || {}).forEach(([field, terms]) => {
+    const invalid = termsOutsideVocabulary(frontmatter[field], terms);
+    if (invalid.length > 0) issues.push({ field, path: field, rule: 'vocabulary', params: { invalid: invalid.join(', ') } });
+  });
+  return issues;
+};
+
+export const formatValidationIssue = (issue: ValidationIssue, t: Translate): string =>
+  issue.message
+    ? `${issue.path}: ${issue.message}`
+    : t(`validation.${issue.rule}`, { field: issue.path, ...issue.params });
+
+/** Messages grouped by top-level key, for inline display next to each field */
+export const groupValidationIssues = (issues: ValidationIssue[], t: Translate): Record<string, string[]> => {
+  const grouped: Record<string, string[]> = {};
+  issues.forEach((issue) => {
+    (grouped[issue.field] ||= []).push(formatValidationIssue(issue, t));
+  });
+  return grouped;
+};
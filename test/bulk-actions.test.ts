@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { planBulkAction, bulkFileChanges, bulkCommitMessage, parseFieldInput } from '../src/utils/bulkActions';
+import { parseMarkdown } from '../src/utils/parsing';
+import { MAX_COMMIT_FILES } from '../src/lib/encoding';
+
+const targets = [
+  { path: 'src/content/blog/a.md', rawContent: '---\ntitle: A\ntags:\n  - astro\nstatus: draft\n---\nBody A\n' },
+  { path: 'src/content/blog/2024/b.md', rawContent: '---\ntitle: B\ntags: []\nstatus: review\n---\nBody B\n' },
+];
+
+const frontmatterOf = (content?: string) => parseMarkdown(content || '').frontmatter;
+
+describe('planBulkAction', () => {
+  it('sets a field and skips posts that already have the value', () => {
+    const plan = planBulkAction(targets, { kind: 'set-field', field: 'status', value: 'draft' });
+    expect(plan.map((item) => item.status)).toEqual(['unchanged', 'update']);
+    expect(frontmatterOf(plan[1].content)).toMatchObject({ title: 'B', status: 'draft' });
+    expect(parseMarkdown(plan[1].content!).body.trim()).toBe('Body B');
+  });
+
+  it('clears a field', () => {
+    const plan = planBulkAction(targets, { kind: 'clear-field', field: 'status' });
+    expect(plan.every((item) => item.status === 'update')).toBe(true);
+    expect(frontmatterOf(plan[0].content)).not.toHaveProperty('status');
+  });
+
+  it('adds and removes tags without duplicates', () => {
+    const added = planBulkAction(targets, { kind: 'add-tags', field: 'tags', tags: ['astro', 'cms'] });
+    expect(frontmatterOf(added[0].content).tags).toEqual(['astro', 'cms']);
+    expect(frontmatterOf(added[1].content).tags).toEqual(['astro', 'cms']);
+
+    const removed = planBulkAction(targets, { kind: 'remove-tags', field: 'tags', tags: ['astro'] });
+    expect(removed.map((item) => item.status)).toEqual(['update', 'unchanged']);
+    expect(frontmatterOf(removed[0].content).tags).toEqual([]);
+  });
+
+  it('moves files into another collection, keeping sub-folders and never overwriting', () => {
+    const plan = planBulkAction(
+      targets,
+      { kind: 'move', fromPath: 'src/content/blog', toPath: 'src/content/news' },
+      new Set(['src/content/news/a.md']),
+    );
+    expect(plan[0]).toMatchObject({ status: 'conflict', newPath: 'src/content/news/a.md' });
+    expect(plan[1]).toMatchObject({ status: 'move', newPath: 'src/content/news/2024/b.md' });
+  });
+
+  it('turns a plan into file changes for one commit', () => {
+    const moved = bulkFileChanges(planBulkAction(targets, { kind: 'move', fromPath: 'src/content/blog', toPath: 'src/content/news' }));
+    expect(moved).toEqual([
+      { path: 'src/content/news/a.md', content: targets[0].rawContent },
+      { path: 'src/content/blog/a.md', delete: true },
+      { path: 'src/content/news/2024/b.md', content: targets[1].rawContent },
+      { path: 'src/content/blog/2024/b.md', delete: true },
+    ]);
+
+    const deleted = bulkFileChanges(planBulkAction(targets, { kind: 'delete' }));
+    expect(deleted).toEqual(targets.map((target) => ({ path: target.path, delete: true })));
+
+    const unchanged = bulkFileChanges(planBulkAction(targets, { kind: 'set-field', field: 'title', value: 'A' }).slice(0, 1));
+    expect(unchanged).toEqual([]);
+  });
+
+  it('needs two changes per moved post, so 26 posts exceed one commit', () => {
+    const many = Array.from({ length: 26 }, (_, i) => ({ path: `src/content/blog/p${i}.md`, rawContent: '---\ntitle: P\n---\n' }));
+    const changes = bulkFileChanges(planBulkAction(many, { kind: 'move', fromPath: 'src/content/blog', toPath: 'src/content/news' }));
+    expect(changes.length).toBeGreaterThan(MAX_COMMIT_FILES);
+  });
+});
+
+describe('bulk helpers', () => {
+  it('parses the typed value by field type', () => {
+    expect(parseFieldInput({ name: 'views', type: 'number' }, '42')).toBe(42);
+    expect(parseFieldInput({ name: 'featured', type: 'boolean' }, 'true')).toBe(true);
+    expect(parseFieldInput({ name: 'topics', type: 'multiselect' }, 'a, b,,c')).toEqual(['a', 'b', 'c']);
+    expect(parseFieldInput(undefined, 'plain')).toBe('plain');
+  });
+
+  it('describes the commit', () => {
+    expect(bulkCommitMessage({ kind: 'set-field', field: 'status', value: 'done' }, 3)).toBe('fix(content): set status on 3 posts');
+    expect(bulkCommitMessage({ kind: 'delete' }, 1)).toBe('chore(content): delete 1 post');
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { schemaToTemplateFields, mergeTemplateFields } from '../packages/cms-bridge/src/schema';
+// Generated by Zod's toJSONSchema the way `astro sync` writes .astro/collections/*.schema.json
+import blogSchema from './fixtures/blog.schema.json';
+
+describe('schemaToTemplateFields', () => {
+  const fields = schemaToTemplateFields(blogSchema, ['blog', 'authors']);
+  const byName = Object.fromEntries(fields.map((field) => [field.name, field]));
+
+  it('maps Zod types to template field types', () => {
+    expect(fields.map((field) => [field.name, field.type])).toEqual([
+      ['title', 'string'],
+      ['pubDate', 'date'],
+      ['updated', 'date'],
+      ['draft', 'boolean'],
+      ['status', 'select'],
+      ['tags', 'array'],
+      ['cats', 'multiselect'],
+      ['rating', 'number'],
+      ['email', 'email'],
+      ['site', 'url'],
+      ['author', 'reference'],
+      ['related', 'reference'],
+      ['seo', 'object'],
+      ['links', 'array'],
+      ['image', 'string'],
+    ]);
+  });
+
+  it('keeps required flags, enums, defaults and constraints', () => {
+    expect(byName.title).toEqual({ name: 'title', type: 'string', required: true, validation: { maxLength: 80 } });
+    expect(byName.status.options).toEqual(['draft', 'published']);
+    expect(byName.draft).toEqual({ name: 'draft', type: 'boolean', defaultValue: false });
+    expect(byName.rating).toEqual({ name: 'rating', type: 'number', validation: { min: 1, max: 5 } });
+    expect(byName.email.validation).toBeUndefined();
+    expect(byName.image.description).toBe('Cover image');
+  });
+
+  it('resolves references and nested objects', () => {
+    expect(byName.author).toEqual({ name: 'author', type: 'reference', collection: 'authors', required: true });
+    expect(byName.related).toEqual({ name: 'related', type: 'reference', multiple: true });
+    expect(byName.seo.fields).toEqual([
+      { name: 'title', type: 'string' },
+      { name: 'noindex', type: 'boolean', defaultValue: false },
+    ]);
+    expect(byName.links.fields).toEqual([
+      { name: 'label', type: 'string', required: true },
+      { name: 'href', type: 'string', required: true },
+    ]);
+  });
+});
+
+describe('mergeTemplateFields', () => {
+  it('keeps hand-made settings and appends new schema fields', () => {
+    const merged = mergeTemplateFields(
+      [
+        { name: 'image', type: 'image' },
+        { name: 'legacy', type: 'string' },
+        { name: 'seo', type: 'object', fields: [{ name: 'title', type: 'text' }] },
+      ],
+      [
+        { name: 'title', type: 'string', required: true },
+        { name: 'image', type: 'string', required: true, description: 'Cover' },
+        { name: 'seo', type: 'object', fields: [{ name: 'title', type: 'string' }, { name: 'noindex', type: 'boolean' }] },
+      ]
+    );
+    expect(merged).toEqual([
+      { name: 'image', type: 'image', required: true, description: 'Cover' },
+      { name: 'legacy', type: 'string' },
+      { name: 'seo', type: 'object', fields: [{ name: 'title', type: 'text' }, { name: 'noindex', type: 'boolean' }] },
+      { name: 'title', type: 'string', required: true },
+    ]);
+  });
+});
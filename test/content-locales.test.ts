@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { IGitService } from '../src/types';
+import type { CollectionI18n } from '../src/features/collections/types';
+import { loadCollectionsFromPageelrc } from '../src/features/collections/sync';
+import { entryLocale, translationKey, translationPath, findTranslations, translationFrontmatter } from '../src/utils/contentLocales';
+
+const folder: CollectionI18n = { locales: ['en', 'vi'], strategy: 'folder' };
+const suffix: CollectionI18n = { locales: ['en', 'vi'], strategy: 'suffix' };
+
+describe('folder per locale', () => {
+  it('reads the locale from the first folder', () => {
+    expect(entryLocale('vi/2024/hello.md', folder)).toBe('vi');
+    expect(entryLocale('drafts/hello.md', folder)).toBeNull();
+    expect(entryLocale('hello.md', folder)).toBeNull();
+    expect(translationKey('vi/2024/hello.md', folder)).toBe('2024/hello.md');
+  });
+
+  it('links translations across locale folders', () => {
+    expect(translationPath('en/hello.md', 'vi', folder)).toBe('vi/hello.md');
+    expect(findTranslations('en/hello.md', ['en/hello.md', 'vi/hello.md', 'en/other.md'], folder)).toEqual([
+      { locale: 'en', path: 'en/hello.md', exists: true },
+      { locale: 'vi', path: 'vi/hello.md', exists: true },
+    ]);
+    expect(findTranslations('drafts/hello.md', [], folder)).toEqual([]);
+  });
+});
+
+describe('file name suffix', () => {
+  it('treats unsuffixed files as the default locale', () => {
+    expect(entryLocale('hello.md', suffix)).toBe('en');
+    expect(entryLocale('2024/hello.vi.mdx', suffix)).toBe('vi');
+    expect(translationKey('2024/hello.vi.mdx', suffix)).toBe('2024/hello.mdx');
+  });
+
+  it('adds or drops the suffix when switching locale', () => {
+    expect(translationPath('hello.md', 'vi', suffix)).toBe('hello.vi.md');
+    expect(translationPath('hello.vi.md', 'en', suffix)).toBe('hello.md');
+    expect(findTranslations('hello.vi.md', ['hello.vi.md'], suffix)).toEqual([
+      { locale: 'en', path: 'hello.md', exists: false },
+      { locale: 'vi', path: 'hello.vi.md', exists: true },
+    ]);
+  });
+});
+
+describe('translationFrontmatter', () => {
+  it('copies the source and switches its language key', () => {
+    const source = { title: 'Hello', lang: 'en', tags: ['a'] };
+    const copy = translationFrontmatter(source, 'vi');
+    expect(copy).toEqual({ title: 'Hello', lang: 'vi', tags: ['a'] });
+    expect(copy.tags).not.toBe(source.tags);
+  });
+});
+
+describe('i18n in .pageelrc.json', () => {
+  it('loads locales and drops an empty config', async () => {
+    const service = {
+      getFileContent: vi.fn(async () => JSON.stringify({
+        version: 2,
+        collections: [
+          { id: 'blog', name: 'Blog', postsPath: 'src/content/blog', imagesPath: 'public/images', i18n: { locales: ['en', 'vi', 3], strategy: 'suffix' } },
+          { id: 'docs', name: 'Docs', postsPath: 'src/content/docs', imagesPath: 'public/images', i18n: { locales: [] } },
+        ],
+      })),
+    } as unknown as IGitService;
+
+    const loaded = await loadCollectionsFromPageelrc(service, 'owner/repo');
+    expect(loaded?.collections[0].i18n).toEqual({ locales: ['en', 'vi'], strategy: 'suffix' });
+    expect(loaded?.collections[1].i18n).toBeUndefined();
+  });
+});
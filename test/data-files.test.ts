@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { IGitService } from '../src/types';
+import { createCollection } from '../src/features/collections/types';
+import {
+  getDataFormat,
+  parseDataFile,
+  serializeDataFile,
+  readDataEntries,
+  writeDataEntry,
+  removeDataEntry,
+} from '../src/utils/dataFiles';
+import { entrySlug, loadReferenceEntries } from '../src/utils/references';
+
+describe('getDataFormat', () => {
+  it('maps extensions to formats', () => {
+    expect(getDataFormat('src/data/team.json')).toBe('json');
+    expect(getDataFormat('a.YAML')).toBe('yaml');
+    expect(getDataFormat('a.yml')).toBe('yaml');
+    expect(getDataFormat('a.toml')).toBe('toml');
+    expect(getDataFormat('a.md')).toBeNull();
+  });
+});
+
+describe('serializeDataFile', () => {
+  it('keeps the JSON indentation and trailing newline of the original', () => {
+    const original = '{\n    "name": "Jane"\n}\n';
+    expect(serializeDataFile({ name: 'Bob' }, 'json', original)).toBe('{\n    "name": "Bob"\n}\n');
+    expect(serializeDataFile({ name: 'Bob' }, 'json', '{\n\t"name": "Jane"\n}')).toBe('{\n\t"name": "Bob"\n}');
+  });
+
+  it('round-trips YAML and TOML', () => {
+    const data = { name: 'Jane', tags: ['a', 'b'], active: true };
+    expect(parseDataFile(serializeDataFile(data, 'yaml'), 'yaml')).toEqual(data);
+    expect(parseDataFile(serializeDataFile(data, 'toml'), 'toml')).toEqual(data);
+  });
+});
+
+describe('multi-entry files', () => {
+  const array = JSON.stringify([{ id: 'jane', name: 'Jane' }, { name: 'Anon' }], null, 2) + '\n';
+  const map = 'jane:\n  name: Jane\nbob:\n  name: Bob\n';
+
+  it('reads array items by id or position, and map values by key', () => {
+    expect(readDataEntries(array, 'json').map((e) => e.id)).toEqual(['jane', '1']);
+    expect(readDataEntries(map, 'yaml')).toEqual([
+      { id: 'jane', data: { name: 'Jane' } },
+      { id: 'bob', data: { name: 'Bob' } },
+    ]);
+  });
+
+  it('replaces one entry and leaves the others in place', () => {
+    const next = JSON.parse(writeDataEntry(array, 'json', 'jane', { id: 'jane', name: 'Janet' }));
+    expect(next).toEqual([{ id: 'jane', name: 'Janet' }, { name: 'Anon' }]);
+    expect(parseDataFile(writeDataEntry(map, 'yaml', 'bob', { name: 'Robert' }), 'yaml')).toEqual({
+      jane: { name: 'Jane' },
+      bob: { name: 'Robert' },
+    });
+  });
+
+  it('appends new entries, giving array items their id', () => {
+    const next = JSON.parse(writeDataEntry(array, 'json', null, { name: 'Sam' }, 'sam'));
+    expect(next[2]).toEqual({ id: 'sam', name: 'Sam' });
+    expect(() => writeDataEntry(map, 'yaml', null, { name: 'Sam' })).toThrow();
+    const toml = writeDataEntry('[jane]\nname = "Jane"\n', 'toml', null, { name: 'Sam' }, 'sam');
+    expect(parseDataFile(toml, 'toml')).toEqual({ jane: { name: 'Jane' }, sam: { name: 'Sam' } });
+  });
+
+  it('removes entries', () => {
+    expect(JSON.parse(removeDataEntry(array, 'json', '1'))).toEqual([{ id: 'jane', name: 'Jane' }]);
+    expect(parseDataFile(removeDataEntry(map, 'yaml', 'jane'), 'yaml')).toEqual({ bob: { name: 'Bob' } });
+  });
+});
+
+describe('data collections as reference targets', () => {
+  const files: Record<string, string> = {
+    'src/content/authors/jane.json': '{ "name": "Jane Doe" }',
+    'src/content/authors/bob.yaml': 'name: Bob\n',
+    'src/data/team.json': '[{ "id": "sam", "name": "Sam" }]',
+  };
+  const service = {
+    listFiles: vi.fn(async (dir: string) =>
+      Object.keys(files)
+        .filter((path) => path.startsWith(`${dir}/`))
+        .map((path) => ({ type: 'file', name: path.split('/').pop()!, path, sha: 'x' }))
+    ),
+    getFileContent: vi.fn(async (path: string) => files[path]),
+  } as unknown as IGitService;
+
+  it('uses the file name without its data extension as id', () => {
+    expect(entrySlug('jane.json')).toBe('jane');
+  });
+
+  it('lists entry files and items of a single data file', async () => {
+    const authors = { ...createCollection('authors', 'Authors', 'src/content/authors', 'public/images'), kind: 'data' as const };
+    const team = { ...createCollection('team', 'Team', 'src/data/team.json', 'public/images'), kind: 'data' as const };
+    expect((await loadReferenceEntries(service, authors)).map((e) => [e.slug, e.title])).toEqual([
+      ['bob', 'Bob'],
+      ['jane', 'Jane Doe'],
+    ]);
+    expect((await loadReferenceEntries(service, team)).map((e) => e.slug)).toEqual(['sam']);
+  });
+});
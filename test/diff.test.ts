@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines, diffPost } from '../src/utils/diff';
+
+describe('diffLines', () => {
+  it('marks added and removed lines around unchanged context', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc\nd')).toEqual([
+      { op: 'equal', text: 'a' },
+      { op: 'remove', text: 'b' },
+      { op: 'add', text: 'B' },
+      { op: 'equal', text: 'c' },
+      { op: 'add', text: 'd' },
+    ]);
+  });
+
+  it('handles empty sides', () => {
+    expect(diffLines('', 'x')).toEqual([{ op: 'add', text: 'x' }]);
+    expect(diffLines('x', '')).toEqual([{ op: 'remove', text: 'x' }]);
+    expect(diffLines('', '')).toEqual([]);
+  });
+});
+
+describe('diffPost', () => {
+  it('compares frontmatter per key and ignores key order', () => {
+    const before = '---\ntitle: Hello\ntags: [a, b]\ndraft: true\n---\nBody';
+    const after = '---\ndraft: true\ntitle: "Hello"\ntags: [a, c]\nauthor: Jo\n---\nBody';
+
+    const diff = diffPost(before, after);
+
+    expect(diff.frontmatter).toEqual([
+      { key: 'tags', status: 'changed', before: ['a', 'b'], after: ['a', 'c'] },
+      { key: 'author', status: 'added', after: 'Jo' },
+    ]);
+    expect(diff.body).toEqual([{ op: 'equal', text: 'Body' }]);
+  });
+
+  it('reports removed keys', () => {
+    const diff = diffPost('---\ntitle: A\nimage: /a.png\n---\n', '---\ntitle: A\n---\n');
+    expect(diff.frontmatter).toEqual([{ key: 'image', status: 'removed', before: '/a.png' }]);
+  });
+});
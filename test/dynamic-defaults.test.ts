@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import type { CollectionTemplate } from '../src/features/collections/types';
+import { resolveDefaultValue, resolveTemplateDefaults, missingDefaults, syncDerivedFields, isDerivedDefault } from '../src/utils/dynamicDefaults';
+
+const context = { now: new Date('2025-03-09T08:05:00Z'), user: 'Ada', collection: 'blog' };
+
+const template: CollectionTemplate = {
+  fields: [
+    { name: 'title', type: 'string' },
+    { name: 'slug', type: 'string', defaultValue: '{{slugify(title)}}' },
+    { name: 'author', type: 'string', defaultValue: '{{user}}' },
+    { name: 'pubDate', type: 'date', defaultValue: '{{today}}' },
+    { name: 'draft', type: 'boolean', defaultValue: true },
+  ],
+};
+
+describe('resolveDefaultValue', () => {
+  it('resolves built-in tokens and leaves unknown ones', () => {
+    expect(resolveDefaultValue('{{now}}', {}, context)).toBe('2025-03-09T08:05:00.000Z');
+    expect(resolveDefaultValue('{{collection}}/{{today}}', {}, context)).toBe('blog/2025-03-09');
+    expect(resolveDefaultValue('{{ .Title }}', {}, context)).toBe('{{ .Title }}');
+    expect(resolveDefaultValue('{{uuid}}', {}, context)).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(resolveDefaultValue(['{{user}}'], {}, context)).toEqual(['Ada']);
+    expect(resolveDefaultValue(3, {}, context)).toBe(3);
+  });
+
+  it('derives values from other fields', () => {
+    expect(isDerivedDefault('{{slugify(title)}}')).toBe(true);
+    expect(isDerivedDefault('{{today}}')).toBe(false);
+    expect(resolveDefaultValue('{{slugify(title)}}', { title: 'Hello World' }, context)).toBe('hello-world');
+    expect(resolveDefaultValue('By {{fields.author}}', { author: 'Ada' }, context)).toBe('By Ada');
+  });
+});
+
+describe('template defaults', () => {
+  it('fills a blank post, resolving derived fields last', () => {
+    expect(resolveTemplateDefaults(template, context, { title: 'First Post' })).toEqual({
+      title: 'First Post', slug: 'first-post', author: 'Ada', pubDate: '2025-03-09', draft: true,
+    });
+  });
+
+  it('only adds defaults an uploaded post leaves empty', () => {
+    expect(missingDefaults(template, { title: 'Uploaded', author: 'Grace', pubDate: '' }, context)).toEqual({
+      slug: 'uploaded', pubDate: '2025-03-09', draft: true,
+    });
+  });
+
+  it('keeps derived fields in sync unless the user edited them', () => {
+    expect(syncDerivedFields(template, { title: 'New Title', slug: 'old' }, new Set(['title']), context)).toEqual({ slug: 'new-title' });
+    expect(syncDerivedFields(template, { title: 'New Title', slug: 'custom' }, new Set(['title', 'slug']), context)).toEqual({});
+  });
+});
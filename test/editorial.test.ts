@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  draftBranchName,
+  saveDraft,
+  getDraft,
+  listDrafts,
+  publishDraft,
+  discardDraft,
+  createMemoryEditorialBackend,
+} from '../src/lib/editorial';
+import { mergePullRequest, listPullRequests, type GitClientConfig } from '../src/lib/git-client';
+
+const request = {
+  collectionId: 'blog',
+  slug: 'hello-world',
+  path: 'src/content/blog/hello-world.md',
+  content: '---\ntitle: Hello v2\n---\nBody',
+  commitMessage: 'update draft',
+  title: 'Hello v2',
+};
+
+describe('editorial workflow', () => {
+  it('names draft branches cms/<collection>/<slug>', () => {
+    expect(draftBranchName('blog', 'hello-world')).toBe('cms/blog/hello-world');
+    expect(draftBranchName('Docs Site', '../x')).toBe('cms/docs-site/.-x');
+    expect(() => draftBranchName('blog', '')).toThrow();
+  });
+
+  it('commits to the draft branch and opens one PR across saves', async () => {
+    const backend = createMemoryEditorialBackend({ files: { [request.path]: 'v1' } });
+
+    const first = await saveDraft(backend, request);
+    const second = await saveDraft(backend, { ...request, content: 'v3' });
+
+    expect(first.number).toBe(second.number);
+    expect(first).toMatchObject({ head: 'cms/blog/hello-world', base: 'main', state: 'open' });
+    expect(backend.branches.get('main')!.get(request.path)).toBe('v1');
+    expect(backend.branches.get('cms/blog/hello-world')!.get(request.path)).toBe('v3');
+
+    const draft = await getDraft(backend, 'blog', 'hello-world', request.path);
+    expect(draft).toMatchObject({ branch: 'cms/blog/hello-world', content: 'v3' });
+    expect(draft!.pullRequest!.number).toBe(first.number);
+    await expect(getDraft(backend, 'blog', 'other', 'src/content/blog/other.md')).resolves.toBeNull();
+  });
+
+  it('lists only CMS PRs and publishes into the base branch', async () => {
+    const backend = createMemoryEditorialBackend();
+    await backend.createBranch('feature/manual', 'main');
+    await backend.createPullRequest({ title: 'manual', head: 'feature/manual', base: 'main' });
+    const pr = await saveDraft(backend, request);
+
+    expect((await listDrafts(backend)).map((p) => p.number)).toEqual([pr.number]);
+
+    await publishDraft(backend, pr.number);
+    expect(backend.branches.get('main')!.get(request.path)).toBe(request.content);
+    expect(backend.branches.has('cms/blog/hello-world')).toBe(false);
+    expect(await listDrafts(backend)).toEqual([]);
+    await expect(publishDraft(backend, 1)).rejects.toThrow(/not a CMS draft/);
+  });
+
+  it('discards by closing the PR and deleting the branch', async () => {
+    const backend = createMemoryEditorialBackend();
+    const pr = await saveDraft(backend, request);
+
+    await discardDraft(backend, pr.number);
+
+    expect((await backend.getPullRequest(pr.number)).state).toBe('closed');
+    expect(backend.branches.has('cms/blog/hello-world')).toBe(false);
+    expect(backend.branches.get('main')!.has(request.path)).toBe(false);
+  });
+});
+
+describe('git-client pull requests', () => {
+  const jsonResponse = (body: any) => ({
+    ok: true,
+    status: 200,
+    headers: { get: () => 'application/json' },
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('normalizes PRs and squash-merges per service', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse([
+      { number: 7, title: 'T', html_url: 'u', head: { ref: 'cms/blog/a' }, base: { ref: 'main' }, state: 'open', mergeable: null, user: { login: 'ed' }, updated_at: 'd' },
+    ]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const github: GitClientConfig = { token: 't', owner: 'o', repo: 'r', service: 'github' };
+    const gitea: GitClientConfig = { ...github, service: 'gitea', instanceUrl: 'https://git.example.com' };
+
+    await expect(listPullRequests(github)).resolves.toEqual([
+      { number: 7, title: 'T', url: 'u', head: 'cms/blog/a', base: 'main', state: 'open', mergeable: null, author: 'ed', updatedAt: 'd' },
+    ]);
+
+    await mergePullRequest(github, 7);
+    await mergePullRequest(gitea, 7);
+    expect(fetchMock.mock.calls[1][0]).toBe('https://api.github.com/repos/o/r/pulls/7/merge');
+    expect(fetchMock.mock.calls[1][1]).toMatchObject({ method: 'PUT', body: JSON.stringify({ merge_method: 'squash' }) });
+    expect(fetchMock.mock.calls[2][0]).toBe('https://git.example.com/api/v1/repos/o/r/pulls/7/merge');
+    expect(fetchMock.mock.calls[2][1]).toMatchObject({ method: 'POST', body: JSON.stringify({ Do: 'squash' }) });
+
+    await expect(listPullRequests({ ...github, service: 'gogs' })).rejects.toThrow(/not supported/);
+  });
+
+  it('finds a draft PR past the first page of open PRs', async () => {
+    const pr = (number: number, head: string) => ({ number, title: 'T', html_url: 'u', head: { ref: head }, base: { ref: 'main' }, state: 'open' });
+    const fetchMock = vi.fn(async (url: string) => {
+      const page = Number(new URL(url).searchParams.get('page'));
+      if (page === 1) return jsonResponse(Array.from({ length: 50 }, (_, i) => pr(i + 1, `feature/${i}`)));
+      if (page === 2) return jsonResponse([pr(51, 'cms/blog/a')]);
+      return jsonResponse([]);
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const gitea: GitClientConfig = { token: 't', owner: 'o', repo: 'r', service: 'gitea', instanceUrl: 'https://git.example.com' };
+    const found = await listPullRequests(gitea, 'open', 'cms/blog/a');
+    expect(found.map((p) => p.number)).toEqual([51]);
+
+    fetchMock.mockClear();
+    await listPullRequests({ ...gitea, service: 'github', instanceUrl: undefined }, 'open', 'cms/blog/a');
+    expect(fetchMock.mock.calls[0][0]).toContain('/pulls?state=open&head=o%3Acms%2Fblog%2Fa&per_page=100');
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  defaultValueForType,
+  defaultValueForField,
+  isValidUrl,
+  isValidEmail,
+  toStringArray,
+  toDateTimeInput,
+  fromDateTimeInput,
+  markdownToPlainText,
+} from '../src/utils/fieldTypes';
+import { inferFrontmatterType, inferTemplateFields } from '../src/utils/parsing';
+import { matchesFilter } from '../src/components/FilterBar';
+
+describe('field type helpers', () => {
+  it('gives list types an empty array as default', () => {
+    expect(defaultValueForType('multiselect')).toEqual([]);
+    expect(defaultValueForType('boolean')).toBe(false);
+    expect(defaultValueForType('select')).toBe('');
+  });
+
+  it('validates URLs and emails', () => {
+    expect(isValidUrl('https://example.com/a')).toBe(true);
+    expect(isValidUrl('/blog/post')).toBe(true);
+    expect(isValidUrl('javascript:alert(1)')).toBe(false);
+    expect(isValidEmail('jo@example.com')).toBe(true);
+    expect(isValidEmail('jo@example')).toBe(false);
+  });
+
+  it('round-trips datetime-local values', () => {
+    const iso = fromDateTimeInput('2026-03-01T09:30');
+    expect(toDateTimeInput(iso)).toBe('2026-03-01T09:30');
+    expect(toDateTimeInput('not a date')).toBe('');
+  });
+
+  it('normalizes multiselect values and strips markdown', () => {
+    expect(toStringArray('news')).toEqual(['news']);
+    expect(toStringArray(undefined)).toEqual([]);
+    expect(markdownToPlainText('## Hi **there** [link](/x)')).toBe('Hi there link');
+  });
+});
+
+describe('inferFrontmatterType', () => {
+  it('recognizes the rich string types', () => {
+    expect(inferFrontmatterType('#ff8800')).toBe('color');
+    expect(inferFrontmatterType('jo@example.com')).toBe('email');
+    expect(inferFrontmatterType('/images/cover.webp')).toBe('image');
+    expect(inferFrontmatterType('https://example.com')).toBe('url');
+    expect(inferFrontmatterType('line one\nline two')).toBe('text');
+    expect(inferFrontmatterType('2026-03-01')).toBe('date');
+    expect(inferFrontmatterType('2026-03-01T09:30:00Z')).toBe('datetime');
+    expect(inferFrontmatterType(new Date('2026-03-01T09:30:00Z'))).toBe('datetime');
+    expect(inferFrontmatterType('Hello')).toBe('string');
+  });
+});
+
+describe('nested template fields', () => {
+  it('infers object sub-schemas and repeatable groups from a post', () => {
+    const fields = inferTemplateFields({
+      seo: { title: 'T', image: '/og.png' },
+      authors: [{ name: 'A' }, { name: 'B', url: 'https://b.example' }],
+      tags: ['x'],
+    });
+
+    expect(fields).toEqual([
+      { name: 'seo', type: 'object', fields: [{ name: 'title', type: 'string' }, { name: 'image', type: 'image' }] },
+      { name: 'authors', type: 'array', fields: [{ name: 'name', type: 'string' }, { name: 'url', type: 'url' }] },
+      { name: 'tags', type: 'array' },
+    ]);
+  });
+
+  it('builds defaults for nested objects', () => {
+    expect(defaultValueForField({
+      name: 'seo',
+      type: 'object',
+      fields: [{ name: 'title', type: 'string' }, { name: 'noindex', type: 'boolean' }, { name: 'links', type: 'array', fields: [{ name: 'url', type: 'url' }] }],
+    })).toEqual({ title: '', noindex: false, links: [] });
+  });
+});
+
+describe('matchesFilter for rich types', () => {
+  it('matches text types by case-insensitive substring', () => {
+    expect(matchesFilter('Hello World', { type: 'text', value: 'world' })).toBe(true);
+    expect(matchesFilter(undefined, { type: 'url', value: 'x' })).toBe(false);
+  });
+
+  it('matches multiselect values written as a single string', () => {
+    expect(matchesFilter('news', { type: 'multiselect', value: ['news'] })).toBe(true);
+    expect(matchesFilter(['a', 'b'], { type: 'multiselect', value: ['c'] })).toBe(false);
+  });
+
+  it('filters image fields by presence', () => {
+    expect(matchesFilter('/img.png', { type: 'image', value: true })).toBe(true);
+    expect(matchesFilter('', { type: 'image', value: false })).toBe(true);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { resolveFilenamePattern, entryRelativePath, isInCollectionFolder } from '../src/utils/filenamePattern';
+import { entrySlug } from '../src/utils/references';
+
+const now = new Date('2025-03-09T08:05:00Z');
+
+describe('resolveFilenamePattern', () => {
+  it('defaults to <slug>.md', () => {
+    expect(resolveFilenamePattern(undefined, { slug: 'hello', now })).toBe('hello.md');
+    expect(resolveFilenamePattern('', { slug: 'hello', extension: 'mdx', now })).toBe('hello.mdx');
+  });
+
+  it('builds dated folders from the entry date, else now', () => {
+    expect(resolveFilenamePattern('{year}/{month}/{slug}.mdx', { slug: 'hello', frontmatter: { pubDate: '2024-05-01' }, now }))
+      .toBe('2024/05/hello.mdx');
+    expect(resolveFilenamePattern('{year}/{month}/{slug}', { slug: 'hello', now })).toBe('2025/03/hello.md');
+  });
+
+  it('supports page bundles and Jekyll-style names', () => {
+    expect(resolveFilenamePattern('{slug}/index.md', { slug: 'hello', now })).toBe('hello/index.md');
+    expect(resolveFilenamePattern('{year}-{month}-{day}-{slug}', { slug: 'hello', frontmatter: { date: '2024-12-31' }, now }))
+      .toBe('2024-12-31-hello.md');
+  });
+
+  it('fills locale and frontmatter fields', () => {
+    expect(resolveFilenamePattern('{locale}/{fields.category}/{slug}', { slug: 'hi', frontmatter: { lang: 'vi', category: 'Tin Tức' }, now }))
+      .toBe('vi/tin-tuc/hi.md');
+  });
+
+  it('rejects paths that are empty, escape the folder or keep unknown tokens', () => {
+    expect(() => resolveFilenamePattern('{fields.missing}/{slug}', { slug: 'hi', now })).toThrow();
+    expect(() => resolveFilenamePattern('../{slug}', { slug: 'hi', now })).toThrow();
+    expect(() => resolveFilenamePattern('{unknown}-{slug}', { slug: 'hi', now })).toThrow();
+  });
+});
+
+describe('collection folder paths', () => {
+  it('keeps nested entries and drops sibling folders sharing the prefix', () => {
+    expect(isInCollectionFolder('src/content/blog/2024/post.md', 'src/content/blog')).toBe(true);
+    expect(isInCollectionFolder('src/content/blog-archive/post.md', 'src/content/blog')).toBe(false);
+    expect(entryRelativePath('src/content/blog/2024/post.md', 'src/content/blog/')).toBe('2024/post.md');
+  });
+
+  it('derives entry ids from nested paths the way Astro does', () => {
+    expect(entrySlug('2024/05/post.md')).toBe('2024/05/post');
+    expect(entrySlug('post/index.mdx')).toBe('post');
+  });
+});
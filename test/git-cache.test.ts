@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getFileContent, listFiles, scanForContentDirectories, updateFileContent, type GitClientConfig } from '../src/lib/git-client';
+import { clearGitCache, getGitCacheStats } from '../src/lib/git-cache';
+
+const response = (status: number, body: any, headers: Record<string, string> = {}) => ({
+  ok: status < 400,
+  status,
+  headers: { get: (name: string) => ({ 'content-type': 'application/json', ...headers })[name.toLowerCase()] ?? null },
+  json: () => Promise.resolve(body),
+  text: () => Promise.resolve(typeof body === 'string' ? body : JSON.stringify(body)),
+});
+
+const shaResponse = (sha: string, etag: string) => ({
+  ...response(200, sha, { 'content-type': 'application/vnd.github.sha', etag }),
+});
+
+const header = (init: RequestInit | undefined, name: string) => (init?.headers as Record<string, string> | undefined)?.[name];
+
+describe('git-client read cache', () => {
+  const config: GitClientConfig = { token: 't', owner: 'o', repo: 'r', service: 'github', branch: 'main' };
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    clearGitCache();
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('revalidates contents with If-None-Match and serves 304s from the cache', async () => {
+    fetchMock
+      .mockResolvedValueOnce(response(200, { content: btoa('v1'), encoding: 'base64', sha: 's1' }, { etag: '"e1"' }))
+      .mockResolvedValueOnce(response(304, null));
+
+    expect(await getFileContent(config, 'src/content/a.md')).toBe('v1');
+    expect(await getFileContent(config, 'src/content/a.md')).toBe('v1');
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api.github.com/repos/o/r/contents/src/content/a.md?ref=main');
+    expect(header(fetchMock.mock.calls[0][1], 'If-None-Match')).toBeUndefined();
+    expect(header(fetchMock.mock.calls[1][1], 'If-None-Match')).toBe('"e1"');
+    expect(getGitCacheStats().response).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  it('fetches the recursive tree once per commit SHA', async () => {
+    const tree = { tree: [{ path: 'src/content/blog/a.md', type: 'blob', sha: 'b1' }] };
+    fetchMock
+      .mockResolvedValueOnce(shaResponse('c1', '"h1"'))
+      .mockResolvedValueOnce(response(200, tree))
+      .mockResolvedValueOnce(response(304, null))
+      .mockResolvedValueOnce(response(304, null));
+
+    await listFiles(config, 'src/content');
+    await listFiles(config, 'src/content');
+    expect(await scanForContentDirectories(config)).toEqual(['src/content/blog']);
+
+    const urls = fetchMock.mock.calls.map(([url]) => url);
+    expect(urls.filter((url) => url.includes('/git/trees/'))).toEqual(['https://api.github.com/repos/o/r/git/trees/c1?recursive=1']);
+    expect(urls.filter((url) => url.endsWith('/commits/main'))).toHaveLength(3);
+    expect(getGitCacheStats().tree).toMatchObject({ hits: 2, misses: 1 });
+  });
+
+  it('refetches the tree when the branch moved', async () => {
+    fetchMock
+      .mockResolvedValueOnce(shaResponse('c1', '"h1"'))
+      .mockResolvedValueOnce(response(200, { tree: [] }))
+      .mockResolvedValueOnce(shaResponse('c2', '"h2"'))
+      .mockResolvedValueOnce(response(200, { tree: [] }));
+
+    await listFiles(config, 'src/content');
+    await listFiles(config, 'src/content');
+
+    expect(fetchMock.mock.calls[3][0]).toBe('https://api.github.com/repos/o/r/git/trees/c2?recursive=1');
+  });
+
+  it('drops cached responses of the repo after a write', async () => {
+    fetchMock
+      .mockResolvedValueOnce(response(200, { content: btoa('v1'), encoding: 'base64' }, { etag: '"e1"' }))
+      .mockResolvedValueOnce(response(200, { content: { sha: 's2' } }))
+      .mockResolvedValueOnce(response(200, { content: btoa('v2'), encoding: 'base64' }, { etag: '"e2"' }));
+
+    await getFileContent(config, 'src/content/a.md');
+    await updateFileContent(config, 'src/content/a.md', 'v2', 'update', 's1');
+    expect(await getFileContent(config, 'src/content/a.md')).toBe('v2');
+
+    expect(header(fetchMock.mock.calls[2][1], 'If-None-Match')).toBeUndefined();
+    expect(getGitCacheStats().response.size).toBe(1);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  getFileContent,
+  updateFileContent,
+  deleteFile,
+  listFiles,
+  getFileAsBlob,
+  listBranches,
+  getFileHistory,
+  getFileContentAt,
+  type GitClientConfig,
+} from '../src/lib/git-client';
+import { clearGitCache } from '../src/lib/git-cache';
+
+const jsonResponse = (body: any) => ({
+  ok: true,
+  status: 200,
+  headers: { get: () => 'application/json' },
+  json: () => Promise.resolve(body),
+  text: () => Promise.resolve(JSON.stringify(body)),
+});
+
+describe('git-client branch support', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const github: GitClientConfig = { token: 't', owner: 'o', repo: 'r', service: 'github', branch: 'content' };
+  const gitea: GitClientConfig = { token: 't', owner: 'o', repo: 'r', service: 'gitea', instanceUrl: 'https://git.example.com', branch: 'feature/x' };
+
+  beforeEach(() => {
+    clearGitCache();
+    fetchMock = vi.fn().mockResolvedValue(jsonResponse({ content: btoa('hello'), encoding: 'base64', tree: [] }));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('passes ref on contents reads', async () => {
+    await getFileContent(github, 'src/content/a.md');
+    expect(fetchMock.mock.calls[0][0]).toMatch(/\/contents\/src\/content\/a\.md\?ref=content$/);
+  });
+
+  it('omits ref when no branch is configured', async () => {
+    await getFileContent({ ...github, branch: '' }, 'src/content/a.md');
+    expect(fetchMock.mock.calls[0][0]).not.toContain('ref=');
+  });
+
+  it('sends branch in write and delete bodies', async () => {
+    await updateFileContent(github, 'src/content/a.md', 'x', 'msg', 'sha1');
+    await deleteFile(github, 'src/content/a.md', 'sha1', 'msg');
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).branch).toBe('content');
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body).branch).toBe('content');
+  });
+
+  it('reads the tree of the configured branch instead of HEAD', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ name: 'feature/x', commit: { id: 'c1' } }))
+      .mockResolvedValueOnce(jsonResponse({ tree: [] }));
+    await listFiles(gitea, 'src/content');
+    expect(fetchMock.mock.calls[0][0]).toBe('https://git.example.com/api/v1/repos/o/r/branches/feature/x');
+    expect(fetchMock.mock.calls[1][0]).toBe('https://git.example.com/api/v1/repos/o/r/git/trees/c1?recursive=1');
+
+    fetchMock.mockResolvedValueOnce({ ...jsonResponse(null), headers: { get: () => 'application/vnd.github.sha' }, text: () => Promise.resolve('c2') });
+    await listFiles({ ...github, branch: undefined }, 'src/content');
+    expect(fetchMock.mock.calls[2][0]).toBe('https://api.github.com/repos/o/r/commits/HEAD');
+    expect(fetchMock.mock.calls[3][0]).toBe('https://api.github.com/repos/o/r/git/trees/c2?recursive=1');
+  });
+
+  it('builds raw URLs for the branch (no hardcoded main)', async () => {
+    await getFileAsBlob(github, 'public/a.png');
+    expect(fetchMock.mock.calls[0][0]).toBe('https://raw.githubusercontent.com/o/r/content/public/a.png');
+    await getFileAsBlob({ ...github, branch: '' }, 'public/a.png');
+    expect(fetchMock.mock.calls[1][0]).toBe('https://raw.githubusercontent.com/o/r/HEAD/public/a.png');
+    await getFileAsBlob(gitea, 'public/a.png');
+    expect(fetchMock.mock.calls[2][0]).toBe('https://git.example.com/api/v1/repos/o/r/raw/public/a.png?ref=feature%2Fx');
+  });
+
+  it('lists branch names', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse([{ name: 'main' }, { name: 'content' }]));
+    await expect(listBranches(github)).resolves.toEqual(['main', 'content']);
+  });
+
+  it('lists branches past the first page', async () => {
+    const firstPage = Array.from({ length: 100 }, (_, i) => ({ name: `b${i}` }));
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(firstPage))
+      .mockResolvedValueOnce(jsonResponse([{ name: 'late-branch' }]));
+    const branches = await listBranches(github);
+    expect(branches).toHaveLength(101);
+    expect(branches).toContain('late-branch');
+    expect(fetchMock.mock.calls[1][0]).toContain('/branches?per_page=100&limit=100&page=2');
+  });
+
+  it('stops when a server ignores the page parameter', async () => {
+    fetchMock.mockResolvedValue(jsonResponse([{ name: 'main' }, { name: 'dev' }]));
+    await expect(listBranches({ ...gitea, service: 'gogs' })).resolves.toEqual(['main', 'dev']);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('lists file history on the branch and reads content at a revision', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse([
+      { sha: 'abc123', html_url: 'u', commit: { message: 'fix typo', author: { name: 'Jo', date: '2026-01-02T00:00:00Z' } }, author: { login: 'jo' } },
+    ]));
+
+    await expect(getFileHistory(github, 'src/content/a.md')).resolves.toEqual([
+      { sha: 'abc123', message: 'fix typo', author: 'jo', date: '2026-01-02T00:00:00Z', url: 'u' },
+    ]);
+    expect(fetchMock.mock.calls[0][0]).toContain('/commits?path=src%2Fcontent%2Fa.md&per_page=30&limit=30&sha=content');
+
+    await getFileContentAt(github, 'src/content/a.md', 'abc123');
+    expect(fetchMock.mock.calls[1][0]).toMatch(/\/contents\/src\/content\/a\.md\?ref=abc123$/);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { commitFiles, type GitClientConfig } from '../src/lib/git-client';
+
+const jsonResponse = (body: any, status = 200) => ({
+  ok: status < 400,
+  status,
+  headers: { get: () => 'application/json' },
+  json: () => Promise.resolve(body),
+  text: () => Promise.resolve(JSON.stringify(body)),
+});
+
+/** Minimal GitHub Git Data API stand-in keyed by method + path suffix */
+function githubStub(options: { failRefUpdates?: number; fileShas?: Record<string, string> } = {}) {
+  let refUpdatesToFail = options.failRefUpdates || 0;
+  let head = 'c1';
+  return vi.fn(async (url: string, init: RequestInit = {}) => {
+    const method = init.method || 'GET';
+    const path = url.replace('https://api.github.com/repos/o/r', '');
+    if (method === 'GET' && path === '') return jsonResponse({ default_branch: 'main' });
+    if (method === 'GET' && path.startsWith('/git/ref/heads/')) return jsonResponse({ object: { sha: head } });
+    if (method === 'GET' && path.startsWith('/contents/')) {
+      const sha = options.fileShas?.[path.slice('/contents/'.length).split('?')[0]];
+      return sha ? jsonResponse({ sha }) : jsonResponse({ message: 'Not Found' }, 404);
+    }
+    if (method === 'GET' && path.startsWith('/git/commits/')) return jsonResponse({ tree: { sha: `tree-of-${path.split('/').pop()}` } });
+    if (method === 'POST' && path === '/git/blobs') return jsonResponse({ sha: 'blob1' });
+    if (method === 'POST' && path === '/git/trees') return jsonResponse({ sha: 'newtree' });
+    if (method === 'POST' && path === '/git/commits') return jsonResponse({ sha: 'newcommit' });
+    if (method === 'PATCH' && path.startsWith('/git/refs/heads/')) {
+      if (refUpdatesToFail > 0) {
+        refUpdatesToFail--;
+        head = 'c2'; // someone else pushed
+        return jsonResponse({ message: 'Update is not a fast forward' }, 422);
+      }
+      return jsonResponse({ object: { sha: 'newcommit' } });
+    }
+    return jsonResponse({ message: 'Not Found' }, 404);
+  });
+}
+
+describe('git-client commitFiles', () => {
+  const config: GitClientConfig = { token: 't', owner: 'o', repo: 'r', service: 'github' };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('creates one commit for text, binary and deleted files on the default branch', async () => {
+    const fetchMock = githubStub();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await commitFiles(config, [
+      { path: 'src/content/blog/a.md', content: '# A' },
+      { path: 'public/images/a.png', content: 'iVBORw0KGgo=', encoding: 'base64' },
+      { path: 'src/content/blog/old.md', delete: true },
+    ], 'feat: add a');
+
+    expect(result).toEqual({ sha: 'newcommit', branch: 'main' });
+
+    const treeCall = fetchMock.mock.calls.find(([url, init]) => url.endsWith('/git/trees') && init?.method === 'POST')!;
+    const treeBody = JSON.parse(treeCall[1]!.body as string);
+    expect(treeBody.base_tree).toBe('tree-of-c1');
+    expect(treeBody.tree).toEqual([
+      { path: 'src/content/blog/a.md', mode: '100644', type: 'blob', content: '# A' },
+      { path: 'public/images/a.png', mode: '100644', type: 'blob', sha: 'blob1' },
+      { path: 'src/content/blog/old.md', mode: '100644', type: 'blob', sha: null },
+    ]);
+
+    const refCall = fetchMock.mock.calls.find(([, init]) => init?.method === 'PATCH')!;
+    expect(refCall[0]).toContain('/git/refs/heads/main');
+    expect(JSON.parse(refCall[1]!.body as string)).toEqual({ sha: 'newcommit', force: false });
+  });
+
+  it('rebuilds on the new HEAD when the ref update is not a fast-forward', async () => {
+    const fetchMock = githubStub({ failRefUpdates: 1 });
+    vi.stubGlobal('fetch', fetchMock);
+
+    await commitFiles({ ...config, branch: 'content' }, [{ path: 'src/content/a.md', content: 'x' }], 'msg');
+
+    const commitBodies = fetchMock.mock.calls
+      .filter(([url, init]) => url.endsWith('/git/commits') && init?.method === 'POST')
+      .map(([, init]) => JSON.parse(init!.body as string));
+    expect(commitBodies.map((b) => b.parents)).toEqual([['c1'], ['c2']]);
+  });
+
+  it('fails with a 409 without committing when a file changed since it was read', async () => {
+    const fetchMock = githubStub({ fileShas: { '.pageelrc.json': 'theirs' } });
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(commitFiles(config, [
+      { path: 'src/content/blog/a.md', content: '# A' },
+      { path: '.pageelrc.json', content: '{}', sha: 'mine' },
+    ], 'msg')).rejects.toThrow(/Git API 409/);
+    expect(fetchMock.mock.calls.some(([, init]) => init?.method === 'POST' || init?.method === 'PATCH')).toBe(false);
+  });
+
+  it('checks expected SHAs against the HEAD the commit is built on', async () => {
+    const fetchMock = githubStub({ fileShas: { '.pageelrc.json': 'mine' } });
+    vi.stubGlobal('fetch', fetchMock);
+
+    await commitFiles(config, [
+      { path: '.pageelrc.json', content: '{}', sha: 'mine' },
+      { path: 'vocab.json', content: '[]', sha: null },
+    ], 'msg');
+
+    const contentUrls = fetchMock.mock.calls.map(([url]) => url).filter((url) => url.includes('/contents/'));
+    expect(contentUrls).toHaveLength(2);
+    expect(contentUrls.every((url) => url.endsWith('?ref=c1'))).toBe(true);
+  });
+
+  it('rejects an empty change list', async () => {
+    await expect(commitFiles(config, [], 'msg')).rejects.toThrow(/at least one change/);
+  });
+});
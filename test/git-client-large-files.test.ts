@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getFileContent, uploadFile, updateFileContent, type GitClientConfig } from '../src/lib/git-client';
+import { clearGitCache } from '../src/lib/git-cache';
+import { bytesToBase64, base64ToBytes, base64ByteLength, utf8ToBase64, base64ToUtf8 } from '../src/lib/encoding';
+
+const jsonResponse = (body: any, status = 200) => ({
+  ok: status < 400,
+  status,
+  headers: { get: (name: string) => (name === 'content-type' ? 'application/json' : null) },
+  json: () => Promise.resolve(body),
+  text: () => Promise.resolve(JSON.stringify(body)),
+});
+
+const TWO_MB = 2 * 1024 * 1024;
+
+describe('encoding helpers', () => {
+  it('round-trips multi-megabyte binary data', () => {
+    const bytes = new Uint8Array(TWO_MB + 3).map((_, i) => i % 256);
+    const base64 = bytesToBase64(bytes);
+    expect(base64ByteLength(base64)).toBe(bytes.length);
+    expect(Buffer.compare(base64ToBytes(base64), bytes)).toBe(0);
+  });
+
+  it('round-trips UTF-8 text and accepts line-wrapped base64', () => {
+    const text = 'Xin chào — 👋';
+    const wrapped = utf8ToBase64(text).replace(/(.{4})/g, '$1\n');
+    expect(base64ToUtf8(wrapped)).toBe(text);
+  });
+});
+
+describe('git-client files over 1 MB', () => {
+  const config: GitClientConfig = { token: 't', owner: 'o', repo: 'r', service: 'github', branch: 'main' };
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    clearGitCache();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reads the blob when the Contents API omits content', async () => {
+    const body = 'x'.repeat(TWO_MB);
+    fetchMock = vi.fn(async (url: string) => {
+      if (url.includes('/contents/')) return jsonResponse({ sha: 'big1', size: TWO_MB, encoding: 'none', content: '' });
+      if (url.endsWith('/git/blobs/big1')) return jsonResponse({ content: utf8ToBase64(body), encoding: 'base64' });
+      return jsonResponse({ message: 'Not Found' }, 404);
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect(await getFileContent(config, 'src/data/big.json')).toBe(body);
+  });
+
+  it('commits large uploads through the Git Data API', async () => {
+    fetchMock = vi.fn(async (url: string, init: RequestInit = {}) => {
+      const method = init.method || 'GET';
+      if (url.includes('/contents/')) return jsonResponse({ message: 'Not Found' }, 404);
+      if (url.includes('/git/ref/heads/')) return jsonResponse({ object: { sha: 'c1' } });
+      if (url.includes('/git/commits/')) return jsonResponse({ tree: { sha: 't1' } });
+      if (method === 'POST' && url.endsWith('/git/blobs')) return jsonResponse({ sha: 'blob1' });
+      if (method === 'POST' && url.endsWith('/git/trees')) return jsonResponse({ sha: 't2' });
+      if (method === 'POST' && url.endsWith('/git/commits')) return jsonResponse({ sha: 'c2' });
+      if (method === 'PATCH') return jsonResponse({});
+      return jsonResponse({ message: 'Not Found' }, 404);
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const base64 = bytesToBase64(new Uint8Array(TWO_MB));
+    const result = await uploadFile(config, 'public/images/big.png', base64, 'upload');
+
+    expect(result.commit.sha).toBe('c2');
+    expect(fetchMock.mock.calls.some(([url, init]) => url.includes('/contents/') && init?.method === 'PUT')).toBe(false);
+    const blobCall = fetchMock.mock.calls.find(([url, init]) => url.endsWith('/git/blobs') && init?.method === 'POST')!;
+    expect(JSON.parse(blobCall[1]!.body as string)).toEqual({ content: base64, encoding: 'base64' });
+  });
+
+  it('keeps the SHA conflict check for large updates', async () => {
+    fetchMock = vi.fn(async () => jsonResponse({ sha: 'newer' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(updateFileContent(config, 'src/data/big.json', 'x'.repeat(TWO_MB), 'update', 'older'))
+      .rejects.toThrow('Git API 409');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
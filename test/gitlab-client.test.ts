@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createGitConfig,
+  getRepoTree,
+  getFileContent,
+  updateFileContent,
+  commitFiles,
+  type GitClientConfig,
+} from '../src/lib/git-client';
+
+const jsonResponse = (body: any, status = 200, headers: Record<string, string> = {}) => ({
+  ok: status < 400,
+  status,
+  headers: { get: (name: string) => (name === 'content-type' ? 'application/json' : headers[name] ?? null) },
+  json: () => Promise.resolve(body),
+  text: () => Promise.resolve(JSON.stringify(body)),
+});
+
+const API = 'https://gitlab.com/api/v4/projects/group%2Fsub%2Fsite';
+
+describe('createGitConfig (gitlab)', () => {
+  it('keeps nested groups in the owner', () => {
+    const config = createGitConfig('glpat-x', 'group/sub/site', 'main', 'gitlab');
+    expect(config).toMatchObject({ owner: 'group/sub', repo: 'site', service: 'gitlab' });
+  });
+
+  it('accepts a numeric project ID', () => {
+    const config = createGitConfig('glpat-x', '4242', undefined, 'gitlab');
+    expect(config).toMatchObject({ owner: '', repo: '4242' });
+  });
+
+  it('still requires owner/repo for other services', () => {
+    expect(() => createGitConfig('t', '4242', undefined, 'github')).toThrow('Missing Git credentials');
+  });
+});
+
+describe('gitlab-client via git-client', () => {
+  const config: GitClientConfig = { token: 'glpat-x', owner: 'group/sub', repo: 'site', service: 'gitlab', branch: 'main' };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('follows x-next-page when listing the tree', async () => {
+    const fetchMock = vi.fn(async (url: string, _init: RequestInit = {}) => {
+      const page = new URL(url).searchParams.get('page');
+      if (page === '1') {
+        return jsonResponse([{ path: 'src', name: 'src', type: 'tree', id: 't1' }], 200, { 'x-next-page': '2' });
+      }
+      return jsonResponse([{ path: 'src/a.md', name: 'a.md', type: 'blob', id: 'b1' }], 200, { 'x-next-page': '' });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const tree = await getRepoTree(config);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[0][0]).toContain(`${API}/repository/tree?recursive=true&ref=main`);
+    expect(fetchMock.mock.calls[0][1]!.headers).toMatchObject({ Authorization: 'Bearer glpat-x' });
+    expect(tree).toEqual([
+      { path: 'src', name: 'src', type: 'dir', sha: 't1' },
+      { path: 'src/a.md', name: 'a.md', type: 'file', sha: 'b1' },
+    ]);
+  });
+
+  it('addresses numeric projects by ID on a self-managed instance', async () => {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit = {}) => jsonResponse({ content: btoa('# Hi'), encoding: 'base64', blob_id: 'b1' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const content = await getFileContent(
+      { token: 't', owner: '', repo: '4242', service: 'gitlab', instanceUrl: 'https://git.example.com/' },
+      'src/content/blog/a.md'
+    );
+
+    expect(content).toBe('# Hi');
+    expect(fetchMock.mock.calls[0][0]).toContain(
+      'https://git.example.com/api/v4/projects/4242/repository/files/src%2Fcontent%2Fblog%2Fa.md?ref=HEAD'
+    );
+  });
+
+  it('rejects an update when the blob SHA changed upstream', async () => {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit = {}) => jsonResponse({ blob_id: 'newer' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(updateFileContent(config, 'a.md', 'x', 'msg', 'older')).rejects.toThrow('Git API 409');
+    expect(fetchMock.mock.calls.every(([, init]) => !init?.method || init.method === 'GET')).toBe(true);
+  });
+
+  it('commits several files as one Commits API call', async () => {
+    const fetchMock = vi.fn(async (url: string, init: RequestInit = {}) => {
+      if (init.method === 'POST') return jsonResponse({ id: 'c9' });
+      if (url.includes('/files/existing.md')) return jsonResponse({ blob_id: 'b1' });
+      return jsonResponse({ message: '404 File Not Found' }, 404);
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await commitFiles(config, [
+      { path: 'existing.md', content: 'A' },
+      { path: 'img/new.png', content: 'iVBORw0KGgo=', encoding: 'base64' },
+      { path: 'old.md', delete: true },
+    ], 'feat: batch');
+
+    expect(result).toEqual({ sha: 'c9', branch: 'main' });
+    const commitCall = fetchMock.mock.calls.find(([, init]) => init?.method === 'POST')!;
+    expect(commitCall[0]).toBe(`${API}/repository/commits`);
+    expect(JSON.parse(commitCall[1]!.body as string)).toEqual({
+      branch: 'main',
+      commit_message: 'feat: batch',
+      actions: [
+        { action: 'update', file_path: 'existing.md', content: 'A', encoding: 'text' },
+        { action: 'create', file_path: 'img/new.png', content: 'iVBORw0KGgo=', encoding: 'base64' },
+        { action: 'delete', file_path: 'old.md' },
+      ],
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync, existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { execFileSync } from 'node:child_process';
+import {
+  getFileContent,
+  getFileSha,
+  updateFileContent,
+  createFileFromString,
+  listFiles,
+  commitFiles,
+  getFileHistory,
+  getFileContentAt,
+  listPullRequests,
+  type GitClientConfig,
+} from '../src/lib/git-client';
+import { createSession, createCsrfToken } from '../src/lib/session';
+import { onRequest } from '../src/middleware';
+import { POST as handleGit } from '../src/pages/api/proxy/git';
+
+vi.mock('astro:middleware', () => ({ defineMiddleware: (handler: unknown) => handler }));
+
+describe('local filesystem backend', () => {
+  let root: string;
+  let config: GitClientConfig;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'pageel-local-'));
+    mkdirSync(join(root, 'src/content/blog'), { recursive: true });
+    writeFileSync(join(root, 'src/content/blog/a.md'), '# A\n');
+    config = { token: '', owner: 'local', repo: 'site', service: 'local', localRoot: root };
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('reads files with git-compatible blob SHAs', async () => {
+    expect(await getFileContent(config, 'src/content/blog/a.md')).toBe('# A\n');
+    const expected = execFileSync('git', ['hash-object', 'src/content/blog/a.md'], { cwd: root }).toString().trim();
+    expect(await getFileSha(config, 'src/content/blog/a.md')).toBe(expected);
+    expect(await getFileSha(config, 'src/content/blog/missing.md')).toBeNull();
+  });
+
+  it('writes through the optimistic SHA check', async () => {
+    const sha = (await getFileSha(config, 'src/content/blog/a.md'))!;
+    await updateFileContent(config, 'src/content/blog/a.md', '# A2\n', 'update', sha);
+    expect(readFileSync(join(root, 'src/content/blog/a.md'), 'utf-8')).toBe('# A2\n');
+
+    // The stale SHA no longer matches
+    await expect(updateFileContent(config, 'src/content/blog/a.md', '# A3\n', 'update', sha)).rejects.toThrow('Git API 409');
+  });
+
+  it('refuses paths outside the root', async () => {
+    await expect(createFileFromString(config, '../escape.md', 'x', 'msg')).rejects.toThrow('Git API 403');
+    await expect(getFileContent(config, '.git/config')).rejects.toThrow('Git API 403');
+    expect(existsSync(join(root, '..', 'escape.md'))).toBe(false);
+  });
+
+  it('lists nested files recursively', async () => {
+    await createFileFromString(config, 'src/content/blog/2024/b.md', '# B', 'add b');
+    const files = await listFiles(config, 'src/content/blog');
+    expect(files.map((item: any) => `${item.type}:${item.path}`)).toEqual([
+      'dir:src/content/blog/2024',
+      'file:src/content/blog/2024/b.md',
+      'file:src/content/blog/a.md',
+    ]);
+  });
+
+  it('creates real commits when localCommit is on', async () => {
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: root }).toString().trim();
+    git('init', '-q', '-b', 'main');
+    git('config', 'user.email', 'test@example.com');
+    git('config', 'user.name', 'Test');
+    git('add', '-A');
+    git('commit', '-qm', 'init');
+    const committing = { ...config, localCommit: true };
+
+    const result = await commitFiles(committing, [
+      { path: 'src/content/blog/a.md', content: '# A changed\n' },
+      { path: 'src/content/blog/b.md', content: '# B\n' },
+    ], 'feat: batch');
+
+    expect(result.branch).toBe('main');
+    expect(result.sha).toBe(git('rev-parse', 'HEAD'));
+    expect(git('log', '-1', '--format=%s')).toBe('feat: batch');
+
+    const history = await getFileHistory(committing, 'src/content/blog/a.md');
+    expect(history.map((revision) => revision.message)).toEqual(['feat: batch', 'init']);
+    expect(await getFileContentAt(committing, 'src/content/blog/a.md', history[1].sha)).toBe('# A\n');
+  });
+
+  it('lists git-compatible SHAs for committed, modified and untracked files in a checkout', async () => {
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: root }).toString().trim();
+    writeFileSync(join(root, 'src/content/blog/b.md'), '# B\n');
+    git('init', '-q', '-b', 'main');
+    git('config', 'user.email', 'test@example.com');
+    git('config', 'user.name', 'Test');
+    git('add', '-A');
+    git('commit', '-qm', 'init');
+    writeFileSync(join(root, 'src/content/blog/b.md'), '# B changed\n');
+    writeFileSync(join(root, 'src/content/blog/c.md'), '# C\n');
+
+    const files = await listFiles(config, 'src/content/blog');
+    for (const name of ['a.md', 'b.md', 'c.md']) {
+      const path = `src/content/blog/${name}`;
+      const item: any = files.find((file: any) => file.path === path);
+      expect(item.sha).toBe(git('hash-object', path));
+      expect(item.size).toBe(readFileSync(join(root, path)).length);
+      expect(await getFileSha(config, path)).toBe(item.sha);
+    }
+  });
+
+  it('has no pull requests', async () => {
+    await expect(listPullRequests(config)).rejects.toThrow('not supported for local');
+  });
+});
+
+describe('local mode sessions', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'pageel-local-'));
+    mkdirSync(join(root, 'src/content/blog'), { recursive: true });
+    writeFileSync(join(root, 'src/content/blog/a.md'), '# A\n');
+    vi.stubEnv('CMS_SECRET', 'local-mode-secret-16-chars');
+    vi.stubEnv('CMS_SERVICE', 'local');
+    vi.stubEnv('CMS_LOCAL_ROOT', root);
+    vi.stubEnv('GITHUB_TOKEN', '');
+    vi.stubEnv('CMS_REPO', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('reaches /api/proxy/git without Git credentials', async () => {
+    const session = await createSession({ username: 'admin' });
+    const csrf = await createCsrfToken(session.split('.')[1]);
+    const cookies = { get: () => ({ value: session }), delete: vi.fn() };
+    const request = () => new Request('http://localhost/api/proxy/git', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-CMS-CSRF-Token': csrf },
+      body: JSON.stringify({ action: 'getFileContent', params: { path: 'src/content/blog/a.md' } }),
+    });
+
+    const next = vi.fn(() => (handleGit as any)({ request: request(), cookies }));
+    const response: Response = await (onRequest as any)({
+      request: request(),
+      cookies,
+      redirect: vi.fn(),
+      url: new URL('http://localhost/api/proxy/git'),
+    }, next);
+
+    expect(cookies.delete).not.toHaveBeenCalled();
+    expect(next).toHaveBeenCalled();
+    expect(response.status).toBe(200);
+    expect(await response.json()).toBe('# A\n');
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  LocalDraft,
+  createMemoryDraftStore,
+  localDraftKey,
+  newDraftPath,
+  isNewDraftPath,
+  listLocalDrafts,
+  pendingLocalDraft,
+} from '../src/utils/localDrafts';
+
+const draft = (overrides: Partial<LocalDraft> = {}): LocalDraft => ({
+  repo: 'acme/site',
+  branch: 'main',
+  path: 'src/content/blog/hello.md',
+  collectionId: 'blog',
+  title: 'Hello',
+  content: '---\ntitle: Hello\n---\nEdited\n',
+  baseSha: 'abc',
+  updatedAt: 1000,
+  ...overrides,
+});
+
+describe('local drafts', () => {
+  it('keys drafts by repo, branch and path', () => {
+    expect(localDraftKey('acme/site', 'main', 'a.md')).not.toBe(localDraftKey('acme/site', 'dev', 'a.md'));
+    expect(localDraftKey('acme/site', 'main', 'a.md')).not.toBe(localDraftKey('acme/other', 'main', 'a.md'));
+  });
+
+  it('uses a per-collection path for posts without a file', () => {
+    expect(newDraftPath('blog')).toBe('new:blog');
+    expect(isNewDraftPath(newDraftPath('blog'))).toBe(true);
+    expect(isNewDraftPath('src/content/blog/new.md')).toBe(false);
+  });
+
+  it('stores one draft per key', async () => {
+    const store = createMemoryDraftStore();
+    await store.put(draft());
+    await store.put(draft({ content: 'newer', updatedAt: 2000 }));
+    const key = localDraftKey('acme/site', 'main', 'src/content/blog/hello.md');
+    expect((await store.get(key))?.content).toBe('newer');
+    expect(await store.list()).toHaveLength(1);
+    await store.delete(key);
+    expect(await store.get(key)).toBeNull();
+  });
+
+  it('lists the drafts of one repo and branch, most recent first', async () => {
+    const store = createMemoryDraftStore();
+    await store.put(draft({ path: 'a.md', updatedAt: 1000 }));
+    await store.put(draft({ path: 'b.md', updatedAt: 3000 }));
+    await store.put(draft({ path: 'c.md', branch: 'dev' }));
+    await store.put(draft({ path: 'd.md', repo: 'acme/other' }));
+    const drafts = await listLocalDrafts(store, 'acme/site', 'main');
+    expect(drafts.map((d) => d.path)).toEqual(['b.md', 'a.md']);
+  });
+
+  it('offers a draft only when it differs from the opened content', async () => {
+    const store = createMemoryDraftStore();
+    const key = localDraftKey('acme/site', 'main', 'src/content/blog/hello.md');
+    await store.put(draft());
+
+    expect(await pendingLocalDraft(store, key, '---\ntitle: Hello\n---\nOriginal\n')).toMatchObject({ title: 'Hello' });
+    expect(await store.get(key)).not.toBeNull();
+
+    // Same content as the file: a leftover, removed without asking
+    expect(await pendingLocalDraft(store, key, '---\ntitle: Hello\n---\nEdited\n')).toBeNull();
+    expect(await store.get(key)).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mergeLines, mergePost, applyMergeResolution, saveWithMerge, isShaConflictError } from '../src/utils/merge';
+import { parseMarkdown } from '../src/utils/parsing';
+import type { IGitService } from '../src/types';
+
+describe('mergeLines', () => {
+  it('takes non-overlapping changes from both sides', () => {
+    const chunks = mergeLines('a\nb\nc\nd\ne', 'A\nb\nc\nd\ne', 'a\nb\nc\nd\nE\nf');
+    expect(chunks).toEqual([{ type: 'ok', lines: ['A', 'b', 'c', 'd', 'E', 'f'] }]);
+  });
+
+  it('reports a conflict when both sides change the same lines', () => {
+    const chunks = mergeLines('a\nb\nc', 'a\nours\nc', 'a\ntheirs\nc');
+    expect(chunks).toEqual([
+      { type: 'ok', lines: ['a'] },
+      { type: 'conflict', base: ['b'], ours: ['ours'], theirs: ['theirs'] },
+      { type: 'ok', lines: ['c'] },
+    ]);
+  });
+
+  it('accepts identical changes on both sides', () => {
+    expect(mergeLines('a\nb', 'a\nB', 'a\nB')).toEqual([{ type: 'ok', lines: ['a', 'B'] }]);
+  });
+});
+
+describe('mergePost', () => {
+  const base = '---\ntitle: Hello\ntags: [a]\ndraft: true\n---\nIntro\n\nBody';
+
+  it('merges frontmatter keys changed on different sides', () => {
+    const ours = '---\ntitle: Hello world\ntags: [a]\ndraft: true\n---\nIntro\n\nBody';
+    const theirs = '---\ntitle: Hello\ntags: [a, b]\n---\nIntro\n\nBody';
+
+    const merge = mergePost(base, ours, theirs);
+
+    expect(merge.hasConflicts).toBe(false);
+    expect(parseMarkdown(applyMergeResolution(merge)).frontmatter).toEqual({ title: 'Hello world', tags: ['a', 'b'] });
+  });
+
+  it('lets the user pick a side for conflicting keys and body hunks', () => {
+    const ours = '---\ntitle: Mine\ntags: [a]\ndraft: true\n---\nIntro\n\nMy body';
+    const theirs = '---\ntitle: Theirs\ntags: [a]\ndraft: true\n---\nIntro\n\nTheir body';
+
+    const merge = mergePost(base, ours, theirs);
+    expect(merge.frontmatterConflicts.map((conflict) => conflict.key)).toEqual(['title']);
+    const conflictIndex = merge.body.findIndex((chunk) => chunk.type === 'conflict');
+    expect(conflictIndex).toBeGreaterThan(-1);
+
+    const content = applyMergeResolution(merge, { frontmatter: { title: 'theirs' }, body: { [conflictIndex]: 'both' } });
+    const parsed = parseMarkdown(content);
+    expect(parsed.frontmatter.title).toBe('Theirs');
+    expect(parsed.body).toContain('My body\nTheir body');
+  });
+});
+
+describe('saveWithMerge', () => {
+  const makeService = (theirs: string) => {
+    const updateFileContent = vi.fn(async (_path: string, _content: string, _message: string, sha?: string) => {
+      if (sha === 'old') throw new Error('Git API 409: post.md does not match old');
+      return {};
+    });
+    const service = {
+      updateFileContent,
+      getFileContent: vi.fn(async () => theirs),
+      getFileSha: vi.fn(async () => 'new'),
+    } as unknown as IGitService;
+    return { service, updateFileContent };
+  };
+
+  it('saves directly when the SHA is current', async () => {
+    const { service, updateFileContent } = makeService('');
+    const result = await saveWithMerge(service, { path: 'post.md', base: 'a', ours: 'b', sha: 'new', commitMessage: 'm' });
+    expect(result).toEqual({ status: 'saved', content: 'b' });
+    expect(updateFileContent).toHaveBeenCalledTimes(1);
+  });
+
+  it('commits a clean merge with the fresh SHA', async () => {
+    const { service, updateFileContent } = makeService('a\nb\nC');
+    const result = await saveWithMerge(service, { path: 'post.md', base: 'a\nb\nc', ours: 'A\nb\nc', sha: 'old', commitMessage: 'm' });
+    expect(result).toEqual({ status: 'merged', content: 'A\nb\nC' });
+    expect(updateFileContent).toHaveBeenLastCalledWith('post.md', 'A\nb\nC', 'm', 'new');
+  });
+
+  it('returns conflicts without writing', async () => {
+    const { service, updateFileContent } = makeService('theirs');
+    const result = await saveWithMerge(service, { path: 'post.md', base: 'base', ours: 'ours', sha: 'old', commitMessage: 'm' });
+    expect(result.status).toBe('conflict');
+    expect(updateFileContent).toHaveBeenCalledTimes(1);
+  });
+
+  it('rethrows errors other than SHA conflicts', async () => {
+    expect(isShaConflictError(new Error('Git API 500: boom'))).toBe(false);
+    const service = { updateFileContent: vi.fn(async () => { throw new Error('Git API 500: boom'); }) } as unknown as IGitService;
+    await expect(saveWithMerge(service, { path: 'p', base: '', ours: '', sha: 's', commitMessage: 'm' })).rejects.toThrow('500');
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { IGitService } from '../src/types';
+import type { Collection } from '../src/features/collections/types';
+import { createCollection } from '../src/features/collections/types';
+import { entrySlug, toReferenceSlugs, getReferencedCollectionIds, findIncomingReferences, loadReferenceEntries } from '../src/utils/references';
+import { matchesFilter } from '../src/components/FilterBar';
+
+const files: Record<string, string> = {
+  'src/content/authors/jane.md': '---\ntitle: Jane Doe\n---\nBio',
+  'src/content/authors/bob.mdx': '---\ntitle: Bob\nslug: robert\n---\n',
+  'src/content/blog/one.md': '---\ntitle: One\nauthor: jane\n---\n',
+  'src/content/blog/two.md': '---\ntitle: Two\nauthor: robert\ncoauthors:\n  - jane\n---\n',
+};
+
+const service = {
+  listFiles: vi.fn(async (dir: string) =>
+    Object.keys(files)
+      .filter((path) => path.startsWith(`${dir}/`))
+      .map((path) => ({ type: 'file', name: path.split('/').pop()!, path, sha: 'x' }))
+  ),
+  getFileContent: vi.fn(async (path: string) => files[path]),
+} as unknown as IGitService;
+
+const authors = createCollection('authors', 'Authors', 'src/content/authors', 'public/images');
+const blog: Collection = createCollection('blog', 'Blog', 'src/content/blog', 'public/images', {
+  fields: [
+    { name: 'title', type: 'string' },
+    { name: 'author', type: 'reference', collection: 'authors' },
+    { name: 'coauthors', type: 'reference', collection: 'authors', multiple: true },
+  ],
+});
+
+describe('reference helpers', () => {
+  it('derives entry slugs like the Astro glob loader', () => {
+    expect(entrySlug('hello-world.mdx')).toBe('hello-world');
+    expect(entrySlug('hello-world.md', { slug: 'custom' })).toBe('custom');
+  });
+
+  it('normalizes single, multiple and object references', () => {
+    expect(toReferenceSlugs('jane')).toEqual(['jane']);
+    expect(toReferenceSlugs(['jane', '', 'bob'])).toEqual(['jane', 'bob']);
+    expect(toReferenceSlugs({ collection: 'authors', id: 'jane' })).toEqual(['jane']);
+    expect(toReferenceSlugs(undefined)).toEqual([]);
+  });
+
+  it('lists target collections once', () => {
+    expect(getReferencedCollectionIds(blog.template)).toEqual(['authors']);
+  });
+
+  it('loads entries sorted by title', async () => {
+    const entries = await loadReferenceEntries(service, authors);
+    expect(entries.map((e) => [e.slug, e.title])).toEqual([['robert', 'Bob'], ['jane', 'Jane Doe']]);
+  });
+
+  it('finds posts that reference an entry', async () => {
+    const refs = await findIncomingReferences(service, [authors, blog], authors, 'jane');
+    expect(refs.map((r) => `${r.entry.slug}:${r.field}`)).toEqual(['one:author', 'two:coauthors']);
+    expect(await findIncomingReferences(service, [authors, blog], blog, 'one')).toEqual([]);
+  });
+
+  it('filters single and multiple references by slug', () => {
+    expect(matchesFilter('jane', { type: 'reference', value: ['jane'] })).toBe(true);
+    expect(matchesFilter(['bob'], { type: 'reference', value: ['jane'] })).toBe(false);
+  });
+});
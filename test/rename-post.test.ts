@@ -0,0 +1,133 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { IGitService } from '../src/types';
+import { createCollection } from '../src/features/collections/types';
+import {
+  defaultUrlPrefix,
+  entryUrl,
+  rewriteLinks,
+  rewriteReferenceValue,
+  validateRelativePath,
+  planRename,
+  renameCommitMessage,
+  RENAME_READ_CONCURRENCY,
+} from '../src/utils/renamePost';
+import { parseMarkdown } from '../src/utils/parsing';
+
+const files: Record<string, string> = {
+  'src/content/authors/jane.md': '---\ntitle: Jane Doe\n---\nSee [her post](/blog/hello) and /blog/hello-world.\n',
+  'src/content/blog/hello.md': '---\ntitle: Hello\n---\nSelf link: [here](/blog/hello#intro)\n',
+  'src/content/blog/other.md': '---\ntitle: Other\nrelated:\n  - hello\n  - other\n---\nRead [it](https://example.com/blog/hello/).\n',
+  'src/content/news/note.md': '---\ntitle: Note\n---\nNo links.\n',
+};
+
+const service = {
+  listFiles: vi.fn(async (dir: string) =>
+    Object.keys(files)
+      .filter((path) => path.startsWith(`${dir}/`))
+      .map((path) => ({ type: 'file', name: path.split('/').pop()!, path, sha: 'x' }))
+  ),
+  getFileContent: vi.fn(async (path: string) => files[path]),
+} as unknown as IGitService;
+
+const authors = createCollection('authors', 'Authors', 'src/content/authors', 'public/images');
+const blog = createCollection('blog', 'Blog', 'src/content/blog', 'public/images', {
+  fields: [
+    { name: 'title', type: 'string' },
+    { name: 'related', type: 'reference', collection: 'blog', multiple: true },
+  ],
+});
+const news = { ...createCollection('news', 'News', 'src/content/news', 'public/images'), urlPrefix: '/updates/' };
+const collections = [authors, blog, news];
+const hello = { path: 'src/content/blog/hello.md', rawContent: files['src/content/blog/hello.md'] };
+
+describe('rename helpers', () => {
+  it('derives entry URLs from the collection prefix', () => {
+    expect(defaultUrlPrefix('src/content/blog')).toBe('/blog');
+    expect(entryUrl(blog, '2024/post')).toBe('/blog/2024/post');
+    expect(entryUrl(news, 'note')).toBe('/updates/note');
+  });
+
+  it('rewrites exact links only, keeping hashes, slashes and the domain', () => {
+    const text = '[a](/blog/hello) [b](/blog/hello/#top) [c](/blog/hello-world) <a href="https://site.dev/blog/hello?x=1">';
+    const result = rewriteLinks(text, '/blog/hello', '/blog/hi', 'https://site.dev/');
+    expect(result.count).toBe(3);
+    expect(result.text).toBe('[a](/blog/hi) [b](/blog/hi/#top) [c](/blog/hello-world) <a href="https://site.dev/blog/hi?x=1">');
+    expect(rewriteLinks('https://other.dev/blog/hello', '/blog/hello', '/blog/hi', 'https://site.dev').count).toBe(0);
+  });
+
+  it('rewrites slugs inside reference values', () => {
+    expect(rewriteReferenceValue('hello', 'hello', 'hi')).toBe('hi');
+    expect(rewriteReferenceValue(['a', 'hello'], 'hello', 'hi')).toEqual(['a', 'hi']);
+    expect(rewriteReferenceValue({ collection: 'blog', id: 'hello' }, 'hello', 'hi')).toEqual({ collection: 'blog', id: 'hi' });
+    expect(rewriteReferenceValue('other', 'hello', 'hi')).toBe('other');
+  });
+
+  it('validates the new path', () => {
+    expect(validateRelativePath('')).toBe('empty');
+    expect(validateRelativePath('../escape.md')).toBe('invalid');
+    expect(validateRelativePath('/abs.md')).toBe('invalid');
+    expect(validateRelativePath('post.txt')).toBe('extension');
+    expect(validateRelativePath('2024/post.mdx')).toBeNull();
+  });
+});
+
+describe('planRename', () => {
+  it('renames in place and rewrites links and references in one set of changes', async () => {
+    const plan = await planRename(service, collections, { post: hello, from: blog, to: blog, newRelativePath: 'hi.md' }, 'https://example.com');
+    expect(plan).toMatchObject({ oldPath: hello.path, newPath: 'src/content/blog/hi.md', oldUrl: '/blog/hello', newUrl: '/blog/hi' });
+    expect(plan.rewrites).toEqual([
+      { path: 'src/content/authors/jane.md', links: 1, references: 0 },
+      { path: 'src/content/blog/other.md', links: 1, references: 1 },
+    ]);
+    expect(plan.brokenReferences).toEqual([]);
+    expect(plan.content).toContain('[here](/blog/hi#intro)');
+
+    const changed = Object.fromEntries(plan.changes.map((c) => [c.path, c]));
+    expect(plan.changes.slice(0, 2)).toEqual([
+      { path: 'src/content/blog/hi.md', content: plan.content },
+      { path: hello.path, delete: true },
+    ]);
+    expect(changed['src/content/authors/jane.md'].content).toContain('[her post](/blog/hi) and /blog/hello-world.');
+    const other = parseMarkdown(changed['src/content/blog/other.md'].content!);
+    expect(other.frontmatter.related).toEqual(['hi', 'other']);
+    expect(other.body).toContain('https://example.com/blog/hi/');
+  });
+
+  it('changes only the slug, keeping the file where it is', async () => {
+    const plan = await planRename(service, collections, { post: hello, from: blog, to: blog, newRelativePath: 'hello.md', newSlug: 'greeting' });
+    expect(plan.newPath).toBe(hello.path);
+    expect(parseMarkdown(plan.content).frontmatter.slug).toBe('greeting');
+    expect(plan.changes.some((c) => c.delete)).toBe(false);
+    expect(plan.newUrl).toBe('/blog/greeting');
+  });
+
+  it('reports references that cannot follow a move to another collection', async () => {
+    const plan = await planRename(service, collections, { post: hello, from: blog, to: news, newRelativePath: 'hello.md' });
+    expect(plan.newPath).toBe('src/content/news/hello.md');
+    expect(plan.newUrl).toBe('/updates/hello');
+    expect(plan.brokenReferences).toEqual([{ path: 'src/content/blog/other.md', field: 'related' }]);
+    const other = plan.rewrites.find((r) => r.path === 'src/content/blog/other.md');
+    expect(other).toBeUndefined(); // absolute links are only matched on the site's domain
+    expect(renameCommitMessage(plan)).toContain('chore(content): rename "hello.md" to "src/content/news/hello.md"');
+  });
+
+  it('reads a limited number of files at once', async () => {
+    const many = Object.fromEntries(Array.from({ length: 30 }, (_, i) => [`src/content/blog/p${i}.md`, '---\ntitle: P\n---\n']));
+    let inFlight = 0;
+    let peak = 0;
+    const slow = {
+      listFiles: async (dir: string) => Object.keys(many)
+        .filter((path) => path.startsWith(`${dir}/`))
+        .map((path) => ({ type: 'file', name: path.split('/').pop()!, path, sha: 'x' })),
+      getFileContent: async (path: string) => {
+        peak = Math.max(peak, ++inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        inFlight--;
+        return many[path];
+      },
+    } as unknown as IGitService;
+
+    await planRename(slow, [blog], { post: hello, from: blog, to: blog, newRelativePath: 'hi.md' });
+    expect(peak).toBeLessThanOrEqual(RENAME_READ_CONCURRENCY);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { scheduledAt, isDue, publishedFrontmatter, scheduleUpdates, PUBLISH_LOG_PATH } from '../src/utils/schedule';
+import { createMemoryPublishBackend, createGitPublishBackend, runScheduledPublish, readPublishLog } from '../src/lib/scheduler';
+import { parseMarkdown } from '../src/utils/parsing';
+// @ts-ignore
+import { POST as handleCronPublish } from '../src/pages/api/cron/publish';
+
+const now = new Date('2026-03-01T12:00:00Z');
+
+const config = (collections: any[]) => JSON.stringify({ version: 2, collections });
+
+const post = (frontmatter: string, body = 'Body') => `---\n${frontmatter}\n---\n${body}\n`;
+
+describe('schedule utils', () => {
+  it('needs a scheduled draft + date without a schedule field', () => {
+    expect(scheduledAt({ draft: true, scheduled: true, publishDate: '2026-03-02' }, {})).toEqual(new Date('2026-03-02'));
+    expect(scheduledAt({ draft: false, scheduled: true, publishDate: '2026-03-02' }, {})).toBeNull();
+    expect(scheduledAt({ draft: true, scheduled: true, pubDate: '2026-03-02' }, {})).toEqual(new Date('2026-03-02'));
+    expect(scheduledAt({ draft: true, scheduled: true }, {})).toBeNull();
+    expect(scheduledAt({ draft: true, scheduled: true, publishDate: 'soon' }, {})).toBeNull();
+    // A plain draft with a date was never scheduled
+    expect(scheduledAt({ draft: true, publishDate: '2026-03-02' }, {})).toBeNull();
+  });
+
+  it('reads only the dedicated field when one is configured', () => {
+    const schedule = { field: 'publishAt' };
+    expect(scheduledAt({ publishAt: '2026-03-02T08:00:00Z' }, schedule)).toEqual(new Date('2026-03-02T08:00:00Z'));
+    expect(scheduledAt({ draft: true, publishDate: '2026-03-02' }, schedule)).toBeNull();
+  });
+
+  it('is due once the time has passed', () => {
+    expect(isDue({ draft: true, scheduled: true, publishDate: '2026-03-01T11:00:00Z' }, {}, now)).toBe(true);
+    expect(isDue({ draft: true, scheduled: true, publishDate: '2026-03-01T13:00:00Z' }, {}, now)).toBe(false);
+  });
+
+  it('clears the draft flag and the schedule field on publish', () => {
+    expect(publishedFrontmatter({ draft: true, scheduled: true, publishDate: '2026-03-01' }, {})).toEqual({ draft: false, publishDate: '2026-03-01' });
+    expect(publishedFrontmatter({ title: 'A', publishAt: '2026-03-01' }, { field: 'publishAt' })).toEqual({ title: 'A' });
+    expect(publishedFrontmatter({ draft: true, publishAt: '2026-03-01' }, { field: 'publishAt' })).toEqual({ draft: false });
+  });
+
+  it('writes the schedule to the existing date key', () => {
+    const at = new Date('2026-04-01T09:00:00Z');
+    expect(scheduleUpdates({ pubDate: '2026-01-01' }, {}, at)).toEqual({ draft: true, scheduled: true, pubDate: at.toISOString() });
+    expect(scheduleUpdates({}, {}, at)).toEqual({ draft: true, scheduled: true, publishDate: at.toISOString() });
+    expect(scheduleUpdates({}, { field: 'publishAt' }, at)).toEqual({ publishAt: at.toISOString() });
+  });
+});
+
+describe('runScheduledPublish', () => {
+  const files = () => ({
+    '.pageelrc.json': config([
+      { id: 'blog', postsPath: 'src/content/blog', schedule: {} },
+      { id: 'news', postsPath: 'src/content/news', schedule: { field: 'publishAt' } },
+      { id: 'docs', postsPath: 'src/content/docs' },
+    ]),
+    'src/content/blog/due.md': post('title: Due\ndraft: true\nscheduled: true\npublishDate: 2026-03-01T08:00:00Z'),
+    'src/content/blog/future.md': post('title: Future\ndraft: true\nscheduled: true\npublishDate: 2026-03-05T08:00:00Z'),
+    'src/content/blog/unscheduled.md': post('title: Unscheduled\ndraft: true\npublishDate: 2026-01-01T08:00:00Z'),
+    'src/content/blog/live.md': post('title: Live\ndraft: false\npublishDate: 2026-02-01T08:00:00Z'),
+    'src/content/news/flash.md': post('title: Flash\npublishAt: 2026-03-01T10:00:00Z'),
+    'src/content/docs/old.md': post('title: Old\ndraft: true\npublishDate: 2026-01-01T08:00:00Z'),
+  });
+
+  it('publishes every due post in one commit with the log', async () => {
+    const backend = createMemoryPublishBackend(files());
+    const run = await runScheduledPublish(backend, now);
+
+    expect(run.published.map((entry) => entry.path)).toEqual(['src/content/blog/due.md', 'src/content/news/flash.md']);
+    expect(run.errors).toEqual([]);
+    expect(backend.commits).toHaveLength(1);
+    expect(backend.commits[0].paths).toEqual(['src/content/blog/due.md', 'src/content/news/flash.md', PUBLISH_LOG_PATH]);
+    expect(backend.commits[0].message).toMatch(/^chore\(content\): publish 2 scheduled post\(s\)/);
+
+    const due = parseMarkdown(backend.files.get('src/content/blog/due.md')!).frontmatter;
+    expect(due.draft).toBe(false);
+    expect('scheduled' in due).toBe(false);
+    expect(parseMarkdown(backend.files.get('src/content/news/flash.md')!).frontmatter).toEqual({ title: 'Flash' });
+    expect(parseMarkdown(backend.files.get('src/content/blog/future.md')!).frontmatter.draft).toBe(true);
+    // Collections without `schedule` are never touched
+    expect(parseMarkdown(backend.files.get('src/content/docs/old.md')!).frontmatter.draft).toBe(true);
+
+    const log = await readPublishLog(backend);
+    expect(log).toHaveLength(1);
+    expect(log[0].ranAt).toBe(now.toISOString());
+  });
+
+  it('leaves drafts with a past date alone unless they were scheduled', async () => {
+    const backend = createMemoryPublishBackend(files());
+    const run = await runScheduledPublish(backend, now);
+
+    expect(run.published.map((entry) => entry.path)).not.toContain('src/content/blog/unscheduled.md');
+    expect(backend.files.get('src/content/blog/unscheduled.md')).toBe(files()['src/content/blog/unscheduled.md']);
+  });
+
+  it('writes nothing when no post is due', async () => {
+    const backend = createMemoryPublishBackend(files());
+    await runScheduledPublish(backend, now);
+    const run = await runScheduledPublish(backend, now);
+
+    expect(run.published).toEqual([]);
+    expect(backend.commits).toHaveLength(1);
+  });
+
+  it('prepends new runs to the log', async () => {
+    const backend = createMemoryPublishBackend(files());
+    await runScheduledPublish(backend, now);
+    const later = new Date('2026-03-06T00:00:00Z');
+    await runScheduledPublish(backend, later);
+
+    const log = await readPublishLog(backend);
+    expect(log.map((run) => run.ranAt)).toEqual([later.toISOString(), now.toISOString()]);
+    expect(log[0].published.map((entry) => entry.path)).toEqual(['src/content/blog/future.md']);
+  });
+
+  it('does nothing without a v2 config', async () => {
+    const backend = createMemoryPublishBackend({ 'src/content/blog/due.md': post('draft: true\nscheduled: true\npublishDate: 2020-01-01') });
+    const run = await runScheduledPublish(backend, now);
+    expect(run.published).toEqual([]);
+    expect(backend.commits).toEqual([]);
+  });
+});
+
+describe('createGitPublishBackend', () => {
+  const response = (status: number, body: any) => ({
+    ok: status < 400,
+    status,
+    headers: { get: (name: string) => (name === 'content-type' ? 'application/json' : null) },
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reads each file with one request and maps a 404 to null', async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url.includes('/contents/src/content/blog/a.md')) return response(200, { sha: 's1', encoding: 'base64', content: btoa('# A') });
+      if (url.includes('/contents/src/content/blog/broken.md')) return response(500, { message: 'boom' });
+      return response(404, { message: 'Not Found' });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    const backend = createGitPublishBackend({ token: 't', owner: 'o', repo: 'r', service: 'github' });
+
+    await expect(backend.readFile('src/content/blog/a.md')).resolves.toBe('# A');
+    await expect(backend.readFile('src/content/blog/missing.md')).resolves.toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await expect(backend.readFile('src/content/blog/broken.md')).rejects.toThrow(/Git API 500/);
+  });
+});
+
+describe('POST /api/cron/publish', () => {
+  const call = (headers: Record<string, string>, env: Record<string, string>) =>
+    handleCronPublish({
+      request: new Request('http://localhost/api/cron/publish', { method: 'POST', headers }),
+      locals: { runtime: { env } },
+    } as any);
+
+  it('refuses every request without a configured secret', async () => {
+    const res = await call({ Authorization: 'Bearer anything' }, {});
+    expect(res.status).toBe(503);
+  });
+
+  it('rejects a missing or wrong bearer token', async () => {
+    expect((await call({}, { CMS_CRON_SECRET: 's3cret' })).status).toBe(401);
+    expect((await call({ Authorization: 'Bearer nope' }, { CMS_CRON_SECRET: 's3cret' })).status).toBe(401);
+  });
+});
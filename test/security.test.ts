@@ -26,6 +26,7 @@ vi.mock('../src/lib/session', async (importOriginal) => {
 vi.mock('../src/lib/git-client', () => {
   return {
     createGitConfig: vi.fn().mockReturnValue({}),
+    verifyTokenAccess: vi.fn().mockResolvedValue(true),
     getFileSha: vi.fn().mockResolvedValue('existing-sha'),
     uploadFile: vi.fn(),
   };
@@ -193,6 +194,44 @@ describe('Edge Security Hardening TDD Tests', () => {
       expect(context.redirect).toHaveBeenCalledWith(expect.stringContaining('Invalid%20credentials'));
       expect(context.cookies.set).not.toHaveBeenCalled();
     });
+
+    describe('Connect Mode instance URL', () => {
+      const login = async (fields: Record<string, string>, ip: string) => {
+        vi.stubEnv('GITHUB_TOKEN', '');
+        vi.stubEnv('CMS_REPO', '');
+        vi.stubEnv('CMS_INSTANCE_URL', '');
+        const formData = new FormData();
+        formData.append('username', 'admin');
+        formData.append('password', 'correct-password');
+        Object.entries(fields).forEach(([key, value]) => formData.append(key, value));
+        const context = {
+          request: new Request('http://localhost/api/auth/login', { method: 'POST', body: formData }),
+          cookies: { set: vi.fn(), delete: vi.fn(), get: vi.fn() },
+          locals: {},
+          redirect: vi.fn().mockImplementation((url) => new Response(null, { status: 302, headers: { Location: url } })),
+          clientAddress: ip,
+        } as any;
+        await handleLogin(context);
+        return context;
+      };
+
+      it('never sends the token to an instance URL from the form', async () => {
+        const gitClient = await import('../src/lib/git-client');
+        vi.mocked(gitClient.createGitConfig).mockClear();
+        const context = await login({ repo: 'group/site', token: 'glpat-abc', service: 'gitlab', instanceUrl: 'http://169.254.169.254' }, '10.0.0.1');
+
+        expect(context.redirect).toHaveBeenCalledWith('/cms');
+        expect(vi.mocked(gitClient.createGitConfig).mock.calls[0]).toEqual(['glpat-abc', 'group/site', undefined, 'gitlab']);
+        const session = context.cookies.set.mock.calls.find((call: any[]) => call[0] === 'pageel_cms_session')[1];
+        expect(atob(session.split('.')[0])).not.toContain('169.254.169.254');
+      });
+
+      it('refuses Gitea without a configured CMS_INSTANCE_URL', async () => {
+        const context = await login({ repo: 'o/r', token: 't', service: 'gitea' }, '10.0.0.2');
+        expect(context.redirect).toHaveBeenCalledWith(expect.stringContaining('CMS_INSTANCE_URL'));
+        expect(context.cookies.set).not.toHaveBeenCalled();
+      });
+    });
   });
 
   describe('Magic Bytes and SVG Scrubbing', () => {
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { IGitService } from '../src/types';
+import { createCollection, type Workspace } from '../src/features/collections/types';
+import { loadCollectionsFromPageelrc, saveCollectionsToPageelrc } from '../src/features/collections/sync';
+import { buildMarkdown, parseMarkdown } from '../src/utils/parsing';
+
+const makeService = (initial?: string) => {
+  let stored = initial;
+  let version = 1;
+  const service = {
+    getFileSha: vi.fn(async () => (stored === undefined ? null : `sha${version}`)),
+    getFileContent: vi.fn(async () => {
+      if (stored === undefined) throw new Error('Git API 404');
+      return stored;
+    }),
+    createFileFromString: vi.fn(async (_path: string, content: string) => {
+      stored = content;
+    }),
+    updateFileContent: vi.fn(async (_path: string, content: string, _message: string, sha: string) => {
+      if (sha !== `sha${version}`) throw new Error('Git API 409: stale SHA');
+      stored = content;
+      version++;
+    }),
+  } as unknown as IGitService;
+  return { service, read: () => stored };
+};
+
+describe('singletons in .pageelrc.json', () => {
+  it('loads singletons and skips malformed ones', async () => {
+    const { service } = makeService(JSON.stringify({
+      version: 2,
+      collections: [{ id: 'blog', name: 'Blog', postsPath: 'src/content/blog', imagesPath: 'public/images' }],
+      singletons: [
+        { id: 'site', name: 'Site', path: 'src/data/site.json', template: { fields: [{ name: 'title', type: 'string' }] } },
+        { id: 'home', path: 'src/content/settings/home.md' },
+        { name: 'No id' },
+      ],
+      settings: { projectType: 'astro' },
+    }));
+
+    const loaded = await loadCollectionsFromPageelrc(service, 'owner/repo');
+    expect(loaded?.singletons).toEqual([
+      { id: 'site', name: 'Site', path: 'src/data/site.json', imagesPath: undefined, template: { fields: [{ name: 'title', type: 'string' }] } },
+      { id: 'home', name: 'home', path: 'src/content/settings/home.md', imagesPath: undefined, template: undefined },
+    ]);
+  });
+
+  it('saves singletons and omits the key when there are none', async () => {
+    const { service, read } = makeService();
+    const workspace: Workspace = {
+      repoId: 'owner/repo',
+      collections: [createCollection('blog', 'Blog', 'src/content/blog', 'public/images')],
+      activeCollectionId: 'blog',
+      singletons: [{ id: 'site', name: 'Site', path: 'src/data/site.yaml', imagesPath: 'public/images/site' }],
+      settings: { projectType: 'astro' } as Workspace['settings'],
+      createdAt: '',
+      updatedAt: '',
+    };
+
+    await saveCollectionsToPageelrc(service, workspace);
+    expect(JSON.parse(read()!).singletons).toEqual([
+      { id: 'site', name: 'Site', path: 'src/data/site.yaml', imagesPath: 'public/images/site' },
+    ]);
+
+    await saveCollectionsToPageelrc(service, { ...workspace, singletons: [] });
+    expect(JSON.parse(read()!)).not.toHaveProperty('singletons');
+    expect(service.updateFileContent).toHaveBeenCalledWith('.pageelrc.json', expect.any(String), 'chore: update pageel config', 'sha1');
+  });
+});
+
+describe('buildMarkdown', () => {
+  it('writes frontmatter and body that parse back unchanged', () => {
+    const content = buildMarkdown({ hero: 'Welcome', links: ['a', 'b'] }, 'Body text');
+    expect(content).toBe('---\nhero: Welcome\nlinks:\n  - a\n  - b\n---\nBody text');
+    expect(parseMarkdown(content)).toMatchObject({ frontmatter: { hero: 'Welcome', links: ['a', 'b'] }, body: 'Body text' });
+  });
+});
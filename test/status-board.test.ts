@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { IGitService } from '../src/types';
+import { createCollection } from '../src/features/collections/types';
+import { statusFieldOf, groupByStatus, commitStatusChange } from '../src/utils/statusBoard';
+import { parseMarkdown } from '../src/utils/parsing';
+
+const collection = {
+  ...createCollection('blog', 'Blog', 'src/content/blog', 'public/images'),
+  template: {
+    fields: [
+      { name: 'title', type: 'string' as const },
+      { name: 'status', type: 'select' as const, options: ['draft', 'review', 'published'] },
+      { name: 'stage', type: 'select' as const, options: ['idea', 'done'] },
+    ],
+  },
+};
+
+describe('statusFieldOf', () => {
+  it('uses the configured select field, else one named status', () => {
+    expect(statusFieldOf(collection)?.name).toBe('status');
+    expect(statusFieldOf({ ...collection, statusField: 'stage' })?.options).toEqual(['idea', 'done']);
+    expect(statusFieldOf({ ...collection, statusField: 'title' })).toBeUndefined();
+    expect(statusFieldOf({ ...collection, template: undefined })).toBeUndefined();
+  });
+
+  it('has no board for data collections', () => {
+    expect(statusFieldOf({ ...collection, kind: 'data' })).toBeUndefined();
+  });
+});
+
+describe('groupByStatus', () => {
+  it('puts entries in their column and leads with unknown statuses', () => {
+    const entries = [
+      { path: 'a.md', frontmatter: { status: 'review' } },
+      { path: 'b.md', frontmatter: {} },
+      { path: 'c.md', frontmatter: { status: 'draft' } },
+    ];
+    const columns = groupByStatus(entries, statusFieldOf(collection)!);
+    expect(columns.map((c) => [c.status, c.entries.map((e) => e.path)])).toEqual([
+      [null, ['b.md']],
+      ['draft', ['c.md']],
+      ['review', ['a.md']],
+      ['published', []],
+    ]);
+  });
+});
+
+describe('commitStatusChange', () => {
+  it('rewrites the status of the latest content and retries a SHA conflict', async () => {
+    let content = '---\ntitle: Hello\nstatus: draft\n---\nBody';
+    const updateFileContent = vi.fn()
+      .mockRejectedValueOnce(new Error('Git API 409: sha mismatch'))
+      .mockImplementation(async (_path: string, next: string) => { content = next; });
+    const service = {
+      getFileContent: vi.fn(async () => content),
+      getFileSha: vi.fn(async () => 'sha'),
+      updateFileContent,
+    } as unknown as IGitService;
+
+    await commitStatusChange(service, 'src/content/blog/hello.md', 'status', 'review');
+    expect(updateFileContent).toHaveBeenCalledTimes(2);
+    expect(updateFileContent.mock.calls[1][2]).toBe('fix(content): move "hello.md" to review');
+    expect(parseMarkdown(content)).toMatchObject({ frontmatter: { title: 'Hello', status: 'review' }, body: 'Body' });
+  });
+
+  it('refuses to write a status into a data file', async () => {
+    const service = {
+      getFileContent: vi.fn(async () => '[{"id":"a","status":"draft"}]'),
+      getFileSha: vi.fn(async () => 'sha'),
+      updateFileContent: vi.fn(),
+    } as unknown as IGitService;
+
+    await expect(commitStatusChange(service, 'src/data/team.json', 'status', 'review')).rejects.toThrow('not a Markdown post');
+    expect(service.updateFileContent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  termCounts,
+  collectTaxonomy,
+  applyTermChange,
+  planTaxonomyChange,
+  applyToVocabulary,
+  taxonomyCommitMessage,
+} from '../src/utils/taxonomy';
+import { parseMarkdown } from '../src/utils/parsing';
+import { createCollection, type Workspace } from '../src/features/collections/types';
+import { buildPageelrcContent } from '../src/features/collections/sync';
+
+const posts = [
+  { path: 'src/content/blog/a.md', rawContent: '---\ntitle: A\ntags:\n  - javascript\n  - astro\ncategory: guides\n---\nBody A\n' },
+  { path: 'src/content/blog/b.md', rawContent: '---\ntitle: B\ntags:\n  - JavaScript\n  - js\n---\nBody B\n' },
+  { path: 'src/content/blog/c.md', rawContent: '---\ntitle: C\ntags: [js]\nauthors:\n  - name: Jane\n---\nBody C\n' },
+];
+const parsed = posts.map((post) => ({ path: post.path, frontmatter: parseMarkdown(post.rawContent).frontmatter }));
+
+describe('collectTaxonomy', () => {
+  it('counts the posts using each term', () => {
+    expect(Object.fromEntries(termCounts(parsed, 'tags'))).toEqual({ javascript: 1, astro: 1, JavaScript: 1, js: 2 });
+  });
+
+  it('lists list fields with terms by usage and flags near-duplicates', () => {
+    const fields = collectTaxonomy(parsed, { fields: [{ name: 'category', type: 'multiselect' }] });
+    expect(fields.map((field) => field.name)).toEqual(['category', 'tags']);
+    const tags = fields[1].terms;
+    expect(tags[0]).toEqual({ term: 'js', count: 2, similar: [] });
+    expect(tags.find((item) => item.term === 'JavaScript')?.similar).toEqual(['javascript']);
+  });
+});
+
+describe('taxonomy changes', () => {
+  it('renames, merges without duplicates and deletes terms', () => {
+    expect(applyTermChange(['js', 'astro'], { kind: 'replace', field: 'tags', terms: ['js'], to: 'javascript' })).toEqual(['javascript', 'astro']);
+    expect(applyTermChange(['JavaScript', 'js'], { kind: 'replace', field: 'tags', terms: ['JavaScript', 'js'], to: 'javascript' })).toEqual(['javascript']);
+    expect(applyTermChange(['js', 'astro'], { kind: 'delete', field: 'tags', terms: ['js'] })).toEqual(['astro']);
+    expect(applyTermChange('guides', { kind: 'delete', field: 'category', terms: ['guides'] })).toBeUndefined();
+  });
+
+  it('plans file changes for the affected posts only', () => {
+    const change = { kind: 'replace' as const, field: 'tags', terms: ['JavaScript', 'js'], to: 'javascript' };
+    const changes = planTaxonomyChange(posts, change);
+    expect(changes.map((c) => c.path)).toEqual(['src/content/blog/b.md', 'src/content/blog/c.md']);
+    expect(parseMarkdown(changes[0].content!).frontmatter.tags).toEqual(['javascript']);
+    expect(parseMarkdown(changes[0].content!).body.trim()).toBe('Body B');
+
+    const removed = planTaxonomyChange(posts, { kind: 'delete', field: 'category', terms: ['guides'] });
+    expect(parseMarkdown(removed[0].content!).frontmatter).not.toHaveProperty('category');
+    expect(taxonomyCommitMessage(change, changes.length)).toBe('fix(content): merge tags "JavaScript", "js" into "javascript" in 2 posts');
+  });
+
+  it('keeps a vocabulary in step with the change', () => {
+    expect(applyToVocabulary(['astro', 'js'], { kind: 'replace', field: 'tags', terms: ['js'], to: 'javascript' })).toEqual(['astro', 'javascript']);
+    expect(applyToVocabulary(['astro'], { kind: 'replace', field: 'tags', terms: ['js'], to: 'javascript' })).toEqual(['astro', 'javascript']);
+    expect(applyToVocabulary(['astro', 'js'], { kind: 'delete', field: 'tags', terms: ['js'] })).toEqual(['astro']);
+  });
+
+  it('builds the config with the new vocabulary for the same commit, keeping plugins', () => {
+    const blog = { ...createCollection('blog', 'Blog', 'src/content/blog', 'public/images'), vocabularies: { tags: ['astro', 'javascript'] } };
+    const workspace = { repoId: 'o/r', collections: [blog], activeCollectionId: 'blog', settings: { projectType: 'astro' } } as unknown as Workspace;
+    const config = JSON.parse(buildPageelrcContent(workspace, JSON.stringify({ version: 2, plugins: { editor: 'milkdown' } })));
+    expect(config.collections[0].vocabularies).toEqual({ tags: ['astro', 'javascript'] });
+    expect(config.plugins).toEqual({ editor: 'milkdown' });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import type { CollectionTemplate } from '../src/features/collections/types';
+import { validateFrontmatter, formatValidationIssue, groupValidationIssues } from '../src/utils/validation';
+
+const t = (key: string, options?: Record<string, string | number>) =>
+  options ? `${key} ${JSON.stringify(options)}` : key;
+
+const rules = (issues: ReturnType<typeof validateFrontmatter>) => issues.map((issue) => `${issue.path}:${issue.rule}`);
+
+describe('validateFrontmatter', () => {
+  it('reports empty required fields and skips optional ones', () => {
+    const template: CollectionTemplate = {
+      fields: [
+        { name: 'title', type: 'string', required: true },
+        { name: 'tags', type: 'array', required: true },
+        { name: 'summary', type: 'string', validation: { minLength: 10 } },
+      ],
+    };
+    expect(rules(validateFrontmatter({ title: '  ', tags: [] }, template))).toEqual(['title:required', 'tags:required']);
+  });
+
+  it('checks string length and patterns', () => {
+    const template: CollectionTemplate = {
+      fields: [
+        { name: 'title', type: 'string', validation: { minLength: 5, maxLength: 10 } },
+        { name: 'code', type: 'string', validation: { pattern: '^[A-Z]{3}$', patternMessage: 'Three capitals' } },
+      ],
+    };
+    const issues = validateFrontmatter({ title: 'Hi', code: 'abc' }, template);
+    expect(rules(issues)).toEqual(['title:minLength', 'code:pattern']);
+    expect(formatValidationIssue(issues[1], t)).toBe('code: Three capitals');
+    expect(rules(validateFrontmatter({ title: 'Far too long', code: 'ABC' }, template))).toEqual(['title:maxLength']);
+  });
+
+  it('ignores an invalid pattern instead of failing every value', () => {
+    const template: CollectionTemplate = { fields: [{ name: 'code', type: 'string', validation: { pattern: '(' } }] };
+    expect(validateFrontmatter({ code: 'x' }, template)).toEqual([]);
+  });
+
+  it('checks numeric and date ranges', () => {
+    const template: CollectionTemplate = {
+      fields: [
+        { name: 'rating', type: 'number', validation: { min: 1, max: 5 } },
+        { name: 'publishDate', type: 'date', validation: { minDate: '2026-01-01', maxDate: '2026-12-31' } },
+      ],
+    };
+    expect(rules(validateFrontmatter({ rating: 7, publishDate: '2025-06-01' }, template))).toEqual(['rating:max', 'publishDate:minDate']);
+    // A date-only maximum includes the whole day
+    expect(validateFrontmatter({ rating: 3, publishDate: '2026-12-31T18:00:00Z' }, template)).toEqual([]);
+    expect(rules(validateFrontmatter({ rating: 0, publishDate: new Date('2027-01-02') }, template))).toEqual(['rating:min', 'publishDate:maxDate']);
+  });
+
+  it('checks allowed values and array constraints', () => {
+    const template: CollectionTemplate = {
+      fields: [
+        { name: 'status', type: 'select', validation: { allowedValues: ['draft', 'published'] } },
+        { name: 'tags', type: 'array', validation: { minItems: 1, maxItems: 3, uniqueItems: true, allowedValues: ['a', 'b', 'c', 'd'] } },
+      ],
+    };
+    const issues = validateFrontmatter({ status: 'archived', tags: ['a', 'b', 'a', 'x'] }, template);
+    expect(rules(issues)).toEqual(['status:allowedValues', 'tags:allowedValues', 'tags:maxItems', 'tags:uniqueItems']);
+    expect(issues[1].params.invalid).toBe('x');
+  });
+
+  it('validates nested objects and repeatable groups with readable paths', () => {
+    const template: CollectionTemplate = {
+      fields: [
+        { name: 'seo', type: 'object', fields: [{ name: 'title', type: 'string', validation: { maxLength: 5 } }] },
+        { name: 'authors', type: 'array', fields: [{ name: 'name', type: 'string', required: true }] },
+      ],
+    };
+    const issues = validateFrontmatter({ seo: { title: 'Too long' }, authors: [{ name: 'A' }, { name: '' }] }, template);
+    expect(rules(issues)).toEqual(['seo › title:maxLength', 'authors #2 › name:required']);
+    expect(Object.keys(groupValidationIssues(issues, t))).toEqual(['seo', 'authors']);
+  });
+
+  it('passes everything without a template', () => {
+    expect(validateFrontmatter({ title: '' }, undefined)).toEqual([]);
+  });
+
+  it('rejects terms outside a controlled vocabulary, templated or not', () => {
+    const issues = validateFrontmatter({ tags: ['astro', 'js'], category: 'news' }, undefined, { tags: ['astro', 'javascript'], category: ['news'] });
+    expect(rules(issues)).toEqual(['tags:vocabulary']);
+    expect(issues[0].params).toEqual({ invalid: 'js' });
+  });
+});